@@ -5,7 +5,11 @@
 
 declare module 'plivo-browser-sdk' {
     import { Client, ConfiguationOptions } from 'plivo-browser-sdk/client';
+    import { HttpBatchSink, ConsoleSink } from 'plivo-browser-sdk/stats/sinks';
     class Plivo {
+        static HttpBatchSink: typeof HttpBatchSink;
+        static ConsoleSink: typeof ConsoleSink;
+        static Logger: import("./logger").PlivoLogger;
         client: Client;
         constructor(options: ConfiguationOptions);
     }
@@ -14,11 +18,31 @@ declare module 'plivo-browser-sdk' {
 
 declare module 'plivo-browser-sdk/client' {
     import { EventEmitter } from 'events';
-    import { WebSocketInterface, UA, RTCSession } from 'plivo-jssip';
+    import { WebSocketInterface, UA, RTCSession, Socket } from 'plivo-jssip';
     import { Logger, AvailableLogMethods, AvailableFlagValues, DtmfOptions } from 'plivo-browser-sdk/logger';
-    import { CallSession } from 'plivo-browser-sdk/managers/callSession';
+    import * as documentUtil from 'plivo-browser-sdk/media/document';
+    import Account, { LoginFailureReason } from 'plivo-browser-sdk/managers/account';
+    import { TransferProgress } from 'plivo-browser-sdk/managers/transfer';
+    import { CallSession, CallInfo } from 'plivo-browser-sdk/managers/callSession';
+    import { Call } from 'plivo-browser-sdk/managers/call';
+    import { UnloadListeners } from 'plivo-browser-sdk/managers/util';
     import { StatsSocket } from 'plivo-browser-sdk/stats/ws';
+    import { TelemetryBuffer } from 'plivo-browser-sdk/stats/telemetryBuffer';
+    import { ConferenceMixer } from 'plivo-browser-sdk/media/conferenceMixer';
+    import { CallWaitingTone } from 'plivo-browser-sdk/media/callWaitingTone';
+    import { FeedbackIssueTypes, FeedbackOptions, FeedbackResult } from 'plivo-browser-sdk/utils/feedback';
     import { OutputDevices, InputDevices, RingToneDevices } from 'plivo-browser-sdk/media/audioDevice';
+    import { PreflightOptions, PreflightReport, PreflightProgress } from 'plivo-browser-sdk/utils/preflight';
+    import { CallQualityReport } from 'plivo-browser-sdk/stats/qualityReport';
+    import { StatsSink } from 'plivo-browser-sdk/stats/sinks';
+    import { SipTrace, SipTraceFormat, SipTraceRecorder } from 'plivo-browser-sdk/stats/sipTrace';
+    import { CallHistory, CallHistoryEntry } from 'plivo-browser-sdk/stats/callHistory';
+    import { ReceivedMessage, ReceivedInfo } from 'plivo-browser-sdk/managers/messaging';
+    import { AutoAnswerInfo } from 'plivo-browser-sdk/managers/autoAnswer';
+    import { WaitingCallInfo } from 'plivo-browser-sdk/managers/callWaiting';
+    import { IncomingCallRule, IncomingCallMatcher, IncomingCallFilterResult, DoNotDisturbOptions } from 'plivo-browser-sdk/managers/callFilter';
+    import { FeedbackQueue } from 'plivo-browser-sdk/stats/feedbackQueue';
+    import { LiveStats, StatsSubscription, StatsSubscriptionOptions, StatsUnsubscribe } from 'plivo-browser-sdk/stats/liveStats';
     export interface PlivoObject {
             log: typeof Logger;
             sendEvents?: (obj: any, session: CallSession) => void;
@@ -42,9 +66,81 @@ declare module 'plivo-browser-sdk/client' {
             disableRtpTimeOut?: boolean;
             allowMultipleIncomingCalls?: boolean;
             closeProtection?: boolean;
+            earlyMedia?: boolean;
             maxAverageBitrate?: number;
             dtmfOptions?: DtmfOptions;
+            tokenProvider?: null | (() => Promise<string> | string);
+            registerExpires?: number;
+            reconnectionPolicy?: ReconnectionPolicy;
+            loginTimeout?: number;
+            transport?: null | Socket;
+            qualityThresholds?: QualityThresholdsOptions;
+            statsSinks?: StatsSink[];
+            statsBeaconUrl?: null | string;
+            autoAnswer?: AutoAnswerPolicy;
+            callWaitingTone?: CallWaitingToneOptions;
+    }
+    export interface ReconnectionPolicy {
+            minInterval: number;
+            maxInterval: number;
+            jitter: number;
+            maxAttempts: number;
+    }
+    /**
+        * Incoming calls answered without user action. In header mode calls carrying
+        * X-PH-AutoAnswer or Call-Info with answer-after are answered, in caller mode
+        * calls from the listed callers are answered.
+        */
+    export interface AutoAnswerPolicy {
+            mode: 'off' | 'always' | 'header' | 'caller';
+            callers: IncomingCallMatcher[];
+            delay: number;
+            beep: boolean;
+    }
+    /**
+        * Tone played during the active call when another call comes in. The cadence lists
+        * alternating tone and silence durations in milliseconds, starting with a tone, and
+        * is repeated every interval milliseconds.
+        */
+    export interface CallWaitingToneOptions {
+            enabled: boolean;
+            frequency: number;
+            volume: number;
+            cadence: number[];
+            interval: number;
+    }
+    /**
+        * Stats are analysed in windows of windowSize samples. A warning is raised when at least
+        * raiseCount samples of a window cross the threshold and cleared when at most clearCount do.
+        */
+    export interface QualityWindow {
+            windowSize: number;
+            raiseCount: number;
+            clearCount: number;
+    }
+    export interface QualityThresholds {
+            rtt: QualityWindow & {
+                    threshold: number;
+            };
+            jitter: QualityWindow & {
+                    threshold: number;
+            };
+            packetLoss: QualityWindow & {
+                    threshold: number;
+                    opusThreshold: number;
+            };
+            mos: QualityWindow & {
+                    threshold: number;
+            };
+            audioLevel: {
+                    silenceDuration: number;
+                    windowSize: number;
+                    clearCount: number;
+            };
     }
+    export type QualityThresholdsOptions = {
+            [metric in keyof QualityThresholds]?: Partial<QualityThresholds[metric]>;
+    };
     export interface BrowserDetails {
             browser: string;
             version: number;
@@ -52,6 +148,96 @@ declare module 'plivo-browser-sdk/client' {
     export interface ExtraHeaders {
             [key: string]: string;
     }
+    export interface ConnectionChangeInfo {
+            state: string;
+            eventCode?: null | number;
+            eventReason?: null | string;
+    }
+    export interface HangupInfo {
+            originator: string;
+            reason: string;
+    }
+    export interface CallProgress {
+            statusCode: number;
+            earlyMedia: boolean;
+    }
+    export interface MediaMetricsInfo {
+            group: string;
+            level: string;
+            type: string;
+            value: number;
+            active: boolean;
+            desc: string;
+            stream: string;
+            threshold?: number;
+    }
+    /**
+        * Events emitted by the client mapped to the signature of their listeners.
+        */
+    export interface ClientEvents {
+            onWebrtcNotSupported: () => void;
+            onMediaPermission: (evt: documentUtil.AudioEvent) => void;
+            onLogin: () => void;
+            onLogout: () => void;
+            onLoginFailed: (cause: string, reason?: LoginFailureReason) => void;
+            onConnectionChange: (info: ConnectionChangeInfo) => void;
+            onReconnecting: (info: {
+                    attempt: number;
+                    maxAttempts: number;
+                    delay: number;
+            }) => void;
+            onReconnected: (info: {
+                    attempts: number;
+            }) => void;
+            onTokenExpiring: (info: {
+                    expiresAt: number;
+            }) => void;
+            onTokenRefreshFailed: (info: {
+                    reason: string;
+                    expiresAt: number;
+            }) => void;
+            onCalling: () => void;
+            onCallRemoteRinging: (callInfo: CallInfo) => void;
+            onCallProgress: (progress: CallProgress, callInfo: CallInfo) => void;
+            onIncomingCall: (callerId: string, extraHeaders: ExtraHeaders, callInfo: CallInfo, callerName: string, call: Call) => void;
+            onIncomingCallCanceled: (callInfo: CallInfo) => void;
+            onIncomingCallIgnored: (callInfo: CallInfo) => void;
+            onIncomingCallFiltered: (result: IncomingCallFilterResult) => void;
+            onAutoAnswered: (callInfo: CallInfo, autoAnswer: AutoAnswerInfo) => void;
+            onCallWaiting: (waitingCallInfo: WaitingCallInfo) => void;
+            onCallAnswered: (callInfo: CallInfo) => void;
+            onMediaConnected: (callInfo: CallInfo) => void;
+            onCallStateChange: (prevState: string, state: string, callInfo: CallInfo) => void;
+            onCallHeld: (holdInfo: {
+                    originator: string;
+            }, callInfo: CallInfo) => void;
+            onCallResumed: (holdInfo: {
+                    originator: string;
+            }, callInfo: CallInfo) => void;
+            onCallTerminated: (hangupInfo: HangupInfo, callInfo: CallInfo) => void;
+            onCallFailed: (cause: string, callInfo?: CallInfo) => void;
+            onCallsMerged: (callInfos: CallInfo[]) => void;
+            onCallsSplit: (callInfos: CallInfo[]) => void;
+            onTransferProgress: (progress: TransferProgress, callInfo: CallInfo) => void;
+            onTransferFailed: (failure: {
+                    statusCode: number | null;
+                    reason: string;
+            }, callInfo: CallInfo) => void;
+            mediaMetrics: (metrics: MediaMetricsInfo) => void;
+            audioDeviceChange: (deviceChange: {
+                    change: string;
+                    device: MediaDeviceInfo | string;
+            }) => void;
+            volume: (audioStats: {
+                    inputVolume: string;
+                    outputVolume: string;
+            }) => void;
+            onPreflightProgress: (progress: PreflightProgress) => void;
+            onCallQualityReport: (report: CallQualityReport, callInfo: CallInfo) => void;
+            onFeedbackSent: (result: FeedbackResult) => void;
+            onMessageReceived: (message: ReceivedMessage) => void;
+            onInfoReceived: (info: ReceivedInfo, callInfo: CallInfo) => void;
+    }
     export interface Storage {
             local_audio: any[];
             remote_audio: any[];
@@ -77,6 +263,15 @@ declare module 'plivo-browser-sdk/client' {
                     ice_connection: boolean;
             };
     }
+    /**
+        * Event listener methods of the client typed with ClientEvents.
+        */
+    export interface Client {
+            on<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): this;
+            once<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): this;
+            off<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): this;
+            emit<E extends keyof ClientEvents>(event: E, ...args: Parameters<ClientEvents[E]>): boolean;
+    }
     /**
         * Initializes the client.
         * @public
@@ -161,6 +356,11 @@ declare module 'plivo-browser-sdk/client' {
                 * @private
                 */
             _lastCallSession: null | CallSession;
+            /**
+                * Contains the established calls identifiers with their call session(active and on hold)
+                * @private
+                */
+            activeCalls: Map<string, CallSession>;
             /**
                 * Contains the ongoing incoming calls identifiers with their call session
                 * @private
@@ -171,6 +371,46 @@ declare module 'plivo-browser-sdk/client' {
                 * @private
                 */
             incomingCallsInitiationTime: Map<string, any>;
+            /**
+                * Contains the quality reports of the latest ended calls by CallUUID
+                * @private
+                */
+            callQualityReports: Map<string, CallQualityReport>;
+            /**
+                * Captures the sip messages of the latest calls
+                * @private
+                */
+            sipTrace: SipTraceRecorder;
+            /**
+                * Latest ended calls for which feedback can be submitted
+                * @private
+                */
+            callHistory: CallHistory;
+            /**
+                * Feedback waiting for the client to be online and logged in
+                * @private
+                */
+            feedbackQueue: FeedbackQueue;
+            /**
+                * Predefined and registered issues accepted in feedback
+                * @private
+                */
+            feedbackIssues: FeedbackIssueTypes;
+            /**
+                * Rules deciding whether an incoming call rings, evaluated in order
+                * @private
+                */
+            incomingCallRules: IncomingCallRule[];
+            /**
+                * Do not disturb settings for incoming calls
+                * @private
+                */
+            doNotDisturb: DoNotDisturbOptions;
+            /**
+                * Callbacks registered for receiving the stats collected during calls
+                * @private
+                */
+            statsSubscriptions: StatsSubscription[];
             /**
                 * Holds the call session of previous incoming call
                 * @private
@@ -191,6 +431,16 @@ declare module 'plivo-browser-sdk/client' {
                 * @private
                 */
             password: null | string;
+            /**
+                * Access token given when logging in with token
+                * @private
+                */
+            accessToken: null | string;
+            /**
+                * Holds the account of the logged in user
+                * @private
+                */
+            account: null | Account;
             /**
                 * Options passed by the user while instantiating the client class
                 * @private
@@ -270,6 +520,21 @@ declare module 'plivo-browser-sdk/client' {
                 * @private
                 */
             statsSocket: null | StatsSocket;
+            /**
+                * Holds the stats messages which are not yet sent to the stats socket
+                * @private
+                */
+            telemetryBuffer: TelemetryBuffer;
+            /**
+                * Set when the page is being unloaded, events are then sent as beacons to statsBeaconUrl
+                * @private
+                */
+            isUnloading: boolean;
+            /**
+                * Page lifecycle listeners added for the active calls
+                * @private
+                */
+            unloadListeners: UnloadListeners | null;
             /**
                 * Contains available audio devices.This is done for backward compatiblity
                 * @private
@@ -308,6 +573,26 @@ declare module 'plivo-browser-sdk/client' {
                 * @private
                 */
             connectToneView: HTMLAudioElement;
+            /**
+                * Media url of the audio played to the other party while the call is on hold
+                * @private
+                */
+            holdMusicUrl: null | string;
+            /**
+                * Plays the call waiting tone during the active call
+                * @private
+                */
+            callWaitingTone: CallWaitingTone;
+            /**
+                * Mixes the audio of the merged calls
+                * @private
+                */
+            conferenceMixer: null | ConferenceMixer;
+            /**
+                * Holds the call sessions which are merged into the local conference
+                * @private
+                */
+            conferenceCalls: CallSession[];
             /**
                 * Explains whether login method is called.
                 * @private
@@ -361,6 +646,11 @@ declare module 'plivo-browser-sdk/client' {
                 * @private
                 */
             networkChangeInCurrentSession: boolean;
+            /**
+                * Number of incoming calls rejected or ignored by the filter during current session
+                * @private
+                */
+            filteredCallsInCurrentSession: number;
             /**
                 * Holds a boolean to get initial network info
                 * @private
@@ -381,6 +671,12 @@ declare module 'plivo-browser-sdk/client' {
                 * @param {String} password
                 */
             login: (username: string, password: string) => boolean;
+            /**
+                * Register using a JWT access token. When already registered with the same endpoint, the
+                * registration is refreshed with the new token without affecting the ongoing calls.
+                * @param {String} token - JWT access token
+                */
+            loginWithToken: (token: string) => boolean;
             /**
                 * Unregister and clear stats timer, socket.
                 */
@@ -390,8 +686,9 @@ declare module 'plivo-browser-sdk/client' {
                 * @param {String} phoneNumber - It can be a sip endpoint/number
                 * @param {Object} extraHeaders - (Optional) Custom headers which are passed in the INVITE.
                 * They should start with 'X-PH'
+                * @returns Call object for the new call or false if the call could not be placed
                 */
-            call: (phoneNumber: string, extraHeaders: ExtraHeaders) => boolean;
+            call: (phoneNumber: string, extraHeaders: ExtraHeaders) => Call | false;
             /**
                 * Answer the incoming call.
                 * @param {String} callUUID - (Optional) Provide latest CallUUID to answer the call
@@ -402,8 +699,10 @@ declare module 'plivo-browser-sdk/client' {
             answer: (callUUID: string, actionOnOtherIncomingCalls: string) => boolean;
             /**
                 * Hangup the call(Outgoing/Incoming).
+                * @param {String} callUUID - (Optional) Provide CallUUID to hangup a call other than the
+                * active call
                 */
-            hangup: () => boolean;
+            hangup: (callUUID?: string | undefined) => boolean;
             /**
                 * Reject the Incoming call.
                 * @param {String} callUUID - (Optional) Provide latest CallUUID to reject the call
@@ -418,16 +717,70 @@ declare module 'plivo-browser-sdk/client' {
                 * Send DTMF for call(Outgoing/Incoming).
                 * @param {String} digit - Send the digits as dtmf 'digit'
                 * ("1", "2", "3", "4", "5", "6", "7", "8", "9", "0", "*", "#")
+                * @param {String} callUUID - (Optional) Provide CallUUID to send DTMF on a call other than the
+                * active call
                 */
-            sendDtmf: (digit: string | number) => void;
+            sendDtmf: (digit: string | number, callUUID?: string | undefined) => void;
             /**
                 * Mute the call(Outgoing/Incoming).
+                * @param {String} callUUID - (Optional) Provide CallUUID to mute a call other than the
+                * active call
                 */
-            mute: () => boolean;
+            mute: (callUUID?: string | undefined) => boolean;
             /**
                 * Unmute the call(Outgoing/Incoming).
+                * @param {String} callUUID - (Optional) Provide CallUUID to unmute a call other than the
+                * active call
                 */
-            unmute: () => boolean;
+            unmute: (callUUID?: string | undefined) => boolean;
+            /**
+                * Get all the established calls. Only one of them is active, the others are on hold.
+                */
+            getCalls: () => CallInfo[];
+            /**
+                * Put the active call on hold and resume the given call.
+                * @param {String} callUUID - Provide CallUUID of the call to be made active
+                */
+            switchTo: (callUUID: string) => boolean;
+            /**
+                * Merge two answered calls into a local three-way conference.
+                * @param {String|Call} callA - CallUUID or call object of the first call
+                * @param {String|Call} callB - CallUUID or call object of the second call
+                */
+            merge: (callA: string | Call, callB: string | Call) => boolean;
+            /**
+                * Split the merged calls. The active call stays connected and the other call is put on hold.
+                */
+            split: () => boolean;
+            /**
+                * Put the call(Outgoing/Incoming) on hold.
+                */
+            hold: () => boolean;
+            /**
+                * Resume the call(Outgoing/Incoming) which was put on hold.
+                */
+            unhold: () => boolean;
+            /**
+                * Check if the call(Outgoing/Incoming) is put on hold by the user.
+                */
+            isOnHold: () => boolean;
+            /**
+                * Transfer the call(Outgoing/Incoming) to another sip endpoint/number.
+                * @param {String} target - It can be a sip endpoint/number
+                * @param {ExtraHeaders} extraHeaders - (Optional) Custom headers which are passed in the REFER.
+                * They should start with 'X-PH'
+                */
+            transfer: (target: string, extraHeaders?: ExtraHeaders) => boolean;
+            /**
+                * Transfer the call(Outgoing/Incoming) to the party of a consultation call.
+                * @param {String} consultCallUUID - CallUUID of the answered consultation call
+                */
+            attendedTransfer: (consultCallUUID: string) => boolean;
+            /**
+                * Configure the audio played to the other party while the call is on hold.
+                * @param {Any} val - Can be media url or false for disabling hold music
+                */
+            setHoldMusic: (val: string | boolean) => boolean;
             /**
                 * Configure the ringtone played when an incoming call starts ringing.
                 * @param {Any} val - Can be media url or boolean value for enabling/disabling default ringtone
@@ -458,6 +811,38 @@ declare module 'plivo-browser-sdk/client' {
                 * Get the CallUUID of the latest answered call.
                 */
             getLastCallUUID: () => string | null;
+            /**
+                * Get the quality report of an active call or of one of the latest ended calls.
+                * @param {String} callUUID - CallUUID of the call
+                * @returns Stats summary of the call or null if no report is available
+                */
+            getCallQualityReport: (callUUID: string) => CallQualityReport | null;
+            /**
+                * Get the number of stats messages waiting to be sent, including the ones
+                * persisted by an earlier page load.
+                */
+            getPendingTelemetryCount: () => number;
+            /**
+                * Get the sip messages sent and received for a call.
+                * @param {String} callUUID - CallUUID of the call
+                * @returns Messages with timestamp and direction or null if the call is not traced
+                */
+            getSipTrace: (callUUID: string) => SipTrace | null;
+            /**
+                * Export the sip messages of a call for sharing with support.
+                * @param {String} callUUID - CallUUID of the call
+                * @param {SipTraceFormat} format - (Optional) ladder text or pcap like json, defaults to ladder
+                * @returns Exported trace or null if the call is not traced
+                */
+            exportSipTrace: (callUUID: string, format?: SipTraceFormat) => string | null;
+            /**
+                * Receive the stats of the active call every time they are collected.
+                * @param {Function} callback - receives bitrate, packets, jitter, MOS and audio levels
+                * @param {StatsSubscriptionOptions} options - (Optional) interval in milliseconds at which
+                * stats are delivered, rounded to the stats collection interval
+                * @returns Function to stop receiving stats
+                */
+            onStats: (callback: (stats: LiveStats) => void, options?: StatsSubscriptionOptions | undefined) => StatsUnsubscribe;
             /**
                 * Get a list of incoming calls which are active.
                 */
@@ -489,8 +874,84 @@ declare module 'plivo-browser-sdk/client' {
                 * @param {Array<String>} issues - Provide suspected issues
                 * @param {String} note - Send any remarks
                 * @param {Boolean} sendConsoleLogs - Send browser logs to Plivo
+                * @param {Boolean} sendSipTrace - (Optional) Send sip messages of the call along with the logs
+                * @param {FeedbackOptions} options - (Optional) metadata and call quality report to attach
+                * @returns Fulfills with the result, feedback is queued while offline or logged out and
+                * fails when it can not be stored for later
+                */
+            submitCallQualityFeedback: (callUUID: string, starRating: string, issues: string[], note: string, sendConsoleLogs: boolean, sendSipTrace?: boolean, options?: FeedbackOptions) => Promise<FeedbackResult>;
+            /**
+                * Accept custom issues in feedback along with the predefined issues.
+                * @param {Array<String>|Object} issues - issue names, or issue names with the value reported
+                * @returns Issues accepted in feedback
+                */
+            registerFeedbackIssues: (issues: string[] | FeedbackIssueTypes) => string[];
+            /**
+                * Get the issues accepted in feedback.
+                */
+            getFeedbackIssues: () => string[];
+            /**
+                * Get the latest ended calls, including the ones of earlier page loads.
+                * @returns Calls for which feedback can be submitted, latest first
                 */
-            submitCallQualityFeedback: (callUUID: string, starRating: string, issues: string[], note: string, sendConsoleLogs: boolean) => Promise<string>;
+            getCallHistory: () => CallHistoryEntry[];
+            /**
+                * Get the number of feedback waiting for the client to be online and logged in.
+                */
+            getQueuedFeedbackCount: () => number;
+            /**
+                * Send the queued feedback, done automatically on login and when the network is back.
+                * @returns Fulfills with the results of the feedback sent
+                */
+            submitQueuedFeedback: () => Promise<FeedbackResult[]>;
+            /**
+                * Send a SIP MESSAGE to an endpoint for chat or application data.
+                * @param {String} to - sip endpoint or number
+                * @param {String} body - message content
+                * @param {String} contentType - (Optional) content type of the body, defaults to text/plain
+                * @returns Fulfills once the message is delivered, rejects with the failure reason
+                */
+            sendMessage: (to: string, body: string, contentType?: string | undefined) => Promise<void>;
+            /**
+                * Set the rules deciding what happens to incoming calls, the first matching rule applies.
+                * @param {IncomingCallRule[]} rules - match on caller id, display name or X-PH headers
+                * and reject, ignore, ring or flag the call
+                */
+            setIncomingCallRules: (rules: IncomingCallRule[]) => boolean;
+            /**
+                * Get the rules applied to incoming calls.
+                */
+            getIncomingCallRules: () => IncomingCallRule[];
+            /**
+                * Reject incoming calls while do not disturb is active.
+                * @param {Boolean|DoNotDisturbOptions} val - true/false or settings with an optional schedule
+                */
+            setDoNotDisturb: (val: boolean | DoNotDisturbOptions) => boolean;
+            /**
+                * Check if incoming calls are rejected by do not disturb right now.
+                */
+            isDoNotDisturbActive: () => boolean;
+            /**
+                * Answer an incoming call which is waiting during the active call.
+                * @param {String} callUUID - CallUUID of the waiting call
+                * @param {WaitingCallAction} action - (Optional) hold or hangup the active call, defaults to hold
+                */
+            answerWaitingCall: (callUUID: string, action?: "hold" | "hangup" | undefined) => boolean;
+            /**
+                * Reject an incoming call which is waiting during the active call.
+                * @param {String} callUUID - CallUUID of the waiting call
+                */
+            rejectWaitingCall: (callUUID: string) => boolean;
+            /**
+                * Get the incoming calls waiting during the active call.
+                */
+            getWaitingCalls: () => CallInfo[];
+            /**
+                * Check microphone, speaker and network readiness before placing calls.
+                * @param {PreflightOptions} options - (Optional) duration in seconds for which media is tested
+                * @returns Report with the result of each check
+                */
+            runPreflightTest: (options?: PreflightOptions | undefined) => Promise<PreflightReport>;
             /**
                 * @constructor
                 * @param options - (Optional) client configuration parameters
@@ -500,9 +961,124 @@ declare module 'plivo-browser-sdk/client' {
     }
 }
 
+declare module 'plivo-browser-sdk/stats/sinks' {
+    import { Client } from 'plivo-browser-sdk/client';
+    import { StatsObject } from 'plivo-browser-sdk/stats/rtpStats';
+    /**
+        * Receives the call events(CALL_ANSWERED, CALL_SUMMARY, FEEDBACK, NETWORK_CHANGE etc.)
+        * and the RTP stats collected during calls.
+        */
+    export interface StatsSink {
+            onEvent?: (event: {
+                    [key: string]: any;
+            }) => void;
+            onRtpStats?: (sample: StatsObject) => void;
+    }
+    export interface HttpBatchSinkOptions {
+            url: string;
+            headers?: {
+                    [key: string]: string;
+            };
+            batchSize?: number;
+            flushInterval?: number;
+    }
+    export interface StatsSinkRecord {
+            type: 'event' | 'rtp_stats';
+            data: {
+                    [key: string]: any;
+            };
+    }
+    /**
+        * Posts events and RTP stats to an HTTP endpoint in batches.
+        */
+    export class HttpBatchSink implements StatsSink {
+            /**
+                * Endpoint to which batches are posted
+                * @private
+                */
+            url: string;
+            /**
+                * Headers added to each request
+                * @private
+                */
+            headers: {
+                    [key: string]: string;
+            };
+            /**
+                * Number of records after which the batch is posted
+                * @private
+                */
+            batchSize: number;
+            /**
+                * Milliseconds after which a partial batch is posted
+                * @private
+                */
+            flushInterval: number;
+            /**
+                * Records waiting to be posted
+                * @private
+                */
+            buffer: StatsSinkRecord[];
+            /**
+                * Timer for posting a partial batch
+                * @private
+                */
+            flushTimer: ReturnType<typeof setTimeout> | null;
+            /**
+                * @constructor
+                * @param {HttpBatchSinkOptions} options - endpoint url, headers, batch size and flush interval
+                */
+            constructor(options: HttpBatchSinkOptions);
+            /**
+                * Add a call event to the batch. Batch is posted right away when the call ends.
+                * @param {Object} event - call event
+                */
+            onEvent: (event: {
+                    [key: string]: any;
+            }) => void;
+            /**
+                * Add RTP stats to the batch.
+                * @param {StatsObject} sample - RTP stats collected in one interval
+                */
+            onRtpStats: (sample: StatsObject) => void;
+            /**
+                * Post the records waiting in the buffer.
+                * @returns Fulfills when the batch is posted, failed batches are kept for the next flush
+                */
+            flush: () => Promise<void>;
+    }
+    /**
+        * Prints events and RTP stats in the browser console.
+        */
+    export class ConsoleSink implements StatsSink {
+            onEvent: (event: {
+                    [key: string]: any;
+            }) => void;
+            onRtpStats: (sample: StatsObject) => void;
+    }
+    /**
+        * Check if the application has configured any stats sink.
+        * @param {Client} client - client reference
+        */
+    export const hasStatsSinks: (client: Client) => boolean;
+    /**
+        * Send a call event to the configured stats sinks.
+        * @param {Object} event - call event with call information
+        */
+    export const sendEventToSinks: (event: {
+            [key: string]: any;
+    }) => void;
+    /**
+        * Send RTP stats to the configured stats sinks.
+        * @param {StatsObject} sample - RTP stats collected in one interval
+        */
+    export const sendRtpStatsToSinks: (sample: StatsObject) => void;
+}
+
 declare module 'plivo-browser-sdk/logger' {
     export type AvailableLogMethods = 'INFO' | 'DEBUG' | 'WARN' | 'ERROR' | 'ALL' | 'OFF' | 'ALL-PLAIN';
     export type AvailableFlagValues = 'ALL' | 'NONE' | 'REMOTEONLY' | 'LOCALONLY';
+    export type LogLevel = 'INFO' | 'DEBUG' | 'WARN' | 'ERROR';
     export interface DtmfOptions {
             sendDtmfType: string[];
     }
@@ -510,11 +1086,29 @@ declare module 'plivo-browser-sdk/logger' {
             enableDate?: boolean;
             loggingName?: 'PlivoSDK';
             logMethod?: AvailableLogMethods;
+            module?: string;
+    }
+    export interface LogRecord {
+            level: LogLevel;
+            timestamp: number;
+            module: string;
+            callUUID: string | null;
+            message: string;
+            fields: {
+                    [key: string]: any;
+            };
     }
+    export type LogTransport = (record: LogRecord) => void;
+    export type LogTransportRemove = () => void;
+    /**
+        * Hide passwords, tokens and ice candidate addresses in a log message.
+        * @param {String} text - log message
+        */
+    export const redactText: (text: string) => string;
     /**
         * Create a new logger.
         */
-    class PlivoLogger {
+    export class PlivoLogger {
             constructor(options?: LoggerOptions);
             info: (...rest: any[]) => void;
             debug: (...rest: any[]) => void;
@@ -523,6 +1117,38 @@ declare module 'plivo-browser-sdk/logger' {
             setLevel: (method: AvailableLogMethods) => string;
             level: () => string;
             consolelogs: () => string[];
+            /**
+                * Get a logger whose records are tagged with an sdk module.
+                * @param {String} module - name of the module
+                */
+            scope: (module: string) => PlivoLogger;
+            /**
+                * Override the log level of a module, OFF silences it.
+                * @param {String} module - name of the module
+                * @param {AvailableLogMethods} method - log level, null to follow the sdk log level
+                */
+            setModuleLevel: (module: string, method: AvailableLogMethods | null) => string;
+            /**
+                * Receive the log records which pass the log level.
+                * @param {LogTransport} transport - called with each log record
+                * @returns Function which removes the transport
+                */
+            addTransport: (transport: LogTransport) => LogTransportRemove;
+            /**
+                * Stop sending log records to a transport.
+                * @param {LogTransport} transport - transport added earlier
+                */
+            removeTransport: (transport: LogTransport) => void;
+            /**
+                * Get the log records kept in memory as JSON.
+                */
+            exportLogs: () => string;
+            /**
+                * Set the source of the CallUUID added to log records.
+                * @param {Function} provider - returns the CallUUID of the active call
+                * @private
+                */
+            setCallUUIDProvider: (provider: (() => string | null) | null) => void;
             /**
                 * Enable sip logs if log level is ALL.
                 * @param {AvailableLogMethods} debugLevel - passed by user while initializing client
@@ -533,37 +1159,181 @@ declare module 'plivo-browser-sdk/logger' {
     export {};
 }
 
-declare module 'plivo-browser-sdk/managers/callSession' {
-    import { RTCSession, SessionIceCandidateEvent, SessionFailedEvent, SessionEndedEvent } from 'plivo-jssip';
-    import { Client, ExtraHeaders } from 'plivo-browser-sdk/client';
-    import { GetRTPStats } from 'plivo-browser-sdk/stats/rtpStats';
-    export interface CallSessionOptions {
-            callUUID?: string;
-            sipCallID: string | null;
-            direction: string;
-            src: string;
-            dest: string;
-            session: RTCSession;
-            extraHeaders: ExtraHeaders;
-            call_initiation_time?: number;
-            client: Client;
-    }
-    export interface CallInfo {
-            callUUID: string;
-            direction: string;
-            src: string;
-            dest: string;
-            state: string;
-            extraHeaders: ExtraHeaders;
+declare module 'plivo-browser-sdk/media/document' {
+    import { DtmfOptions } from 'plivo-browser-sdk/logger';
+    import { Client, ConfiguationOptions } from 'plivo-browser-sdk/client';
+    export interface AudioEvent {
+            status: string;
+            stream?: boolean;
+            error?: string;
     }
-    export interface SignallingInfo {
-            call_initiation_time?: number;
-            answer_time?: number;
-            call_confirmed_time?: number;
-            post_dial_delay?: number;
-            hangup_time?: number;
-            hangup_party?: string;
-            hangup_reason?: string;
+    /**
+        * Create HTML audio elements for webrtc remote stream.
+        */
+    export const setupRemoteView: () => void;
+    /**
+        * Create HTML audio elements for all the tones played during the call.
+        * @param {Client} clientObject - client reference
+        * @param {ConfiguationOptions} options - client configuration parameters
+        */
+    export const setup: (clientObject: Client, options: ConfiguationOptions) => void;
+    /**
+        * Parse the DTMFOptions and return the option, inband, outband or default
+        * @param {String[]} dtmfOptions - list of dtmf options
+        */
+    export const getDTMFOption: (dtmfOptions?: DtmfOptions | undefined) => string;
+    /**
+        * Plays HTML audio elements based on element id.
+        * @param {String} elementId - audio element id
+        */
+    export const playAudio: (elementId: string, clientObj?: Client | undefined) => void;
+    /**
+        * Stops HTML audio elements based on element id.
+        * @param {String} elementId - audio element id
+        */
+    export const stopAudio: (elementId: string) => void;
+    /**
+        * Play a short beep, used for announcing auto answered calls.
+        */
+    export const playBeep: () => void;
+}
+
+declare module 'plivo-browser-sdk/managers/account' {
+    import { Client } from 'plivo-browser-sdk/client';
+    export interface LoginFailureReason {
+            code: string;
+            message: string;
+            timeout: number;
+            reconnectAttempts: number;
+    }
+    /**
+        * Initializes the Account.
+        */
+    class Account {
+            /**
+                * Holds the boolean whether failed event is triggered
+                */
+            isFailedMessageTriggered: boolean;
+            /**
+                * Validate the account credentials and session.
+                */
+            validate: () => boolean;
+            /**
+                * Handles signalling, transport account creation and its listners
+                */
+            setupUserAccount: () => void;
+            /**
+                * Creates signalling transport and account.
+                */
+            create: () => boolean;
+            /**
+                * Creates account, transport event listeners.
+                */
+            createListeners: () => void;
+            /**
+                * Re-register with a new access token without affecting the ongoing calls.
+                * @param {String} token - JWT access token
+                */
+            updateToken: (token: string) => boolean;
+            /**
+                * Check if the account is logged in with an access token.
+                */
+            isTokenLogin: () => boolean;
+            /**
+                * Stop the pending login timeout, reconnection attempt and access token refresh.
+                */
+            clearTimers: () => void;
+            /**
+                * Stop the scheduled access token refresh.
+                */
+            stopTokenRefresh: () => void;
+            reinviteCounter: number;
+            /**
+                * @construtor
+                * @param {Client} clientObject - client reference
+                * @param {String} userName
+                * @param {String} password - empty when logging in with an access token
+                * @param {String} token - (Optional) JWT access token used instead of password
+                * @private
+                */
+            constructor(clientObject: Client, userName: string, password: string, token?: string | null);
+    }
+    export default Account;
+}
+
+declare module 'plivo-browser-sdk/managers/transfer' {
+    import { Client, ExtraHeaders } from 'plivo-browser-sdk/client';
+    export interface TransferProgress {
+            status: string;
+            statusCode: number | null;
+            reason: string;
+    }
+    /**
+        * Transfer the current call to another sip endpoint/number(blind transfer).
+        * @param {Client} clientObject - client reference
+        * @param {String} target - sip endpoint/number to which the call is transferred
+        * @param {ExtraHeaders} extraHeaders - Custom headers which are passed in the REFER.
+        * They should start with 'X-PH'
+        */
+    export const blindTransfer: (clientObject: Client, target: string, extraHeaders: ExtraHeaders) => boolean;
+    /**
+        * Transfer the call held while consulting to the party of the consultation call
+        * (attended transfer). REFER is sent in the held call with Replaces pointing at the
+        * dialog of the consultation call.
+        * @param {Client} clientObject - client reference
+        * @param {String} consultCallUUID - CallUUID of the established consultation call
+        */
+    export const attendedTransfer: (clientObject: Client, consultCallUUID: string) => boolean;
+}
+
+declare module 'plivo-browser-sdk/managers/callSession' {
+    import { RTCSession, SessionIceCandidateEvent, SessionFailedEvent, SessionEndedEvent, SessionHoldEvent, SessionUnholdEvent, SessionNewInfoEvent } from 'plivo-jssip';
+    import { Client, ExtraHeaders } from 'plivo-browser-sdk/client';
+    import { HoldMusic } from 'plivo-browser-sdk/media/holdMusic';
+    import { Call } from 'plivo-browser-sdk/managers/call';
+    import { GetRTPStats } from 'plivo-browser-sdk/stats/rtpStats';
+    import { CallQualityCollector } from 'plivo-browser-sdk/stats/qualityReport';
+    import { IncomingCallFilterResult } from 'plivo-browser-sdk/managers/callFilter';
+    import { AutoAnswerInfo } from 'plivo-browser-sdk/managers/autoAnswer';
+    export interface CallSessionOptions {
+            callUUID?: string;
+            sipCallID: string | null;
+            direction: string;
+            src: string;
+            dest: string;
+            session: RTCSession;
+            extraHeaders: ExtraHeaders;
+            call_initiation_time?: number;
+            client: Client;
+            call?: Call;
+            incomingCallFilter?: IncomingCallFilterResult | null;
+            autoAnswer?: AutoAnswerInfo | null;
+    }
+    export interface CallInfo {
+            callUUID: string;
+            direction: string;
+            src: string;
+            dest: string;
+            state: string;
+            extraHeaders: ExtraHeaders;
+    }
+    export interface CallStateHistoryEntry {
+            state: string;
+            timestamp: number;
+    }
+    export interface HoldInterval {
+            hold_time: number;
+            unhold_time?: number;
+            originator: string;
+    }
+    export interface SignallingInfo {
+            call_initiation_time?: number;
+            answer_time?: number;
+            call_confirmed_time?: number;
+            post_dial_delay?: number;
+            hangup_time?: number;
+            hangup_party?: string;
+            hangup_reason?: string;
             invite_time?: number;
             call_progress_time?: number;
             signalling_errors?: {
@@ -572,6 +1342,7 @@ declare module 'plivo-browser-sdk/managers/callSession' {
                     error_description: string;
             };
             ring_start_time?: number;
+            hold_intervals?: HoldInterval[];
     }
     export interface MediaConnectionInformation {
             [key: string]: number;
@@ -593,6 +1364,7 @@ declare module 'plivo-browser-sdk/managers/callSession' {
                     CANCELED: string;
                     FAILED: string;
                     ENDED: string;
+                    HELD: string;
             };
             /**
                 * Unique identifier generated for a call by server
@@ -649,6 +1421,31 @@ declare module 'plivo-browser-sdk/managers/callSession' {
                 * @private
                 */
             stats: GetRTPStats | null;
+            /**
+                * Aggregates rtp stats and media warnings into the call quality report
+                * @private
+                */
+            qualityCollector: CallQualityCollector;
+            /**
+                * Set once the call summary event is sent, either on hangup or on page unload
+                * @private
+                */
+            isSummarySent: boolean;
+            /**
+                * Set when the early media of a 183 Session Progress is played instead of the ringback tone
+                * @private
+                */
+            earlyMedia: boolean;
+            /**
+                * Decision of the incoming call rules or do not disturb for an incoming call
+                * @private
+                */
+            incomingCallFilter: IncomingCallFilterResult | null;
+            /**
+                * Reason and delay for answering an incoming call automatically
+                * @private
+                */
+            autoAnswer: AutoAnswerInfo | null;
             /**
                 * Holds timestamp for each state of call
                 * @private
@@ -664,16 +1461,31 @@ declare module 'plivo-browser-sdk/managers/callSession' {
                 * @private
                 */
             postDialDelayEndTime: number | null;
+            /**
+                * Holds the hold music player while the call is put on hold by the user
+                * @private
+                */
+            holdMusic: HoldMusic | null;
+            /**
+                * Call object handed to the application for this call
+                * @private
+                */
+            call: Call;
             /**
                 * Update CallUUID in session.
                 * @param {String} callUUID - active call(Outgoing/Incoming) CallUUID
                 */
             setCallUUID: (callUUID: string | null) => void;
             /**
-                * Update state in session.
+                * Move the call to a new state if the transition is allowed.
                 * @param {String} state - active call(Outgoing/Incoming) state(this.STATE)
+                * @returns True if the call is in the given state after the update
+                */
+            setState: (state: string) => boolean;
+            /**
+                * Get every state the call has been in along with the time it entered the state.
                 */
-            setState: (state: string) => void;
+            getStateHistory: () => CallStateHistoryEntry[];
             /**
                 * Add stage at each state of call.
                 * @param {String} stage - Has state name and time at which state change happens
@@ -741,6 +1553,33 @@ declare module 'plivo-browser-sdk/managers/callSession' {
                 * @param {Number} sec - ice timeout seconds
                 */
             onIceTimeout: (cs: Client, sec: number) => void;
+            /**
+                * Triggered when the call(Outgoing/Incoming) is put on hold by either party.
+                * @param {Client} clientObject - client reference
+                * @param {SessionHoldEvent} evt - rtcsession information
+                */
+            onHold: (cs: Client, event: SessionHoldEvent) => void;
+            /**
+                * Triggered when the call(Outgoing/Incoming) is resumed by either party.
+                * @param {Client} clientObject - client reference
+                * @param {SessionUnholdEvent} evt - rtcsession information
+                */
+            onUnhold: (cs: Client, event: SessionUnholdEvent) => void;
+            /**
+                * Triggered when a SIP INFO is sent or received within the call.
+                * @param {Client} clientObject - client reference
+                * @param {SessionNewInfoEvent} evt - rtcsession info information
+                */
+            onNewInfo: (cs: Client, event: SessionNewInfoEvent) => void;
+            /**
+                * Start playing hold music into the outgoing audio track.
+                * @param {String} url - media url of the hold music
+                */
+            startHoldMusic: (url: string) => Promise<void>;
+            /**
+                * Stop the hold music and restore the microphone track.
+                */
+            stopHoldMusic: () => Promise<void>;
             /**
                 * Triggered when a call(Outgoing/Incoming) is rejected or invalid.
                 * @param {Client} clientObject - client reference
@@ -776,188 +1615,1405 @@ declare module 'plivo-browser-sdk/managers/callSession' {
     }
 }
 
+declare module 'plivo-browser-sdk/managers/call' {
+    import { EventEmitter } from 'events';
+    import { SessionEndedEvent } from 'plivo-jssip';
+    import { CallSession, CallInfo, CallStateHistoryEntry } from 'plivo-browser-sdk/managers/callSession';
+    import { Client } from 'plivo-browser-sdk/client';
+    /**
+        * Handle for a single call(Outgoing/Incoming). Emits `ringing`, `answered`, `mediaConnected`,
+        * `ended`, `failed`, `info` and `metrics` events for this call only.
+        */
+    export class Call extends EventEmitter {
+            /**
+                * Holds the call session once the call is placed or received
+                * @private
+                */
+            callSession: CallSession | null;
+            /**
+                * Holds the client reference
+                * @private
+                */
+            client: Client;
+            /**
+                * Set to true once the call is answered, failed or ended
+                * @private
+                */
+            isSettled: boolean;
+            /**
+                * Resolves with call information when the call is answered and rejects when the call
+                * fails or ends before it is answered
+                */
+            whenAnswered: Promise<CallInfo>;
+            /**
+                * Resolves the answered promise
+                * @private
+                */
+            resolveAnswered: (callInfo: CallInfo) => void;
+            /**
+                * Rejects the answered promise
+                * @private
+                */
+            rejectAnswered: (err: Error) => void;
+            /**
+                * Answer the incoming call.
+                * @param {String} actionOnOtherIncomingCalls -  (Optional) Specify action(reject, ignore,
+                * letring) for next incoming calls when already on call
+                */
+            answer: (actionOnOtherIncomingCalls?: string | undefined) => boolean;
+            /**
+                * Reject the incoming call.
+                */
+            reject: () => boolean;
+            /**
+                * Hangup the call.
+                */
+            hangup: () => boolean;
+            /**
+                * Mute the call.
+                */
+            mute: () => boolean;
+            /**
+                * Unmute the call.
+                */
+            unmute: () => boolean;
+            /**
+                * Send DTMF for the call.
+                * @param {String} digit - Send the digits as dtmf 'digit'
+                * ("1", "2", "3", "4", "5", "6", "7", "8", "9", "0", "*", "#")
+                */
+            sendDtmf: (digit: string | number) => void;
+            /**
+                * Send application data to the other party of an answered call as a SIP INFO.
+                * @param {String} contentType - content type of the body, e.g. application/json
+                * @param {String} body - application data
+                * @returns Fulfills once the other party accepts the INFO, rejects with the failure reason
+                */
+            sendInfo: (contentType: string, body: string) => Promise<void>;
+            /**
+                * Get the WebRTC stats report of the call.
+                */
+            getStats: () => Promise<RTCStatsReport | null>;
+            /**
+                * Get basic call information.
+                */
+            getCallInfo: () => CallInfo | null;
+            /**
+                * Get the CallUUID of the call.
+                */
+            getCallUUID: () => string | null;
+            /**
+                * Get every state the call has been in along with the time it entered the state.
+                */
+            getStateHistory: () => CallStateHistoryEntry[];
+            /**
+                * Attach the call session once it is created.
+                * @param {CallSession} callSession - call session information
+                * @private
+                */
+            attach: (callSession: CallSession) => void;
+            /**
+                * Triggered when the call is answered.
+                * @param {CallInfo} callInfo - call information
+                * @private
+                */
+            onAnswered: (callInfo: CallInfo) => void;
+            /**
+                * Triggered when the call is hung up.
+                * @param {SessionEndedEvent} evt - rtcsession ended information
+                * @param {CallInfo} callInfo - call information
+                * @private
+                */
+            onEnded: (evt: SessionEndedEvent, callInfo: CallInfo) => void;
+            /**
+                * Triggered when the call is rejected, cancelled, ignored or invalid.
+                * @param {String} cause - reason for failure
+                * @param {CallInfo} callInfo - call information
+                * @private
+                */
+            onFailed: (cause: string, callInfo: CallInfo | null) => void;
+            /**
+                * @constructor
+                * @param {Client} client - client reference
+                * @private
+                */
+            constructor(client: Client);
+    }
+}
+
+declare module 'plivo-browser-sdk/managers/util' {
+    import { SessionProgressEvent, SessionFailedEvent, RTCSession } from 'plivo-jssip';
+    import { CallSession } from 'plivo-browser-sdk/managers/callSession';
+    export interface UnloadListeners {
+            beforeunload: (event: BeforeUnloadEvent) => void;
+            pagehide: () => void;
+            visibilitychange: () => void;
+    }
+    /**
+        * Check for closeProtection option and show a
+        * dialog prompt when closing a page which has an active connection.
+        * Call summary and buffered stats are sent as beacons when the page is hidden for good.
+        */
+    export const addCloseProtectionListeners: () => void;
+    /**
+        * Find and replace all MDNS candidates with "192.168.0.1"
+        * @param {String} sdp - rtcsession description
+        * @returns SDP with mdns ips
+        */
+    export const replaceMdnsIceCandidates: (sdp: string) => string;
+    /**
+        * Get current time
+        */
+    export const getCurrentTime: () => number;
+    /**
+        * Initialise callstats storage.
+        */
+    export const callStart: () => void;
+    /**
+        * Notify network drops.
+        * @param {RTCPeerConnectionState} iceState - ice connection state
+        */
+    export const iceConnectionCheck: (iceState: RTCPeerConnectionState) => void;
+    /**
+        * Set DSCP class to Expedited Forwarding as soon as the call is answered
+        */
+    export const setEncodingParameters: () => void;
+    /**
+        * Handle ice connection change.
+        * @param {RTCPeerConnection} connection - media connection
+        * @param {CallSession} callSession - call session information
+        */
+    export const onIceConnectionChange: (connection: RTCPeerConnection, callSession: CallSession) => void;
+    /**
+        * Start collecting plivo rtp stats.
+        * @param {CallSession} callSession - call session information
+        */
+    export const statsCollector: (callSession: CallSession) => void;
+    /**
+        * Add the call to the registry of established calls.
+        * @param {CallSession} session - call session information
+        */
+    export const registerActiveCall: (session: CallSession) => void;
+    /**
+        * Get an established call by CallUUID. Returns the active call when CallUUID is not passed.
+        * @param {String} callUUID - (Optional) CallUUID of the call
+        */
+    export const getActiveCall: (callUUID?: string | undefined) => CallSession | null;
+    /**
+        * Make the call active and play its remote audio.
+        * @param {CallSession} session - call session information
+        */
+    export const setActiveCall: (session: CallSession) => void;
+    /**
+        * Clear all flags and session information.
+        * @param {CallSession} session - call session information
+        */
+    export const hangupClearance: (session: CallSession) => void;
+    /**
+        * Add mid attribute to SDP. Fix for https://bugzilla.mozilla.org/show_bug.cgi?id=1495569
+        * @param {SessionProgressEvent} evt - rtcsession progress information
+        */
+    export const addMidAttribute: (evt: SessionProgressEvent) => void;
+    /**
+        * Add a new fabric message to callstats.io
+        * @param {CallSession} callSession - call session information
+        * @param {String} userId - source username
+        * @param {String} callUUID - active callUUID
+        */
+    export const addCallstatsIOFabric: (callSession: CallSession, userId: string, callUUID: string) => void;
+    /**
+        * Send error to stats wahen media error occurs.
+        * @param {SessionFailedEvent} evt - rtcsession failed information
+        * @param {CallSession} callSession - call session information
+        */
+    export const handleMediaError: (evt: SessionFailedEvent, callSession: CallSession) => void;
+    /**
+        * Check if rtc session is established.
+        * @param {RTCSession} session - rtcsession information
+        */
+    export const isSessionConfirmed: (session: RTCSession) => boolean;
+    /**
+        * Check if client is using a mobile browser or not
+        * @returns true if client is mobile browser
+        */
+    export const mobileBrowserCheck: () => boolean;
+}
+
 declare module 'plivo-browser-sdk/stats/ws' {
     import { Client } from 'plivo-browser-sdk/client';
+    import { TelemetryBuffer } from 'plivo-browser-sdk/stats/telemetryBuffer';
+    /**
+        * Initialize stats socket.
+        */
+    export class StatsSocket {
+            /**
+                * URL to establish websocket connection
+                * @private
+                */
+            url: string;
+            /**
+                * Holds the instance of websocket
+                * @private
+                */
+            ws: null | WebSocket;
+            /**
+                * Holds a bollean which determines whether the socket is trying for a connection
+                * @private
+                */
+            isConnecting: boolean;
+            /**
+                * Stores the messages in buffer if websocket is unable to send message
+                * @private
+                */
+            messageBuffer: TelemetryBuffer;
+            /**
+                * Close the socket once the buffered messages are replayed
+                * @private
+                */
+            closeWhenDrained: boolean;
+            /**
+                * Number of consecutive replay attempts made while the socket was not open
+                * @private
+                */
+            replayAttempts: number;
+            /**
+                * Timer for the next replay attempt
+                * @private
+                */
+            replayTimer: ReturnType<typeof setTimeout> | null;
+            /**
+                * @constructor
+                * @param {TelemetryBuffer} messageBuffer - (Optional) persistent buffer shared by the client
+                * @private
+                */
+            constructor(messageBuffer?: TelemetryBuffer | null);
+            /**
+                * Send continous keepalive heartbeat to plivo stats websocket server.
+                * @param {Client} cs - client reference
+                */
+            heartbeat(cs: Client): boolean;
+            /**
+                * Create a web socket for stats and add event listeners.
+                */
+            connect: () => void;
+            /**
+                * Close the web socket.
+                */
+            disconnect: () => void;
+            /**
+                * Check if web socket is open or not.
+                */
+            isConnected: () => boolean;
+            /**
+                * Send messages to the socket.
+                * @param {Object} message - call stats(Answered/RTP/Summary/Feedback/Failure Events)
+                * @param {Client} client - client reference
+                * @param {Boolean} isRetry - the message is already buffered by an earlier attempt
+                */
+            send: (message: {
+                    [key: string]: any;
+            }, client: Client, isRetry?: boolean) => boolean;
+            /**
+                * Send the buffered messages, retrying with backoff while the socket is not open.
+                */
+            replay: () => void;
+            /**
+                * Send the buffered messages in order, each one is removed from the buffer once sent.
+                * @returns Number of messages sent
+                */
+            flush: () => number;
+            /**
+                * Reconnect to the socket
+                */
+            reconnect: () => void;
+    }
+    /**
+        * Replay the messages persisted by an earlier page load over a socket which is closed
+        * once they are sent.
+        * @param {TelemetryBuffer} messageBuffer - persistent buffer of the client
+        * @returns Socket used for the replay or null when nothing is pending
+        */
+    export const replayPendingTelemetry: (messageBuffer: TelemetryBuffer) => Promise<StatsSocket | null>;
+}
+
+declare module 'plivo-browser-sdk/stats/telemetryBuffer' {
+    export interface TelemetryEntry {
+            id: string;
+            owner: string;
+            ownedSince: number;
+            message: string;
+            size: number;
+            timeStamp: number;
+    }
+    /**
+        * Storage in which unsent stats survive a page reload. It is shared by all the tabs.
+        */
+    interface TelemetryStorage {
+            load: () => Promise<TelemetryEntry[]>;
+            save: (entry: TelemetryEntry) => void;
+            remove: (ids: string[]) => void;
+    }
+    /**
+        * Holds the stats and events which could not be sent to the stats socket. Entries are
+        * persisted so that they can be replayed after a reconnection or on the next page load.
+        */
+    export class TelemetryBuffer {
+            /**
+                * Entries waiting to be sent, oldest first
+                * @private
+                */
+            entries: TelemetryEntry[];
+            /**
+                * Persistent storage of the entries, null when stats are only kept in memory
+                * @private
+                */
+            storage: TelemetryStorage | null;
+            /**
+                * Identifier of this buffer in the entries, tells apart the entries of other tabs
+                * @private
+                */
+            owner: string;
+            /**
+                * Fulfills once entries persisted by an earlier page load are added
+                * @private
+                */
+            loaded: Promise<number>;
+            /**
+                * Refreshes the ownership of the entries while there are any, so that other tabs leave them
+                * @private
+                */
+            heartbeatTimer: ReturnType<typeof setInterval> | null;
+            /**
+                * @constructor
+                * @param {Boolean} persist - keep the entries in IndexedDB or localStorage
+                * @private
+                */
+            constructor(persist?: boolean);
+            /**
+                * Add a message which could not be sent.
+                * @param {String} message - serialized stats message
+                */
+            add: (message: string) => void;
+            /**
+                * Get the oldest message without removing it.
+                */
+            peek: () => TelemetryEntry | null;
+            /**
+                * Remove a message once it is sent.
+                * @param {String} id - entry identifier
+                */
+            remove: (id: string) => void;
+            /**
+                * Send the messages in order, each one is removed once sent.
+                * @param {Function} send - sends a message and returns false if it could not be sent
+                * @returns Number of messages sent
+                */
+            drain: (send: (message: string) => boolean) => number;
+            /**
+                * Get the number of messages waiting to be sent.
+                */
+            getPendingCount: () => number;
+    }
+    export {};
+}
+
+declare module 'plivo-browser-sdk/media/conferenceMixer' {
+    interface MixerLeg {
+            sender: RTCRtpSender;
+            originalTrack: MediaStreamTrack | null;
+            remoteSource: MediaStreamAudioSourceNode;
+            remoteElement: HTMLAudioElement;
+            micGain: GainNode;
+            destination: MediaStreamAudioDestinationNode;
+    }
+    /**
+        * Mix the call legs of a local conference. Every remote party receives the microphone
+        * along with the audio of the other remote parties.
+        */
+    export class ConferenceMixer {
+            /**
+                * DOM AudioContext in which the legs are mixed
+                * @private
+                */
+            audioContext: null | AudioContext;
+            /**
+                * Holds the audio graph of each call leg
+                * @private
+                */
+            legs: MixerLeg[];
+            /**
+                * Mix of all the remote parties which is played locally
+                * @private
+                */
+            localDestination: null | MediaStreamAudioDestinationNode;
+            /**
+                * Microphone source shared by all the legs
+                * @private
+                */
+            micSource: null | MediaStreamAudioSourceNode;
+            /**
+                * Copy of the microphone track made when every leg was muted, stopped with the mixing
+                * @private
+                */
+            micClone: null | MediaStreamTrack;
+            /**
+                * Start mixing the legs and replace the outgoing audio track of each leg with its mix.
+                * @param {RTCPeerConnection[]} connections - peer connections of the call legs
+                */
+            start: (connections: RTCPeerConnection[]) => Promise<void>;
+            /**
+                * Stop mixing and restore the outgoing audio track of each leg.
+                */
+            stop: () => Promise<void>;
+            /**
+                * Mute or unmute the microphone for a leg.
+                * @param {Number} index - position of the leg as passed in start()
+                * @param {Boolean} muted - true for muting the microphone
+                */
+            setMicMuted: (index: number, muted: boolean) => void;
+            /**
+                * Check if the microphone is muted for a leg.
+                * @param {Number} index - position of the leg as passed in start()
+                */
+            isMicMuted: (index: number) => boolean;
+            /**
+                * Get the mix of all the remote parties for local playback.
+                */
+            getLocalStream: () => MediaStream | null;
+            /**
+                * Check if the legs are being mixed.
+                */
+            isMixing: () => boolean;
+            /**
+                * @constructor
+                * @private
+                */
+            constructor();
+    }
+    export {};
+}
+
+declare module 'plivo-browser-sdk/media/callWaitingTone' {
+    import { CallWaitingToneOptions } from 'plivo-browser-sdk/client';
+    /**
+        * Plays the call waiting tone along with the audio of the active call. The tone is mixed
+        * into the stream of the element playing the call, so it is heard on the same device and
+        * at the same volume. The ringtone element is not used as it may be routed to another device.
+        */
+    export class CallWaitingTone {
+            /**
+                * DOM AudioContext generating the tone
+                * @private
+                */
+            audioContext: null | AudioContext;
+            /**
+                * Switches the tone on and off as per the cadence
+                * @private
+                */
+            gain: null | GainNode;
+            /**
+                * Element playing the active call, it plays the mix while the tone is on
+                * @private
+                */
+            output: null | HTMLAudioElement;
+            /**
+                * Stream the output played before the tone, restored when the tone stops
+                * @private
+                */
+            callStream: null | MediaStream;
+            /**
+                * Mix of the call audio and the tone
+                * @private
+                */
+            mixedStream: null | MediaStream;
+            /**
+                * Muted element holding the call stream so that its audio reaches the mix
+                * @private
+                */
+            callElement: null | HTMLAudioElement;
+            /**
+                * Repeats the cadence
+                * @private
+                */
+            timer: null | ReturnType<typeof setInterval>;
+            /**
+                * Start playing the tone.
+                * @param {HTMLAudioElement} output - element playing the active call, remoteView
+                * @param {CallWaitingToneOptions} options - frequency, volume and cadence of the tone
+                */
+            start: (output: HTMLAudioElement, options: CallWaitingToneOptions) => void;
+            /**
+                * Stop playing the tone.
+                */
+            stop: () => void;
+            /**
+                * Check if the tone is playing.
+                */
+            isPlaying: () => boolean;
+            /**
+                * @constructor
+                * @private
+                */
+            constructor();
+    }
+}
+
+declare module 'plivo-browser-sdk/utils/feedback' {
+    import { CallQualityReport } from 'plivo-browser-sdk/stats/qualityReport';
+    export interface FeedbackObject {
+            overall: number;
+            comment: string;
+            metadata?: FeedbackMetadata;
+            qualityReport?: CallQualityReport;
+    }
+    export type FeedbackMetadata = {
+            [key: string]: any;
+    };
+    export type FeedbackIssueTypes = {
+            [issue: string]: string;
+    };
+    export interface FeedbackOptions {
+            metadata?: FeedbackMetadata;
+            sendQualityReport?: boolean;
+    }
+    export interface FeedbackValidationOptions {
+            issueTypes?: FeedbackIssueTypes;
+            metadata?: FeedbackMetadata;
+    }
+    export interface FeedbackResult {
+            status: 'sent' | 'queued' | 'failed';
+            callUUID: string;
+            feedback: FeedbackObject;
+            consoleLogsSent: boolean;
+            sipTraceSent: boolean;
+            message: string;
+    }
+    /**
+        * Convert the issue categories registered by the application to issue types.
+        * @param {Array<String>|Object} issues - issue names, or issue names with the value reported
+        * @returns Valid issue types, keyed by the upper case issue name
+        */
+    export const parseFeedbackIssues: (issues: string[] | FeedbackIssueTypes) => FeedbackIssueTypes;
+    /**
+        * Check feedback information.
+        * @param {String} callUUID - specify the CallUUID for which feedback needs to be sent
+        * @param {String} starRating - Rate the call from 1 to 5
+        * @param {String} note - Send any remarks
+        * @param {Array<String>} issues - Provide suspected issues
+        * @param {String} userName
+        * @param {Boolean} isLoggedIn - Loggedin status
+        * @param {FeedbackValidationOptions} options - (Optional) issues to accept and metadata to attach
+        */
+    export const validateFeedback: (callUUID: string, starRating: string, note: string, issues: string[], userName: string, isLoggedIn: boolean, options?: FeedbackValidationOptions) => Promise<FeedbackObject>;
+}
+
+declare module 'plivo-browser-sdk/media/audioDevice' {
+    import { Client } from 'plivo-browser-sdk/client';
+    import { DeviceAudioInfo } from 'plivo-browser-sdk/stats/nonRTPStats';
+    export interface RingToneDevices {
+            set: (id: string) => void;
+            get: () => string;
+            reset: () => void;
+            media: () => HTMLElement | null;
+    }
+    export interface InputDevices {
+            set: (id: string) => void;
+            get: () => string;
+            reset: () => void;
+    }
+    export interface OutputDevices {
+            set: (id: string) => void;
+            get: () => string;
+            reset: () => void;
+            media: (source?: string) => HTMLElement | null;
+    }
+    export interface DeviceDictionary {
+            devices: MediaDeviceInfo[];
+            audioRef: string[];
+    }
+    /**
+        * Add audio constraints to client reference.
+        * @param {Client} _clientObject - client reference
+        */
+    export const setAudioContraints: (_clientObject: Client) => void;
+    /**
+        * Get list of input or output audio devices.
+        * @param {String} filterBy - pass input/output to filter the devices
+        * @returns Fulfills with a list of audio devices or reject with error
+        */
+    export const availableDevices: (filterBy?: string | undefined) => Promise<MediaDeviceInfo[]>;
+    /**
+        * Allow media permission forcefully to reveal available devices.
+        * @param {String} arg - returns media stream if arg is "returnStream"
+        * @returns Fulfills with a media stream if 'returnStream' is passed or resolve with success.
+        * If error occurs reject with error.
+        */
+    export const revealAudioDevices: (arg?: string | undefined) => Promise<MediaStream | string>;
+    /**
+        * Mute the local stream.
+        */
+    export const mute: () => void;
+    /**
+        * Collect realtime Audio levels for local and remote streams.
+        * @param {Client} client - client reference
+        */
+    export const startVolumeDataStreaming: (client: Client) => void;
+    /**
+        * Stopping the requesting frame. It would stop emitting the real time audio levels.
+        */
+    export const stopVolumeDataStreaming: () => void;
+    /**
+        * Add getters and setters for input audio devices.
+        */
+    export const inputDevices: InputDevices;
+    /**
+        * Add getters and setters for output audio devices.
+        */
+    export const outputDevices: OutputDevices;
+    /**
+        * Add getters and setters for ringtone which is played during the call.
+        */
+    export const ringtoneDevices: RingToneDevices;
+    /**
+        * Add audio device information whenever device is changed.
+        * @param {Boolean} store - pass true to store information in Client object for reference
+        * @returns Fulfills with audio device information or reject with error
+        */
+    export const audioDevDictionary: (store?: boolean | undefined) => Promise<DeviceDictionary | boolean>;
+    /**
+        * Return if the app consuming Browser SDK is electron app or not.
+        */
+    export const isElectronApp: () => boolean;
+    /**
+        * Get input and output audio device information to send to plivo stats.
+        * @returns Fulfills with audio device information or reject with error
+        */
+    export const getAudioDevicesInfo: () => Promise<DeviceAudioInfo>;
+    /**
+        * Updating the default input & output device
+        */
+    export const updateWindowDeviceList: (deviceList: any) => void;
+    /**
+        * Check the input & output audio device for windows machine such that both belong to same groupid
+        */
+    export const setAudioDeviceForForWindows: (devices: any, lastConnectedMicDevice: any, lastConnectedSpeakerDevice: any) => void;
+    /**
+        * Check audio devices for electron app
+        */
+    export const checkElectronAudioDevices: () => void;
+    /**
+        * Check if input or output audio device has changed.
+        */
+    export const checkAudioDevChange: () => void;
+    /**
+        * Unmute the local stream.
+        */
+    export const unmute: () => void;
+    /**
+        * Stop all tracks in the local stream.
+        */
+    export const updateAudioDeviceFlags: () => void;
+    /**
+        * Set the callback which is used for storing list of audio device labels.
+        * @param {Function} setter - callback for storing device labels
+        */
+    export const audioDevDicSetter: (setter: (set: any) => void) => void;
+    /**
+        * Detect if input or output audio device has changed.
+        */
+    export const detectDeviceChange: () => void;
+}
+
+declare module 'plivo-browser-sdk/utils/preflight' {
+    export type PreflightStatus = 'pass' | 'warn' | 'fail' | 'skipped';
+    export interface PreflightMicrophoneResult {
+        status: PreflightStatus;
+        deviceLabel: string | null;
+        audioLevel: number | null;
+        error?: string;
+    }
+    export interface PreflightSpeakerResult {
+        status: PreflightStatus;
+        deviceId: string | null;
+        error?: string;
+    }
+    export interface PreflightNetworkResult {
+        status: PreflightStatus;
+        candidateTypes: string[];
+        error?: string;
+    }
+    export interface PreflightQualityResult {
+        status: PreflightStatus;
+        rtt: number | null;
+        jitter: number | null;
+        packetLoss: number | null;
+        mos: number | null;
+        error?: string;
+    }
+    export interface PreflightReport {
+        startTime: number;
+        endTime: number;
+        microphone: PreflightMicrophoneResult;
+        speaker: PreflightSpeakerResult;
+        network: PreflightNetworkResult;
+        quality: PreflightQualityResult;
+        passed: boolean;
+    }
+    export interface PreflightProgress {
+        step: string;
+        status: string;
+        result?: PreflightMicrophoneResult | PreflightSpeakerResult | PreflightNetworkResult | PreflightQualityResult;
+    }
+    export interface PreflightOptions {
+        duration?: number;
+    }
+    /**
+      * Check microphone, speaker and network readiness before placing calls.
+      * @param {PreflightOptions} options - (Optional) test duration in seconds
+      * @returns Report for each check, rejects when the test cannot be run
+      */
+    export const runPreflightTest: (options?: PreflightOptions) => Promise<PreflightReport>;
+}
+
+declare module 'plivo-browser-sdk/stats/qualityReport' {
+    export interface QualityMetricSummary {
+            min: number;
+            avg: number;
+            max: number;
+            p95: number;
+    }
+    export interface QualitySample {
+            codec: string | null;
+            pdd: number | null;
+            mediaSetupTime: number | null;
+            local: {
+                    mos: number | null;
+                    jitter: number | null;
+                    packetLoss: number | null;
+                    rtt: number | null;
+            };
+            remote: {
+                    mos: number | null;
+                    jitter: number | null;
+                    packetLoss: number | null;
+            };
+    }
+    export interface QualityWarningDuration {
+            type: string;
+            stream: string;
+            occurrences: number;
+            duration: number;
+    }
+    export interface CallQualityReport {
+            callUUID: string | null;
+            startTime: number;
+            endTime: number;
+            samples: number;
+            codec: string | null;
+            pdd: number | null;
+            mediaSetupTime: number | null;
+            local: {
+                    mos: QualityMetricSummary | null;
+                    jitter: QualityMetricSummary | null;
+                    packetLoss: QualityMetricSummary | null;
+                    rtt: QualityMetricSummary | null;
+            };
+            remote: {
+                    mos: QualityMetricSummary | null;
+                    jitter: QualityMetricSummary | null;
+                    packetLoss: QualityMetricSummary | null;
+            };
+            warnings: QualityWarningDuration[];
+    }
+    interface WarningState extends QualityWarningDuration {
+            activeSince: number | null;
+    }
+    type MetricSeries = {
+            [metric: string]: number[];
+    };
+    /**
+        * Summarize the values collected for a metric.
+        * @param {Array<Number>} values - value of the metric for each stats interval
+        * @returns min, avg, max and 95th percentile(nearest rank) or null when nothing was collected
+        */
+    export const summarize: (values: number[]) => QualityMetricSummary | null;
+    /**
+        * Aggregates the per interval RTP stats and media warnings of a call.
+        */
+    export class CallQualityCollector {
+            /**
+                * Time at which media started flowing for the call
+                * @private
+                */
+            startTime: number | null;
+            /**
+                * Number of stats intervals collected
+                * @private
+                */
+            samples: number;
+            /**
+                * Latest codec, pdd and media setup time reported by the stats
+                * @private
+                */
+            latest: Pick<QualitySample, 'codec' | 'pdd' | 'mediaSetupTime'>;
+            /**
+                * Values collected for each metric of the local stream
+                * @private
+                */
+            local: MetricSeries;
+            /**
+                * Values collected for each metric of the remote stream
+                * @private
+                */
+            remote: MetricSeries;
+            /**
+                * Occurrences and duration of each media warning keyed by type and stream
+                * @private
+                */
+            warnings: {
+                    [key: string]: WarningState;
+            };
+            /**
+                * Final report once the call has ended
+                * @private
+                */
+            report: CallQualityReport | null;
+            /**
+                * @constructor
+                * @private
+                */
+            constructor();
+            /**
+                * Start the report when the call is answered.
+                */
+            start: () => void;
+            /**
+                * Add the stats collected in one interval.
+                * @param {QualitySample} sample - metrics of the local and remote streams
+                */
+            addSample: (sample: QualitySample) => void;
+            /**
+                * Track the time spent in a media warning.
+                * @param {String} type - warning type
+                * @param {String} stream - stream for which warning is raised
+                * @param {Boolean} active - true when the warning is raised, false when it is cleared
+                */
+            setWarning: (type: string, stream: string, active: boolean) => void;
+            /**
+                * Get the report of the call till now.
+                * @param {String} callUUID - call identifier
+                * @returns Report or null if the call was never answered
+                */
+            getReport: (callUUID: string | null) => CallQualityReport | null;
+            /**
+                * Close open warnings and freeze the report.
+                * @param {String} callUUID - call identifier
+                * @returns Report or null if the call was never answered
+                */
+            finish: (callUUID: string | null) => CallQualityReport | null;
+    }
+    export {};
+}
+
+declare module 'plivo-browser-sdk/stats/sipTrace' {
+    export type SipTraceDirection = 'sent' | 'received';
+    export type SipTraceFormat = 'ladder' | 'pcap';
+    export interface SipTraceMessage {
+            timestamp: number;
+            direction: SipTraceDirection;
+            summary: string;
+            message: string;
+    }
+    export interface SipTrace {
+            callUUID: string | null;
+            callId: string;
+            messages: SipTraceMessage[];
+    }
+    export interface SipTracePacket {
+            number: number;
+            ts_sec: number;
+            ts_usec: number;
+            direction: SipTraceDirection;
+            src: string;
+            dst: string;
+            protocol: string;
+            length: number;
+            info: string;
+            data: string;
+    }
+    export interface SipTracePcap {
+            format: 'sip-trace';
+            version: 1;
+            callUUID: string | null;
+            callId: string;
+            packets: SipTracePacket[];
+    }
+    /**
+        * Captures the sip messages of each call.
+        */
+    export class SipTraceRecorder {
+            /**
+                * Traces of the latest calls by sip Call-ID, oldest first
+                * @private
+                */
+            traces: Map<string, SipTrace>;
+            /**
+                * Sip Call-ID of each call by CallUUID
+                * @private
+                */
+            callIds: Map<string, string>;
+            /**
+                * @constructor
+                * @private
+                */
+            constructor();
+            /**
+                * Wrap the socket passed to the sip library so that its messages are captured.
+                * @param {Object} socket - socket implementing the sip library socket interface
+                */
+            wrap: (socket: any) => any;
+            /**
+                * Get the sip messages exchanged for a call.
+                * @param {String} callUUID - CallUUID of the call
+                * @returns Trace or null if no message is captured for the call
+                */
+            getTrace: (callUUID: string) => SipTrace | null;
+    }
+    /**
+        * Format a sip trace as a ladder diagram followed by the full messages.
+        * @param {SipTrace} trace - sip messages of a call
+        */
+    export const toSipLadder: (trace: SipTrace) => string;
+    /**
+        * Format a sip trace as packets similar to a capture file.
+        * @param {SipTrace} trace - sip messages of a call
+        * @param {String} server - address of the sip server
+        */
+    export const toSipPcap: (trace: SipTrace, server: string) => SipTracePcap;
+}
+
+declare module 'plivo-browser-sdk/stats/callHistory' {
+    import { CallSession } from 'plivo-browser-sdk/managers/callSession';
+    import { CallQualityReport } from 'plivo-browser-sdk/stats/qualityReport';
+    export interface CallHistoryEntry {
+            callUUID: string;
+            sipCallID: string | null;
+            direction: string;
+            src: string;
+            dest: string;
+            userName: string | null;
+            startTime: number;
+            endTime: number;
+            qualityReport: CallQualityReport | null;
+    }
+    export const getLocalStorage: () => Storage | null;
     /**
-        * Initialize stats socket.
+        * Get the localStorage key of a user, users sharing a browser do not see each other's data.
+        * @param {String} key - storage key
+        * @param {String} userName - logged in user name
         */
-    export class StatsSocket {
-            /**
-                * URL to establish websocket connection
-                * @private
-                */
-            url: string;
-            /**
-                * Holds the instance of websocket
-                * @private
-                */
-            ws: null | WebSocket;
+    export const getUserStorageKey: (key: string, userName: string) => string;
+    /**
+        * Keeps the latest ended calls so that feedback can be submitted for them,
+        * also after the page is reloaded. The calls of the last logged in user are kept.
+        */
+    export class CallHistory {
             /**
-                * Holds a bollean which determines whether the socket is trying for a connection
+                * Ended calls, latest first
                 * @private
                 */
-            isConnecting: boolean;
+            entries: CallHistoryEntry[];
             /**
-                * Stores the messages in buffer if websocket is unable to send message
+                * User whose calls are kept, null until the first login
                 * @private
                 */
-            messageBuffer: string[];
+            userName: string | null;
             /**
                 * @constructor
                 * @private
                 */
             constructor();
             /**
-                * Send continous keepalive heartbeat to plivo stats websocket server.
-                * @param {Client} cs - client reference
-                */
-            heartbeat(cs: Client): boolean;
-            /**
-                * Create a web socket for stats and add event listeners.
-                */
-            connect: () => void;
-            /**
-                * Close the web socket.
+                * Switch to the calls of the logged in user.
+                * @param {String} userName - logged in user name
                 */
-            disconnect: () => void;
+            setUser: (userName: string) => void;
             /**
-                * Check if web socket is open or not.
+                * Add an ended call, replacing an earlier entry of the same call.
+                * @param {CallHistoryEntry} entry - call information
                 */
-            isConnected: () => boolean;
+            add: (entry: CallHistoryEntry) => void;
             /**
-                * Send messages to the socket.
-                * @param {Object} message - call stats(Answered/RTP/Summary/Feedback/Failure Events)
+                * Get an ended call.
+                * @param {String} callUUID - CallUUID of the call
+                * @returns Call information or null if the call is not in the history
                 */
-            send: (message: {
-                    [key: string]: any;
-            }, client: Client) => boolean;
+            get: (callUUID: string) => CallHistoryEntry | null;
             /**
-                * Reconnect to the socket
+                * Get the ended calls, latest first.
                 */
-            reconnect: () => void;
+            getAll: () => CallHistoryEntry[];
     }
+    /**
+        * Add an ended call to the call history.
+        * @param {CallSession} session - call session information
+        */
+    export const recordCallHistory: (session: CallSession) => void;
 }
 
-declare module 'plivo-browser-sdk/media/audioDevice' {
-    import { Client } from 'plivo-browser-sdk/client';
-    import { DeviceAudioInfo } from 'plivo-browser-sdk/stats/nonRTPStats';
-    export interface RingToneDevices {
-            set: (id: string) => void;
-            get: () => string;
-            reset: () => void;
-            media: () => HTMLElement | null;
+declare module 'plivo-browser-sdk/managers/messaging' {
+    import * as SipLib from 'plivo-jssip';
+    import { ExtraHeaders } from 'plivo-browser-sdk/client';
+    import { CallSession } from 'plivo-browser-sdk/managers/callSession';
+    export interface ReceivedMessage {
+            from: string;
+            fromName: string | null;
+            body: string;
+            contentType: string;
+            extraHeaders: ExtraHeaders;
+            timeStamp: number;
     }
-    export interface InputDevices {
-            set: (id: string) => void;
-            get: () => string;
-            reset: () => void;
+    export interface ReceivedInfo {
+            contentType: string;
+            body: string;
+            timeStamp: number;
     }
-    export interface OutputDevices {
-            set: (id: string) => void;
-            get: () => string;
-            reset: () => void;
-            media: (source?: string) => HTMLElement | null;
+    /**
+        * Send a SIP MESSAGE to an endpoint or number.
+        * @param {String} to - sip endpoint or number
+        * @param {String} body - message content
+        * @param {String} contentType - (Optional) content type of the body, defaults to text/plain
+        * @returns Fulfills once the message is delivered, rejects with the failure reason
+        */
+    export const sendMessage: (to: string, body: string, contentType?: string) => Promise<void>;
+    /**
+        * Triggered when a SIP MESSAGE is sent or received outside of a call.
+        * @param {UserAgentNewMessageEvent} evt - message information
+        */
+    export const onNewMessage: (evt: SipLib.UserAgentNewMessageEvent) => void;
+    /**
+        * Send a SIP INFO within an answered call.
+        * @param {CallSession} callSession - call session information
+        * @param {String} contentType - content type of the body
+        * @param {String} body - application data
+        * @returns Fulfills once the other party accepts the INFO, rejects with the failure reason
+        */
+    export const sendInfo: (callSession: CallSession, contentType: string, body: string) => Promise<void>;
+    /**
+        * Get the application data of a SIP INFO received within a call.
+        * @param {SessionNewInfoEvent} evt - rtcsession info information
+        * @returns INFO content or null for an INFO sent by the client
+        */
+    export const getReceivedInfo: (evt: SipLib.SessionNewInfoEvent) => ReceivedInfo | null;
+}
+
+declare module 'plivo-browser-sdk/managers/autoAnswer' {
+    import { CallSession } from 'plivo-browser-sdk/managers/callSession';
+    export interface AutoAnswerInfo {
+            reason: 'always' | 'header' | 'caller';
+            delay: number;
     }
-    export interface DeviceDictionary {
-            devices: MediaDeviceInfo[];
-            audioRef: string[];
+    /**
+        * Decide if an incoming call is answered automatically.
+        * @param {Any} request - INVITE of the incoming call
+        * @returns Reason and delay for answering or null when the call rings as usual
+        */
+    export const getAutoAnswer: (request: any) => AutoAnswerInfo | null;
+    /**
+        * Answer a ringing call after the auto answer delay. A call which is no longer
+        * ringing is left alone and an answered call is never interrupted, the new call
+        * keeps ringing instead.
+        * @param {CallSession} incomingCall - incoming call session
+        */
+    export const scheduleAutoAnswer: (incomingCall: CallSession) => void;
+}
+
+declare module 'plivo-browser-sdk/managers/callWaiting' {
+    import { Client } from 'plivo-browser-sdk/client';
+    import { CallInfo, CallSession } from 'plivo-browser-sdk/managers/callSession';
+    export type WaitingCallAction = 'hold' | 'hangup';
+    export interface WaitingCallInfo {
+            waitingCall: CallInfo;
+            callerName: string | null;
+            activeCall: CallInfo;
+            waitingCalls: number;
     }
     /**
-        * Add audio constraints to client reference.
-        * @param {Client} _clientObject - client reference
+        * Get the incoming calls waiting while the user is on a call.
+        * @param {Client} client - client reference
         */
-    export const setAudioContraints: (_clientObject: Client) => void;
+    export const getWaitingCalls: (client: Client) => CallSession[];
     /**
-        * Get list of input or output audio devices.
-        * @param {String} filterBy - pass input/output to filter the devices
-        * @returns Fulfills with a list of audio devices or reject with error
+        * Start or stop the call waiting tone as calls come and go. The tone plays while
+        * an answered call is active and at least one incoming call is waiting.
         */
-    export const availableDevices: (filterBy?: string | undefined) => Promise<MediaDeviceInfo[]>;
+    export const updateCallWaitingTone: () => void;
     /**
-        * Allow media permission forcefully to reveal available devices.
-        * @param {String} arg - returns media stream if arg is "returnStream"
-        * @returns Fulfills with a media stream if 'returnStream' is passed or resolve with success.
-        * If error occurs reject with error.
+        * Announce an incoming call which arrived during the active call.
+        * @param {CallSession} incomingCall - waiting call session
         */
-    export const revealAudioDevices: (arg?: string | undefined) => Promise<MediaStream | string>;
+    export const onCallWaiting: (incomingCall: CallSession) => void;
     /**
-        * Mute the local stream.
+        * Ring the waiting calls with the ringtone once the active call is over.
         */
-    export const mute: () => void;
+    export const resumeWaitingCalls: () => void;
     /**
-        * Collect realtime Audio levels for local and remote streams.
-        * @param {Client} client - client reference
+        * Answer a waiting call, the active call is put on hold or hung up.
+        * @param {String} callUUID - CallUUID of the waiting call
+        * @param {WaitingCallAction} action - (Optional) hold or hangup the active call, defaults to hold
         */
-    export const startVolumeDataStreaming: (client: Client) => void;
+    export const answerWaitingCall: (callUUID: string, action?: WaitingCallAction) => boolean;
     /**
-        * Stopping the requesting frame. It would stop emitting the real time audio levels.
+        * Reject a waiting call and continue with the active call.
+        * @param {String} callUUID - CallUUID of the waiting call
         */
-    export const stopVolumeDataStreaming: () => void;
+    export const rejectWaitingCall: (callUUID: string) => boolean;
+}
+
+declare module 'plivo-browser-sdk/managers/callFilter' {
+    import { UserAgentNewRtcSessionEvent } from 'plivo-jssip';
+    import { ExtraHeaders } from 'plivo-browser-sdk/client';
+    export type IncomingCallAction = 'reject' | 'ignore' | 'ring' | 'flag';
+    export type IncomingCallMatcher = string | RegExp;
+    export interface IncomingCallRule {
+            id?: string;
+            callerId?: IncomingCallMatcher;
+            displayName?: IncomingCallMatcher;
+            headers?: {
+                    [key: string]: IncomingCallMatcher;
+            };
+            action: IncomingCallAction;
+            statusCode?: number;
+            reasonPhrase?: string;
+    }
+    export interface DoNotDisturbWindow {
+            days?: number[];
+            start: string;
+            end: string;
+    }
+    export interface DoNotDisturbOptions {
+            enabled: boolean;
+            schedule?: DoNotDisturbWindow[];
+            statusCode?: number;
+            reasonPhrase?: string;
+    }
+    export interface IncomingCallFilterResult {
+            callUUID: string | null;
+            callerId: string;
+            callerName: string | null;
+            extraHeaders: ExtraHeaders;
+            action: IncomingCallAction;
+            reason: 'rule' | 'dnd' | 'default';
+            ruleId: string | null;
+            statusCode: number | null;
+            timeStamp: number;
+    }
+    export type IncomingCallFilterSummary = Pick<IncomingCallFilterResult, 'action' | 'reason' | 'ruleId' | 'statusCode'>;
     /**
-        * Add getters and setters for input audio devices.
+        * Check the incoming call rules passed by the application.
+        * @param {IncomingCallRule[]} rules - rules evaluated in order
+        * @returns Error message or null if the rules are valid
         */
-    export const inputDevices: InputDevices;
+    export const getIncomingCallRulesError: (rules: IncomingCallRule[]) => string | null;
     /**
-        * Add getters and setters for output audio devices.
+        * Check the do not disturb options passed by the application.
+        * @param {DoNotDisturbOptions} options - do not disturb settings
+        * @returns Error message or null if the options are valid
         */
-    export const outputDevices: OutputDevices;
+    export const getDoNotDisturbError: (options: DoNotDisturbOptions) => string | null;
     /**
-        * Add getters and setters for ringtone which is played during the call.
+        * Check if do not disturb applies at a given time.
+        * @param {DoNotDisturbOptions} options - do not disturb settings
+        * @param {Date} date - (Optional) time to check, defaults to now
         */
-    export const ringtoneDevices: RingToneDevices;
+    export const isDoNotDisturbActive: (options: DoNotDisturbOptions, date?: Date) => boolean;
     /**
-        * Add audio device information whenever device is changed.
-        * @param {Boolean} store - pass true to store information in Client object for reference
-        * @returns Fulfills with audio device information or reject with error
+        * Match a caller detail, strings match the whole value case insensitively.
+        * @param {IncomingCallMatcher} matcher - string or RegExp, anything matches when not set
+        * @param {String} value - caller id, display name or header value
         */
-    export const audioDevDictionary: (store?: boolean | undefined) => Promise<DeviceDictionary | boolean>;
+    export const matches: (matcher: IncomingCallMatcher | undefined, value: string | null) => boolean;
     /**
-        * Return if the app consuming Browser SDK is electron app or not.
+        * Apply the incoming call rules and do not disturb to a new incoming call.
+        * @param {UserAgentNewRtcSessionEvent} evt - rtcsession information
+        * @returns Decision or null when no rule or do not disturb is set, the call
+        * rings unless the action is reject or ignore
         */
-    export const isElectronApp: () => boolean;
+    export const filterIncomingCall: (evt: UserAgentNewRtcSessionEvent) => IncomingCallFilterResult | null;
     /**
-        * Get input and output audio device information to send to plivo stats.
-        * @returns Fulfills with audio device information or reject with error
+        * Get the part of a decision reported in the call summary, caller details are left out.
+        * @param {IncomingCallFilterResult} result - decision taken for the call
         */
-    export const getAudioDevicesInfo: () => Promise<DeviceAudioInfo>;
+    export const getFilterSummary: (result: IncomingCallFilterResult | null) => IncomingCallFilterSummary | null;
     /**
-        * Updating the default input & output device
+        * Check if an incoming call should ring after it is filtered.
+        * @param {IncomingCallFilterResult} result - decision taken for the call
         */
-    export const updateWindowDeviceList: (deviceList: any) => void;
+    export const isCallAllowed: (result: IncomingCallFilterResult | null) => boolean;
+}
+
+declare module 'plivo-browser-sdk/stats/feedbackQueue' {
+    import { Client } from 'plivo-browser-sdk/client';
+    import { FeedbackObject, FeedbackResult } from 'plivo-browser-sdk/utils/feedback';
+    export interface FeedbackSubmission {
+            id: string;
+            callUUID: string;
+            sipCallID: string | null;
+            userName: string;
+            feedback: FeedbackObject;
+            sendConsoleLogs: boolean;
+            consoleLogs: string[] | null;
+            sipTrace: string | null;
+            queuedAt: number;
+            attempts: number;
+    }
     /**
-        * Check the input & output audio device for windows machine such that both belong to same groupid
+        * Holds the feedback submitted while offline or logged out. Feedback is persisted
+        * in localStorage so that it is sent after a page reload as well. The feedback of
+        * the last logged in user is kept.
         */
-    export const setAudioDeviceForForWindows: (devices: any, lastConnectedMicDevice: any, lastConnectedSpeakerDevice: any) => void;
+    export class FeedbackQueue {
+            /**
+                * Feedback waiting to be sent, oldest first
+                * @private
+                */
+            entries: FeedbackSubmission[];
+            /**
+                * User whose feedback is kept, null until the first login
+                * @private
+                */
+            userName: string | null;
+            /**
+                * Fulfills once the queued feedback being sent is done
+                * @private
+                */
+            pending: Promise<FeedbackResult[]> | null;
+            /**
+                * @constructor
+                * @private
+                */
+            constructor();
+            /**
+                * Switch to the feedback of the logged in user.
+                * @param {String} userName - logged in user name
+                */
+            setUser: (userName: string) => void;
+            /**
+                * Add feedback which could not be sent, the oldest one is dropped when the queue is full.
+                * Logs beyond the allowed size are dropped, oldest first.
+                * @param {FeedbackSubmission} submission - validated feedback
+                * @returns False if the feedback could not be stored, it is not queued then
+                */
+            add: (submission: FeedbackSubmission) => boolean;
+            /**
+                * Remove feedback once it is sent.
+                * @param {String} id - submission identifier
+                */
+            remove: (id: string) => void;
+            /**
+                * Count a failed attempt, feedback is dropped after the allowed attempts.
+                * @param {String} id - submission identifier
+                */
+            fail: (id: string) => void;
+            /**
+                * Get the feedback waiting to be sent, oldest first.
+                */
+            getAll: () => FeedbackSubmission[];
+            /**
+                * Get the number of feedback waiting to be sent.
+                */
+            getPendingCount: () => number;
+    }
     /**
-        * Check audio devices for electron app
+        * Check if feedback can be sent right away.
+        * @param {Client} client - client reference
         */
-    export const checkElectronAudioDevices: () => void;
+    export const canSendFeedback: (client: Client) => boolean;
     /**
-        * Check if input or output audio device has changed.
+        * Create a submission for validated feedback.
+        * @param {FeedbackSubmission} submission - call and feedback information
         */
-    export const checkAudioDevChange: () => void;
+    export const createFeedbackSubmission: (submission: Omit<FeedbackSubmission, 'id' | 'consoleLogs' | 'queuedAt' | 'attempts'>) => FeedbackSubmission;
     /**
-        * Unmute the local stream.
+        * Send feedback to plivo stats and upload the logs and sip trace.
+        * @param {FeedbackSubmission} submission - validated feedback
+        * @returns Fulfills with the submission result or rejects if the logs could not be uploaded
         */
-    export const unmute: () => void;
+    export const sendFeedback: (submission: FeedbackSubmission) => Promise<FeedbackResult>;
     /**
-        * Stop all tracks in the local stream.
+        * Keep feedback until it can be sent, the console logs are captured right away.
+        * @param {FeedbackSubmission} submission - validated feedback
+        * @returns Queued result, or failed result if the feedback could not be stored
         */
-    export const updateAudioDeviceFlags: () => void;
+    export const queueFeedback: (submission: FeedbackSubmission) => FeedbackResult;
     /**
-        * Set the callback which is used for storing list of audio device labels.
-        * @param {Function} setter - callback for storing device labels
+        * Send the queued feedback in order. Sending stops at the first failure and is
+        * retried the next time the client logs in or comes online.
+        * @returns Fulfills with the results of the feedback sent
         */
-    export const audioDevDicSetter: (setter: (set: any) => void) => void;
+    export const submitQueuedFeedback: () => Promise<FeedbackResult[]>;
+}
+
+declare module 'plivo-browser-sdk/stats/liveStats' {
+    export interface LiveStatsLocal {
+            bitrate: number | null;
+            packetsSent: number | null;
+            packetsLost: number | null;
+            fractionLoss: number | null;
+            jitter: number | null;
+            rtt: number | null;
+            mos: number | null;
+            audioLevel: number | null;
+    }
+    export interface LiveStatsRemote {
+            bitrate: number | null;
+            packetsReceived: number | null;
+            packetsLost: number | null;
+            fractionLoss: number | null;
+            jitter: number | null;
+            jitterBufferDelay: number | null;
+            concealment: number | null;
+            mos: number | null;
+            audioLevel: number | null;
+    }
+    export interface LiveStats {
+            callUUID: string;
+            timeStamp: number;
+            codec: string;
+            networkType: string;
+            local: LiveStatsLocal;
+            remote: LiveStatsRemote;
+    }
+    export interface StatsSubscriptionOptions {
+            intervalMs?: number;
+    }
+    export type StatsUnsubscribe = () => void;
+    export interface StatsSubscription {
+            callback: (stats: LiveStats) => void;
+            every: number;
+            ticks: number;
+    }
     /**
-        * Detect if input or output audio device has changed.
+        * Register a callback for the stats collected during calls.
+        * @param {Function} callback - receives the stats of the active call
+        * @param {StatsSubscriptionOptions} options - (Optional) interval at which stats are delivered,
+        * rounded to the stats collection interval
+        * @returns Function which removes the subscription
         */
-    export const detectDeviceChange: () => void;
+    export const subscribeStats: (callback: (stats: LiveStats) => void, options?: StatsSubscriptionOptions) => StatsUnsubscribe;
+    /**
+        * Deliver the stats of a collection tick to the subscribers which are due. Stats of the
+        * held calls are left out so that subscribers get one sample per tick.
+        * @param {LiveStats} stats - normalized stats of a call
+        */
+    export const publishStats: (stats: LiveStats) => void;
 }
 
 declare module 'plivo-browser-sdk/stats/rtpStats' {
     import { Client, Storage } from 'plivo-browser-sdk/client';
     import { AudioLevel } from 'plivo-browser-sdk/media/audioLevel';
+    import { CallSession } from 'plivo-browser-sdk/managers/callSession';
+    import { CallQualityCollector } from 'plivo-browser-sdk/stats/qualityReport';
     export interface StatsLocalStream {
             ssrc?: number;
             packetsLost?: number;
@@ -1014,6 +3070,15 @@ declare module 'plivo-browser-sdk/stats/rtpStats' {
             pdd?: number;
             mediaSetupTime?: number;
     }
+    interface LiveStatsBase {
+            timeStamp: number | null;
+            bytesSent?: number;
+            bytesReceived?: number;
+            jitterBufferDelay?: number;
+            jitterBufferEmittedCount?: number;
+            concealedSamples?: number;
+            totalSamplesReceived?: number;
+    }
     interface RtpStatsStream {
             codec: string;
             local: StatsLocalStream;
@@ -1021,6 +3086,14 @@ declare module 'plivo-browser-sdk/stats/rtpStats' {
             networkType: string;
             gotNetworkType?: boolean;
     }
+    /**
+        * Estimate MOS from the network conditions using the E-model R factor.
+        * @param {Number} rtt - round trip time in milliseconds
+        * @param {Number} jitter - variation in the delay of received packets in milliseconds
+        * @param {Number} fractionLoss - number of packets lost divided by number of packets sent/received
+        * @param {String} codec - audio codec used for the media
+        */
+    export const estimateMos: (rtt: number, jitter: number, fractionLoss: number, codec: string | null) => number;
     /**
         * Get RTP stats for chrome browser.
         * @param {RtpStatsStream} stream - holds local and remote stat details
@@ -1039,6 +3112,11 @@ declare module 'plivo-browser-sdk/stats/rtpStats' {
                 * Client class reference
                 */
             clientScope: Client;
+            /**
+                * Call session whose stats are collected
+                * @private
+                */
+            callSession: CallSession;
             /**
                 * Represents a WebRTC connection between caller and callee
                 * @private
@@ -1149,12 +3227,31 @@ declare module 'plivo-browser-sdk/stats/rtpStats' {
                 * @private
                 */
             collected: StatsObject;
+            /**
+                * Latest MOS calculated for local and remote streams
+                * @private
+                */
+            mos: {
+                    local: number | null;
+                    remote: number | null;
+            };
+            /**
+                * Aggregates the stats of each interval for the call quality report
+                * @private
+                */
+            qualityCollector: CallQualityCollector;
+            /**
+                * Counters of the previous interval used for calculating live stats
+                * @private
+                */
+            liveStatsBase: LiveStatsBase;
             /**
                 * @constructor
                 * @param {Object} that - client reference
+                * @param {CallSession} callSession - call session whose stats are collected
                 * @private
                 */
-            constructor(client: Client);
+            constructor(client: Client, callSession: CallSession);
             /**
                 * Stop analysing audio levels for local and remote streams.
                 */
@@ -1163,10 +3260,63 @@ declare module 'plivo-browser-sdk/stats/rtpStats' {
     export {};
 }
 
+declare module 'plivo-browser-sdk/media/holdMusic' {
+    /**
+        * Plays hold music into the outgoing audio track of a call.
+        */
+    export class HoldMusic {
+            /**
+                * Media url of the hold music
+                * @private
+                */
+            url: string;
+            /**
+                * DOM AudioContext used for converting the hold music into a media stream
+                * @private
+                */
+            audioContext: null | AudioContext;
+            /**
+                * Audio element which plays the hold music
+                * @private
+                */
+            audioElement: null | HTMLAudioElement;
+            /**
+                * Sender whose track is replaced by the hold music
+                * @private
+                */
+            sender: null | RTCRtpSender;
+            /**
+                * Microphone track which is restored once hold music stops
+                * @private
+                */
+            originalTrack: null | MediaStreamTrack;
+            /**
+                * Replace the outgoing audio track with the hold music.
+                * @param {RTCPeerConnection} connection - peer connection of the call
+                */
+            start: (connection: RTCPeerConnection) => Promise<void>;
+            /**
+                * Stop the hold music and restore the microphone track.
+                */
+            stop: () => Promise<void>;
+            /**
+                * Check if hold music is being played.
+                */
+            isPlaying: () => boolean;
+            /**
+                * @constructor
+                * @param {String} url - media url of the hold music
+                * @private
+                */
+            constructor(url: string);
+    }
+}
+
 declare module 'plivo-browser-sdk/stats/nonRTPStats' {
     import { CallSession, SignallingInfo, MediaConnectionInformation } from 'plivo-browser-sdk/managers/callSession';
     import { ConfiguationOptions } from 'plivo-browser-sdk/client';
     import { FeedbackObject } from 'plivo-browser-sdk/utils/feedback';
+    import { IncomingCallFilterSummary } from 'plivo-browser-sdk/managers/callFilter';
     export interface AnsweredEvent {
             msg: string;
             info: string;
@@ -1215,6 +3365,8 @@ declare module 'plivo-browser-sdk/stats/nonRTPStats' {
             audioDeviceInfo?: DeviceAudioInfo;
             isAudioDeviceToggled?: boolean;
             isNetworkChanged?: boolean;
+            incomingCallFilter?: IncomingCallFilterSummary | null;
+            filteredIncomingCalls?: number;
             jsFramework: string[];
     }
     /**
@@ -1225,9 +3377,15 @@ declare module 'plivo-browser-sdk/stats/nonRTPStats' {
         * @param {String} userName
         * @returns Stat message with call information
         */
-    export const addCallInfo: (callSession: CallSession, statMsg: any, callstatskey: string, userName: string) => object;
+    export const addCallInfo: (callSession: CallSession, statMsg: any, callstatskey: string | null, userName: string) => object;
+    /**
+        * Options reported along with the events. Objects passed by the application
+        * like the transport and stats sinks are left out.
+        * @param {ConfiguationOptions} options - client configuration parameters
+        */
+    export const getSetupOptions: (options: ConfiguationOptions) => ConfiguationOptions;
     /**
-        * Send events to plivo stats.
+        * Send events to plivo stats and the stats sinks.
         * @param {Any} statMsg - call stats (Answered/RTP/Summary/Feedback/Failure Events)
         * @param {CallSession} session - call session information
         */
@@ -1254,10 +3412,10 @@ declare module 'plivo-browser-sdk/stats/nonRTPStats' {
     export const sendCallSummaryEvent: (deviceInfo: DeviceAudioInfo, signallingInfo: SignallingInfo, mediaConnectionInfo: MediaConnectionInformation, session: CallSession) => void;
     /**
             * Send user feedback to plivo stats.
-            * @param {CallSession} callSession - call information
+            * @param {CallSession} callSession - call information, an ended call only needs the ids
             * @param {FeedbackObject} feedback - user feedback(contains score, issues, remarks)
             */
-    export const sendFeedbackEvent: (callSession: CallSession, feedback: FeedbackObject) => void;
+    export const sendFeedbackEvent: (callSession: Pick<CallSession, 'callUUID' | 'sipCallID'>, feedback: FeedbackObject) => void;
     /**
             * Get error name based on code.
             * @param {Number} status_code
@@ -1288,6 +3446,12 @@ declare module 'plivo-browser-sdk/stats/nonRTPStats' {
             * @param {String} action
             */
     export const onToggleMute: (callSession: CallSession, action: string) => void;
+    /**
+        * Triggered when the call is put on hold or resumed by the user.
+        * @param {CallSession} callSession - call session information
+        * @param {String} action
+        */
+    export const onToggleHold: (callSession: CallSession, action: string) => void;
 }
 
 declare module 'plivo-browser-sdk/media/audioLevel' {
@@ -1337,20 +3501,3 @@ declare module 'plivo-browser-sdk/media/audioLevel' {
     }
 }
 
-declare module 'plivo-browser-sdk/utils/feedback' {
-    export interface FeedbackObject {
-        overall: number;
-        comment: string;
-    }
-    /**
-      * Check feedback information.
-      * @param {String} callUUID - specify the CallUUID for which feedback needs to be sent
-      * @param {String} starRating - Rate the call from 1 to 5
-      * @param {String} note - Send any remarks
-      * @param {Array<String>} issues - Provide suspected issues
-      * @param {String} userName
-      * @param {Boolean} isLoggedIn - Loggedin status
-      */
-    export const validateFeedback: (callUUID: string, starRating: string, note: string, issues: string[], userName: string, isLoggedIn: boolean) => Promise<FeedbackObject>;
-}
-
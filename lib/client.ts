@@ -1,7 +1,9 @@
 /* eslint-disable no-underscore-dangle */
 /* eslint-disable import/no-cycle */
 import { EventEmitter } from 'events';
-import { WebSocketInterface, UA, RTCSession } from 'plivo-jssip';
+import {
+  WebSocketInterface, UA, RTCSession, Socket,
+} from 'plivo-jssip';
 import * as C from './constants';
 import {
   Logger, AvailableLogMethods, AvailableFlagValues, DtmfOptions,
@@ -12,25 +14,73 @@ import validateOptions from './utils/options';
 import * as nonRTPStats from './stats/nonRTPStats';
 import * as device from './utils/device';
 import * as oneWayAudio from './utils/oneWayAudio';
-import Account from './managers/account';
+import Account, { LoginFailureReason } from './managers/account';
 import * as IncomingCall from './managers/incomingCall';
 import * as OutgoingCall from './managers/outgoingCall';
-import { CallSession } from './managers/callSession';
-import { StatsSocket } from './stats/ws';
-import { validateFeedback, FeedbackObject } from './utils/feedback';
+import { blindTransfer, attendedTransfer, TransferProgress } from './managers/transfer';
+import {
+  mergeCalls, splitCalls, isConferenceLeg, setConferenceMute,
+} from './managers/conference';
+import { CallSession, CallInfo } from './managers/callSession';
+import { Call } from './managers/call';
+import { getActiveCall, setActiveCall, UnloadListeners } from './managers/util';
+import { StatsSocket, replayPendingTelemetry } from './stats/ws';
+import { TelemetryBuffer } from './stats/telemetryBuffer';
+import { ConferenceMixer } from './media/conferenceMixer';
+import { CallWaitingTone } from './media/callWaitingTone';
 import {
-  PreSignedUrlRequest,
-  getPreSignedS3URL,
-  uploadConsoleLogsToBucket,
-  PreSignedUrlResponse,
-} from './stats/httpRequest';
+  validateFeedback,
+  parseFeedbackIssues,
+  FeedbackIssueTypes,
+  FeedbackOptions,
+  FeedbackResult,
+} from './utils/feedback';
 import {
   OutputDevices,
   InputDevices,
   RingToneDevices,
 } from './media/audioDevice';
 import getBrowserDetails from './utils/browserDetection';
+import { decodeAccessToken } from './utils/token';
 import detectFramework from './utils/frameworkDetection';
+import {
+  runPreflightTest, PreflightOptions, PreflightReport, PreflightProgress,
+} from './utils/preflight';
+import { CallQualityReport } from './stats/qualityReport';
+import { StatsSink } from './stats/sinks';
+import {
+  SipTrace, SipTraceFormat, SipTraceRecorder, toSipLadder, toSipPcap,
+} from './stats/sipTrace';
+import { CallHistory, CallHistoryEntry } from './stats/callHistory';
+import { sendMessage, ReceivedMessage, ReceivedInfo } from './managers/messaging';
+import { AutoAnswerInfo } from './managers/autoAnswer';
+import {
+  WaitingCallAction,
+  WaitingCallInfo,
+  answerWaitingCall,
+  getWaitingCalls,
+  rejectWaitingCall,
+} from './managers/callWaiting';
+import {
+  IncomingCallRule,
+  IncomingCallMatcher,
+  IncomingCallFilterResult,
+  DoNotDisturbOptions,
+  getIncomingCallRulesError,
+  getDoNotDisturbError,
+  isDoNotDisturbActive,
+} from './managers/callFilter';
+import {
+  FeedbackQueue,
+  canSendFeedback,
+  createFeedbackSubmission,
+  queueFeedback,
+  sendFeedback,
+  submitQueuedFeedback,
+} from './stats/feedbackQueue';
+import {
+  subscribeStats, LiveStats, StatsSubscription, StatsSubscriptionOptions, StatsUnsubscribe,
+} from './stats/liveStats';
 
 export interface PlivoObject {
   log: typeof Logger;
@@ -40,7 +90,7 @@ export interface PlivoObject {
 }
 
 const Plivo: PlivoObject = {
-  log: Logger,
+  log: Logger.scope('client'),
   sendEvents: nonRTPStats.sendEvents,
   AppError: nonRTPStats.AppError,
 };
@@ -64,10 +114,78 @@ export interface ConfiguationOptions {
   disableRtpTimeOut?: boolean;
   allowMultipleIncomingCalls?: boolean;
   closeProtection?: boolean;
+  earlyMedia?: boolean;
   maxAverageBitrate?: number;
   dtmfOptions?: DtmfOptions;
+  tokenProvider?: null | (() => Promise<string> | string);
+  registerExpires?: number;
+  reconnectionPolicy?: ReconnectionPolicy;
+  loginTimeout?: number;
+  transport?: null | Socket;
+  qualityThresholds?: QualityThresholdsOptions;
+  statsSinks?: StatsSink[];
+  // https endpoint of the application which forwards the stats posted on page unload to
+  // Plivo. Without it those stats go over the stats socket and may be lost on unload.
+  statsBeaconUrl?: null | string;
+  autoAnswer?: AutoAnswerPolicy;
+  callWaitingTone?: CallWaitingToneOptions;
+}
+
+export interface ReconnectionPolicy {
+  minInterval: number;
+  maxInterval: number;
+  jitter: number;
+  maxAttempts: number;
+}
+
+/**
+ * Incoming calls answered without user action. In header mode calls carrying
+ * X-PH-AutoAnswer or Call-Info with answer-after are answered, in caller mode
+ * calls from the listed callers are answered.
+ */
+export interface AutoAnswerPolicy {
+  mode: 'off' | 'always' | 'header' | 'caller';
+  callers: IncomingCallMatcher[];
+  // milliseconds before answering, answer-after of the Call-Info header takes precedence
+  delay: number;
+  beep: boolean;
+}
+
+/**
+ * Tone played during the active call when another call comes in. The cadence lists
+ * alternating tone and silence durations in milliseconds, starting with a tone, and
+ * is repeated every interval milliseconds.
+ */
+export interface CallWaitingToneOptions {
+  enabled: boolean;
+  frequency: number;
+  volume: number;
+  cadence: number[];
+  interval: number;
+}
+
+/**
+ * Stats are analysed in windows of windowSize samples. A warning is raised when at least
+ * raiseCount samples of a window cross the threshold and cleared when at most clearCount do.
+ */
+export interface QualityWindow {
+  windowSize: number;
+  raiseCount: number;
+  clearCount: number;
 }
 
+export interface QualityThresholds {
+  rtt: QualityWindow & { threshold: number };
+  jitter: QualityWindow & { threshold: number };
+  packetLoss: QualityWindow & { threshold: number; opusThreshold: number };
+  mos: QualityWindow & { threshold: number };
+  audioLevel: { silenceDuration: number; windowSize: number; clearCount: number };
+}
+
+export type QualityThresholdsOptions = {
+  [metric in keyof QualityThresholds]?: Partial<QualityThresholds[metric]>;
+};
+
 export interface BrowserDetails {
   browser: string;
   version: number;
@@ -77,6 +195,86 @@ export interface ExtraHeaders {
   [key: string]: string;
 }
 
+export interface ConnectionChangeInfo {
+  state: string;
+  eventCode?: null | number;
+  eventReason?: null | string;
+}
+
+export interface HangupInfo {
+  originator: string;
+  reason: string;
+}
+
+export interface CallProgress {
+  statusCode: number;
+  earlyMedia: boolean;
+}
+
+export interface MediaMetricsInfo {
+  group: string;
+  level: string;
+  type: string;
+  value: number;
+  active: boolean;
+  desc: string;
+  stream: string;
+  threshold?: number;
+}
+
+/**
+ * Events emitted by the client mapped to the signature of their listeners.
+ */
+export interface ClientEvents {
+  onWebrtcNotSupported: () => void;
+  onMediaPermission: (evt: documentUtil.AudioEvent) => void;
+  onLogin: () => void;
+  onLogout: () => void;
+  onLoginFailed: (cause: string, reason?: LoginFailureReason) => void;
+  onConnectionChange: (info: ConnectionChangeInfo) => void;
+  onReconnecting: (info: { attempt: number; maxAttempts: number; delay: number }) => void;
+  onReconnected: (info: { attempts: number }) => void;
+  onTokenExpiring: (info: { expiresAt: number }) => void;
+  onTokenRefreshFailed: (info: { reason: string; expiresAt: number }) => void;
+  onCalling: () => void;
+  onCallRemoteRinging: (callInfo: CallInfo) => void;
+  onCallProgress: (progress: CallProgress, callInfo: CallInfo) => void;
+  onIncomingCall: (
+    callerId: string,
+    extraHeaders: ExtraHeaders,
+    callInfo: CallInfo,
+    callerName: string,
+    call: Call,
+  ) => void;
+  onIncomingCallCanceled: (callInfo: CallInfo) => void;
+  onIncomingCallIgnored: (callInfo: CallInfo) => void;
+  onIncomingCallFiltered: (result: IncomingCallFilterResult) => void;
+  onAutoAnswered: (callInfo: CallInfo, autoAnswer: AutoAnswerInfo) => void;
+  onCallWaiting: (waitingCallInfo: WaitingCallInfo) => void;
+  onCallAnswered: (callInfo: CallInfo) => void;
+  onMediaConnected: (callInfo: CallInfo) => void;
+  onCallStateChange: (prevState: string, state: string, callInfo: CallInfo) => void;
+  onCallHeld: (holdInfo: { originator: string }, callInfo: CallInfo) => void;
+  onCallResumed: (holdInfo: { originator: string }, callInfo: CallInfo) => void;
+  onCallTerminated: (hangupInfo: HangupInfo, callInfo: CallInfo) => void;
+  onCallFailed: (cause: string, callInfo?: CallInfo) => void;
+  onCallsMerged: (callInfos: CallInfo[]) => void;
+  onCallsSplit: (callInfos: CallInfo[]) => void;
+  onTransferProgress: (progress: TransferProgress, callInfo: CallInfo) => void;
+  onTransferFailed: (
+    failure: { statusCode: number | null; reason: string },
+    callInfo: CallInfo,
+  ) => void;
+  mediaMetrics: (metrics: MediaMetricsInfo) => void;
+  audioDeviceChange: (deviceChange: { change: string; device: MediaDeviceInfo | string }) => void;
+  volume: (audioStats: { inputVolume: string; outputVolume: string }) => void;
+  onPreflightProgress: (progress: PreflightProgress) => void;
+  onCallQualityReport: (report: CallQualityReport, callInfo: CallInfo) => void;
+  onFeedbackSent: (result: FeedbackResult) => void;
+  onMessageReceived: (message: ReceivedMessage) => void;
+  onInfoReceived: (info: ReceivedInfo, callInfo: CallInfo) => void;
+}
+
 export interface Storage {
   local_audio: any[];
   remote_audio: any[];
@@ -103,6 +301,16 @@ export interface Storage {
   };
 }
 
+/**
+ * Event listener methods of the client typed with ClientEvents.
+ */
+export interface Client {
+  on<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): this;
+  once<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): this;
+  off<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): this;
+  emit<E extends keyof ClientEvents>(event: E, ...args: Parameters<ClientEvents[E]>): boolean;
+}
+
 /**
  * Initializes the client.
  * @public
@@ -202,6 +410,12 @@ export class Client extends EventEmitter {
    */
   _lastCallSession: null | CallSession;
 
+  /**
+   * Contains the established calls identifiers with their call session(active and on hold)
+   * @private
+   */
+  activeCalls: Map<string, CallSession>;
+
   /**
    * Contains the ongoing incoming calls identifiers with their call session
    * @private
@@ -214,6 +428,54 @@ export class Client extends EventEmitter {
    */
   incomingCallsInitiationTime: Map<string, any>;
 
+  /**
+   * Contains the quality reports of the latest ended calls by CallUUID
+   * @private
+   */
+  callQualityReports: Map<string, CallQualityReport>;
+
+  /**
+   * Captures the sip messages of the latest calls
+   * @private
+   */
+  sipTrace: SipTraceRecorder;
+
+  /**
+   * Latest ended calls for which feedback can be submitted
+   * @private
+   */
+  callHistory: CallHistory;
+
+  /**
+   * Feedback waiting for the client to be online and logged in
+   * @private
+   */
+  feedbackQueue: FeedbackQueue;
+
+  /**
+   * Predefined and registered issues accepted in feedback
+   * @private
+   */
+  feedbackIssues: FeedbackIssueTypes;
+
+  /**
+   * Rules deciding whether an incoming call rings, evaluated in order
+   * @private
+   */
+  incomingCallRules: IncomingCallRule[];
+
+  /**
+   * Do not disturb settings for incoming calls
+   * @private
+   */
+  doNotDisturb: DoNotDisturbOptions;
+
+  /**
+   * Callbacks registered for receiving the stats collected during calls
+   * @private
+   */
+  statsSubscriptions: StatsSubscription[];
+
   /**
    * Holds the call session of previous incoming call
    * @private
@@ -238,6 +500,18 @@ export class Client extends EventEmitter {
    */
   password: null | string;
 
+  /**
+   * Access token given when logging in with token
+   * @private
+   */
+  accessToken: null | string;
+
+  /**
+   * Holds the account of the logged in user
+   * @private
+   */
+  account: null | Account;
+
   /**
    * Options passed by the user while instantiating the client class
    * @private
@@ -329,6 +603,24 @@ export class Client extends EventEmitter {
    */
   statsSocket: null | StatsSocket;
 
+  /**
+   * Holds the stats messages which are not yet sent to the stats socket
+   * @private
+   */
+  telemetryBuffer: TelemetryBuffer;
+
+  /**
+   * Set when the page is being unloaded, events are then sent as beacons to statsBeaconUrl
+   * @private
+   */
+  isUnloading: boolean;
+
+  /**
+   * Page lifecycle listeners added for the active calls
+   * @private
+   */
+  unloadListeners: UnloadListeners | null;
+
   /**
    * Contains available audio devices.This is done for backward compatiblity
    * @private
@@ -374,6 +666,30 @@ export class Client extends EventEmitter {
    */
   connectToneView: HTMLAudioElement;
 
+  /**
+   * Media url of the audio played to the other party while the call is on hold
+   * @private
+   */
+  holdMusicUrl: null | string;
+
+  /**
+   * Plays the call waiting tone during the active call
+   * @private
+   */
+  callWaitingTone: CallWaitingTone;
+
+  /**
+   * Mixes the audio of the merged calls
+   * @private
+   */
+  conferenceMixer: null | ConferenceMixer;
+
+  /**
+   * Holds the call sessions which are merged into the local conference
+   * @private
+   */
+  conferenceCalls: CallSession[];
+
   /**
    * Explains whether login method is called.
    * @private
@@ -431,6 +747,12 @@ export class Client extends EventEmitter {
    */
   networkChangeInCurrentSession: boolean;
 
+  /**
+   * Number of incoming calls rejected or ignored by the filter during current session
+   * @private
+   */
+  filteredCallsInCurrentSession: number;
+
   /**
    * Holds a boolean to get initial network info
    * @private
@@ -455,6 +777,13 @@ export class Client extends EventEmitter {
    */
   public login = (username: string, password: string): boolean => this._login(username, password);
 
+  /**
+   * Register using a JWT access token. When already registered with the same endpoint, the
+   * registration is refreshed with the new token without affecting the ongoing calls.
+   * @param {String} token - JWT access token
+   */
+  public loginWithToken = (token: string): boolean => this._loginWithToken(token);
+
   /**
    * Unregister and clear stats timer, socket.
    */
@@ -465,11 +794,12 @@ export class Client extends EventEmitter {
    * @param {String} phoneNumber - It can be a sip endpoint/number
    * @param {Object} extraHeaders - (Optional) Custom headers which are passed in the INVITE.
    * They should start with 'X-PH'
+   * @returns Call object for the new call or false if the call could not be placed
    */
   public call = (
     phoneNumber: string,
     extraHeaders: ExtraHeaders,
-  ): boolean => this._call(phoneNumber, extraHeaders);
+  ): Call | false => this._call(phoneNumber, extraHeaders);
 
   /**
    * Answer the incoming call.
@@ -485,8 +815,10 @@ export class Client extends EventEmitter {
 
   /**
    * Hangup the call(Outgoing/Incoming).
+   * @param {String} callUUID - (Optional) Provide CallUUID to hangup a call other than the
+   * active call
    */
-  public hangup = (): boolean => this._hangup();
+  public hangup = (callUUID?: string): boolean => this._hangup(callUUID);
 
   /**
    * Reject the Incoming call.
@@ -504,18 +836,93 @@ export class Client extends EventEmitter {
    * Send DTMF for call(Outgoing/Incoming).
    * @param {String} digit - Send the digits as dtmf 'digit'
    * ("1", "2", "3", "4", "5", "6", "7", "8", "9", "0", "*", "#")
+   * @param {String} callUUID - (Optional) Provide CallUUID to send DTMF on a call other than the
+   * active call
    */
-  public sendDtmf = (digit: string | number): void => this._sendDtmf(digit);
+  public sendDtmf = (
+    digit: string | number,
+    callUUID?: string,
+  ): void => this._sendDtmf(digit, callUUID);
 
   /**
    * Mute the call(Outgoing/Incoming).
+   * @param {String} callUUID - (Optional) Provide CallUUID to mute a call other than the
+   * active call
    */
-  public mute = (): boolean => this._mute();
+  public mute = (callUUID?: string): boolean => this._mute(callUUID);
 
   /**
    * Unmute the call(Outgoing/Incoming).
+   * @param {String} callUUID - (Optional) Provide CallUUID to unmute a call other than the
+   * active call
+   */
+  public unmute = (callUUID?: string): boolean => this._unmute(callUUID);
+
+  /**
+   * Get all the established calls. Only one of them is active, the others are on hold.
+   */
+  public getCalls = (): CallInfo[] => this._getCalls();
+
+  /**
+   * Put the active call on hold and resume the given call.
+   * @param {String} callUUID - Provide CallUUID of the call to be made active
+   */
+  public switchTo = (callUUID: string): boolean => this._switchTo(callUUID);
+
+  /**
+   * Merge two answered calls into a local three-way conference.
+   * @param {String|Call} callA - CallUUID or call object of the first call
+   * @param {String|Call} callB - CallUUID or call object of the second call
+   */
+  public merge = (
+    callA: string | Call,
+    callB: string | Call,
+  ): boolean => mergeCalls(this, callA, callB);
+
+  /**
+   * Split the merged calls. The active call stays connected and the other call is put on hold.
+   */
+  public split = (): boolean => splitCalls(this);
+
+  /**
+   * Put the call(Outgoing/Incoming) on hold.
+   */
+  public hold = (): boolean => this._hold();
+
+  /**
+   * Resume the call(Outgoing/Incoming) which was put on hold.
+   */
+  public unhold = (): boolean => this._unhold();
+
+  /**
+   * Check if the call(Outgoing/Incoming) is put on hold by the user.
    */
-  public unmute = (): boolean => this._unmute();
+  public isOnHold = (): boolean => this._isOnHold();
+
+  /**
+   * Transfer the call(Outgoing/Incoming) to another sip endpoint/number.
+   * @param {String} target - It can be a sip endpoint/number
+   * @param {ExtraHeaders} extraHeaders - (Optional) Custom headers which are passed in the REFER.
+   * They should start with 'X-PH'
+   */
+  public transfer = (
+    target: string,
+    extraHeaders: ExtraHeaders = {},
+  ): boolean => this._transfer(target, extraHeaders);
+
+  /**
+   * Transfer the call(Outgoing/Incoming) to the party of a consultation call.
+   * @param {String} consultCallUUID - CallUUID of the answered consultation call
+   */
+  public attendedTransfer = (
+    consultCallUUID: string,
+  ): boolean => this._attendedTransfer(consultCallUUID);
+
+  /**
+   * Configure the audio played to the other party while the call is on hold.
+   * @param {Any} val - Can be media url or false for disabling hold music
+   */
+  public setHoldMusic = (val: string | boolean): boolean => this._setHoldMusic(val);
 
   /**
    * Configure the ringtone played when an incoming call starts ringing.
@@ -555,6 +962,51 @@ export class Client extends EventEmitter {
    */
   public getLastCallUUID = (): string | null => this._getLastCallUUID();
 
+  /**
+   * Get the quality report of an active call or of one of the latest ended calls.
+   * @param {String} callUUID - CallUUID of the call
+   * @returns Stats summary of the call or null if no report is available
+   */
+  public getCallQualityReport = (
+    callUUID: string,
+  ): CallQualityReport | null => this._getCallQualityReport(callUUID);
+
+  /**
+   * Get the number of stats messages waiting to be sent, including the ones
+   * persisted by an earlier page load.
+   */
+  public getPendingTelemetryCount = (): number => this.telemetryBuffer.getPendingCount();
+
+  /**
+   * Get the sip messages sent and received for a call.
+   * @param {String} callUUID - CallUUID of the call
+   * @returns Messages with timestamp and direction or null if the call is not traced
+   */
+  public getSipTrace = (callUUID: string): SipTrace | null => this.sipTrace.getTrace(callUUID);
+
+  /**
+   * Export the sip messages of a call for sharing with support.
+   * @param {String} callUUID - CallUUID of the call
+   * @param {SipTraceFormat} format - (Optional) ladder text or pcap like json, defaults to ladder
+   * @returns Exported trace or null if the call is not traced
+   */
+  public exportSipTrace = (
+    callUUID: string,
+    format: SipTraceFormat = 'ladder',
+  ): string | null => this._exportSipTrace(callUUID, format);
+
+  /**
+   * Receive the stats of the active call every time they are collected.
+   * @param {Function} callback - receives bitrate, packets, jitter, MOS and audio levels
+   * @param {StatsSubscriptionOptions} options - (Optional) interval in milliseconds at which
+   * stats are delivered, rounded to the stats collection interval
+   * @returns Function to stop receiving stats
+   */
+  public onStats = (
+    callback: (stats: LiveStats) => void,
+    options?: StatsSubscriptionOptions,
+  ): StatsUnsubscribe => subscribeStats.call(this, callback, options);
+
   /**
    * Get a list of incoming calls which are active.
    */
@@ -588,6 +1040,10 @@ export class Client extends EventEmitter {
    * @param {Array<String>} issues - Provide suspected issues
    * @param {String} note - Send any remarks
    * @param {Boolean} sendConsoleLogs - Send browser logs to Plivo
+   * @param {Boolean} sendSipTrace - (Optional) Send sip messages of the call along with the logs
+   * @param {FeedbackOptions} options - (Optional) metadata and call quality report to attach
+   * @returns Fulfills with the result, feedback is queued while offline or logged out and
+   * fails when it can not be stored for later
    */
   public submitCallQualityFeedback = (
     callUUID: string,
@@ -595,14 +1051,122 @@ export class Client extends EventEmitter {
     issues: string[],
     note: string,
     sendConsoleLogs: boolean,
-  ): Promise<string> => this._submitCallQualityFeedback(
+    sendSipTrace: boolean = false,
+    options: FeedbackOptions = {},
+  ): Promise<FeedbackResult> => this._submitCallQualityFeedback(
     callUUID,
     starRating,
     issues,
     note,
     sendConsoleLogs,
+    sendSipTrace,
+    options,
   );
 
+  /**
+   * Accept custom issues in feedback along with the predefined issues.
+   * @param {Array<String>|Object} issues - issue names, or issue names with the value reported
+   * @returns Issues accepted in feedback
+   */
+  public registerFeedbackIssues = (
+    issues: string[] | FeedbackIssueTypes,
+  ): string[] => this._registerFeedbackIssues(issues);
+
+  /**
+   * Get the issues accepted in feedback.
+   */
+  public getFeedbackIssues = (): string[] => Object.keys(this.feedbackIssues);
+
+  /**
+   * Get the latest ended calls, including the ones of earlier page loads.
+   * @returns Calls for which feedback can be submitted, latest first
+   */
+  public getCallHistory = (): CallHistoryEntry[] => this.callHistory.getAll();
+
+  /**
+   * Get the number of feedback waiting for the client to be online and logged in.
+   */
+  public getQueuedFeedbackCount = (): number => this.feedbackQueue.getPendingCount();
+
+  /**
+   * Send the queued feedback, done automatically on login and when the network is back.
+   * @returns Fulfills with the results of the feedback sent
+   */
+  public submitQueuedFeedback = (): Promise<FeedbackResult[]> => submitQueuedFeedback.call(this);
+
+  /**
+   * Send a SIP MESSAGE to an endpoint for chat or application data.
+   * @param {String} to - sip endpoint or number
+   * @param {String} body - message content
+   * @param {String} contentType - (Optional) content type of the body, defaults to text/plain
+   * @returns Fulfills once the message is delivered, rejects with the failure reason
+   */
+  public sendMessage = (
+    to: string,
+    body: string,
+    contentType?: string,
+  ): Promise<void> => sendMessage.call(this, to, body, contentType);
+
+  /**
+   * Set the rules deciding what happens to incoming calls, the first matching rule applies.
+   * @param {IncomingCallRule[]} rules - match on caller id, display name or X-PH headers
+   * and reject, ignore, ring or flag the call
+   */
+  public setIncomingCallRules = (
+    rules: IncomingCallRule[],
+  ): boolean => this._setIncomingCallRules(rules);
+
+  /**
+   * Get the rules applied to incoming calls.
+   */
+  public getIncomingCallRules = (): IncomingCallRule[] => this.incomingCallRules.slice();
+
+  /**
+   * Reject incoming calls while do not disturb is active.
+   * @param {Boolean|DoNotDisturbOptions} val - true/false or settings with an optional schedule
+   */
+  public setDoNotDisturb = (
+    val: boolean | DoNotDisturbOptions,
+  ): boolean => this._setDoNotDisturb(val);
+
+  /**
+   * Check if incoming calls are rejected by do not disturb right now.
+   */
+  public isDoNotDisturbActive = (): boolean => isDoNotDisturbActive(this.doNotDisturb);
+
+  /**
+   * Answer an incoming call which is waiting during the active call.
+   * @param {String} callUUID - CallUUID of the waiting call
+   * @param {WaitingCallAction} action - (Optional) hold or hangup the active call, defaults to hold
+   */
+  public answerWaitingCall = (
+    callUUID: string,
+    action?: WaitingCallAction,
+  ): boolean => answerWaitingCall.call(this, callUUID, action);
+
+  /**
+   * Reject an incoming call which is waiting during the active call.
+   * @param {String} callUUID - CallUUID of the waiting call
+   */
+  public rejectWaitingCall = (
+    callUUID: string,
+  ): boolean => rejectWaitingCall.call(this, callUUID);
+
+  /**
+   * Get the incoming calls waiting during the active call.
+   */
+  public getWaitingCalls = (): CallInfo[] => getWaitingCalls(this)
+    .map((call) => call.getCallInfo());
+
+  /**
+   * Check microphone, speaker and network readiness before placing calls.
+   * @param {PreflightOptions} options - (Optional) duration in seconds for which media is tested
+   * @returns Report with the result of each check
+   */
+  public runPreflightTest = (
+    options?: PreflightOptions,
+  ): Promise<PreflightReport> => runPreflightTest.call(this, options);
+
   /**
    * @constructor
    * @param options - (Optional) client configuration parameters
@@ -618,6 +1182,7 @@ export class Client extends EventEmitter {
     // eslint-disable-next-line @typescript-eslint/naming-convention
     const _options = validateOptions(options);
     Plivo.log.enableSipLogs(_options.debug as AvailableLogMethods);
+    Plivo.log.setCallUUIDProvider(() => this.callUUID);
     // instantiates event emitter
     EventEmitter.call(this);
 
@@ -637,12 +1202,23 @@ export class Client extends EventEmitter {
     this.callDirection = null;
     this.lastCallUUID = null;
     this._lastCallSession = null;
+    this.activeCalls = new Map();
     this.incomingInvites = new Map();
     this.incomingCallsInitiationTime = new Map();
+    this.callQualityReports = new Map();
+    this.sipTrace = new SipTraceRecorder();
+    this.callHistory = new CallHistory();
+    this.feedbackQueue = new FeedbackQueue();
+    this.feedbackIssues = { ...C.DEFAULT_COMMENTS };
+    this.incomingCallRules = [];
+    this.doNotDisturb = { enabled: false };
+    this.statsSubscriptions = [];
     this.lastIncomingCall = null;
     this.callStats = null;
     this.userName = null;
     this.password = null;
+    this.accessToken = null;
+    this.account = null;
     this.options = _options;
     this.callstatskey = null;
     this.rtp_enabled = false;
@@ -652,6 +1228,10 @@ export class Client extends EventEmitter {
     this.isLogoutCalled = false;
     this.networkChangeInterval = null;
     this.shouldMuteCall = false;
+    this.holdMusicUrl = null;
+    this.callWaitingTone = new CallWaitingTone();
+    this.conferenceMixer = null;
+    this.conferenceCalls = [];
     this.audio = {
       availableDevices: audioUtil.availableDevices,
       ringtoneDevices: audioUtil.ringtoneDevices,
@@ -663,11 +1243,16 @@ export class Client extends EventEmitter {
     this.owaLastDetect = { time: 0 as any, isOneWay: true };
     this.owaDetectTime = 3600000;
     this.statsSocket = null;
+    this.telemetryBuffer = new TelemetryBuffer();
+    replayPendingTelemetry(this.telemetryBuffer);
+    this.isUnloading = false;
+    this.unloadListeners = null;
     this.timeTakenForStats = {};
     this.networkDisconnectedTimestamp = null;
     this.networkReconnectionTimestamp = null;
     this.deviceToggledInCurrentSession = false;
     this.networkChangeInCurrentSession = false;
+    this.filteredCallsInCurrentSession = 0;
     this.didFetchInitialNetworkInfo = false;
 
     audioUtil.setAudioContraints(this);
@@ -708,6 +1293,36 @@ export class Client extends EventEmitter {
     const account = new Account(this, username, password);
     const isValid = account.validate();
     if (!isValid) return false;
+    this._setAccount(account);
+    account.setupUserAccount();
+    if (this.browserDetails.browser === 'safari') {
+      documentUtil.playAudio(C.SILENT_TONE_ELEMENT_ID);
+    }
+    return true;
+  };
+
+  private _loginWithToken = (token: string): boolean => {
+    const tokenInfo = decodeAccessToken(token);
+    if (!tokenInfo) {
+      this.emit('onLoginFailed', 'Invalid access token');
+      return false;
+    }
+    if (
+      this.account
+      && this.account.isTokenLogin()
+      && this.phone
+      && this.phone.isRegistered()
+      && this.phone.isConnected()
+      && this.userName === tokenInfo.userName
+    ) {
+      Plivo.log.debug(`Updating access token for ${this.userName}`);
+      return this.account.updateToken(token);
+    }
+    this.isLoginCalled = true;
+    const account = new Account(this, tokenInfo.userName, '', token);
+    const isValid = account.validate();
+    if (!isValid) return false;
+    this._setAccount(account);
     account.setupUserAccount();
     if (this.browserDetails.browser === 'safari') {
       documentUtil.playAudio(C.SILENT_TONE_ELEMENT_ID);
@@ -715,6 +1330,13 @@ export class Client extends EventEmitter {
     return true;
   };
 
+  private _setAccount = (account: Account): void => {
+    if (this.account) {
+      this.account.clearTimers();
+    }
+    this.account = account;
+  };
+
   private _logout = (): boolean => {
     Plivo.log.debug('logout() triggered!');
     if (this._currentSession) {
@@ -736,7 +1358,7 @@ export class Client extends EventEmitter {
     return true;
   };
 
-  private _call = (phoneNumber: string, extraHeaders: ExtraHeaders): boolean => {
+  private _call = (phoneNumber: string, extraHeaders: ExtraHeaders): Call | false => {
     this.timeTakenForStats.pdd = {
       init: new Date().getTime(),
     };
@@ -746,12 +1368,16 @@ export class Client extends EventEmitter {
       Plivo.log.warn('Must be logged in before to make a call');
       return false;
     }
+    const call = new Call(this);
     const onCallFailed = (reason: string) => {
       this.emit('onCallFailed', reason);
+      call.onFailed(reason, null);
     };
     const readyForCall = () => {
       this.owaLastDetect.isOneWay = false;
-      return OutgoingCall.makeCall(this, extraHeaders, phoneNumber);
+      const isCallPlaced = OutgoingCall.makeCall(this, extraHeaders, phoneNumber, call);
+      if (!isCallPlaced) call.onFailed('Call could not be placed', null);
+      return isCallPlaced;
     };
     // Handle One Way Audio issues in chrome. check for every 1 hr
     if (
@@ -769,11 +1395,11 @@ export class Client extends EventEmitter {
           readyForCall,
         );
       });
-    } else {
+    } else if (!readyForCall()) {
       // Browsers other than chrome go to call ready mode
-      readyForCall();
+      return false;
     }
-    return true;
+    return call;
   };
 
   private _answer = (callUUID: string, actionOnOtherIncomingCalls: string): boolean => {
@@ -825,13 +1451,14 @@ export class Client extends EventEmitter {
     return true;
   };
 
-  private _hangup = (): boolean => {
-    if (this._currentSession) {
-      Plivo.log.debug(`hangup - ${this._currentSession.callUUID}`);
+  private _hangup = (callUUID?: string): boolean => {
+    const callSession = getActiveCall.call(this, callUUID);
+    if (callSession) {
+      Plivo.log.debug(`hangup - ${callSession.callUUID}`);
       if (
-        this._currentSession.session
-        && this._currentSession.session.direction !== 'outgoing'
-        && !this._currentSession.session.isEstablished()
+        callSession.session
+        && callSession.session.direction !== 'outgoing'
+        && !callSession.session.isEstablished()
       ) {
         Plivo.log.warn(
           'use of hangup() on unanswered call is deprecated. use reject() instead',
@@ -847,8 +1474,12 @@ export class Client extends EventEmitter {
             method: 'hangup()',
           });
         }
-        this._currentSession.session.terminate();
-        if (this.ringBackToneView && !this.ringBackToneView.paused) {
+        callSession.session.terminate();
+        if (
+          callSession === this._currentSession
+          && this.ringBackToneView
+          && !this.ringBackToneView.paused
+        ) {
           documentUtil.stopAudio(C.RINGBACK_ELEMENT_ID);
         }
       } catch (err) {
@@ -867,7 +1498,7 @@ export class Client extends EventEmitter {
               info: err.message,
               method: 'hangup()',
             },
-            this._currentSession,
+            callSession,
           );
         }
       }
@@ -956,7 +1587,7 @@ export class Client extends EventEmitter {
     return false;
   };
 
-  private _sendDtmf = (digit: number | string): void => {
+  private _sendDtmf = (digit: number | string, callUUID?: string): void => {
     const dtmfFlags = C.DTMF_TONE_FLAG as any;
     if (typeof digit === 'undefined' || digit == null) {
       return Plivo.log.warn('DTMF digit can not be null');
@@ -964,13 +1595,14 @@ export class Client extends EventEmitter {
     if (typeof dtmfFlags[digit] === 'undefined') {
       return Plivo.log.warn(`${digit} is not a valid DTMF digit`);
     }
-    if (this._currentSession) {
-      Plivo.log.debug(`sendDtmf - ${this._currentSession.callUUID}`);
+    const callSession = getActiveCall.call(this, callUUID);
+    if (callSession) {
+      Plivo.log.debug(`sendDtmf - ${callSession.callUUID}`);
       try {
         Plivo.log.debug(`sending dtmf digit ${digit}`);
         const dtmfOption = documentUtil.getDTMFOption(this.options.dtmfOptions);
         if (dtmfOption !== 'INBAND') {
-          this._currentSession.session.sendDTMF(digit);
+          callSession.session.sendDTMF(digit);
           Plivo.log.info(`sent outband dtmf`);
         }
         if (digit === '*') {
@@ -997,7 +1629,7 @@ export class Client extends EventEmitter {
             info: err.message,
             method: 'sendDtmf()',
           },
-          this._currentSession,
+          callSession,
         );
       }
     } else {
@@ -1005,7 +1637,21 @@ export class Client extends EventEmitter {
     }
   };
 
-  private _mute = (): boolean => {
+  private _mute = (callUUID?: string): boolean => {
+    const callSession = getActiveCall.call(this, callUUID);
+    if (callUUID && !callSession) {
+      Plivo.log.warn(`No call exists with callUUID - ${callUUID}`);
+      return false;
+    }
+    if (this.conferenceMixer && isConferenceLeg(this, callSession)) {
+      Plivo.log.debug(`mute called for ${callUUID || 'merged calls'}`);
+      setConferenceMute(this, callUUID ? callSession : null, true);
+      if (!callUUID) this.isCallMuted = true;
+      return true;
+    }
+    if (callSession && callSession !== this._currentSession) {
+      return this._muteCallOnHold(callSession, 'mute');
+    }
     if (this._currentSession) {
       Plivo.log.debug('mute called');
       try {
@@ -1046,7 +1692,21 @@ export class Client extends EventEmitter {
     return true;
   };
 
-  private _unmute = (): boolean => {
+  private _unmute = (callUUID?: string): boolean => {
+    const callSession = getActiveCall.call(this, callUUID);
+    if (callUUID && !callSession) {
+      Plivo.log.warn(`No call exists with callUUID - ${callUUID}`);
+      return false;
+    }
+    if (this.conferenceMixer && isConferenceLeg(this, callSession)) {
+      Plivo.log.debug(`unmute called for ${callUUID || 'merged calls'}`);
+      setConferenceMute(this, callUUID ? callSession : null, false);
+      if (!callUUID) this.isCallMuted = false;
+      return true;
+    }
+    if (callSession && callSession !== this._currentSession) {
+      return this._muteCallOnHold(callSession, 'unmute');
+    }
     if (this._currentSession) {
       Plivo.log.debug('unmute called');
       this.shouldMuteCall = false;
@@ -1086,6 +1746,197 @@ export class Client extends EventEmitter {
     return true;
   };
 
+  private _muteCallOnHold = (callSession: CallSession, action: string): boolean => {
+    Plivo.log.debug(`${action} called for ${callSession.callUUID}`);
+    try {
+      if (action === 'mute') {
+        callSession.session.mute({ audio: true });
+      } else {
+        callSession.session.unmute({ audio: true });
+      }
+      nonRTPStats.onToggleMute.call(this, callSession, action);
+    } catch (err) {
+      Plivo.log.error(`error in ${action} : `, err);
+      Plivo.AppError?.call(this, {
+        name: err.name,
+        message: err.message,
+        method: `${action}()`,
+      });
+      Plivo.sendEvents?.call(
+        this,
+        {
+          msg: 'ERROR_EVENT',
+          name: err.name,
+          info: err.message,
+          method: `${action}()`,
+        },
+        callSession,
+      );
+      return false;
+    }
+    return true;
+  };
+
+  private _getCalls = (): CallInfo[] => {
+    const calls: CallInfo[] = [];
+    this.activeCalls.forEach((call) => {
+      calls.push(call.getCallInfo());
+    });
+    if (this._currentSession && !this.activeCalls.has(this._currentSession.callUUID as string)) {
+      calls.push(this._currentSession.getCallInfo());
+    }
+    return calls;
+  };
+
+  private _switchTo = (callUUID: string): boolean => {
+    const callSession = this.activeCalls.get(callUUID);
+    if (!callSession) {
+      Plivo.log.warn(`No call exists with callUUID - ${callUUID}`);
+      return false;
+    }
+    if (callSession === this._currentSession) {
+      Plivo.log.debug(`call ${callUUID} is already active`);
+      return true;
+    }
+    if (this._currentSession && !this._currentSession.session.isEstablished()) {
+      Plivo.log.warn('Cannot switch calls while the active call is being connected');
+      return false;
+    }
+    if (this.conferenceMixer) {
+      Plivo.log.warn('Cannot switch calls while calls are merged, use split() first');
+      return false;
+    }
+    Plivo.log.debug(`switchTo - ${callUUID}`);
+    if (this._currentSession && !this._isOnHold()) {
+      this._hold();
+    }
+    audioUtil.stopVolumeDataStreaming();
+    setActiveCall.call(this, callSession);
+    audioUtil.startVolumeDataStreaming(this);
+    if (this._isOnHold()) {
+      this._unhold();
+    }
+    return true;
+  };
+
+  private _hold = (): boolean => {
+    if (!this._currentSession) {
+      Plivo.log.warn('No call session exists to hold');
+      return false;
+    }
+    if (this._currentSession.state !== this._currentSession.STATE.ANSWERED
+      && this._currentSession.state !== this._currentSession.STATE.HELD) {
+      Plivo.log.warn('Call can be put on hold only after it is answered');
+      return false;
+    }
+    if (this._isOnHold()) {
+      Plivo.log.warn('Call is already on hold');
+      return false;
+    }
+    Plivo.log.debug('hold called');
+    try {
+      const callSession = this._currentSession;
+      callSession.session.hold({}, () => {
+        if (this.holdMusicUrl && !callSession.session.isEnded()) {
+          callSession.startHoldMusic(this.holdMusicUrl);
+        }
+      });
+      // the local hold flag is only set when the re-INVITE is sent
+      if (!this._isOnHold()) {
+        Plivo.log.warn('Unable to send hold request, session is not ready');
+        return false;
+      }
+      nonRTPStats.onToggleHold.call(this, callSession, 'hold');
+    } catch (err) {
+      Plivo.log.error('error in hold :', err);
+      Plivo.AppError?.call(this, {
+        name: err.name,
+        message: err.message,
+        method: 'hold()',
+      });
+      Plivo.sendEvents?.call(
+        this,
+        {
+          msg: 'ERROR_EVENT',
+          name: err.name,
+          info: err.message,
+          method: 'hold()',
+        },
+        this._currentSession,
+      );
+      return false;
+    }
+    return true;
+  };
+
+  private _unhold = (): boolean => {
+    if (!this._currentSession) {
+      Plivo.log.warn('No call session exists to unhold');
+      return false;
+    }
+    if (!this._isOnHold()) {
+      Plivo.log.warn('Call is not on hold');
+      return false;
+    }
+    Plivo.log.debug('unhold called');
+    const callSession = this._currentSession;
+    try {
+      callSession.session.unhold();
+      if (this._isOnHold()) {
+        Plivo.log.warn('Unable to send unhold request, session is not ready');
+        return false;
+      }
+      nonRTPStats.onToggleHold.call(this, callSession, 'unhold');
+    } catch (err) {
+      Plivo.log.error('error in unhold :', err);
+      Plivo.AppError?.call(this, {
+        name: err.name,
+        message: err.message,
+        method: 'unhold()',
+      });
+      Plivo.sendEvents?.call(
+        this,
+        {
+          msg: 'ERROR_EVENT',
+          name: err.name,
+          info: err.message,
+          method: 'unhold()',
+        },
+        callSession,
+      );
+      return false;
+    }
+    // the microphone track replaces the hold music once the call is resumed
+    callSession.stopHoldMusic();
+    return true;
+  };
+
+  private _isOnHold = (): boolean => {
+    if (!this._currentSession) return false;
+    const holdStatus = this._currentSession.session.isOnHold() as any;
+    return !!(holdStatus && holdStatus.local);
+  };
+
+  private _transfer = (target: string, extraHeaders: ExtraHeaders): boolean => {
+    Plivo.log.debug(`transfer called with target : ${target}`);
+    return blindTransfer(this, target, extraHeaders);
+  };
+
+  private _attendedTransfer = (consultCallUUID: string): boolean => {
+    Plivo.log.debug(`attendedTransfer called with consult call : ${consultCallUUID}`);
+    return attendedTransfer(this, consultCallUUID);
+  };
+
+  private _setHoldMusic = (val: string | boolean): boolean => {
+    if (typeof val === 'string' && val) {
+      Plivo.log.debug(`setHoldMusic() url : ${val}`);
+      this.holdMusicUrl = val;
+    } else {
+      this.holdMusicUrl = null;
+    }
+    return true;
+  };
+
   private _setRingTone = (val: string | boolean): boolean => {
     if (val === false || val === null) {
       this.ringToneFlag = false;
@@ -1156,6 +2007,24 @@ export class Client extends EventEmitter {
     return null;
   };
 
+  private _exportSipTrace = (callUUID: string, format: SipTraceFormat): string | null => {
+    const trace = this.sipTrace.getTrace(callUUID);
+    if (!trace) return null;
+    if (format === 'pcap') {
+      const server = this.plivoSocket ? this.plivoSocket.url : C.DOMAIN;
+      return JSON.stringify(toSipPcap(trace, server));
+    }
+    return toSipLadder(trace);
+  };
+
+  private _getCallQualityReport = (callUUID: string): CallQualityReport | null => {
+    const session = this.activeCalls.get(callUUID);
+    if (session) {
+      return session.qualityCollector.getReport(callUUID);
+    }
+    return this.callQualityReports.get(callUUID) || null;
+  };
+
   private _getIncomingCalls = (): any[] => {
     const incomingCalls: any[] = [];
     this.incomingInvites.forEach((a) => {
@@ -1184,72 +2053,72 @@ export class Client extends EventEmitter {
     return { status: 'called in wrong state', pc: null };
   };
 
+  private _registerFeedbackIssues = (issues: string[] | FeedbackIssueTypes): string[] => {
+    this.feedbackIssues = { ...this.feedbackIssues, ...parseFeedbackIssues(issues) };
+    return Object.keys(this.feedbackIssues);
+  };
+
+  private _setIncomingCallRules = (rules: IncomingCallRule[]): boolean => {
+    const error = getIncomingCallRulesError(rules);
+    if (error) {
+      Plivo.log.error(`setIncomingCallRules() ${error}`);
+      return false;
+    }
+    this.incomingCallRules = rules.map((rule) => ({ ...rule }));
+    Plivo.log.debug(`${rules.length} incoming call rules set`);
+    return true;
+  };
+
+  private _setDoNotDisturb = (val: boolean | DoNotDisturbOptions): boolean => {
+    const options = typeof val === 'boolean' ? { enabled: val } : val;
+    const error = getDoNotDisturbError(options);
+    if (error) {
+      Plivo.log.error(`setDoNotDisturb() ${error}`);
+      return false;
+    }
+    this.doNotDisturb = { ...options };
+    Plivo.log.debug(`do not disturb ${options.enabled ? 'enabled' : 'disabled'}`);
+    return true;
+  };
+
   private _submitCallQualityFeedback = (
     callUUID: string,
     starRating: string,
     issues: string[],
     note: string,
     sendConsoleLogs: boolean,
-  ): Promise<string> => new Promise((resolve, reject) => {
+    sendSipTrace: boolean,
+    options: FeedbackOptions,
+  ): Promise<FeedbackResult> => {
+    const session = [this._currentSession, this._lastCallSession]
+      .find((item) => item && item.callUUID === callUUID);
+    const endedCall = this.callHistory.get(callUUID);
+    const userName = this.userName || (endedCall && endedCall.userName);
     // validate feedback parameters
-    validateFeedback(callUUID, starRating, note, issues, this.userName as string, this.isLoggedIn)
-      .then((feedback: FeedbackObject) => {
-        // send Feedback to CallStats.io
-        if (this.callStats) {
-          this.callStats.sendUserFeedback(
-            callUUID,
-            feedback,
-            (message: string) => {
-              Plivo.log.debug(`Feedback stats sent status: ${message}`);
-            },
-          );
-        }
-        // send Feedback to Plivo stats
-        let session;
-        if (
-          this._currentSession
-            && this._currentSession.callUUID === callUUID
-        ) {
-          session = this._currentSession;
-        } else if (
-          this._lastCallSession
-            && this._lastCallSession.callUUID === callUUID
-        ) {
-          session = this._lastCallSession;
-        }
-        if (session) {
-          if (this.statsSocket) {
-            nonRTPStats.sendFeedbackEvent.call(this, session, feedback);
-          } else {
-            this.statsSocket = new StatsSocket();
-            this.statsSocket.connect();
-            nonRTPStats.sendFeedbackEvent.call(this, session, feedback);
-          }
-        }
-        // send console logs
-        if (sendConsoleLogs === true) {
-          const preSignedUrlBody: PreSignedUrlRequest = {
-            username: this.userName as string,
-            password: this.password as string,
-            domain: C.DOMAIN,
-            calluuid: callUUID,
-          };
-          getPreSignedS3URL(preSignedUrlBody)
-            .then((responseBody: PreSignedUrlResponse) => {
-              uploadConsoleLogsToBucket(responseBody, feedback)
-                .then(() => {
-                  resolve('Feedback is sent with console logs');
-                }).catch((err) => {
-                  reject(err);
-                });
-            }).catch((err) => {
-              Plivo.log.error('Feedback was not able to send console logs');
-              reject(err);
-            });
-        } else {
-          resolve('Feedback is sent');
-        }
-      })
-      .catch((error: any) => reject(error));
-  });
+    return validateFeedback(
+      callUUID,
+      starRating,
+      note,
+      issues,
+      userName as string,
+      this.isLoggedIn,
+      { issueTypes: this.feedbackIssues, metadata: options.metadata },
+    ).then((validFeedback) => {
+      const qualityReport = options.sendQualityReport === true
+        ? this._getCallQualityReport(callUUID) || (endedCall && endedCall.qualityReport)
+        : null;
+      const sipTrace = sendSipTrace === true ? this.sipTrace.getTrace(callUUID) : null;
+      const submission = createFeedbackSubmission({
+        callUUID,
+        sipCallID: (session || endedCall || { sipCallID: null }).sipCallID,
+        userName: userName as string,
+        feedback: qualityReport ? { ...validFeedback, qualityReport } : validFeedback,
+        sendConsoleLogs: sendConsoleLogs === true,
+        sipTrace: sipTrace ? toSipLadder(sipTrace) : null,
+      });
+      return canSendFeedback(this)
+        ? sendFeedback.call(this, submission)
+        : queueFeedback.call(this, submission);
+    });
+  };
 }
@@ -23,14 +23,36 @@ export const DEFAULT_DTMFOPTIONS = {
 // webrtc settings
 export const NUMBER_OF_SIMULTANEOUS_INCOMING_CALLS_ALLOWED = 50;
 export const REGISTER_EXPIRES_SECONDS = 120;
+export const MIN_REGISTER_EXPIRES_SECONDS = 30;
+export const MAX_REGISTER_EXPIRES_SECONDS = 3600;
 export const SESSION_TIMERS_EXPIRES = 300;
 export const WS_RECOVERY_MAX_INTERVAL = 20;
 export const WS_RECOVERY_MIN_INTERVAL = 2;
+export const WS_RECOVERY_JITTER = 0.2;
+// 0 keeps retrying until the connection is established
+export const WS_RECOVERY_MAX_ATTEMPTS = 0;
+export const DEFAULT_RECONNECTION_POLICY = {
+  minInterval: WS_RECOVERY_MIN_INTERVAL,
+  maxInterval: WS_RECOVERY_MAX_INTERVAL,
+  jitter: WS_RECOVERY_JITTER,
+  maxAttempts: WS_RECOVERY_MAX_ATTEMPTS,
+};
+// seconds to wait for registration after login, disabled by default so login keeps waiting
+export const DEFAULT_LOGIN_TIMEOUT = 0;
+// refresh the access token these many milliseconds before it expires
+export const TOKEN_REFRESH_LEAD_TIME = 60000;
+// longest delay setTimeout supports, longer delays fire at once
+export const MAX_TIMEOUT_DELAY = 0x7FFFFFFF;
 export const DEFAULT_MDNS_CANDIDATE = '192.168.0.1';
 export const ICE_GATHERING_TIMEOUT = 2000;
 export const ICE_RECONNECT_INTERVAL = 2000;
 export const ICE_RECONNECT_COUNT = 5;
 export const NETWORK_CHANGE_INTERVAL = 10000;
+// pre-call test settings, duration is in seconds
+export const PREFLIGHT_TEST_DURATION = 5;
+export const PREFLIGHT_CONNECTION_TIMEOUT = 5000;
+export const PREFLIGHT_MIC_SAMPLE_INTERVAL = 100;
+export const PREFLIGHT_MIN_MOS = 3;
 export const STUN_SERVERS = [
   'stun:stun.l.google.com:19302',
   'stun:stun1.l.google.com:19302',
@@ -59,6 +81,19 @@ export const SIP_ERROR_CODE = {
   502: 'There is an issue with the Carrier Gateway',
 };
 
+// states a call can move to from each state, a call never leaves a terminal state
+export const CALL_STATE_TRANSITIONS: { [state: string]: string[] } = {
+  initialized: ['ringing', 'answered', 'rejected', 'ignored', 'canceled', 'failed', 'ended'],
+  ringing: ['answered', 'rejected', 'ignored', 'canceled', 'failed', 'ended'],
+  ignored: ['canceled', 'failed'],
+  answered: ['held', 'ended'],
+  held: ['answered', 'ended'],
+  rejected: [],
+  canceled: [],
+  failed: [],
+  ended: [],
+};
+
 // Options
 export const DEFAULT_CODECS = ['OPUS', 'PCMU'];
 export const DTMF_OPTIONS = ['INBAND', 'OUTBAND'];
@@ -96,6 +131,34 @@ export const DEFAULT_COMMENTS = {
   OTHERS: 'others',
   ROBOTIC_AUDIO: 'robotic_audio',
 };
+// feedback metadata is limited to this length once serialized
+export const FEEDBACK_METADATA_MAX_LENGTH = 2048;
+export const FEEDBACK_ISSUE_MAX_LENGTH = 50;
+// feedback submitted while offline is kept until it can be sent
+export const FEEDBACK_QUEUE_STORAGE_KEY = 'plivoFeedbackQueue';
+export const FEEDBACK_QUEUE_SIZE = 10;
+export const FEEDBACK_QUEUE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+export const FEEDBACK_QUEUE_MAX_ATTEMPTS = 5;
+// characters of console logs and sip trace stored per feedback and for the whole queue
+export const FEEDBACK_QUEUE_MAX_LOG_SIZE = 256 * 1024;
+export const FEEDBACK_QUEUE_MAX_TOTAL_LOG_SIZE = 1024 * 1024;
+// ended calls kept for submitting feedback after a page reload
+export const CALL_HISTORY_STORAGE_KEY = 'plivoCallHistory';
+export const CALL_HISTORY_SIZE = 20;
+// responses to incoming calls rejected by a rule or by do not disturb
+export const INCOMING_CALL_REJECT_RESPONSE = { status_code: 603, reason_phrase: 'Decline' };
+export const DND_REJECT_RESPONSE = { status_code: 480, reason_phrase: 'Temporarily Unavailable' };
+// incoming calls are answered automatically in intercom mode, the delay is in milliseconds
+export const AUTO_ANSWER_MODES = ['off', 'always', 'header', 'caller'];
+export const DEFAULT_AUTO_ANSWER_POLICY = {
+  mode: 'off', callers: [], delay: 0, beep: false,
+};
+export const AUTO_ANSWER_HEADER = 'X-PH-AutoAnswer';
+export const AUTO_ANSWER_BEEP = { frequency: 880, duration: 200 };
+// tone played during the active call while another call is waiting, durations in milliseconds
+export const DEFAULT_CALL_WAITING_TONE = {
+  enabled: true, frequency: 440, volume: 0.3, cadence: [300], interval: 10000,
+};
 
 // Media
 export const RINGTONE_URL = 'https://cdn.plivo.com/sdk/browser/audio/us-ring.mp3';
@@ -134,9 +197,47 @@ export const STATS_API_URL = 'https://stats.plivo.com/v1/browser/validate/';
 export const STATS_SOURCE = 'BrowserSDK';
 export const STATS_VERSION = 'v1';
 export const GETSTATS_INTERVAL = 5000;
+// rtt and jitter are in milliseconds, packet loss is a fraction and silence duration is the
+// time in milliseconds for which the audio level stays unchanged
+export const DEFAULT_QUALITY_THRESHOLDS = {
+  rtt: {
+    threshold: 400, windowSize: 3, raiseCount: 2, clearCount: 1,
+  },
+  jitter: {
+    threshold: 30, windowSize: 3, raiseCount: 2, clearCount: 1,
+  },
+  packetLoss: {
+    threshold: 0.02, opusThreshold: 0.1, windowSize: 3, raiseCount: 2, clearCount: 1,
+  },
+  mos: {
+    threshold: 3.5, windowSize: 3, raiseCount: 2, clearCount: 1,
+  },
+  audioLevel: { silenceDuration: 10000, windowSize: 3, clearCount: 1 },
+};
+// stats sink batches are posted when full or after the flush interval in milliseconds
+export const STATS_SINK_BATCH_SIZE = 20;
+export const STATS_SINK_FLUSH_INTERVAL = 10000;
+export const STATS_SINK_MAX_BUFFER = 500;
+// number of ended calls for which the quality report is kept
+export const CALL_QUALITY_REPORT_HISTORY = 10;
+// number of calls and messages per call for which sip messages are kept
+export const SIP_TRACE_HISTORY = 10;
+export const SIP_TRACE_MAX_MESSAGES = 300;
 export const AUDIO_INTERVAL = 1000;
 export const GETSTATS_HEARTBEATINTERVAL = 100000;
 export const STATSSOCKET_RECONNECT_SEC = 10000;
+// unsent stats are persisted and replayed with exponential backoff
+export const TELEMETRY_BUFFER_DB_NAME = 'plivo-telemetry';
+export const TELEMETRY_BUFFER_STORE_NAME = 'messages';
+export const TELEMETRY_BUFFER_STORAGE_KEY = 'plivoTelemetryBuffer';
+export const TELEMETRY_BUFFER_MAX_BYTES = 512 * 1024;
+export const TELEMETRY_BUFFER_MAX_AGE = 24 * 60 * 60 * 1000;
+// stats of other tabs are only replayed once their tab stopped refreshing them for this long
+export const TELEMETRY_BUFFER_ORPHAN_AGE = 5 * 60 * 1000;
+export const TELEMETRY_BUFFER_HEARTBEAT = 60 * 1000;
+export const TELEMETRY_REPLAY_MIN_DELAY = 1000;
+export const TELEMETRY_REPLAY_MAX_DELAY = 30000;
+export const TELEMETRY_REPLAY_MAX_ATTEMPTS = 6;
 export const STATS_ANALYSIS_WAIT_TIME = 5000;
 export const NETWORK_CHANGE_INTERVAL_IDLE_STATE = 10000;
 export const NETWORK_CHANGE_INTERVAL_ON_CALL_STATE = 4000;
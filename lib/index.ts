@@ -2,8 +2,12 @@
 'use strict';
 import { Client, ConfiguationOptions } from './client';
 import { Logger } from './logger';
+import { HttpBatchSink, ConsoleSink } from './stats/sinks';
 
 class Plivo {
+  static HttpBatchSink = HttpBatchSink;
+  static ConsoleSink = ConsoleSink;
+  static Logger = Logger;
   client: Client;
   constructor(options: ConfiguationOptions) {
     // Check for existing instance of Plivo object
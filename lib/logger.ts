@@ -4,14 +4,27 @@
 import { CONSOLE_LOGS_BUFFER_SIZE } from './constants';
 
 /* eslint-disable no-undef */
-const consoleLogsArr: string[] = [];
 const customLocalStorage = typeof chrome !== 'undefined' && chrome.storage ? chrome.storage.local : window.localStorage;
 const allowedMethods = ['INFO', 'DEBUG', 'WARN', 'ERROR', 'ALL', 'OFF'];
 const logHierarchy = ['ERROR', 'WARN', 'INFO', 'DEBUG', 'ALL'];
 const DEFAULT_LOG_METHOD = 'INFO';
+const DEFAULT_MODULE = 'sdk';
+const REDACTED = '[REDACTED]';
+const MAX_FIELD_DEPTH = 4;
+const SENSITIVE_KEY = /pass(word)?|token|secret|authorization|credential|signature|^ha1$/i;
+const SENSITIVE_TEXT: [RegExp, string][] = [
+  // "password":"..." inside serialized objects
+  [/("[^"]*(?:pass(?:word)?|token|secret|credential)[^"]*"\s*:\s*)"[^"]*"/gi, `$1"${REDACTED}"`],
+  [/((?:proxy-)?authorization:\s*)[^\r\n]+/gi, `$1${REDACTED}`],
+  // ice candidate address and related address
+  [/(candidate:\S+ \d+ \S+ \d+ )\S+/gi, `$1${REDACTED}`],
+  [/( raddr )\S+/gi, `$1${REDACTED}`],
+  [/(c=IN IP[46] )\S+/gi, `$1${REDACTED}`],
+];
 
 export type AvailableLogMethods = 'INFO' | 'DEBUG' | 'WARN' | 'ERROR' | 'ALL' | 'OFF' | 'ALL-PLAIN';
 export type AvailableFlagValues = 'ALL' | 'NONE' | 'REMOTEONLY' | 'LOCALONLY';
+export type LogLevel = 'INFO' | 'DEBUG' | 'WARN' | 'ERROR';
 
 export interface DtmfOptions {
   sendDtmfType : string[]
@@ -19,20 +32,113 @@ export interface DtmfOptions {
 interface LoggerOptions{
   enableDate?: boolean,
   loggingName?: 'PlivoSDK',
-  logMethod?: AvailableLogMethods
+  logMethod?: AvailableLogMethods,
+  module?: string,
 }
 
+export interface LogRecord {
+  level: LogLevel;
+  timestamp: number;
+  module: string;
+  callUUID: string | null;
+  message: string;
+  fields: { [key: string]: any };
+}
+
+export type LogTransport = (record: LogRecord) => void;
+
+export type LogTransportRemove = () => void;
+
+/**
+ * State shared by the logger and the loggers scoped to sdk modules.
+ */
+const shared: {
+  logMethod: AvailableLogMethods;
+  moduleLevels: { [module: string]: AvailableLogMethods };
+  transports: LogTransport[];
+  records: LogRecord[];
+  callUUIDProvider: (() => string | null) | null;
+} = {
+  logMethod: DEFAULT_LOG_METHOD,
+  moduleLevels: {},
+  transports: [],
+  records: [],
+  callUUIDProvider: null,
+};
+
+/**
+ * Hide passwords, tokens and ice candidate addresses in a log message.
+ * @param {String} text - log message
+ */
+export const redactText = (text: string): string => SENSITIVE_TEXT.reduce(
+  (result, [pattern, replacement]) => result.replace(pattern, replacement),
+  text,
+);
+
+/**
+ * Copy a logger argument into a serializable value, hiding sensitive keys.
+ * @param {Any} value - logger argument
+ * @param {Number} depth - nesting level of the value
+ * @param {WeakSet} seen - objects already copied, to break circular references
+ */
+const toField = (value: any, depth: number, seen: WeakSet<object>): any => {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (value instanceof Error) return { name: value.name, message: redactText(value.message) };
+  if (value instanceof Date) return value.toISOString();
+  if (seen.has(value)) return '[Circular]';
+  const proto = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+    return `[${(value.constructor && value.constructor.name) || 'Object'}]`;
+  }
+  if (depth >= MAX_FIELD_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+  seen.add(value);
+  if (Array.isArray(value)) return value.map((item) => toField(item, depth + 1, seen));
+  const copy: { [key: string]: any } = {};
+  Object.keys(value).forEach((key) => {
+    const field = SENSITIVE_KEY.test(key) && value[key]
+      ? REDACTED
+      : toField(value[key], depth + 1, seen);
+    if (field !== undefined) copy[key] = field;
+  });
+  return copy;
+};
+
+/**
+ * Split logger arguments into the message and the structured fields.
+ * @param {Array<Any>} args - logger arguments
+ */
+const toRecordContent = (args: any[]): Pick<LogRecord, 'message' | 'fields'> => {
+  const parts: string[] = [];
+  let fields: { [key: string]: any } = {};
+  const seen = new WeakSet<object>();
+  args.forEach((arg) => {
+    const value = toField(arg, 0, seen);
+    if (arg instanceof Error) {
+      parts.push(value.message);
+      fields.error = value;
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      fields = { ...fields, ...value };
+    } else if (Array.isArray(value)) {
+      parts.push(JSON.stringify(value));
+    } else if (value !== undefined) {
+      parts.push(String(value));
+    }
+  });
+  return { message: parts.join(' ').replace(/\s+/g, ' ').trim(), fields };
+};
+
 /**
  * Create a new logger.
  */
-class PlivoLogger {
+export class PlivoLogger {
   private options:LoggerOptions;
 
-  private logMethod:AvailableLogMethods;
-
   constructor(options:LoggerOptions = {}) {
     this.options = options;
-    this.logMethod = this.options.logMethod || DEFAULT_LOG_METHOD;
+    if (this.options.logMethod) shared.logMethod = this.options.logMethod;
   }
 
   public info = (...rest:any[]): void => this.logging('INFO', rest);
@@ -45,9 +151,63 @@ class PlivoLogger {
 
   public setLevel = (method:AvailableLogMethods): string => this._setLevel(method);
 
-  public level = (): string => this.logMethod;
+  public level = (): string => shared.logMethod;
+
+  public consolelogs = (): string[] => shared.records.map((record) => this.format(record));
 
-  public consolelogs = (): string[] => consoleLogsArr;
+  /**
+   * Get a logger whose records are tagged with an sdk module.
+   * @param {String} module - name of the module
+   */
+  public scope = (module: string): PlivoLogger => new PlivoLogger({
+    enableDate: this.options.enableDate,
+    loggingName: this.options.loggingName,
+    module,
+  });
+
+  /**
+   * Override the log level of a module, OFF silences it.
+   * @param {String} module - name of the module
+   * @param {AvailableLogMethods} method - log level, null to follow the sdk log level
+   */
+  public setModuleLevel = (
+    module: string,
+    method: AvailableLogMethods | null,
+  ): string => this._setModuleLevel(module, method);
+
+  /**
+   * Receive the log records which pass the log level.
+   * @param {LogTransport} transport - called with each log record
+   * @returns Function which removes the transport
+   */
+  public addTransport = (transport: LogTransport): LogTransportRemove => {
+    if (typeof transport === 'function' && shared.transports.indexOf(transport) === -1) {
+      shared.transports.push(transport);
+    }
+    return () => this.removeTransport(transport);
+  };
+
+  /**
+   * Stop sending log records to a transport.
+   * @param {LogTransport} transport - transport added earlier
+   */
+  public removeTransport = (transport: LogTransport): void => {
+    shared.transports = shared.transports.filter((item) => item !== transport);
+  };
+
+  /**
+   * Get the log records kept in memory as JSON.
+   */
+  public exportLogs = (): string => JSON.stringify(shared.records);
+
+  /**
+   * Set the source of the CallUUID added to log records.
+   * @param {Function} provider - returns the CallUUID of the active call
+   * @private
+   */
+  public setCallUUIDProvider = (provider: (() => string | null) | null): void => {
+    shared.callUUIDProvider = provider;
+  };
 
   /**
    * Enable sip logs if log level is ALL.
@@ -60,11 +220,26 @@ class PlivoLogger {
   private _setLevel = (method:AvailableLogMethods): string => {
     const ucMethod = method.toUpperCase() as AvailableLogMethods;
     if (allowedMethods.indexOf(ucMethod) !== -1) {
-      this.logMethod = ucMethod;
+      shared.logMethod = ucMethod;
       if (['DEBUG', 'ALL'].indexOf(ucMethod) === -1) {
         (customLocalStorage as any).debug = '';
       }
-      return `logLevel is now : ${this.logMethod}`;
+      return `logLevel is now : ${shared.logMethod}`;
+    }
+    return (
+      `only : ${allowedMethods.toString()} are allowed in run time!`
+    );
+  };
+
+  private _setModuleLevel = (module: string, method: AvailableLogMethods | null): string => {
+    if (method === null) {
+      delete shared.moduleLevels[module];
+      return `logLevel of ${module} is now : ${shared.logMethod}`;
+    }
+    const ucMethod = method.toUpperCase() as AvailableLogMethods;
+    if (allowedMethods.indexOf(ucMethod) !== -1) {
+      shared.moduleLevels[module] = ucMethod;
+      return `logLevel of ${module} is now : ${ucMethod}`;
     }
     return (
       `only : ${allowedMethods.toString()} are allowed in run time!`
@@ -84,47 +259,82 @@ class PlivoLogger {
     }
   };
 
+  /**
+   * Prefix of a log line with date, level and logger name.
+   * @param {LogRecord} record - log record
+   */
+  private prefix = (record: LogRecord): string => {
+    const enableDate = this.options.enableDate || false;
+    const loggingName = this.options.loggingName || '';
+    const date = new Date(record.timestamp);
+    let msdate = '';
+    if (enableDate) msdate = `[${date.toISOString().substring(0, 10)} ${date.toString().split(' ')[4]}.${date.getMilliseconds()}]`;
+    return `${msdate} [${record.level}] ${loggingName} :: `;
+  };
+
+  /**
+   * Format a log record as a line of the console logs.
+   * @param {LogRecord} record - log record
+   */
+  private format = (record: LogRecord): string => {
+    const fields = Object.keys(record.fields).length ? ` ${JSON.stringify(record.fields)}` : '';
+    return `${this.prefix(record)}${record.message}${fields} \n`;
+  };
+
   /**
    * Add console logs in memory and achieve log hierarchy.
-   * @param {AvailableLogMethods} filter - log type
-   * @param {Array<String>} args - logger arguments
+   * @param {LogLevel} filter - log type
+   * @param {Array<Any>} args - logger arguments
    */
-  private logging = (filter:AvailableLogMethods, args:string[]): void => {
-    const ucFilter = filter.toUpperCase();
-    const arg1 = args[0] || ' ';
-    const arg2 = args[1] || ' ';
-
-    if ((allowedMethods.indexOf(this.logMethod) !== -1) || (this.logMethod === ucFilter)) {
-      const enableDate = this.options.enableDate || false;
-      const loggingName = this.options.loggingName || '';
-      const date = new Date();
-      let msdate = '';
-      if (enableDate) msdate = `[${date.toISOString().substring(0, 10)} ${date.toString().split(' ')[4]}.${date.getMilliseconds()}]`;
-      const premsg = `${msdate} [${ucFilter}] ${loggingName} :: `;
+  private logging = (filter:LogLevel, args:any[]): void => {
+    const module = this.options.module || DEFAULT_MODULE;
+    const logMethod = shared.moduleLevels[module] || shared.logMethod;
+
+    if ((allowedMethods.indexOf(logMethod) !== -1) || (logMethod === filter)) {
+      let callUUID: string | null = null;
+      try {
+        callUUID = shared.callUUIDProvider ? shared.callUUIDProvider() : null;
+      } catch (err) {
+        callUUID = null;
+      }
+      const record: LogRecord = {
+        level: filter,
+        timestamp: Date.now(),
+        module,
+        callUUID,
+        ...toRecordContent(args),
+      };
       // Number of logs which sdk store in memory
-      if (consoleLogsArr.length >= CONSOLE_LOGS_BUFFER_SIZE) consoleLogsArr.shift();
-      consoleLogsArr.push(`${premsg + arg1 + arg2} \n`);
-      if (logHierarchy.indexOf(ucFilter) > logHierarchy.indexOf(this.logMethod)) {
+      if (shared.records.length >= CONSOLE_LOGS_BUFFER_SIZE) shared.records.shift();
+      shared.records.push(record);
+      if (logHierarchy.indexOf(filter) > logHierarchy.indexOf(logMethod)) {
         return;
       }
-      switch (ucFilter) {
-        case 'OFF':
-          // do nothing
-          break;
+      shared.transports.forEach((transport) => {
+        try {
+          transport(record);
+        } catch (err) {
+          console.warn('PlivoSDK log transport failed', err);
+        }
+      });
+      const premsg = this.prefix(record);
+      const output: any[] = [premsg, record.message];
+      if (Object.keys(record.fields).length) output.push(record.fields);
+      switch (filter) {
         case 'INFO':
-          console.info(premsg, arg1, arg2);
+          console.info(...output);
           break;
         case 'DEBUG':
-          console.debug(premsg, arg1, arg2);
+          console.debug(...output);
           break;
         case 'WARN':
-          console.warn(premsg, arg1, arg2);
+          console.warn(...output);
           break;
         case 'ERROR':
-          console.error(premsg, arg1, arg2);
+          console.error(...output);
           break;
         default:
-          console.log(premsg, arg1, arg2);
+          console.log(...output);
       }
     }
   };
@@ -12,13 +12,26 @@ import {
 import { createOutgoingSession } from './outgoingCall';
 import { getCurrentTime, addMidAttribute } from './util';
 import { stopAudio } from '../media/document';
-import { Client } from '../client';
-import { sendNetworkChangeEvent, startPingPong } from '../utils/networkManager';
+import { Client, ReconnectionPolicy } from '../client';
+import {
+  sendNetworkChangeEvent, startPingPong, getReconnectionDelay,
+} from '../utils/networkManager';
 import { StatsSocket } from '../stats/ws';
+import { submitQueuedFeedback } from '../stats/feedbackQueue';
+import { onNewMessage } from './messaging';
+import { filterIncomingCall, isCallAllowed } from './callFilter';
+import { decodeAccessToken, isAccessTokenExpired } from '../utils/token';
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('account') };
 let urlIndex: number = 0;
 
+export interface LoginFailureReason {
+  code: string;
+  message: string;
+  timeout: number;
+  reconnectAttempts: number;
+}
+
 /**
  * Initializes the Account.
  */
@@ -47,8 +60,34 @@ class Account {
   private credentials: {
     userName: string;
     password: string;
+    token: string | null;
   };
 
+  /**
+   * Expiry time of the access token in milliseconds
+   */
+  private tokenExpiresAt: number;
+
+  /**
+   * Timer which starts the access token refresh before it expires
+   */
+  private tokenRefreshTimer: null | ReturnType<typeof setTimeout>;
+
+  /**
+   * Number of websocket reconnection attempts since the connection was lost
+   */
+  private reconnectAttempts: number;
+
+  /**
+   * Timer which starts the next websocket reconnection attempt
+   */
+  private reconnectTimer: null | ReturnType<typeof setTimeout>;
+
+  /**
+   * Timer which fails the login if registration does not complete in time
+   */
+  private loginTimer: null | ReturnType<typeof setTimeout>;
+
   /**
    * Hold the value of number of retry counts done
    */
@@ -74,6 +113,36 @@ class Account {
    */
   public createListeners = (): void => this._createListeners();
 
+  /**
+   * Re-register with a new access token without affecting the ongoing calls.
+   * @param {String} token - JWT access token
+   */
+  public updateToken = (token: string): boolean => this._updateToken(token);
+
+  /**
+   * Check if the account is logged in with an access token.
+   */
+  public isTokenLogin = (): boolean => this.credentials.token !== null;
+
+  /**
+   * Stop the pending login timeout, reconnection attempt and access token refresh.
+   */
+  public clearTimers = (): void => {
+    this.stopLoginTimer();
+    this.stopReconnection();
+    this.stopTokenRefresh();
+  };
+
+  /**
+   * Stop the scheduled access token refresh.
+   */
+  public stopTokenRefresh = (): void => {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+  };
+
   // for qa purpose
   reinviteCounter: number;
 
@@ -81,12 +150,23 @@ class Account {
    * @construtor
    * @param {Client} clientObject - client reference
    * @param {String} userName
-   * @param {String} password
+   * @param {String} password - empty when logging in with an access token
+   * @param {String} token - (Optional) JWT access token used instead of password
    * @private
    */
-  constructor(clientObject: Client, userName: string, password: string) {
+  constructor(
+    clientObject: Client,
+    userName: string,
+    password: string,
+    token: string | null = null,
+  ) {
     this.cs = clientObject;
-    this.credentials = { userName, password };
+    this.credentials = { userName, password, token };
+    this.tokenExpiresAt = 0;
+    this.tokenRefreshTimer = null;
+    this.reconnectAttempts = 0;
+    this.reconnectTimer = null;
+    this.loginTimer = null;
     this.message = null;
     // for qa purpose
     this.reinviteCounter = 0;
@@ -95,7 +175,19 @@ class Account {
   }
 
   private _validate = (): boolean => {
-    if (
+    if (this.credentials.token !== null) {
+      const tokenInfo = decodeAccessToken(this.credentials.token);
+      if (!tokenInfo) {
+        this.cs.emit('onLoginFailed', 'Invalid access token');
+        return false;
+      }
+      if (isAccessTokenExpired(tokenInfo)) {
+        Plivo.log.error('access token is expired.');
+        this.cs.emit('onLoginFailed', 'Access token expired');
+        return false;
+      }
+      this.tokenExpiresAt = tokenInfo.expiresAt;
+    } else if (
       typeof this.credentials.userName === 'undefined'
       || typeof this.credentials.password === 'undefined'
       || this.credentials.userName === null
@@ -127,21 +219,27 @@ class Account {
   };
 
   private sendReInvite = () => {
-    if (this.cs._currentSession && this.cs.phone) {
-      // replace current session ua with newly created ua
-      this.cs._currentSession.session.replaceUA(this.cs.phone);
-      setTimeout(() => {
-        const eventHandlers = {
-          succeeded: () => {},
-          failed: () => {},
-        };
-        // this.cs._currentSession!.session = session;
-        this.reinviteCounter += 1;
-        this.cs._currentSession!.session._sendReinvite({
-          eventHandlers,
-          rtcOfferConstraints: { iceRestart: true },
-        });
-      }, 0);
+    const { phone } = this.cs;
+    if (this.cs._currentSession && phone) {
+      const calls = [this.cs._currentSession];
+      this.cs.activeCalls.forEach((call) => {
+        if (calls.indexOf(call) === -1) calls.push(call);
+      });
+      calls.forEach((call) => {
+        // replace call session ua with newly created ua
+        call.session.replaceUA(phone);
+        setTimeout(() => {
+          const eventHandlers = {
+            succeeded: () => {},
+            failed: () => {},
+          };
+          this.reinviteCounter += 1;
+          call.session._sendReinvite({
+            eventHandlers,
+            rtcOfferConstraints: { iceRestart: true },
+          });
+        }, 0);
+      });
     }
   };
 
@@ -161,15 +259,23 @@ class Account {
       urlIndex = 0;
     }
 
-    this.cs.plivoSocket = new SipLib.WebSocketInterface(wsServers[urlIndex]) as any;
+    // custom transport is used as is, e.g. for running the client against a local sip server
+    this.cs.plivoSocket = this.cs.options.transport
+      ? this.cs.options.transport as any
+      : new SipLib.WebSocketInterface(wsServers[urlIndex]) as any;
     const sipConfig = {
-      sockets: [this.cs.plivoSocket],
-      register_expires: C.REGISTER_EXPIRES_SECONDS,
+      sockets: [this.cs.sipTrace.wrap(this.cs.plivoSocket)],
+      register_expires: this.cs.options.registerExpires,
       uri: `${this.credentials.userName}@${C.DOMAIN}`,
-      password: this.credentials.password,
+      // password is never sent to the browser when logging in with an access token
+      ...(this.credentials.token !== null
+        ? { authorization_jwt: this.credentials.token }
+        : { password: this.credentials.password }),
       googIPv6: false,
-      connection_recovery_max_interval: C.WS_RECOVERY_MAX_INTERVAL,
-      connection_recovery_min_interval: C.WS_RECOVERY_MIN_INTERVAL,
+      connection_recovery_max_interval: (
+        this.cs.options.reconnectionPolicy as ReconnectionPolicy).maxInterval,
+      connection_recovery_min_interval: (
+        this.cs.options.reconnectionPolicy as ReconnectionPolicy).minInterval,
       session_timers: false,
       user_agent: `${pkg.name} ${pkg.version}`,
     };
@@ -183,7 +289,62 @@ class Account {
     this._createListeners();
     if (this.cs.phone) {
       this.cs.phone.start();
+      this.startLoginTimer();
+    }
+  };
+
+  private startLoginTimer = (): void => {
+    this.stopLoginTimer();
+    const { loginTimeout } = this.cs.options;
+    if (!loginTimeout) return;
+    this.loginTimer = setTimeout(this._onLoginTimeout, loginTimeout * 1000);
+  };
+
+  private stopLoginTimer = (): void => {
+    if (this.loginTimer) {
+      clearTimeout(this.loginTimer);
+      this.loginTimer = null;
+    }
+  };
+
+  private stopReconnection = (): void => {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
+    this.reconnectAttempts = 0;
+  };
+
+  /**
+   * Reconnect the websocket after the backoff interval of the reconnection policy.
+   */
+  private scheduleReconnection = (): void => {
+    const policy = this.cs.options.reconnectionPolicy as ReconnectionPolicy;
+    if (policy.maxAttempts && this.reconnectAttempts >= policy.maxAttempts) {
+      Plivo.log.error(`websocket reconnection failed after ${this.reconnectAttempts} attempts`);
+      this.stopReconnection();
+      return;
+    }
+    this.reconnectAttempts += 1;
+    // the first attempt is made right away, the backoff starts from the second one
+    const delay = this.reconnectAttempts > 1
+      ? getReconnectionDelay(policy, this.reconnectAttempts - 1)
+      : 0;
+    Plivo.log.info(`websocket reconnection attempt ${this.reconnectAttempts} in ${delay}ms`);
+    this.cs.emit('onReconnecting', {
+      attempt: this.reconnectAttempts,
+      maxAttempts: policy.maxAttempts,
+      delay,
+    });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.cs.phone) return;
+      urlIndex += 1;
+      const sipConfig = this.setupUAConfig();
+      this.cs.phone.createNewUATransport(sipConfig);
+      this.cs.phone.start();
+      this.sendReInvite();
+    }, delay);
   };
 
   private _create = (): boolean => {
@@ -221,6 +382,7 @@ class Account {
       this.cs.phone.on('registrationFailed', this._onRegistrationFailed);
       this.cs.phone.on('newTransaction' as any, this._onNewTransaction);
       this.cs.phone.on('newRTCSession', this._onNewRTCSession);
+      this.cs.phone.on('newMessage', (evt) => onNewMessage.call(this.cs, evt));
     }
     window.addEventListener('online', () => {
       clearInterval(this.cs.networkChangeInterval as any);
@@ -232,6 +394,7 @@ class Account {
         messageCheckTimeout: this.cs._currentSession
           ? C.MESSAGE_CHECK_TIMEOUT_ON_CALL_STATE : C.MESSAGE_CHECK_TIMEOUT_IDLE_STATE,
       });
+      submitQueuedFeedback.call(this.cs);
       if (!this.cs._currentSession) return;
 
       // create stats socket and trigger and trigger network change event
@@ -240,7 +403,7 @@ class Account {
         this.cs.statsSocket.disconnect();
         this.cs.statsSocket = null;
       }
-      this.cs.statsSocket = new StatsSocket();
+      this.cs.statsSocket = new StatsSocket(this.cs.telemetryBuffer);
       this.cs.statsSocket.connect();
       this.cs.networkReconnectionTimestamp = new Date().getTime();
       this.tiggerNetworkChangeEvent();
@@ -257,6 +420,10 @@ class Account {
    */
   private _onConnected = (evt: SipLib.UserAgentConnectedEvent): void => {
     Plivo.log.info('websocket connection established', evt);
+    if (this.reconnectAttempts) {
+      this.cs.emit('onReconnected', { attempts: this.reconnectAttempts });
+      this.reconnectAttempts = 0;
+    }
     if (!this.isPlivoSocketConnected) {
       this.isPlivoSocketConnected = true;
       const eventData = {
@@ -313,24 +480,52 @@ class Account {
       this.isPlivoSocketConnected = false;
     }
 
-    if (!(evt as any).ignoreReconnection) {
-      urlIndex += 1;
-      const sipConfig = this.setupUAConfig();
-      this.cs.phone!.createNewUATransport(sipConfig);
-      this.cs.phone!.start();
-      this.sendReInvite();
+    if (!(evt as any).ignoreReconnection && !this.reconnectTimer) {
+      this.scheduleReconnection();
+    }
+  };
+
+  /**
+   * Triggered when registration does not complete within the login timeout.
+   */
+  private _onLoginTimeout = (): void => {
+    this.loginTimer = null;
+    if (this.cs.isLoggedIn) return;
+    const timeout = this.cs.options.loginTimeout as number;
+    Plivo.log.error(`login timed out after ${timeout} seconds`);
+    const reason: LoginFailureReason = {
+      code: 'LOGIN_TIMEOUT',
+      message: this.isPlivoSocketConnected
+        ? 'Registration was not completed in time'
+        : 'Websocket connection was not established in time',
+      timeout,
+      reconnectAttempts: this.reconnectAttempts,
+    };
+    this.clearTimers();
+    this.cs.isLoginCalled = false;
+    if (this.cs.phone) {
+      this.cs.phone.stop();
+      this.cs.phone = null;
     }
+    this.cs.emit('onLoginFailed', 'Login Timeout', reason);
   };
 
   /**
    * Triggered when the user is logged in.
    */
   private _onRegistered = (): void => {
+    this.stopLoginTimer();
     if (!this.cs.isLoginCalled) {
       this.cs.isLoggedIn = true;
     }
     this.cs.userName = this.credentials.userName;
-    this.cs.password = this.credentials.password;
+    this.cs.password = this.credentials.token !== null ? null : this.credentials.password;
+    this.cs.accessToken = this.credentials.token;
+    this.cs.callHistory.setUser(this.cs.userName);
+    this.cs.feedbackQueue.setUser(this.cs.userName);
+    if (this.credentials.token !== null) {
+      this.scheduleTokenRefresh();
+    }
     if (this.cs.isLoggedIn === false && this.cs.isLoginCalled === true) {
       this.cs.isLoggedIn = true;
       this.cs.isLoginCalled = false;
@@ -343,13 +538,14 @@ class Account {
         messageCheckTimeout: C.MESSAGE_CHECK_TIMEOUT_IDLE_STATE,
       });
       // get callstats key and create stats socket
-      validateCallStats(this.cs.userName, this.cs.password)
+      validateCallStats(this.cs.userName, this.cs.password, this.cs.accessToken)
         .then((responsebody: CallStatsValidationResponse) => {
           this.cs.callstatskey = responsebody.data;
           this.cs.rtp_enabled = responsebody.is_rtp_enabled;
         }).catch(() => {
           this.cs.callstatskey = null;
-        });
+        })
+        .then(() => submitQueuedFeedback.call(this.cs));
 
       // initialize callstats.io
       initCallStatsIO.call(this.cs);
@@ -371,8 +567,10 @@ class Account {
     }
     this.cs.userName = null;
     this.cs.password = null;
+    this.cs.accessToken = null;
     if (this.cs.isLogoutCalled === true) {
       this.cs.isLogoutCalled = false;
+      this.clearTimers();
       this.cs.emit('onLogout');
       if (this.cs.networkChangeInterval) {
         clearInterval(this.cs.networkChangeInterval);
@@ -390,7 +588,75 @@ class Account {
     Plivo.log.debug('Login failed : ', error.cause);
     this.cs.userName = null;
     this.cs.password = null;
-    this.cs.emit('onLoginFailed', error.cause);
+    this.cs.accessToken = null;
+    this.stopLoginTimer();
+    this.stopTokenRefresh();
+    this.cs.emit('onLoginFailed', error.cause as string);
+  };
+
+  /**
+   * Start refreshing the access token shortly before it expires.
+   */
+  private scheduleTokenRefresh = (): void => {
+    this.stopTokenRefresh();
+    const refreshIn = this.tokenExpiresAt - new Date().getTime() - C.TOKEN_REFRESH_LEAD_TIME;
+    // a token valid for weeks is waited for in steps
+    if (refreshIn > C.MAX_TIMEOUT_DELAY) {
+      this.tokenRefreshTimer = setTimeout(this.scheduleTokenRefresh, C.MAX_TIMEOUT_DELAY);
+      return;
+    }
+    this.tokenRefreshTimer = setTimeout(this._onTokenExpiring, Math.max(refreshIn, 0));
+  };
+
+  /**
+   * Triggered when the access token is about to expire. Fetches a new token from the
+   * tokenProvider option when it is configured.
+   */
+  private _onTokenExpiring = (): void => {
+    this.tokenRefreshTimer = null;
+    Plivo.log.info('access token is about to expire');
+    this.cs.emit('onTokenExpiring', { expiresAt: this.tokenExpiresAt });
+    const { tokenProvider } = this.cs.options;
+    if (!tokenProvider) return;
+    Promise.resolve()
+      .then(() => tokenProvider())
+      .then((token) => {
+        if (!this._updateToken(token)) {
+          throw new Error('Invalid access token');
+        }
+      })
+      .catch((err) => {
+        Plivo.log.error('failed to refresh access token : ', err);
+        this.cs.emit('onTokenRefreshFailed', {
+          reason: err && err.message ? err.message : String(err),
+          expiresAt: this.tokenExpiresAt,
+        });
+      });
+  };
+
+  private _updateToken = (token: string): boolean => {
+    if (this.credentials.token === null) {
+      Plivo.log.warn('Access token cannot be updated when logged in with password');
+      return false;
+    }
+    const tokenInfo = decodeAccessToken(token);
+    if (!tokenInfo || isAccessTokenExpired(tokenInfo)) {
+      Plivo.log.warn('Ignoring invalid or expired access token');
+      return false;
+    }
+    if (tokenInfo.userName !== this.credentials.userName) {
+      Plivo.log.warn(`Access token does not belong to ${this.credentials.userName}`);
+      return false;
+    }
+    this.credentials.token = token;
+    this.tokenExpiresAt = tokenInfo.expiresAt;
+    if (this.cs.phone) {
+      // only the registration is refreshed, calls keep using the existing dialogs
+      (this.cs.phone as any)._configuration.authorization_jwt = token;
+      this.cs.phone.register();
+    }
+    Plivo.log.debug('access token updated');
+    return true;
   };
 
   /**
@@ -421,8 +687,10 @@ class Account {
     if (!this._validateRTCSession(evt)) return;
 
     if (evt.originator === 'remote') {
+      const filterResult = filterIncomingCall.call(this.cs, evt);
+      if (!isCallAllowed(filterResult)) return;
       addMidAttribute.call(this.cs, evt);
-      createIncomingSession(this.cs, evt);
+      createIncomingSession(this.cs, evt, filterResult);
     } else {
       createOutgoingSession(evt);
     }
@@ -441,6 +709,7 @@ class Account {
       && this.cs._currentSession.session.connection.signalingState === 'closed'
     ) {
       Plivo.log.warn('Previous call did not end properly');
+      this.cs.activeCalls.delete(this.cs._currentSession.callUUID as string);
       this.cs._currentSession = null;
       this.cs.callSession = null;
       this.cs.callUUID = null;
@@ -454,6 +723,8 @@ class Account {
         }
       });
     }
+    // calls made by the user are validated before they are placed
+    if (evt.originator !== 'remote') return true;
     if (
       ((this.cs._currentSession || this.cs.incomingInvites.size)
         && !this.cs.options.allowMultipleIncomingCalls)
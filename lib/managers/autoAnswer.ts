@@ -0,0 +1,91 @@
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+/* eslint func-names: ["error", "as-needed"] */
+import { AutoAnswerPolicy, Client, PlivoObject } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+import { playBeep } from '../media/document';
+import { matches } from './callFilter';
+import { CallSession } from './callSession';
+
+export interface AutoAnswerInfo {
+  reason: 'always' | 'header' | 'caller';
+  // milliseconds after which the call is answered
+  delay: number;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('autoAnswer') };
+
+/**
+ * Get the delay asked for by a Call-Info header like `<sip:host>;answer-after=2`.
+ * @param {String} callInfo - Call-Info header of the INVITE
+ * @returns Delay in milliseconds or null when auto answer is not asked for
+ */
+const getAnswerAfter = (callInfo: string | undefined): number | null => {
+  const match = (callInfo || '').match(/;\s*answer-after\s*=\s*(\d+)/i);
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+/**
+ * Check if the INVITE asks for the call to be answered automatically.
+ * @param {Any} request - INVITE of the incoming call
+ */
+const isRequestedByHeader = (request: any): boolean => {
+  const header = request.getHeader(C.AUTO_ANSWER_HEADER);
+  return (!!header && header.trim().toLowerCase() !== 'false')
+    || getAnswerAfter(request.getHeader('Call-Info')) !== null;
+};
+
+/**
+ * Decide if an incoming call is answered automatically.
+ * @param {Any} request - INVITE of the incoming call
+ * @returns Reason and delay for answering or null when the call rings as usual
+ */
+export const getAutoAnswer = function (request: any): AutoAnswerInfo | null {
+  const client: Client = this;
+  const policy = client.options.autoAnswer as AutoAnswerPolicy;
+  if (!policy || policy.mode === 'off') return null;
+  let reason: AutoAnswerInfo['reason'] | null = null;
+  if (policy.mode === 'always') {
+    reason = 'always';
+  } else if (policy.mode === 'header' && isRequestedByHeader(request)) {
+    reason = 'header';
+  } else if (policy.mode === 'caller') {
+    const callerId = (request.from.uri && request.from.uri.user) || '';
+    if (policy.callers.some((caller) => matches(caller, callerId))) reason = 'caller';
+  }
+  if (!reason) return null;
+  const answerAfter = getAnswerAfter(request.getHeader('Call-Info'));
+  return { reason, delay: answerAfter !== null ? answerAfter : policy.delay };
+};
+
+/**
+ * Answer a ringing call after the auto answer delay. A call which is no longer
+ * ringing is left alone and an answered call is never interrupted, the new call
+ * keeps ringing instead.
+ * @param {CallSession} incomingCall - incoming call session
+ */
+export const scheduleAutoAnswer = function (incomingCall: CallSession): void {
+  const client: Client = this;
+  const { autoAnswer } = incomingCall;
+  if (!autoAnswer) return;
+  Plivo.log.info(`auto answering ${incomingCall.callUUID} in ${autoAnswer.delay}ms (${autoAnswer.reason})`);
+  setTimeout(() => {
+    if (client.incomingInvites.get(incomingCall.callUUID as string) !== incomingCall) {
+      Plivo.log.debug(`${incomingCall.callUUID} is not ringing anymore, auto answer skipped`);
+      return;
+    }
+    if (client._currentSession) {
+      Plivo.log.info(`${incomingCall.callUUID} is not auto answered during an ongoing call`);
+      return;
+    }
+    incomingCall.addConnectionStage(`autoAnswer()@${new Date().getTime()}`);
+    // answered like a user answer, with the one way audio check, other incoming calls
+    // keep ringing when multiple incoming calls are allowed
+    if (!client.answer(incomingCall.callUUID as string, 'letring')) return;
+    // the call is canceled when it could not be answered
+    if (incomingCall.state === incomingCall.STATE.CANCELED) return;
+    if ((client.options.autoAnswer as AutoAnswerPolicy).beep) playBeep();
+    client.emit('onAutoAnswered', incomingCall.getCallInfo(), autoAnswer);
+  }, autoAnswer.delay);
+};
@@ -0,0 +1,266 @@
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+import { EventEmitter } from 'events';
+import { SessionEndedEvent } from 'plivo-jssip';
+import { CallSession, CallInfo, CallStateHistoryEntry } from './callSession';
+import { Logger } from '../logger';
+import { Client } from '../client';
+import { sendInfo } from './messaging';
+
+const Plivo = { log: Logger.scope('call') };
+
+/**
+ * Handle for a single call(Outgoing/Incoming). Emits `ringing`, `answered`, `mediaConnected`,
+ * `ended`, `failed`, `info` and `metrics` events for this call only.
+ */
+
+// eslint-disable-next-line import/prefer-default-export
+export class Call extends EventEmitter {
+  /**
+   * Holds the call session once the call is placed or received
+   * @private
+   */
+  callSession: CallSession | null;
+
+  /**
+   * Holds the client reference
+   * @private
+   */
+  client: Client;
+
+  /**
+   * Set to true once the call is answered, failed or ended
+   * @private
+   */
+  isSettled: boolean;
+
+  /**
+   * Resolves with call information when the call is answered and rejects when the call
+   * fails or ends before it is answered
+   */
+  whenAnswered: Promise<CallInfo>;
+
+  /**
+   * Resolves the answered promise
+   * @private
+   */
+  resolveAnswered: (callInfo: CallInfo) => void;
+
+  /**
+   * Rejects the answered promise
+   * @private
+   */
+  rejectAnswered: (err: Error) => void;
+
+  /**
+   * Answer the incoming call.
+   * @param {String} actionOnOtherIncomingCalls -  (Optional) Specify action(reject, ignore,
+   * letring) for next incoming calls when already on call
+   */
+  public answer = (
+    actionOnOtherIncomingCalls?: string,
+  ): boolean => this._answer(actionOnOtherIncomingCalls);
+
+  /**
+   * Reject the incoming call.
+   */
+  public reject = (): boolean => this._reject();
+
+  /**
+   * Hangup the call.
+   */
+  public hangup = (): boolean => this._hangup();
+
+  /**
+   * Mute the call.
+   */
+  public mute = (): boolean => this._mute();
+
+  /**
+   * Unmute the call.
+   */
+  public unmute = (): boolean => this._unmute();
+
+  /**
+   * Send DTMF for the call.
+   * @param {String} digit - Send the digits as dtmf 'digit'
+   * ("1", "2", "3", "4", "5", "6", "7", "8", "9", "0", "*", "#")
+   */
+  public sendDtmf = (digit: string | number): void => this._sendDtmf(digit);
+
+  /**
+   * Send application data to the other party of an answered call as a SIP INFO.
+   * @param {String} contentType - content type of the body, e.g. application/json
+   * @param {String} body - application data
+   * @returns Fulfills once the other party accepts the INFO, rejects with the failure reason
+   */
+  public sendInfo = (contentType: string, body: string): Promise<void> => this._sendInfo(
+    contentType,
+    body,
+  );
+
+  /**
+   * Get the WebRTC stats report of the call.
+   */
+  public getStats = (): Promise<RTCStatsReport | null> => this._getStats();
+
+  /**
+   * Get basic call information.
+   */
+  public getCallInfo = (): CallInfo | null => (
+    this.callSession ? this.callSession.getCallInfo() : null
+  );
+
+  /**
+   * Get the CallUUID of the call.
+   */
+  public getCallUUID = (): string | null => (
+    this.callSession ? this.callSession.callUUID : null
+  );
+
+  /**
+   * Get every state the call has been in along with the time it entered the state.
+   */
+  public getStateHistory = (): CallStateHistoryEntry[] => (
+    this.callSession ? this.callSession.getStateHistory() : []
+  );
+
+  /**
+   * Attach the call session once it is created.
+   * @param {CallSession} callSession - call session information
+   * @private
+   */
+  public attach = (callSession: CallSession): void => {
+    this.callSession = callSession;
+  };
+
+  /**
+   * Triggered when the call is answered.
+   * @param {CallInfo} callInfo - call information
+   * @private
+   */
+  public onAnswered = (callInfo: CallInfo): void => {
+    this.emit('answered', callInfo);
+    this.isSettled = true;
+    this.resolveAnswered(callInfo);
+  };
+
+  /**
+   * Triggered when the call is hung up.
+   * @param {SessionEndedEvent} evt - rtcsession ended information
+   * @param {CallInfo} callInfo - call information
+   * @private
+   */
+  public onEnded = (evt: SessionEndedEvent, callInfo: CallInfo): void => {
+    this.emit('ended', { originator: evt.originator, reason: evt.cause }, callInfo);
+    this.settleWithError(evt.cause);
+  };
+
+  /**
+   * Triggered when the call is rejected, cancelled, ignored or invalid.
+   * @param {String} cause - reason for failure
+   * @param {CallInfo} callInfo - call information
+   * @private
+   */
+  public onFailed = (cause: string, callInfo: CallInfo | null): void => {
+    this.emit('failed', cause, callInfo);
+    this.settleWithError(cause);
+  };
+
+  /**
+   * @constructor
+   * @param {Client} client - client reference
+   * @private
+   */
+  constructor(client: Client) {
+    super();
+    this.client = client;
+    this.callSession = null;
+    this.isSettled = false;
+    this.resolveAnswered = () => {};
+    this.rejectAnswered = () => {};
+    this.whenAnswered = new Promise((resolve, reject) => {
+      this.resolveAnswered = resolve;
+      this.rejectAnswered = reject;
+    });
+    // avoid unhandled rejection when the application does not use the promise
+    this.whenAnswered.catch(() => {});
+  }
+
+  private settleWithError = (reason: string): void => {
+    if (this.isSettled) return;
+    this.isSettled = true;
+    this.rejectAnswered(new Error(reason));
+  };
+
+  private _answer = (actionOnOtherIncomingCalls?: string): boolean => {
+    if (!this.callSession || this.callSession.direction !== 'incoming') {
+      Plivo.log.warn('answer() can be used only for incoming calls');
+      return false;
+    }
+    return this.client.answer(
+      this.callSession.callUUID as string,
+      actionOnOtherIncomingCalls as string,
+    );
+  };
+
+  private _reject = (): boolean => {
+    if (!this.callSession || this.callSession.direction !== 'incoming') {
+      Plivo.log.warn('reject() can be used only for incoming calls');
+      return false;
+    }
+    return this.client.reject(this.callSession.callUUID as string);
+  };
+
+  /**
+   * Check if the client can act on this call. An outgoing call has no callUUID until
+   * the first response, till then the client can only reach it as the active call.
+   * @param {String} action - name of the action used in logs
+   */
+  private canControl = (action: string): boolean => {
+    if (!this.callSession) {
+      Plivo.log.warn(`No call session exists to ${action}`);
+      return false;
+    }
+    if (this.callSession.callUUID || this.callSession === this.client._currentSession) {
+      return true;
+    }
+    Plivo.log.warn(`Cannot ${action} before the call has a callUUID`);
+    return false;
+  };
+
+  private _hangup = (): boolean => {
+    if (!this.canControl('hangup')) return false;
+    return this.client.hangup((this.callSession as CallSession).callUUID || undefined);
+  };
+
+  private _mute = (): boolean => {
+    if (!this.canControl('mute')) return false;
+    return this.client.mute((this.callSession as CallSession).callUUID || undefined);
+  };
+
+  private _unmute = (): boolean => {
+    if (!this.canControl('unmute')) return false;
+    return this.client.unmute((this.callSession as CallSession).callUUID || undefined);
+  };
+
+  private _sendDtmf = (digit: string | number): void => {
+    if (!this.canControl('send DTMF')) return;
+    this.client.sendDtmf(digit, (this.callSession as CallSession).callUUID || undefined);
+  };
+
+  private _sendInfo = (contentType: string, body: string): Promise<void> => {
+    if (!this.callSession) {
+      Plivo.log.warn('No call session exists to send INFO');
+      return Promise.reject(new Error('No call session exists'));
+    }
+    return sendInfo(this.callSession, contentType, body);
+  };
+
+  private _getStats = (): Promise<RTCStatsReport | null> => {
+    if (!this.callSession || !this.callSession.session.connection) {
+      return Promise.resolve(null);
+    }
+    return this.callSession.session.connection.getStats();
+  };
+}
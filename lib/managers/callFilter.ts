@@ -0,0 +1,293 @@
+/* eslint-disable import/no-cycle */
+/* eslint func-names: ["error", "as-needed"] */
+import { UserAgentNewRtcSessionEvent } from 'plivo-jssip';
+import { Client, PlivoObject, ExtraHeaders } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+import { receiveExtraHeader } from '../utils/headers';
+
+export type IncomingCallAction = 'reject' | 'ignore' | 'ring' | 'flag';
+
+export type IncomingCallMatcher = string | RegExp;
+
+export interface IncomingCallRule {
+  id?: string;
+  // matched against the user part of the caller uri
+  callerId?: IncomingCallMatcher;
+  displayName?: IncomingCallMatcher;
+  // X-PH headers of the INVITE, header names are case insensitive
+  headers?: { [key: string]: IncomingCallMatcher };
+  action: IncomingCallAction;
+  // SIP response code used by the reject action
+  statusCode?: number;
+  reasonPhrase?: string;
+}
+
+export interface DoNotDisturbWindow {
+  // days of the week, 0 is Sunday, every day when not set
+  days?: number[];
+  // local time in HH:MM, a window ending before it starts runs past midnight
+  start: string;
+  end: string;
+}
+
+export interface DoNotDisturbOptions {
+  enabled: boolean;
+  // do not disturb is active all the time when no schedule is set
+  schedule?: DoNotDisturbWindow[];
+  statusCode?: number;
+  reasonPhrase?: string;
+}
+
+export interface IncomingCallFilterResult {
+  callUUID: string | null;
+  callerId: string;
+  callerName: string | null;
+  extraHeaders: ExtraHeaders;
+  action: IncomingCallAction;
+  reason: 'rule' | 'dnd' | 'default';
+  ruleId: string | null;
+  statusCode: number | null;
+  timeStamp: number;
+}
+
+export type IncomingCallFilterSummary = Pick<
+IncomingCallFilterResult, 'action' | 'reason' | 'ruleId' | 'statusCode'
+>;
+
+interface IncomingCallDecision {
+  result: IncomingCallFilterResult;
+  reasonPhrase?: string;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('callFilter') };
+
+const ACTIONS: IncomingCallAction[] = ['reject', 'ignore', 'ring', 'flag'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const isMatcher = (value: any): boolean => typeof value === 'string' || value instanceof RegExp;
+
+const isRejectCode = (value: any): boolean => Number.isInteger(value)
+  && value >= 400 && value <= 699;
+
+/**
+ * Get the reason phrase of a reject response, the sip library picks the standard
+ * phrase when none is returned.
+ */
+const getReasonPhrase = (
+  statusCode: number,
+  reasonPhrase: string | undefined,
+  defaultResponse: { status_code: number; reason_phrase: string },
+): string | undefined => reasonPhrase || (statusCode === defaultResponse.status_code
+  ? defaultResponse.reason_phrase
+  : undefined);
+
+/**
+ * Check the incoming call rules passed by the application.
+ * @param {IncomingCallRule[]} rules - rules evaluated in order
+ * @returns Error message or null if the rules are valid
+ */
+export const getIncomingCallRulesError = (rules: IncomingCallRule[]): string | null => {
+  if (!Array.isArray(rules)) return 'Rules should be an array';
+  let error: string | null = null;
+  rules.some((rule, index) => {
+    if (!rule || typeof rule !== 'object' || !ACTIONS.includes(rule.action)) {
+      error = `Rule ${index} should have one of the actions ${ACTIONS.join(', ')}`;
+    } else if (
+      (rule.callerId !== undefined && !isMatcher(rule.callerId))
+      || (rule.displayName !== undefined && !isMatcher(rule.displayName))
+    ) {
+      error = `Rule ${index} should match the caller with a string or RegExp`;
+    } else if (rule.headers !== undefined && (
+      typeof rule.headers !== 'object'
+      || !Object.keys(rule.headers).every((key) => isMatcher(rule.headers![key]))
+    )) {
+      error = `Rule ${index} should match the headers with a string or RegExp`;
+    } else if (rule.statusCode !== undefined && !isRejectCode(rule.statusCode)) {
+      error = `Rule ${index} status code should be between 400 and 699`;
+    }
+    return !!error;
+  });
+  return error;
+};
+
+/**
+ * Check the do not disturb options passed by the application.
+ * @param {DoNotDisturbOptions} options - do not disturb settings
+ * @returns Error message or null if the options are valid
+ */
+export const getDoNotDisturbError = (options: DoNotDisturbOptions): string | null => {
+  if (!options || typeof options.enabled !== 'boolean') return 'enabled should be a boolean';
+  if (options.statusCode !== undefined && !isRejectCode(options.statusCode)) {
+    return 'Status code should be between 400 and 699';
+  }
+  if (options.schedule === undefined) return null;
+  if (!Array.isArray(options.schedule)) return 'Schedule should be an array';
+  const invalid = options.schedule.find((window) => !window
+    || !TIME_PATTERN.test(window.start)
+    || !TIME_PATTERN.test(window.end)
+    || (window.days !== undefined && (!Array.isArray(window.days)
+      || !window.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))));
+  return invalid !== undefined ? `Invalid schedule ${JSON.stringify(invalid)}` : null;
+};
+
+const toMinutes = (time: string): number => {
+  const [, hours, minutes] = time.match(TIME_PATTERN) as RegExpMatchArray;
+  return Number(hours) * 60 + Number(minutes);
+};
+
+/**
+ * Check if do not disturb applies at a given time.
+ * @param {DoNotDisturbOptions} options - do not disturb settings
+ * @param {Date} date - (Optional) time to check, defaults to now
+ */
+export const isDoNotDisturbActive = (
+  options: DoNotDisturbOptions,
+  date: Date = new Date(),
+): boolean => {
+  if (!options.enabled) return false;
+  if (!options.schedule || !options.schedule.length) return true;
+  const day = date.getDay();
+  const now = date.getHours() * 60 + date.getMinutes();
+  return options.schedule.some(({ days, start, end }) => {
+    const from = toMinutes(start);
+    const to = toMinutes(end);
+    if (from <= to) {
+      return (!days || days.includes(day)) && now >= from && now < to;
+    }
+    // the part after midnight belongs to the window of the previous day
+    if (now >= from) return !days || days.includes(day);
+    return now < to && (!days || days.includes((day + 6) % 7));
+  });
+};
+
+/**
+ * Match a caller detail, strings match the whole value case insensitively.
+ * @param {IncomingCallMatcher} matcher - string or RegExp, anything matches when not set
+ * @param {String} value - caller id, display name or header value
+ */
+export const matches = (
+  matcher: IncomingCallMatcher | undefined,
+  value: string | null,
+): boolean => {
+  if (matcher === undefined) return true;
+  if (value === null) return false;
+  if (matcher instanceof RegExp) return matcher.test(value);
+  return matcher.toLowerCase() === value.toLowerCase();
+};
+
+const getHeaderValue = (headers: ExtraHeaders, name: string): string | null => {
+  const key = Object.keys(headers).find((item) => item.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : null;
+};
+
+/**
+ * Find the first rule matching the caller.
+ * @param {IncomingCallRule[]} rules - rules evaluated in order
+ * @param {IncomingCallFilterResult} caller - caller information
+ */
+const findRule = (
+  rules: IncomingCallRule[],
+  caller: Pick<IncomingCallFilterResult, 'callerId' | 'callerName' | 'extraHeaders'>,
+): IncomingCallRule | null => rules.find((rule) => matches(rule.callerId, caller.callerId)
+  && matches(rule.displayName, caller.callerName)
+  && Object.keys(rule.headers || {}).every(
+    (name) => matches(rule.headers![name], getHeaderValue(caller.extraHeaders, name)),
+  )) || null;
+
+/**
+ * Decide what to do with an incoming call.
+ * @param {Client} client - client reference
+ * @param {UserAgentNewRtcSessionEvent} evt - rtcsession information
+ * @returns Decision or null when no rule or do not disturb is set
+ */
+const decide = (client: Client, evt: UserAgentNewRtcSessionEvent): IncomingCallDecision | null => {
+  const { incomingCallRules: rules, doNotDisturb } = client;
+  if (!rules.length && !doNotDisturb.enabled) return null;
+  const request = evt.request as any;
+  const caller = {
+    callerId: (request.from.uri && request.from.uri.user) || '',
+    callerName: request.from.display_name || null,
+    extraHeaders: receiveExtraHeader(request, request.headers),
+  };
+  const rule = findRule(rules, caller);
+  const result: IncomingCallFilterResult = {
+    callUUID: request.getHeader('X-Calluuid') || null,
+    ...caller,
+    action: rule ? rule.action : 'ring',
+    reason: rule ? 'rule' : 'default',
+    ruleId: (rule && rule.id) || null,
+    statusCode: null,
+    timeStamp: Date.now(),
+  };
+  if (rule && rule.action === 'reject') {
+    const response = C.INCOMING_CALL_REJECT_RESPONSE;
+    result.statusCode = rule.statusCode || response.status_code;
+    return {
+      result,
+      reasonPhrase: getReasonPhrase(result.statusCode, rule.reasonPhrase, response),
+    };
+  }
+  // only a ring rule lets the caller through do not disturb
+  if ((rule && rule.action !== 'flag') || !isDoNotDisturbActive(doNotDisturb)) return { result };
+  const response = C.DND_REJECT_RESPONSE;
+  result.action = 'reject';
+  result.reason = 'dnd';
+  result.ruleId = null;
+  result.statusCode = doNotDisturb.statusCode || response.status_code;
+  return {
+    result,
+    reasonPhrase: getReasonPhrase(result.statusCode, doNotDisturb.reasonPhrase, response),
+  };
+};
+
+/**
+ * Apply the incoming call rules and do not disturb to a new incoming call.
+ * @param {UserAgentNewRtcSessionEvent} evt - rtcsession information
+ * @returns Decision or null when no rule or do not disturb is set, the call
+ * rings unless the action is reject or ignore
+ */
+export const filterIncomingCall = function (
+  evt: UserAgentNewRtcSessionEvent,
+): IncomingCallFilterResult | null {
+  const client: Client = this;
+  const decision = decide(client, evt);
+  if (!decision) return null;
+  const { result, reasonPhrase } = decision;
+  Plivo.log.info(`incoming call ${result.callUUID} ${result.action} (${result.reason})`);
+  if (result.action === 'reject' || result.action === 'ignore') {
+    client.filteredCallsInCurrentSession += 1;
+    if (result.callUUID) client.incomingCallsInitiationTime.delete(result.callUUID);
+  }
+  if (result.action === 'reject') {
+    evt.session.terminate({
+      status_code: result.statusCode as number,
+      reason_phrase: reasonPhrase,
+    });
+  }
+  // an ignored call is left unanswered until the caller gives up
+  client.emit('onIncomingCallFiltered', result);
+  return result;
+};
+
+/**
+ * Get the part of a decision reported in the call summary, caller details are left out.
+ * @param {IncomingCallFilterResult} result - decision taken for the call
+ */
+export const getFilterSummary = (
+  result: IncomingCallFilterResult | null,
+): IncomingCallFilterSummary | null => (result ? {
+  action: result.action,
+  reason: result.reason,
+  ruleId: result.ruleId,
+  statusCode: result.statusCode,
+} : null);
+
+/**
+ * Check if an incoming call should ring after it is filtered.
+ * @param {IncomingCallFilterResult} result - decision taken for the call
+ */
+export const isCallAllowed = (result: IncomingCallFilterResult | null): boolean => !result
+  || result.action === 'ring'
+  || result.action === 'flag';
@@ -5,6 +5,9 @@ import {
   SessionIceCandidateEvent,
   SessionFailedEvent,
   SessionEndedEvent,
+  SessionHoldEvent,
+  SessionUnholdEvent,
+  SessionNewInfoEvent,
 } from 'plivo-jssip';
 import {
   sendCallAnsweredEvent, onIceFailure, onMediaFailure, onSDPfailure, DeviceAudioInfo,
@@ -30,7 +33,13 @@ import {
 import { Logger } from '../logger';
 import { Client, ExtraHeaders } from '../client';
 import { stopAudio } from '../media/document';
+import { HoldMusic } from '../media/holdMusic';
+import { Call } from './call';
 import { GetRTPStats } from '../stats/rtpStats';
+import { CallQualityCollector } from '../stats/qualityReport';
+import { getReceivedInfo } from './messaging';
+import { IncomingCallFilterResult } from './callFilter';
+import { AutoAnswerInfo } from './autoAnswer';
 
 export interface CallSessionOptions {
   callUUID?: string;
@@ -42,6 +51,9 @@ export interface CallSessionOptions {
   extraHeaders: ExtraHeaders;
   call_initiation_time?: number;
   client: Client
+  call?: Call;
+  incomingCallFilter?: IncomingCallFilterResult | null;
+  autoAnswer?: AutoAnswerInfo | null;
 }
 
 export interface CallInfo {
@@ -53,6 +65,17 @@ export interface CallInfo {
   extraHeaders: ExtraHeaders;
 }
 
+export interface CallStateHistoryEntry {
+  state: string;
+  timestamp: number;
+}
+
+export interface HoldInterval {
+  hold_time: number;
+  unhold_time?: number;
+  originator: string;
+}
+
 export interface SignallingInfo {
   call_initiation_time?: number;
   answer_time?: number;
@@ -69,13 +92,14 @@ export interface SignallingInfo {
     error_description: string;
   };
   ring_start_time?: number;
+  hold_intervals?: HoldInterval[];
 }
 
 export interface MediaConnectionInformation {
   [key: string]: number;
 }
 
-const Plivo = { log: Logger, emitMetrics };
+const Plivo = { log: Logger.scope('callSession'), emitMetrics };
 
 /**
  * Initializes the CallSession.
@@ -95,6 +119,7 @@ export class CallSession {
     CANCELED: string;
     FAILED: string;
     ENDED: string;
+    HELD: string;
   };
 
   /**
@@ -163,6 +188,36 @@ export class CallSession {
    */
   stats: GetRTPStats | null;
 
+  /**
+   * Aggregates rtp stats and media warnings into the call quality report
+   * @private
+   */
+  qualityCollector: CallQualityCollector;
+
+  /**
+   * Set once the call summary event is sent, either on hangup or on page unload
+   * @private
+   */
+  isSummarySent: boolean;
+
+  /**
+   * Set when the early media of a 183 Session Progress is played instead of the ringback tone
+   * @private
+   */
+  earlyMedia: boolean;
+
+  /**
+   * Decision of the incoming call rules or do not disturb for an incoming call
+   * @private
+   */
+  incomingCallFilter: IncomingCallFilterResult | null;
+
+  /**
+   * Reason and delay for answering an incoming call automatically
+   * @private
+   */
+  autoAnswer: AutoAnswerInfo | null;
+
   /**
    * Holds timestamp for each state of call
    * @private
@@ -181,6 +236,18 @@ export class CallSession {
    */
   postDialDelayEndTime: number | null;
 
+  /**
+   * Holds the hold music player while the call is put on hold by the user
+   * @private
+   */
+  holdMusic: HoldMusic | null;
+
+  /**
+   * Call object handed to the application for this call
+   * @private
+   */
+  call: Call;
+
   /**
    * Update CallUUID in session.
    * @param {String} callUUID - active call(Outgoing/Incoming) CallUUID
@@ -190,12 +257,16 @@ export class CallSession {
   };
 
   /**
-   * Update state in session.
+   * Move the call to a new state if the transition is allowed.
    * @param {String} state - active call(Outgoing/Incoming) state(this.STATE)
+   * @returns True if the call is in the given state after the update
    */
-  public setState = (state: string): void => {
-    this.state = state;
-  };
+  public setState = (state: string): boolean => this._setState(state);
+
+  /**
+   * Get every state the call has been in along with the time it entered the state.
+   */
+  public getStateHistory = (): CallStateHistoryEntry[] => this._getStateHistory();
 
   /**
    * Add stage at each state of call.
@@ -307,6 +378,38 @@ export class CallSession {
    */
   public onIceTimeout = (cs: Client, sec: number): void => this._onIceTimeout(cs, sec);
 
+  /**
+   * Triggered when the call(Outgoing/Incoming) is put on hold by either party.
+   * @param {Client} clientObject - client reference
+   * @param {SessionHoldEvent} evt - rtcsession information
+   */
+  public onHold = (cs: Client, event: SessionHoldEvent): void => this._onHold(cs, event);
+
+  /**
+   * Triggered when the call(Outgoing/Incoming) is resumed by either party.
+   * @param {Client} clientObject - client reference
+   * @param {SessionUnholdEvent} evt - rtcsession information
+   */
+  public onUnhold = (cs: Client, event: SessionUnholdEvent): void => this._onUnhold(cs, event);
+
+  /**
+   * Triggered when a SIP INFO is sent or received within the call.
+   * @param {Client} clientObject - client reference
+   * @param {SessionNewInfoEvent} evt - rtcsession info information
+   */
+  public onNewInfo = (cs: Client, event: SessionNewInfoEvent): void => this._onNewInfo(cs, event);
+
+  /**
+   * Start playing hold music into the outgoing audio track.
+   * @param {String} url - media url of the hold music
+   */
+  public startHoldMusic = (url: string): Promise<void> => this._startHoldMusic(url);
+
+  /**
+   * Stop the hold music and restore the microphone track.
+   */
+  public stopHoldMusic = (): Promise<void> => this._stopHoldMusic();
+
   /**
    * Triggered when a call(Outgoing/Incoming) is rejected or invalid.
    * @param {Client} clientObject - client reference
@@ -360,6 +463,7 @@ export class CallSession {
       CANCELED: 'canceled',
       FAILED: 'failed',
       ENDED: 'ended',
+      HELD: 'held',
     };
 
     this.callUUID = options.callUUID ? options.callUUID : null;
@@ -370,9 +474,14 @@ export class CallSession {
     this.state = this.STATE.INITIALIZED;
     this.extraHeaders = options.extraHeaders;
     this.session = options.session;
-    this.connectionStages = [];
+    this.connectionStages = [`state-${this.state}@${getCurrentTime()}`];
     this.gotInitalIce = false;
     this.stats = null;
+    this.qualityCollector = new CallQualityCollector();
+    this.isSummarySent = false;
+    this.earlyMedia = false;
+    this.incomingCallFilter = options.incomingCallFilter || null;
+    this.autoAnswer = options.autoAnswer || null;
     this.signallingInfo = {};
     this.mediaConnectionInfo = {};
 
@@ -380,9 +489,33 @@ export class CallSession {
       this.signallingInfo.call_initiation_time = options.call_initiation_time;
     }
     this.postDialDelayEndTime = null;
+    this.holdMusic = null;
+    this.call = options.call || new Call(options.client);
+    this.call.attach(this);
     checkElectronAudioDevices.call(options.client);
   }
 
+  private _setState = (state: string): boolean => {
+    if (state === this.state) return true;
+    const prevState = this.state;
+    if (!(C.CALL_STATE_TRANSITIONS[prevState] || []).includes(state)) {
+      Plivo.log.warn(`Ignoring call state change from ${prevState} to ${state} for ${this.callUUID}`);
+      return false;
+    }
+    this.state = state;
+    this.addConnectionStage(`state-${state}@${getCurrentTime()}`);
+    this.call.client.emit('onCallStateChange', prevState, state, this.getCallInfo());
+    return true;
+  };
+
+  private _getStateHistory = (): CallStateHistoryEntry[] => this.connectionStages
+    .filter((stage) => stage.startsWith('state-'))
+    .map((stage) => {
+      const [name, time] = stage.split('@');
+      return { state: name.slice('state-'.length), timestamp: Number(time) };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+
   private _clearCallStats = (): void => {
     if (!this.stats) return;
     clearInterval(this.stats.statsTimer);
@@ -420,6 +553,7 @@ export class CallSession {
     if (clientObject.options.disableRtpTimeOut) {
       (this.session.connection as any).disableRtpTimeOut = true;
     }
+    this.qualityCollector.start();
     statsCollector.call(clientObject, this);
     if (clientObject.ringToneView && !clientObject.ringToneView.paused) {
       stopAudio(C.RINGTONE_ELEMENT_ID);
@@ -428,6 +562,7 @@ export class CallSession {
       stopAudio(C.RINGBACK_ELEMENT_ID);
     }
     clientObject.emit('onCallAnswered', this.getCallInfo());
+    this.call.onAnswered(this.getCallInfo());
     Plivo.log.debug('Post-Answer detecting OWA');
     setTimeout(() => {
       owaNotification.bind(clientObject);
@@ -485,6 +620,62 @@ export class CallSession {
     onIceFailure.call(clientObject, this, new Error('ice_timeout'));
   };
 
+  private _onHold = (clientObject: Client, evt: SessionHoldEvent): void => {
+    this.addConnectionStage(`hold-${evt.originator}@${getCurrentTime()}`);
+    this.setState(this.STATE.HELD);
+    const holdIntervals = this.signallingInfo.hold_intervals || [];
+    this.updateSignallingInfo({
+      hold_intervals: [
+        ...holdIntervals,
+        { hold_time: getCurrentTime(), originator: evt.originator },
+      ],
+    });
+    clientObject.emit('onCallHeld', { originator: evt.originator }, this.getCallInfo());
+  };
+
+  private _onUnhold = (clientObject: Client, evt: SessionUnholdEvent): void => {
+    this.addConnectionStage(`unhold-${evt.originator}@${getCurrentTime()}`);
+    const holdIntervals = (this.signallingInfo.hold_intervals || []).map((interval) => ({
+      ...interval,
+    }));
+    for (let i = holdIntervals.length - 1; i >= 0; i -= 1) {
+      if (holdIntervals[i].originator === evt.originator && !holdIntervals[i].unhold_time) {
+        holdIntervals[i].unhold_time = getCurrentTime();
+        break;
+      }
+    }
+    this.updateSignallingInfo({ hold_intervals: holdIntervals });
+    // the call stays held while the other party still has it on hold
+    const { local, remote } = this.session.isOnHold() as any;
+    if (!local && !remote) {
+      this.setState(this.STATE.ANSWERED);
+    }
+    clientObject.emit('onCallResumed', { originator: evt.originator }, this.getCallInfo());
+  };
+
+  private _onNewInfo = (clientObject: Client, evt: SessionNewInfoEvent): void => {
+    const info = getReceivedInfo(evt);
+    if (!info) return;
+    Plivo.log.debug(`INFO received with content type ${info.contentType}`);
+    clientObject.emit('onInfoReceived', info, this.getCallInfo());
+    this.call.emit('info', info, this.getCallInfo());
+  };
+
+  private _startHoldMusic = (url: string): Promise<void> => {
+    if (!this.session.connection) return Promise.resolve();
+    if (!this.holdMusic) {
+      this.holdMusic = new HoldMusic(url);
+    }
+    return this.holdMusic.start(this.session.connection);
+  };
+
+  private _stopHoldMusic = (): Promise<void> => {
+    if (!this.holdMusic) return Promise.resolve();
+    const { holdMusic } = this;
+    this.holdMusic = null;
+    return holdMusic.stop();
+  };
+
   private _onFailed = (clientObject: Client, evt: SessionFailedEvent): void => {
     this.addConnectionStage(`failed@${getCurrentTime()}`);
     this.updateSignallingInfo({
@@ -493,8 +684,10 @@ export class CallSession {
       hangup_reason: evt.cause,
     });
     handleMediaError(evt, this);
+    this.call.onFailed(evt.cause, this.getCallInfo());
+    const isActiveCall = !clientObject._currentSession || clientObject._currentSession === this;
     hangupClearance.call(clientObject, this);
-    stopVolumeDataStreaming();
+    if (isActiveCall) stopVolumeDataStreaming();
   };
 
   private _onEnded = (clientObject: Client, evt: SessionEndedEvent): void => {
@@ -512,14 +705,20 @@ export class CallSession {
         this.callUUID,
       );
     }
-    if (clientObject._currentSession) {
+    const isActiveCall = clientObject._currentSession === this;
+    if (isActiveCall || (this.callUUID && clientObject.activeCalls.get(this.callUUID) === this)) {
       clientObject.emit(
         'onCallTerminated',
         { originator: evt.originator, reason: evt.cause },
-        clientObject._currentSession.getCallInfo(),
+        this.getCallInfo(),
       );
-      hangupClearance.call(clientObject, clientObject._currentSession);
-      stopVolumeDataStreaming();
+      this.call.onEnded(evt, this.getCallInfo());
+      hangupClearance.call(clientObject, this);
+      if (isActiveCall) {
+        stopVolumeDataStreaming();
+        // resume volume streaming for the call which became active
+        if (clientObject._currentSession) startVolumeDataStreaming(clientObject);
+      }
     }
   };
 
@@ -0,0 +1,123 @@
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+/* eslint func-names: ["error", "as-needed"] */
+import { CallWaitingToneOptions, Client, PlivoObject } from '../client';
+import { RINGTONE_ELEMENT_ID } from '../constants';
+import { Logger } from '../logger';
+import { playAudio } from '../media/document';
+import { CallInfo, CallSession } from './callSession';
+
+export type WaitingCallAction = 'hold' | 'hangup';
+
+export interface WaitingCallInfo {
+  waitingCall: CallInfo;
+  callerName: string | null;
+  activeCall: CallInfo;
+  // number of calls waiting, including this one
+  waitingCalls: number;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('callWaiting') };
+
+/**
+ * Get the incoming calls waiting while the user is on a call.
+ * @param {Client} client - client reference
+ */
+export const getWaitingCalls = (client: Client): CallSession[] => (client._currentSession
+  ? Array.from(client.incomingInvites.values())
+  : []);
+
+/**
+ * Start or stop the call waiting tone as calls come and go. The tone plays while
+ * an answered call is active and at least one incoming call is waiting.
+ */
+export const updateCallWaitingTone = function (): void {
+  const client: Client = this;
+  const tone = client.options.callWaitingTone as CallWaitingToneOptions;
+  const isWaiting = tone.enabled
+    && getWaitingCalls(client).length > 0
+    && (client._currentSession as CallSession).session.isEstablished();
+  if (isWaiting && !client.callWaitingTone.isPlaying()) {
+    client.callWaitingTone.start(client.remoteView, tone);
+  } else if (!isWaiting && client.callWaitingTone.isPlaying()) {
+    client.callWaitingTone.stop();
+  }
+};
+
+/**
+ * Announce an incoming call which arrived during the active call.
+ * @param {CallSession} incomingCall - waiting call session
+ */
+export const onCallWaiting = function (incomingCall: CallSession): void {
+  const client: Client = this;
+  if (!client._currentSession) return;
+  const info: WaitingCallInfo = {
+    waitingCall: incomingCall.getCallInfo(),
+    callerName: incomingCall.session.remote_identity.display_name || null,
+    activeCall: client._currentSession.getCallInfo(),
+    waitingCalls: client.incomingInvites.size,
+  };
+  Plivo.log.info(`${incomingCall.callUUID} is waiting during ${info.activeCall.callUUID}`);
+  updateCallWaitingTone.call(client);
+  client.emit('onCallWaiting', info);
+};
+
+/**
+ * Ring the waiting calls with the ringtone once the active call is over.
+ */
+export const resumeWaitingCalls = function (): void {
+  const client: Client = this;
+  updateCallWaitingTone.call(client);
+  if (client._currentSession || !client.incomingInvites.size) return;
+  Plivo.log.debug(`${client.incomingInvites.size} waiting calls are ringing`);
+  if (client.ringToneFlag !== false) playAudio(RINGTONE_ELEMENT_ID);
+};
+
+/**
+ * Find a waiting call.
+ * @param {Client} client - client reference
+ * @param {String} callUUID - CallUUID of the waiting call
+ * @param {String} method - name of the method used in logs
+ */
+const findWaitingCall = (
+  client: Client,
+  callUUID: string,
+  method: string,
+): CallSession | null => {
+  const waitingCall = getWaitingCalls(client).find((call) => call.callUUID === callUUID);
+  if (!waitingCall) Plivo.log.warn(`${method}: no waiting call with callUUID - ${callUUID}`);
+  return waitingCall || null;
+};
+
+/**
+ * Answer a waiting call, the active call is put on hold or hung up.
+ * @param {String} callUUID - CallUUID of the waiting call
+ * @param {WaitingCallAction} action - (Optional) hold or hangup the active call, defaults to hold
+ */
+export const answerWaitingCall = function (
+  callUUID: string,
+  action: WaitingCallAction = 'hold',
+): boolean {
+  const client: Client = this;
+  if (action !== 'hold' && action !== 'hangup') {
+    Plivo.log.error(`answerWaitingCall: invalid action ${action}, use hold or hangup`);
+    return false;
+  }
+  if (!findWaitingCall(client, callUUID, 'answerWaitingCall')) return false;
+  client.callWaitingTone.stop();
+  if (action === 'hangup') {
+    client.hangup((client._currentSession as CallSession).callUUID as string);
+  }
+  // the other waiting calls keep waiting, the active call is held by answer()
+  return client.answer(callUUID, 'letring');
+};
+
+/**
+ * Reject a waiting call and continue with the active call.
+ * @param {String} callUUID - CallUUID of the waiting call
+ */
+export const rejectWaitingCall = function (callUUID: string): boolean {
+  const client: Client = this;
+  if (!findWaitingCall(client, callUUID, 'rejectWaitingCall')) return false;
+  return client.reject(callUUID);
+};
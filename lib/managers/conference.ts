@@ -0,0 +1,155 @@
+/* eslint-disable no-param-reassign */
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+import { CallSession } from './callSession';
+import { Call } from './call';
+import { getActiveCall, setActiveCall } from './util';
+import { ConferenceMixer } from '../media/conferenceMixer';
+import { Logger } from '../logger';
+import { Client } from '../client';
+import * as nonRTPStats from '../stats/nonRTPStats';
+
+const Plivo = {
+  log: Logger.scope('conference'),
+  sendEvents: nonRTPStats.sendEvents,
+  AppError: nonRTPStats.AppError,
+};
+
+/**
+ * Get the call session for a CallUUID or a call object.
+ * @param {Client} clientObject - client reference
+ * @param {String|Call} call - CallUUID or call object
+ */
+const getCallSession = (clientObject: Client, call: string | Call): CallSession | null => {
+  if (call instanceof Call) return call.callSession;
+  return call ? getActiveCall.call(clientObject, call) : null;
+};
+
+/**
+ * Check if the call is a leg of the local conference.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} callSession - call session information
+ */
+export const isConferenceLeg = (
+  clientObject: Client,
+  callSession: CallSession | null,
+): boolean => !!callSession && clientObject.conferenceCalls.indexOf(callSession) !== -1;
+
+/**
+ * Merge two established calls into a local conference.
+ * @param {Client} clientObject - client reference
+ * @param {String|Call} callA - CallUUID or call object of the first leg
+ * @param {String|Call} callB - CallUUID or call object of the second leg
+ */
+export const mergeCalls = (
+  clientObject: Client,
+  callA: string | Call,
+  callB: string | Call,
+): boolean => {
+  const legs = [getCallSession(clientObject, callA), getCallSession(clientObject, callB)];
+  if (!legs[0] || !legs[1] || legs[0] === legs[1]) {
+    Plivo.log.warn('merge(): Two different calls are required for merging');
+    return false;
+  }
+  if (legs.some((leg) => !leg || !leg.session.isEstablished() || !leg.session.connection)) {
+    Plivo.log.warn('merge(): Only answered calls can be merged');
+    return false;
+  }
+  if (clientObject.conferenceMixer) {
+    Plivo.log.warn('merge(): Calls are already merged, use split() before merging other calls');
+    return false;
+  }
+  const callSessions = legs as CallSession[];
+  Plivo.log.debug(`merge - ${callSessions[0].callUUID} and ${callSessions[1].callUUID}`);
+  const mixer = new ConferenceMixer();
+  clientObject.conferenceMixer = mixer;
+  clientObject.conferenceCalls = callSessions;
+  Promise.all(callSessions.map((leg) => leg.stopHoldMusic()))
+    .then(() => {
+      callSessions.forEach((leg) => {
+        // both parties have to hear the mix, so legs on hold are resumed
+        if ((leg.session.isOnHold() as any).local) leg.session.unhold();
+      });
+      return mixer.start(callSessions.map((leg) => leg.session.connection as RTCPeerConnection));
+    })
+    .then(() => {
+      if (clientObject.conferenceMixer !== mixer) return;
+      clientObject.remoteView.srcObject = mixer.getLocalStream();
+      clientObject.remoteView.play().catch(() => {});
+      clientObject.emit('onCallsMerged', callSessions.map((leg) => leg.getCallInfo()));
+    })
+    .catch((err) => {
+      Plivo.log.error('error in merge :', err);
+      Plivo.AppError.call(clientObject, {
+        name: err.name,
+        message: err.message,
+        method: 'merge()',
+      });
+      Plivo.sendEvents.call(
+        clientObject,
+        {
+          msg: 'ERROR_EVENT',
+          name: err.name,
+          info: err.message,
+          method: 'merge()',
+        },
+        callSessions[0],
+      );
+      if (clientObject.conferenceMixer === mixer) {
+        clientObject.conferenceMixer = null;
+        clientObject.conferenceCalls = [];
+      }
+      mixer.stop();
+    });
+  return true;
+};
+
+/**
+ * Split the local conference. The active call stays connected and the other legs are put
+ * on hold.
+ * @param {Client} clientObject - client reference
+ */
+export const splitCalls = (clientObject: Client): boolean => {
+  const mixer = clientObject.conferenceMixer;
+  if (!mixer) {
+    Plivo.log.warn('split(): No merged calls exist to split');
+    return false;
+  }
+  const callSessions = clientObject.conferenceCalls;
+  Plivo.log.debug('split called');
+  clientObject.conferenceMixer = null;
+  clientObject.conferenceCalls = [];
+  mixer.stop().then(() => {
+    callSessions.forEach((leg) => {
+      if (leg !== clientObject._currentSession && !leg.session.isEnded()) {
+        leg.session.hold();
+      }
+    });
+    if (clientObject._currentSession) {
+      setActiveCall.call(clientObject, clientObject._currentSession);
+    }
+    clientObject.emit('onCallsSplit', callSessions.map((leg) => leg.getCallInfo()));
+  });
+  return true;
+};
+
+/**
+ * Mute or unmute the microphone for conference legs.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} callSession - leg to be muted, all legs are muted when it is null
+ * @param {Boolean} muted - true for muting the microphone
+ */
+export const setConferenceMute = (
+  clientObject: Client,
+  callSession: CallSession | null,
+  muted: boolean,
+): void => {
+  const mixer = clientObject.conferenceMixer;
+  if (!mixer) return;
+  clientObject.conferenceCalls.forEach((leg, index) => {
+    if (!callSession || leg === callSession) {
+      mixer.setMicMuted(index, muted);
+      nonRTPStats.onToggleMute.call(clientObject, leg, muted ? 'mute' : 'unmute');
+    }
+  });
+};
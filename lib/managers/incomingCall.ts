@@ -33,11 +33,15 @@ import {
   addCallstatsIOFabric,
   hangupClearance,
   mobileBrowserCheck,
+  setActiveCall,
 } from './util';
 import { Client } from '../client';
 import { resetPingPong } from '../utils/networkManager';
+import { IncomingCallFilterResult } from './callFilter';
+import { getAutoAnswer, scheduleAutoAnswer } from './autoAnswer';
+import { onCallWaiting, updateCallWaitingTone } from './callWaiting';
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('incomingCall') };
 let cs: Client;
 let isIncomingCallRinging = false;
 let isBrowserInBackground = false;
@@ -125,8 +129,13 @@ const onProgress = (incomingCall: CallSession) => (): void => {
     incomingCall.extraHeaders,
     incomingCall.getCallInfo(),
     callerName,
+    incomingCall.call,
   );
+  incomingCall.call.emit('ringing', incomingCall.getCallInfo());
+  // the ringtone is skipped during a call, the waiting call is announced instead
+  if (cs._currentSession) onCallWaiting.call(cs, incomingCall);
   addCloseProtectionListeners.call(cs);
+  scheduleAutoAnswer.call(cs, incomingCall);
   Plivo.log.debug('Incoming Call Extra Headers : ', incomingCall.extraHeaders);
 };
 
@@ -237,6 +246,8 @@ const onEnded = (incomingCall: CallSession) => (evt: SessionEndedEvent): void =>
   Plivo.log.debug(`Incoming call ended - ${incomingCall.callUUID}`);
   Plivo.log.info('Incoming call ended');
   incomingCall.onEnded(cs, evt);
+  // keep on-call timeouts while other calls are on hold
+  if (cs._currentSession) return;
   // reset back pingpong to idle state timeouts
   resetPingPong({
     client: cs,
@@ -257,6 +268,9 @@ export const createIncomingCallListeners = (incomingCall: CallSession): void =>
   incomingCall.session.on('failed', onFailed(incomingCall));
   incomingCall.session.on('ended', onEnded(incomingCall));
   incomingCall.session.on('noCall' as any, onEnded(incomingCall));
+  incomingCall.session.on('hold', (evt) => incomingCall.onHold(cs, evt));
+  incomingCall.session.on('unhold', (evt) => incomingCall.onUnhold(cs, evt));
+  incomingCall.session.on('newInfo', (evt) => incomingCall.onNewInfo(cs, evt));
   incomingCall.session.on('icecandidate', (event) => incomingCall.onIceCandidate(cs, event));
   incomingCall.session.on('getusermediafailed', (err) => incomingCall.onGetUserMediaFailed(cs, err));
   incomingCall.session.on('peerconnection:createofferfailed', (err) => incomingCall.handlePeerConnectionFailures(
@@ -293,6 +307,7 @@ export const createIncomingCallListeners = (incomingCall: CallSession): void =>
 export const createIncomingSession = (
   clientObject: Client,
   evt: UserAgentNewRtcSessionEvent,
+  incomingCallFilter: IncomingCallFilterResult | null = null,
 ): void => {
   cs = clientObject;
   const callUUID = evt.request.getHeader('X-Calluuid');
@@ -318,6 +333,8 @@ export const createIncomingSession = (
     extraHeaders,
     call_initiation_time: callInitiationTime,
     client: cs,
+    incomingCallFilter,
+    autoAnswer: getAutoAnswer.call(cs, evt.request),
   });
   updateSessionInfo(evt, incomingCall);
   createIncomingCallListeners(incomingCall);
@@ -378,7 +395,10 @@ const handleOtherInvites = (
   curIncomingCall: CallSession,
   actionOnOtherIncomingCalls: string,
 ): void => {
-  if (cs._currentSession) {
+  // the active call is put on hold, it can be resumed with switchTo()
+  if (cs._currentSession && cs._currentSession.session.isEstablished()) {
+    if (!cs.isOnHold()) cs.hold();
+  } else if (cs._currentSession) {
     cs.hangup();
   }
   cs.incomingInvites.forEach((invite) => {
@@ -416,14 +436,16 @@ const getAnswerOptions = (): SessionAnswerOptions => {
   opts.pcConfig = {
     iceServers: [{ urls: STUN_SERVERS }],
   };
-  if (cs.permOnClick) {
+  // calls on hold disable the tracks of their stream, so the new call gets its own stream
+  const hasCallOnHold = !!cs._currentSession;
+  if (cs.permOnClick || hasCallOnHold) {
     const audioConstraints = cs.options.audioConstraints || true;
     opts.mediaConstraints = {
       audio: audioConstraints,
       video: false,
     };
   } else if (!(window as any).localStream) Plivo.log.warn('no local stream attached for this call');
-  opts.mediaStream = (window as any).localStream || null;
+  opts.mediaStream = hasCallOnHold ? null : (window as any).localStream || null;
   opts.rtcConstraints = cs.options.dscp
     ? { optional: [{ googDscp: true }] }
     : null;
@@ -444,7 +466,6 @@ export const answerIncomingCall = (
   cs.owaLastDetect.isOneWay = false;
   try {
     curIncomingCall.session.answer(getAnswerOptions());
-    cs._currentSession = curIncomingCall;
     cs.incomingInvites.delete(curIncomingCall.callUUID as string);
     if (curIncomingCall === cs.lastIncomingCall) {
       cs.lastIncomingCall = null;
@@ -452,9 +473,8 @@ export const answerIncomingCall = (
         cs.lastIncomingCall = cs.incomingInvites.values().next().value;
       }
     }
-    cs.callSession = cs._currentSession.session;
-    cs.callUUID = cs._currentSession.callUUID;
-    cs.callDirection = cs._currentSession.direction;
+    setActiveCall.call(cs, curIncomingCall);
+    updateCallWaitingTone.call(cs);
   } catch (err) {
     Plivo.log.error('error in answering : ', err);
     curIncomingCall.setState(curIncomingCall.STATE.CANCELED);
@@ -471,6 +491,7 @@ export const answerIncomingCall = (
  */
 export const handleIgnoreState = (curIncomingCall: CallSession): void => {
   curIncomingCall.setState(curIncomingCall.STATE.IGNORED);
+  curIncomingCall.call.onFailed('Ignored', curIncomingCall.getCallInfo());
   curIncomingCall.updateSignallingInfo({
     hangup_time: getCurrentTime(),
     hangup_party: 'local',
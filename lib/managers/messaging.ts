@@ -0,0 +1,177 @@
+/* eslint-disable import/no-cycle */
+/* eslint func-names: ["error", "as-needed"] */
+import * as SipLib from 'plivo-jssip';
+import { Client, PlivoObject, ExtraHeaders } from '../client';
+import { DOMAIN } from '../constants';
+import { Logger } from '../logger';
+import { receiveExtraHeader } from '../utils/headers';
+import { CallSession } from './callSession';
+import { getValidPhoneNumber } from './outgoingCall';
+
+export interface ReceivedMessage {
+  from: string;
+  fromName: string | null;
+  body: string;
+  contentType: string;
+  extraHeaders: ExtraHeaders;
+  timeStamp: number;
+}
+
+export interface ReceivedInfo {
+  contentType: string;
+  body: string;
+  timeStamp: number;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('messaging') };
+
+const DEFAULT_CONTENT_TYPE = 'text/plain';
+
+/**
+ * Get the reason for a failed request.
+ * @param {MessageFailedEvent} evt - failure information
+ */
+const getFailureReason = (evt: SipLib.MessageFailedEvent): string => {
+  if (evt && evt.response) return `${evt.response.status_code} ${evt.response.reason_phrase}`;
+  return (evt && evt.cause) || 'Request failed';
+};
+
+/**
+ * Check the content type and body passed by the application.
+ * @returns Error message or null if they are valid
+ */
+const getContentError = (contentType: string, body: string): string | null => {
+  if (typeof contentType !== 'string' || !/^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/.test(contentType)) {
+    return `Invalid content type ${contentType}`;
+  }
+  if (typeof body !== 'string') return 'Body should be a string';
+  return null;
+};
+
+/**
+ * Send a SIP MESSAGE to an endpoint or number.
+ * @param {String} to - sip endpoint or number
+ * @param {String} body - message content
+ * @param {String} contentType - (Optional) content type of the body, defaults to text/plain
+ * @returns Fulfills once the message is delivered, rejects with the failure reason
+ */
+export const sendMessage = function (
+  to: string,
+  body: string,
+  contentType: string = DEFAULT_CONTENT_TYPE,
+): Promise<void> {
+  const client: Client = this;
+  return new Promise((resolve, reject) => {
+    if (!client.phone || !client.isLoggedIn) {
+      Plivo.log.warn('sendMessage() must be called after login');
+      reject(new Error('Client is not logged in'));
+      return;
+    }
+    const error = !to ? 'Destination is mandatory' : getContentError(contentType, body);
+    if (error) {
+      Plivo.log.error(`sendMessage() ${error}`);
+      reject(new Error(error));
+      return;
+    }
+    try {
+      // ua.sendMessage passes the options in place of the method
+      const message = new SipLib.Message(client.phone);
+      message.send(getValidPhoneNumber(String(to)), body, 'MESSAGE', {
+        contentType,
+        eventHandlers: {
+          succeeded: () => resolve(),
+          failed: (evt: SipLib.MessageFailedEvent) => {
+            const reason = getFailureReason(evt);
+            Plivo.log.warn(`message to ${to} failed: ${reason}`);
+            reject(new Error(reason));
+          },
+        },
+      });
+    } catch (err) {
+      Plivo.log.error('sendMessage() failed', err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Triggered when a SIP MESSAGE is sent or received outside of a call.
+ * @param {UserAgentNewMessageEvent} evt - message information
+ */
+export const onNewMessage = function (evt: SipLib.UserAgentNewMessageEvent): void {
+  const client: Client = this;
+  if (evt.originator !== 'remote') return;
+  const request = evt.request as any;
+  const { uri, display_name: displayName } = request.from;
+  const message: ReceivedMessage = {
+    from: `${uri.user}@${DOMAIN}`,
+    fromName: displayName || null,
+    body: request.body || '',
+    contentType: request.getHeader('Content-Type') || DEFAULT_CONTENT_TYPE,
+    extraHeaders: receiveExtraHeader(request, request.headers),
+    timeStamp: Date.now(),
+  };
+  Plivo.log.debug(`message received from ${message.from}`);
+  client.emit('onMessageReceived', message);
+};
+
+/**
+ * Send a SIP INFO within an answered call.
+ * @param {CallSession} callSession - call session information
+ * @param {String} contentType - content type of the body
+ * @param {String} body - application data
+ * @returns Fulfills once the other party accepts the INFO, rejects with the failure reason
+ */
+export const sendInfo = (
+  callSession: CallSession,
+  contentType: string,
+  body: string,
+): Promise<void> => new Promise((resolve, reject) => {
+  const error = getContentError(contentType, body);
+  if (error) {
+    Plivo.log.error(`sendInfo() ${error}`);
+    reject(new Error(error));
+    return;
+  }
+  const { session } = callSession;
+  let info: any = null;
+  // the sip library does not return the INFO request, it is picked from the local newInfo event
+  const onLocalInfo = (evt: SipLib.SessionNewInfoEvent) => {
+    if (evt.originator === 'local') info = evt.info;
+  };
+  session.on('newInfo', onLocalInfo);
+  try {
+    session.sendInfo(contentType, body);
+  } catch (err) {
+    Plivo.log.warn(`sendInfo() cannot be sent in the current call state: ${err.message}`);
+    reject(err);
+    return;
+  } finally {
+    (session as any).removeListener('newInfo', onLocalInfo);
+  }
+  const onEnded = () => reject(new Error('Call ended before the INFO was delivered'));
+  (session as any).once('ended', onEnded);
+  info.on('succeeded', () => {
+    (session as any).removeListener('ended', onEnded);
+    resolve();
+  });
+  info.on('failed', (evt: SipLib.MessageFailedEvent) => {
+    (session as any).removeListener('ended', onEnded);
+    reject(new Error(getFailureReason(evt)));
+  });
+});
+
+/**
+ * Get the application data of a SIP INFO received within a call.
+ * @param {SessionNewInfoEvent} evt - rtcsession info information
+ * @returns INFO content or null for an INFO sent by the client
+ */
+export const getReceivedInfo = (evt: SipLib.SessionNewInfoEvent): ReceivedInfo | null => {
+  if (evt.originator !== 'remote') return null;
+  const { info } = evt as any;
+  return {
+    contentType: info.contentType || '',
+    body: info.body || '',
+    timeStamp: Date.now(),
+  };
+};
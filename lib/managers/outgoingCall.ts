@@ -8,7 +8,6 @@ import {
   SessionAcceptedEvent,
   SessionFailedEvent,
   SessionEndedEvent,
-  SessionIceCandidateEvent,
 } from 'plivo-jssip';
 import {
   SESSION_TIMERS_EXPIRES,
@@ -21,6 +20,7 @@ import {
   NETWORK_CHANGE_INTERVAL_IDLE_STATE,
 } from '../constants';
 import { CallSession } from './callSession';
+import { Call } from './call';
 import { checkExtraHeaderKey, checkExtraHeaderVal } from '../utils/headers';
 import { playAudio, stopAudio } from '../media/document';
 import checkCodecPreference, {
@@ -40,20 +40,24 @@ import {
   addMidAttribute,
   addCallstatsIOFabric,
   isSessionConfirmed,
+  registerActiveCall,
+  setActiveCall,
 } from './util';
 import { Client, ExtraHeaders } from '../client';
 import { resetPingPong } from '../utils/networkManager';
 
 const Plivo = {
-  log: Logger,
+  log: Logger.scope('outgoingCall'),
   emitMetrics: _emitMetrics,
   sendEvents: _sendEvents,
   AppError: _AppError,
 };
+
 let cs: Client;
 let outboundCallNumber: string;
 let outboundExtraHeaders: ExtraHeaders;
 let outBoundConnectionStages: string[];
+let outboundCall: Call | null = null;
 
 /**
  * Check if phone number and session is valid.
@@ -70,14 +74,18 @@ const validateSession = (phoneNumber: string): boolean => {
     );
     return false;
   }
-  if (cs._currentSession) {
-    Plivo.log.warn('Cannot make another call while in call');
+  if (cs._currentSession && !cs._currentSession.session.isEstablished()) {
+    Plivo.log.warn('Cannot make another call while the current call is being connected');
     return false;
   }
   if (cs.incomingInvites.size) {
     Plivo.log.warn('Cannot make a call while there is an incoming call');
     return false;
   }
+  // put the active call on hold before making a new call
+  if (cs._currentSession && !cs.isOnHold()) {
+    cs.hold();
+  }
   outboundCallNumber = phoneNumber;
   return true;
 };
@@ -87,7 +95,7 @@ const validateSession = (phoneNumber: string): boolean => {
  * @param {String} phoneNumber  - it can be a sip endpoint/number
  * @returns Parsed phone number
  */
-const getValidPhoneNumber = (phoneNumber: string): string => {
+export const getValidPhoneNumber = (phoneNumber: string): string => {
   if (phoneNumber.substring(0, 4) !== 'sip:') {
     return `sip:${phoneNumber}`;
   }
@@ -96,18 +104,26 @@ const getValidPhoneNumber = (phoneNumber: string): string => {
 
 /**
  * Adds remote stream.
- * @param {RTCTrackEvent} evt - rtcsession track information
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const onTrack = (evt: RTCTrackEvent): void => {
+const onTrack = (outgoingCall: CallSession) => (evt: RTCTrackEvent): void => {
   Plivo.log.debug('Outgoing call received addStream');
-  if (!cs._currentSession) return;
-  cs._currentSession.addConnectionStage(
+  outgoingCall.addConnectionStage(
     `addStream-success@${getCurrentTime()}`,
   );
-  cs._currentSession.updateMediaConnectionInfo({
+  outgoingCall.updateMediaConnectionInfo({
     stream_success: getCurrentTime(),
   });
   if (evt.streams[0]) {
+    // remote audio of a call on hold is attached when the call is made active
+    if (cs._currentSession !== outgoingCall) return;
+    if (cs.options.earlyMedia && !isSessionConfirmed(outgoingCall.session)) {
+      // carrier announcements and tones are heard as soon as the media arrives
+      // eslint-disable-next-line prefer-destructuring
+      cs.remoteView.srcObject = evt.streams[0];
+      cs.remoteView.play().catch(() => {});
+      return;
+    }
     // on direct 200 OK with out 18x, we get The play() request was interrupted by a new load
     // request. 100 timeout sec is workaround
     setTimeout(() => {
@@ -116,25 +132,25 @@ const onTrack = (evt: RTCTrackEvent): void => {
     }, 100);
     if (
       cs.ringToneBackFlag
-      && !isSessionConfirmed(cs._currentSession.session)
+      && !isSessionConfirmed(outgoingCall.session)
     ) {
       setTimeout(() => {
-        if (cs._currentSession && !isSessionConfirmed(cs._currentSession.session)) {
+        if (cs._currentSession === outgoingCall && !isSessionConfirmed(outgoingCall.session)) {
           cs.remoteView.pause();
         }
       }, 100);
     } else if (
       !cs.ringToneBackFlag
-      && !isSessionConfirmed(cs._currentSession.session)
+      && !isSessionConfirmed(outgoingCall.session)
     ) {
       Plivo.log.debug('playAudio - MediaServer');
     }
   } else {
     Plivo.log.error('Outgoing call add stream failure');
-    cs._currentSession.addConnectionStage(
+    outgoingCall.addConnectionStage(
       `addStream-failure@${getCurrentTime()}`,
     );
-    cs._currentSession.updateMediaConnectionInfo({
+    outgoingCall.updateMediaConnectionInfo({
       stream_failure: getCurrentTime(),
     });
   }
@@ -142,26 +158,23 @@ const onTrack = (evt: RTCTrackEvent): void => {
 
 /**
  * Triggered when outgoing call is performed and INVITE sent.
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const onSending = (): void => {
+const onSending = (outgoingCall: CallSession) => (): void => {
   Plivo.log.debug('Outgoing call sending');
-  if (cs._currentSession) {
-    cs._currentSession.addConnectionStage(`O-invite@${getCurrentTime()}`);
-    cs._currentSession.updateSignallingInfo({
-      call_initiation_time: getCurrentTime(),
-    });
-  }
+  outgoingCall.addConnectionStage(`O-invite@${getCurrentTime()}`);
+  outgoingCall.updateSignallingInfo({
+    call_initiation_time: getCurrentTime(),
+  });
   Plivo.log.debug('call initiation time, sending invite');
-  const outboundConnection = cs._currentSession
-    ? cs._currentSession.session.connection || null : null;
+  const outboundConnection = outgoingCall.session.connection || null;
   if (cs.connectToneFlag !== false) {
     playAudio(CONNECT_TONE_ELEMENT_ID);
   }
   if (outboundConnection) {
-    outboundConnection.ontrack = onTrack;
+    outboundConnection.ontrack = onTrack(outgoingCall);
     outboundConnection.oniceconnectionstatechange = () => {
-      if (!cs._currentSession) return;
-      onIceConnectionChange.call(cs, outboundConnection, cs._currentSession);
+      onIceConnectionChange.call(cs, outboundConnection, outgoingCall);
     };
     outboundConnection.onconnectionstatechange = () => {
       if (outboundConnection.connectionState === "connected") {
@@ -194,26 +207,40 @@ const onSDP = (evt: SessionSdpEvent): void => {
   }
 };
 
+/**
+ * Check if a provisional response carries early media.
+ * @param {SessionProgressEvent} evt - rtcsession progress information
+ */
+const hasEarlyMedia = (evt: SessionProgressEvent): boolean => !!(
+  evt.response && evt.response.status_code === 183 && evt.response.body
+);
+
 /**
  * Handle ringtone when call is ringing.
+ * @param {CallSession} outgoingCall - outgoing call session
  * @param {SessionProgressEvent} evt - rtcsession progress information
  */
-const handleProgressTone = (evt: SessionProgressEvent): void => {
+const handleProgressTone = (outgoingCall: CallSession, evt: SessionProgressEvent): void => {
   Plivo.log.debug(`ringback tone enabled : ${cs.ringToneBackFlag}`);
   if (!cs.connectToneView.paused) {
     stopAudio(CONNECT_TONE_ELEMENT_ID);
   }
-  if (cs.ringToneBackFlag) {
+  if (cs.options.earlyMedia && hasEarlyMedia(evt)) {
+    const callSession = outgoingCall;
+    callSession.earlyMedia = true;
+    Plivo.log.debug('playing early media instead of the ringback tone');
+    if (cs.ringBackToneView && !cs.ringBackToneView.paused) {
+      stopAudio(RINGBACK_ELEMENT_ID);
+    }
+  } else if (cs.ringToneBackFlag && !outgoingCall.earlyMedia) {
     playAudio(RINGBACK_ELEMENT_ID);
   }
   if (evt.response && evt.response.status_code === 183 && evt.response.body) {
-    if (cs._currentSession) {
-      Plivo.log.debug(`callSession - ${cs._currentSession.callUUID}`);
-      cs._currentSession.setPostDialDelayEndTime(getCurrentTime());
-      if (!cs.ringToneBackFlag) {
-        if (cs.ringBackToneView && !cs.ringBackToneView.paused) {
-          stopAudio(RINGBACK_ELEMENT_ID);
-        }
+    Plivo.log.debug(`callSession - ${outgoingCall.callUUID}`);
+    outgoingCall.setPostDialDelayEndTime(getCurrentTime());
+    if (!cs.ringToneBackFlag) {
+      if (cs.ringBackToneView && !cs.ringBackToneView.paused) {
+        stopAudio(RINGBACK_ELEMENT_ID);
       }
     }
   }
@@ -221,34 +248,42 @@ const handleProgressTone = (evt: SessionProgressEvent): void => {
 
 /**
  * Triggered when call is ringing.
- * @param {SessionProgressEvent} evt - rtcsession progress information
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const OnProgress = (evt: SessionProgressEvent): void => {
+const OnProgress = (outgoingCall: CallSession) => (evt: SessionProgressEvent): void => {
   cs.timeTakenForStats.pdd.end = new Date().getTime();
-  if (cs._currentSession && evt.response) {
+  if (evt.response) {
     const callUUID = evt.response.getHeader('X-Calluuid');
-    cs._currentSession.setCallUUID(callUUID);
-    cs._currentSession.setState(cs._currentSession.STATE.RINGING);
-    cs.callUUID = callUUID;
-    cs.emit('onCallRemoteRinging', cs._currentSession.getCallInfo());
+    outgoingCall.setCallUUID(callUUID);
+    outgoingCall.setState(outgoingCall.STATE.RINGING);
+    if (cs._currentSession === outgoingCall) {
+      cs.callUUID = callUUID;
+    }
+    cs.emit('onCallRemoteRinging', outgoingCall.getCallInfo());
+    outgoingCall.call.emit('ringing', outgoingCall.getCallInfo());
     addCloseProtectionListeners.call(cs);
     addMidAttribute.call(cs, evt);
     addCallstatsIOFabric.call(
       cs,
-      cs._currentSession,
+      outgoingCall,
       (evt.response as any).headers.To[0].parsed.uri.user,
-      cs._currentSession.callUUID,
+      outgoingCall.callUUID,
     );
-    cs._currentSession.addConnectionStage(
+    outgoingCall.addConnectionStage(
       `progress-${evt.response.status_code}@${getCurrentTime()}`,
     );
     Plivo.log.debug(`progress-${evt.response.status_code}@${getCurrentTime()}`);
-    cs._currentSession.updateSignallingInfo({
+    outgoingCall.updateSignallingInfo({
       ring_start_time: getCurrentTime(),
     });
-    cs._currentSession.setPostDialDelayEndTime(getCurrentTime());
+    outgoingCall.setPostDialDelayEndTime(getCurrentTime());
     Plivo.log.debug('Outgoing call progress', evt.response.status_code);
-    handleProgressTone(evt);
+    handleProgressTone(outgoingCall, evt);
+    cs.emit(
+      'onCallProgress',
+      { statusCode: evt.response.status_code, earlyMedia: outgoingCall.earlyMedia },
+      outgoingCall.getCallInfo(),
+    );
     // Will be true if user triggers mute before session is created
     if (cs.shouldMuteCall) {
       cs.mute();
@@ -258,20 +293,24 @@ const OnProgress = (evt: SessionProgressEvent): void => {
 
 /**
  * Triggered when call is answered and (2XX received/sent).
- * @param {SessionAcceptedEvent} evt - rtcsession accepted information
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const onAccepted = (evt: SessionAcceptedEvent): void => {
-  if (evt.response && cs._currentSession) {
+const onAccepted = (outgoingCall: CallSession) => (evt: SessionAcceptedEvent): void => {
+  if (evt.response) {
     const callUUID = evt.response.getHeader('X-Calluuid');
-    cs._currentSession.setCallUUID(callUUID);
+    outgoingCall.setCallUUID(callUUID);
+    if (cs._currentSession === outgoingCall) {
+      cs.callUUID = callUUID;
+    }
+    registerActiveCall.call(cs, outgoingCall);
     Plivo.log.info('Outgoing call accepted');
-    cs._currentSession.onAccepted(cs);
-    cs._currentSession.setPostDialDelayEndTime(getCurrentTime());
+    outgoingCall.onAccepted(cs);
+    outgoingCall.setPostDialDelayEndTime(getCurrentTime());
     addCallstatsIOFabric.call(
       cs,
-      cs._currentSession,
+      outgoingCall,
       (evt.response as any).headers.To[0].parsed.uri.user,
-      cs._currentSession.callUUID,
+      outgoingCall.callUUID,
     );
     // reset ping pong service with on-call timeouts
     resetPingPong({
@@ -284,49 +323,46 @@ const onAccepted = (evt: SessionAcceptedEvent): void => {
 
 /**
  * Triggered when call is answered and (ACK received/sent).
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const onConfirmed = (): void => {
-  if (cs._currentSession) {
-    Plivo.log.debug(`Outgoing call confirmed - ${cs._currentSession.callUUID}`);
-    cs._currentSession.onConfirmed(cs);
-    if (cs.remoteView.paused) {
-      cs.remoteView.play().catch(() => {});
-    }
-    if (!cs.connectToneView.paused) {
-      stopAudio(CONNECT_TONE_ELEMENT_ID);
-    }
+const onConfirmed = (outgoingCall: CallSession) => (): void => {
+  Plivo.log.debug(`Outgoing call confirmed - ${outgoingCall.callUUID}`);
+  outgoingCall.onConfirmed(cs);
+  if (cs._currentSession === outgoingCall && cs.remoteView.paused) {
+    cs.remoteView.play().catch(() => {});
+  }
+  if (!cs.connectToneView.paused) {
+    stopAudio(CONNECT_TONE_ELEMENT_ID);
   }
 };
 
 /**
  * Update failure states.
+ * @param {CallSession} outgoingCall - outgoing call session
  * @param {SessionFailedEvent} evt - rtcsession failed information
  */
-const handleFailureCauses = (evt: SessionFailedEvent): void => {
-  if (cs._currentSession) {
-    if (evt.cause === 'Rejected') {
-      cs._currentSession.setState(cs._currentSession.STATE.REJECTED);
-    } else if (evt.cause === 'Canceled') {
-      cs._currentSession.setState(cs._currentSession.STATE.CANCELED);
-    } else {
-      cs._currentSession.setState(cs._currentSession.STATE.FAILED);
-    }
+const handleFailureCauses = (outgoingCall: CallSession, evt: SessionFailedEvent): void => {
+  if (evt.cause === 'Rejected') {
+    outgoingCall.setState(outgoingCall.STATE.REJECTED);
+  } else if (evt.cause === 'Canceled') {
+    outgoingCall.setState(outgoingCall.STATE.CANCELED);
+  } else {
+    outgoingCall.setState(outgoingCall.STATE.FAILED);
   }
 };
 
 /**
  * Triggered when call is rejected or invalid or cancelled.
- * @param {SessionFailedEvent} evt - rtcsession failed information
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const onFailed = (evt: SessionFailedEvent): void => {
+const onFailed = (outgoingCall: CallSession) => (evt: SessionFailedEvent): void => {
   Plivo.log.error(`Outgoing call failed: ${evt.cause}`);
-  if (!cs._currentSession) return;
   if (evt.message) {
-    cs._currentSession.setCallUUID(evt.message.getHeader('X-CallUUID') || null);
+    outgoingCall.setCallUUID(evt.message.getHeader('X-CallUUID') || null);
   }
-  handleFailureCauses(evt);
-  cs.emit('onCallFailed', evt.cause, cs._currentSession.getCallInfo());
-  cs._currentSession.onFailed(cs, evt);
+  handleFailureCauses(outgoingCall, evt);
+  cs.emit('onCallFailed', evt.cause, outgoingCall.getCallInfo());
+  outgoingCall.onFailed(cs, evt);
   if (cs.ringBackToneView && !cs.ringBackToneView.paused) {
     stopAudio(RINGBACK_ELEMENT_ID);
   }
@@ -338,50 +374,56 @@ const onFailed = (evt: SessionFailedEvent): void => {
 
 /**
  * Triggered when call was hung up.
- * @param {SessionEndedEvent} evt - rtcsession ended information
+ * @param {CallSession} outgoingCall - outgoing call session
  */
-const onEnded = (evt: SessionEndedEvent): void => {
-  if (cs._currentSession) {
-    Plivo.log.debug(`Outgoing call ended - ${cs._currentSession.callUUID}`);
-    Plivo.log.info('Outgoing call ended');
-    cs._currentSession.onEnded(cs, evt);
-    // reset back pingpong to idle state timeouts
-    resetPingPong({
-      client: cs,
-      messageCheckTimeout: MESSAGE_CHECK_TIMEOUT_IDLE_STATE,
-      networkChangeInterval: NETWORK_CHANGE_INTERVAL_IDLE_STATE,
-    });
-    Plivo.AppError.call(cs, {
-      name: 'onCallTerminated',
-      originator: evt.originator,
-      reason: evt.cause,
-    });
-    cs.shouldMuteCall = false;
-  }
+const onEnded = (outgoingCall: CallSession) => (evt: SessionEndedEvent): void => {
+  Plivo.log.debug(`Outgoing call ended - ${outgoingCall.callUUID}`);
+  Plivo.log.info('Outgoing call ended');
+  outgoingCall.onEnded(cs, evt);
+  Plivo.AppError.call(cs, {
+    name: 'onCallTerminated',
+    originator: evt.originator,
+    reason: evt.cause,
+  });
+  cs.shouldMuteCall = false;
+  // keep on-call timeouts while other calls are on hold
+  if (cs._currentSession) return;
+  // reset back pingpong to idle state timeouts
+  resetPingPong({
+    client: cs,
+    messageCheckTimeout: MESSAGE_CHECK_TIMEOUT_IDLE_STATE,
+    networkChangeInterval: NETWORK_CHANGE_INTERVAL_IDLE_STATE,
+  });
 };
 
 /**
  * Remove headers which are not having `X-PH` prefix.
- * @param {ExtraHeaders} extraHeaders - Custom headers which are passed in the INVITE.
+ * @param {Client} clientObject - client reference
+ * @param {ExtraHeaders} extraHeaders - Custom headers which are passed in the INVITE/REFER.
  * They should start with 'X-PH'
+ * @param {ExtraHeaders} validHeaders - (Optional) collects the headers which passed validation
  * @returns Cleaned extra headers
  */
-const getCleanedHeaders = (extraHeaders: ExtraHeaders = {}): string[] => {
+export const getCleanedHeaders = (
+  clientObject: Client,
+  extraHeaders: ExtraHeaders = {},
+  validHeaders: ExtraHeaders = {},
+): string[] => {
   const cleanExtraHeaders: string[] = [];
-  outboundExtraHeaders = {};
   const keys = Object.keys(extraHeaders);
   keys.forEach((key) => {
     const value = extraHeaders[key];
     if (checkExtraHeaderKey(key) && checkExtraHeaderVal(value)) {
       cleanExtraHeaders.push(`${key}: ${value}`);
-      outboundExtraHeaders[key] = value;
+      // eslint-disable-next-line no-param-reassign
+      validHeaders[key] = value;
       Plivo.log.debug(`valid hdr = ${key} -> ${value}`);
     } else {
       Plivo.log.debug(`invalid hdr = ${key} -> ${value}`);
     }
   });
-  if (cs.options.clientRegion) {
-    cleanExtraHeaders.push(`X-ClientRegion: ${cs.options.clientRegion}`);
+  if (clientObject.options.clientRegion) {
+    cleanExtraHeaders.push(`X-ClientRegion: ${clientObject.options.clientRegion}`);
   }
   return cleanExtraHeaders;
 };
@@ -405,53 +447,10 @@ const getOptions = (extraHeaders: ExtraHeaders): SessionAnswerOptions => {
   opts.rtcConstraints = cs.options.dscp
     ? { optional: [{ googDscp: true }] }
     : null;
-  opts.extraHeaders = getCleanedHeaders(extraHeaders);
-  opts.mediaStream = (window as any).localStream || null;
-  // eslint-disable-next-line @typescript-eslint/dot-notation
-  opts['eventHandlers'] = {
-    sending: onSending,
-    sdp: onSDP,
-    progress: OnProgress,
-    accepted: onAccepted,
-    confirmed: onConfirmed,
-    noCall: onEnded,
-    icecandidate: (event: SessionIceCandidateEvent) => cs._currentSession
-    && cs._currentSession.onIceCandidate(cs, event),
-    icetimeout: (sec: number) => cs._currentSession
-    && cs._currentSession.onIceTimeout(cs, sec),
-    failed: onFailed,
-    ended: onEnded,
-    getusermediafailed: (err) => cs._currentSession
-    && cs._currentSession.onGetUserMediaFailed(cs, err),
-    'peerconnection:createofferfailed': (err) => cs._currentSession
-    && cs._currentSession.handlePeerConnectionFailures(
-      cs,
-      'createofferfailed',
-      cs.callStats ? cs.callStats.webRTCFunctions.createOffer : null,
-      err,
-    ),
-    'peerconnection:createanswerfailed': (err) => cs._currentSession
-    && cs._currentSession.handlePeerConnectionFailures(
-      cs,
-      'createanswerfailed',
-      cs.callStats ? cs.callStats.webRTCFunctions.createAnswer : null,
-      err,
-    ),
-    'peerconnection:setlocaldescriptionfailed': (err) => cs._currentSession
-    && cs._currentSession.handlePeerConnectionFailures(
-      cs,
-      'setlocaldescriptionfailed',
-      cs.callStats ? cs.callStats.webRTCFunctions.setLocalDescription : null,
-      err,
-    ),
-    'peerconnection:setremotedescriptionfailed': (err) => cs._currentSession
-    && cs._currentSession.handlePeerConnectionFailures(
-      cs,
-      'setremotedescriptionfailed',
-      cs.callStats ? cs.callStats.webRTCFunctions.setRemoteDescription : null,
-      err,
-    ),
-  };
+  outboundExtraHeaders = {};
+  opts.extraHeaders = getCleanedHeaders(cs, extraHeaders, outboundExtraHeaders);
+  // calls on hold disable the tracks of their stream, so the new call gets its own stream
+  opts.mediaStream = cs._currentSession ? null : (window as any).localStream || null;
   return opts;
 };
 
@@ -461,13 +460,16 @@ const getOptions = (extraHeaders: ExtraHeaders): SessionAnswerOptions => {
  * @param {ExtraHeaders} extraHeaders - Custom headers which are passed in the INVITE.
  * They should start with 'X-PH'
  * @param {String} phoneNumber  - it can be a sip endpoint/number
+ * @param {Call} call - (Optional) call object which is attached to the new call session
  */
 export const makeCall = (
   clientObject: Client,
   extraHeaders: ExtraHeaders,
   phoneNumber: string,
+  call?: Call,
 ): boolean => {
   cs = clientObject;
+  outboundCall = call || null;
   outBoundConnectionStages = [];
   outBoundConnectionStages.push(`call()@${getCurrentTime()}`);
   let phoneNumberStr = '';
@@ -509,6 +511,51 @@ export const makeCall = (
   return true;
 };
 
+/**
+ * Creates outgoing call event listeners.
+ * @param {CallSession} outgoingCall - outgoing call session
+ */
+const createOutgoingCallListeners = (outgoingCall: CallSession): void => {
+  outgoingCall.session.on('sending', onSending(outgoingCall));
+  outgoingCall.session.on('sdp', onSDP);
+  outgoingCall.session.on('progress', OnProgress(outgoingCall));
+  outgoingCall.session.on('accepted', onAccepted(outgoingCall));
+  outgoingCall.session.on('confirmed', onConfirmed(outgoingCall));
+  outgoingCall.session.on('noCall' as any, onEnded(outgoingCall));
+  outgoingCall.session.on('icecandidate', (event) => outgoingCall.onIceCandidate(cs, event));
+  outgoingCall.session.on('icetimeout' as any, (sec: any) => outgoingCall.onIceTimeout(cs, sec));
+  outgoingCall.session.on('failed', onFailed(outgoingCall));
+  outgoingCall.session.on('ended', onEnded(outgoingCall));
+  outgoingCall.session.on('hold', (evt) => outgoingCall.onHold(cs, evt));
+  outgoingCall.session.on('unhold', (evt) => outgoingCall.onUnhold(cs, evt));
+  outgoingCall.session.on('newInfo', (evt) => outgoingCall.onNewInfo(cs, evt));
+  outgoingCall.session.on('getusermediafailed', (err) => outgoingCall.onGetUserMediaFailed(cs, err));
+  outgoingCall.session.on('peerconnection:createofferfailed', (err) => outgoingCall.handlePeerConnectionFailures(
+    cs,
+    'createofferfailed',
+    cs.callStats ? cs.callStats.webRTCFunctions.createOffer : null,
+    err,
+  ));
+  outgoingCall.session.on('peerconnection:createanswerfailed', (err) => outgoingCall.handlePeerConnectionFailures(
+    cs,
+    'createanswerfailed',
+    cs.callStats ? cs.callStats.webRTCFunctions.createAnswer : null,
+    err,
+  ));
+  outgoingCall.session.on('peerconnection:setlocaldescriptionfailed', (err) => outgoingCall.handlePeerConnectionFailures(
+    cs,
+    'setlocaldescriptionfailed',
+    cs.callStats ? cs.callStats.webRTCFunctions.setLocalDescription : null,
+    err,
+  ));
+  outgoingCall.session.on('peerconnection:setremotedescriptionfailed', (err) => outgoingCall.handlePeerConnectionFailures(
+    cs,
+    'setremotedescriptionfailed',
+    cs.callStats ? cs.callStats.webRTCFunctions.setRemoteDescription : null,
+    err,
+  ));
+};
+
 /**
  * Create call session for outgoing call.
  * @param {UserAgentNewRtcSessionEvent} evt - rtcsession information
@@ -517,7 +564,7 @@ export const createOutgoingSession = (
   evt: UserAgentNewRtcSessionEvent,
 ): void => {
   const sipCallID = evt.request.getHeader('Call-ID') || null;
-  cs._currentSession = new CallSession({
+  const outgoingCall = new CallSession({
     sipCallID,
     direction: 'outgoing',
     src: cs.userName as string,
@@ -525,14 +572,15 @@ export const createOutgoingSession = (
     session: evt.session,
     extraHeaders: outboundExtraHeaders,
     client: cs,
+    call: outboundCall || undefined,
   });
-  cs.callSession = cs._currentSession.session;
-  cs.callUUID = cs._currentSession.callUUID;
-  cs.callDirection = cs._currentSession.direction;
+  outboundCall = null;
+  setActiveCall.call(cs, outgoingCall);
   outBoundConnectionStages.forEach((stage) => {
-    cs._currentSession!.addConnectionStage(stage);
+    outgoingCall.addConnectionStage(stage);
   });
   outBoundConnectionStages = [];
+  createOutgoingCallListeners(outgoingCall);
   Plivo.log.debug('new RTCSession outgoing');
   cs.emit('onCalling');
 };
@@ -0,0 +1,258 @@
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+import { SessionReferOptions } from 'plivo-jssip';
+import { CallSession } from './callSession';
+import { getCleanedHeaders, getValidPhoneNumber } from './outgoingCall';
+import { getCurrentTime, getActiveCall } from './util';
+import { Logger } from '../logger';
+import { Client, ExtraHeaders } from '../client';
+import * as nonRTPStats from '../stats/nonRTPStats';
+
+const Plivo = {
+  log: Logger.scope('transfer'),
+  sendEvents: nonRTPStats.sendEvents,
+  AppError: nonRTPStats.AppError,
+};
+
+export interface TransferProgress {
+  status: string;
+  statusCode: number | null;
+  reason: string;
+}
+
+/**
+ * Check if the call can be transferred.
+ * @param {Client} clientObject - client reference
+ * @param {String} method - name of the transfer method used in logs
+ */
+const validateTransfer = (clientObject: Client, method: string): boolean => {
+  if (!clientObject._currentSession) {
+    Plivo.log.warn(`${method}: No call session exists to transfer`);
+    return false;
+  }
+  if (!clientObject._currentSession.session.isEstablished()) {
+    Plivo.log.warn(`${method}: Call can be transferred only after it is answered`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Emit transfer progress of the call.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} callSession - call session which is being transferred
+ * @param {TransferProgress} progress - transfer status
+ */
+const emitTransferProgress = (
+  clientObject: Client,
+  callSession: CallSession,
+  progress: TransferProgress,
+): void => {
+  Plivo.log.debug(`transfer ${progress.status} for ${callSession.callUUID}`);
+  callSession.addConnectionStage(`transfer-${progress.status}@${getCurrentTime()}`);
+  clientObject.emit('onTransferProgress', progress, callSession.getCallInfo());
+};
+
+/**
+ * Emit transfer failure of the call.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} callSession - call session which is being transferred
+ * @param {Number} statusCode - SIP response code of the failure
+ * @param {String} reason - reason for failure
+ */
+const emitTransferFailed = (
+  clientObject: Client,
+  callSession: CallSession,
+  statusCode: number | null,
+  reason: string,
+): void => {
+  Plivo.log.warn(`transfer failed for ${callSession.callUUID} : ${statusCode} ${reason}`);
+  callSession.addConnectionStage(`transfer-failed@${getCurrentTime()}`);
+  clientObject.emit(
+    'onTransferFailed',
+    { statusCode, reason },
+    callSession.getCallInfo(),
+  );
+};
+
+/**
+ * Prepare REFER event handlers which convert NOTIFY sipfrag into transfer events.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} callSession - call session which is being transferred
+ */
+const getReferEventHandlers = (
+  clientObject: Client,
+  callSession: CallSession,
+): SessionReferOptions['eventHandlers'] => ({
+  requestSucceeded: () => emitTransferProgress(clientObject, callSession, {
+    status: 'requested',
+    statusCode: 202,
+    reason: 'Accepted',
+  }),
+  requestFailed: (evt) => emitTransferFailed(
+    clientObject,
+    callSession,
+    evt.response ? evt.response.status_code : null,
+    evt.response ? evt.response.reason_phrase : evt.cause,
+  ),
+  trying: (evt) => emitTransferProgress(clientObject, callSession, {
+    status: 'trying',
+    statusCode: evt.status_line.status_code,
+    reason: evt.status_line.reason_phrase,
+  }),
+  progress: (evt) => emitTransferProgress(clientObject, callSession, {
+    status: 'ringing',
+    statusCode: evt.status_line.status_code,
+    reason: evt.status_line.reason_phrase,
+  }),
+  accepted: (evt) => {
+    emitTransferProgress(clientObject, callSession, {
+      status: 'completed',
+      statusCode: evt.status_line.status_code,
+      reason: evt.status_line.reason_phrase,
+    });
+    // transferee is now connected to the target, release our leg of the call
+    if (!callSession.session.isEnded()) {
+      callSession.session.terminate();
+    }
+  },
+  failed: (evt) => emitTransferFailed(
+    clientObject,
+    callSession,
+    evt.status_line.status_code,
+    evt.status_line.reason_phrase,
+  ),
+});
+
+/**
+ * Send REFER and log the failures.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} callSession - call session which is being transferred
+ * @param {String} target - sip uri to which the call is transferred
+ * @param {SessionReferOptions} options - REFER options
+ * @param {String} method - name of the transfer method used in logs
+ */
+const sendRefer = (
+  clientObject: Client,
+  callSession: CallSession,
+  target: string,
+  options: SessionReferOptions,
+  method: string,
+): boolean => {
+  try {
+    const referSubscriber = callSession.session.refer(target, options) as any;
+    if (!referSubscriber) {
+      Plivo.log.warn(`${method}: Unable to send REFER, session is not ready`);
+      return false;
+    }
+    callSession.addConnectionStage(`${method}@${getCurrentTime()}`);
+  } catch (err) {
+    Plivo.log.error(`error in ${method} :`, err);
+    Plivo.AppError.call(clientObject, {
+      name: err.name,
+      message: err.message,
+      method,
+    });
+    Plivo.sendEvents.call(
+      clientObject,
+      {
+        msg: 'ERROR_EVENT',
+        name: err.name,
+        info: err.message,
+        method,
+      },
+      callSession,
+    );
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Transfer the current call to another sip endpoint/number(blind transfer).
+ * @param {Client} clientObject - client reference
+ * @param {String} target - sip endpoint/number to which the call is transferred
+ * @param {ExtraHeaders} extraHeaders - Custom headers which are passed in the REFER.
+ * They should start with 'X-PH'
+ */
+export const blindTransfer = (
+  clientObject: Client,
+  target: string,
+  extraHeaders: ExtraHeaders,
+): boolean => {
+  if (!validateTransfer(clientObject, 'transfer()')) return false;
+  if (!target || String(target).length <= 0) {
+    Plivo.log.warn('transfer(): Destination address cannot be null and the length must be > 0');
+    return false;
+  }
+  const callSession = clientObject._currentSession as CallSession;
+  return sendRefer(
+    clientObject,
+    callSession,
+    getValidPhoneNumber(String(target)),
+    {
+      extraHeaders: getCleanedHeaders(clientObject, extraHeaders),
+      eventHandlers: getReferEventHandlers(clientObject, callSession),
+    },
+    'transfer()',
+  );
+};
+
+/**
+ * Find the call which is transferred to the consultation call, that is the other answered
+ * call, preferably the one held while consulting.
+ * @param {Client} clientObject - client reference
+ * @param {CallSession} consultCall - consultation call
+ */
+const getTransferredCall = (
+  clientObject: Client,
+  consultCall: CallSession,
+): CallSession | null => {
+  const calls = Array.from(clientObject.activeCalls.values());
+  if (clientObject._currentSession && !calls.includes(clientObject._currentSession)) {
+    calls.push(clientObject._currentSession);
+  }
+  const answeredCalls = calls
+    .filter((call) => call !== consultCall && call.session.isEstablished());
+  return answeredCalls.find((call) => (call.session.isOnHold() as any).local)
+    || answeredCalls[0]
+    || null;
+};
+
+/**
+ * Transfer the call held while consulting to the party of the consultation call
+ * (attended transfer). REFER is sent in the held call with Replaces pointing at the
+ * dialog of the consultation call.
+ * @param {Client} clientObject - client reference
+ * @param {String} consultCallUUID - CallUUID of the established consultation call
+ */
+export const attendedTransfer = (
+  clientObject: Client,
+  consultCallUUID: string,
+): boolean => {
+  const consultCall = getActiveCall.call(clientObject, consultCallUUID);
+  if (!consultCallUUID || !consultCall) {
+    Plivo.log.warn(`attendedTransfer(): No consultation call found for ${consultCallUUID}`);
+    return false;
+  }
+  if (!consultCall.session.isEstablished()) {
+    Plivo.log.warn('attendedTransfer(): Consultation call is not answered');
+    return false;
+  }
+  const callSession = getTransferredCall(clientObject, consultCall);
+  if (!callSession) {
+    Plivo.log.warn('attendedTransfer(): No answered call exists to transfer');
+    return false;
+  }
+  return sendRefer(
+    clientObject,
+    callSession,
+    consultCall.session.remote_identity.uri.toString(),
+    {
+      replaces: consultCall.session,
+      extraHeaders: getCleanedHeaders(clientObject),
+      eventHandlers: getReferEventHandlers(clientObject, callSession),
+    },
+    'attendedTransfer()',
+  );
+};
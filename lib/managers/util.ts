@@ -15,27 +15,40 @@ import {
   AppError,
   sendCallSummaryEvent,
   SummaryEvent,
+  getSetupOptions,
 } from '../stats/nonRTPStats';
+import { hasStatsSinks } from '../stats/sinks';
+import { sendStatsBeacon } from '../stats/httpRequest';
 import { emitMetrics as _emitMetrics } from '../stats/mediaMetrics';
 import { GetRTPStats } from '../stats/rtpStats';
+import { recordCallHistory } from '../stats/callHistory';
 import {
   getAudioDevicesInfo, isElectronApp,
 } from '../media/audioDevice';
 import { Logger } from '../logger';
 import { Client } from '../client';
 import { CallSession } from './callSession';
+import { isConferenceLeg, splitCalls } from './conference';
+import { getFilterSummary } from './callFilter';
+import { resumeWaitingCalls, updateCallWaitingTone } from './callWaiting';
 import {
-  STATS_ANALYSIS_WAIT_TIME, DEFAULT_MDNS_CANDIDATE,
+  STATS_ANALYSIS_WAIT_TIME, DEFAULT_MDNS_CANDIDATE, CALL_QUALITY_REPORT_HISTORY,
 } from '../constants';
 import getBrowserDetails from '../utils/browserDetection';
 
 const Plivo = {
-  log: Logger,
+  log: Logger.scope('util'),
   sendEvents,
   AppError,
   emitMetrics: _emitMetrics,
 };
 
+export interface UnloadListeners {
+  beforeunload: (event: BeforeUnloadEvent) => void;
+  pagehide: () => void;
+  visibilitychange: () => void;
+}
+
 /**
  * Prepare summary event when browser tab is about to close
  * @returns Summary event
@@ -66,14 +79,16 @@ const getSummaryEvent = async function (client: Client): Promise<SummaryEvent> {
     clientName: getBrowserDetails().browser,
     devicePlatform: navigator.platform,
     deviceOs,
-    setupOptions: client.options,
+    setupOptions: getSetupOptions(client.options),
     isAudioDeviceToggled: client.deviceToggledInCurrentSession,
     isNetworkChanged: client.networkChangeInCurrentSession,
+    filteredIncomingCalls: client.filteredCallsInCurrentSession,
     jsFramework: client.jsFramework,
 
   };
   if (client._currentSession) {
     summaryEvent.signalling = client._currentSession.signallingInfo;
+    summaryEvent.incomingCallFilter = getFilterSummary(client._currentSession.incomingCallFilter);
   }
   const deviceInfo = await getAudioDevicesInfo.call(client);
   if (deviceInfo) {
@@ -82,34 +97,72 @@ const getSummaryEvent = async function (client: Client): Promise<SummaryEvent> {
   return summaryEvent;
 };
 
+/**
+ * Terminate the active call and all the calls on hold.
+ * @param {Client} client - client reference
+ */
+const terminateActiveCalls = function (client: Client): void {
+  if (client._currentSession) {
+    client._currentSession.session.terminate();
+  }
+  client.activeCalls.forEach((call) => {
+    if (!call.session.isEnded()) {
+      call.session.terminate();
+    }
+  });
+};
+
+/**
+ * Remove the page lifecycle listeners added for the active calls.
+ * @param {Client} client - client reference
+ */
+const removeUnloadListeners = (client: Client): void => {
+  const listeners = client.unloadListeners;
+  if (!listeners) return;
+  window.removeEventListener('beforeunload', listeners.beforeunload);
+  window.removeEventListener('pagehide', listeners.pagehide);
+  document.removeEventListener('visibilitychange', listeners.visibilitychange);
+  // eslint-disable-next-line no-param-reassign
+  client.unloadListeners = null;
+};
+
 /**
  * Check for closeProtection option and show a
- * dialog prompt when closing a page which has an active connection
+ * dialog prompt when closing a page which has an active connection.
+ * Call summary and buffered stats are sent as beacons when the page is hidden for good.
  */
 export const addCloseProtectionListeners = function (): void {
   const client: Client = this;
+  client.isUnloading = false;
   getSummaryEvent(client).then((summaryEvent) => {
-    if (client.options.closeProtection) {
-      window.onbeforeunload = (event: BeforeUnloadEvent) => {
-        Plivo.sendEvents.call(client, summaryEvent, client._currentSession);
+    // call may have ended while the summary was prepared
+    if (!client._currentSession && client.incomingInvites.size === 0) return;
+    removeUnloadListeners(client);
+    const listeners: UnloadListeners = {
+      beforeunload: (event: BeforeUnloadEvent) => {
+        if (!client.options.closeProtection) return;
         event.preventDefault();
         // eslint-disable-next-line no-param-reassign
         event.returnValue = '';
-      };
-    } else {
-      window.onbeforeunload = () => {
+      },
+      pagehide: () => {
+        client.isUnloading = true;
         Plivo.sendEvents.call(client, summaryEvent, client._currentSession);
-        if (client._currentSession) {
-          client._currentSession.session.terminate();
+        client.telemetryBuffer.drain((message) => sendStatsBeacon.call(client, message));
+        terminateActiveCalls(client);
+      },
+      visibilitychange: () => {
+        // a hidden page may be discarded without pagehide, the buffer is kept during a call
+        // as the stats socket delivers it once the page is visible again
+        if (document.visibilityState === 'hidden' && !client._currentSession) {
+          client.telemetryBuffer.drain((message) => sendStatsBeacon.call(client, message));
         }
-      };
-    }
-    window.onunload = () => {
-      if (client._currentSession) {
-        client._currentSession.session.terminate();
-      }
-      Plivo.sendEvents.call(client, summaryEvent, client._currentSession);
+      },
     };
+    window.addEventListener('beforeunload', listeners.beforeunload);
+    window.addEventListener('pagehide', listeners.pagehide);
+    document.addEventListener('visibilitychange', listeners.visibilitychange);
+    client.unloadListeners = listeners;
   });
 };
 
@@ -307,6 +360,7 @@ export const onIceConnectionChange = function (
     }
     if (iceState === 'connected') {
       client.emit('onMediaConnected', callSession.getCallInfo());
+      callSession.call.emit('mediaConnected', callSession.getCallInfo());
     }
   }
 };
@@ -318,21 +372,15 @@ export const onIceConnectionChange = function (
 
 export const statsCollector = function (callSession: CallSession): void {
   const client: Client = this;
-  if (
-    (client.statsSocket
-      && client.callstatskey
-      && ((client.browserDetails.browser === 'chrome'
-        && client.browserDetails.version > 63)
-        || (client.browserDetails.browser === 'firefox'
-          && client.browserDetails.version > 59)
-        || (client.browserDetails.browser === 'safari'
-          && client.browserDetails.version > 10)
-        || (client.browserDetails.browser === 'edge'
-        && client.browserDetails.version > 79)))
-    || (client.browserDetails.browser === 'chrome'
-      && client.browserDetails.version > 63)
-  ) {
-    const stats = new GetRTPStats(client);
+  const { browser, version } = client.browserDetails;
+  const isSupported = (browser === 'chrome' && version > 63)
+    || (browser === 'firefox' && version > 59)
+    || (browser === 'safari' && version > 10)
+    || (browser === 'edge' && version > 79);
+  // the quality report, quality warnings and onStats subscribers added mid call need the stats
+  // of every call, not only of the calls reported to call insights or to stats sinks
+  if (isSupported) {
+    const stats = new GetRTPStats(client, callSession);
     callSession.setCallStats(stats);
   } else if (client.statsSocket && client.callstatskey) {
     Plivo.log.warn(
@@ -372,12 +420,60 @@ const calcConnStage = function (obj: string[]): string {
   return alinObjStr;
 };
 
+/**
+ * Add the call to the registry of established calls.
+ * @param {CallSession} session - call session information
+ */
+export const registerActiveCall = function (session: CallSession): void {
+  const client: Client = this;
+  if (session.callUUID && !session.session.isEnded()) {
+    client.activeCalls.set(session.callUUID, session);
+  }
+};
+
+/**
+ * Get an established call by CallUUID. Returns the active call when CallUUID is not passed.
+ * @param {String} callUUID - (Optional) CallUUID of the call
+ */
+export const getActiveCall = function (callUUID?: string): CallSession | null {
+  const client: Client = this;
+  if (!callUUID) return client._currentSession;
+  if (client._currentSession && client._currentSession.callUUID === callUUID) {
+    return client._currentSession;
+  }
+  return client.activeCalls.get(callUUID) || null;
+};
+
+/**
+ * Make the call active and play its remote audio.
+ * @param {CallSession} session - call session information
+ */
+export const setActiveCall = function (session: CallSession): void {
+  const client: Client = this;
+  client._currentSession = session;
+  client.callSession = session.session;
+  client.callUUID = session.callUUID;
+  client.callDirection = session.direction;
+  registerActiveCall.call(client, session);
+  const { connection } = session.session;
+  if (connection && session.session.isEstablished()) {
+    const remoteStream = (connection as any).getRemoteStreams()[0];
+    if (remoteStream) {
+      client.remoteView.srcObject = remoteStream;
+      client.remoteView.play().catch(() => {});
+    }
+  }
+};
+
 /**
  * Reset and delete session information.
  * @param {CallSession} session - call session information
  */
 const clearSessionInfo = function (session: CallSession): void {
   const client: Client = this;
+  if (session.callUUID && client.activeCalls.get(session.callUUID) === session) {
+    client.activeCalls.delete(session.callUUID);
+  }
   if (session === client._currentSession) {
     // audio element clearence
     client.remoteView.pause();
@@ -388,6 +484,14 @@ const clearSessionInfo = function (session: CallSession): void {
     client.callSession = null;
     client.callUUID = null;
     client.callDirection = null;
+    // calls on hold stay on hold, the latest one becomes the active call
+    let nextCall: CallSession | null = null;
+    client.activeCalls.forEach((call) => {
+      nextCall = call;
+    });
+    if (nextCall) {
+      setActiveCall.call(client, nextCall);
+    }
   } else if (
     client
     && client.incomingInvites
@@ -421,8 +525,7 @@ const clearSessionInfo = function (session: CallSession): void {
  */
 const removeCloseProtectionListeners = function (): void {
   if (!this._currentSession && this.incomingInvites && this.incomingInvites.size === 0) {
-    window.onbeforeunload = () => {};
-    window.onunload = () => {};
+    removeUnloadListeners(this);
   }
 };
 
@@ -462,6 +565,22 @@ const stopLocalStream = function (): void {
   }
 };
 
+/**
+ * Keep the quality report of an ended call and pass it on to the application.
+ * @param {CallSession} session - call session information
+ */
+const publishCallQualityReport = function (session: CallSession): void {
+  const client: Client = this;
+  const report = session.qualityCollector.finish(session.callUUID);
+  if (!report || !session.callUUID) return;
+  if (client.callQualityReports.get(session.callUUID) === report) return;
+  client.callQualityReports.set(session.callUUID, report);
+  if (client.callQualityReports.size > CALL_QUALITY_REPORT_HISTORY) {
+    client.callQualityReports.delete(client.callQualityReports.keys().next().value);
+  }
+  client.emit('onCallQualityReport', report, session.getCallInfo());
+};
+
 /**
  * Clear all flags and session information.
  * @param {CallSession} session - call session information
@@ -470,10 +589,20 @@ export const hangupClearance = function (session: CallSession) {
   const client: Client = this;
   Plivo.AppError.call(client, calcConnStage(session.connectionStages), 'log');
   session.clearCallStats();
+  publishCallQualityReport.call(client, session);
+  recordCallHistory.call(client, session);
+  session.stopHoldMusic();
+  const wasActiveCall = session === client._currentSession;
   clearSessionInfo.call(client, session);
+  if (isConferenceLeg(client, session)) splitCalls(client);
+  if (wasActiveCall) {
+    resumeWaitingCalls.call(client);
+  } else {
+    updateCallWaitingTone.call(client);
+  }
   const signallingInfo = session.getSignallingInfo();
   const mediaConnectionInfo = session.getMediaConnectionInfo();
-  if (client.callstatskey) {
+  if (client.callstatskey || hasStatsSinks(client)) {
     getAudioDevicesInfo
       .call(client)
       .then((deviceInfo) => {
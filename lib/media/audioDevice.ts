@@ -40,7 +40,7 @@ export interface DeviceDictionary {
   audioRef: string[];
 }
 
-const Plivo: PlivoObject = { log: Logger, audioConstraints: {} };
+const Plivo: PlivoObject = { log: Logger.scope('audioDevice'), audioConstraints: {} };
 let clientObject: Client | null = null;
 let currentLocalStream: null | MediaStream = null;
 let currentAudioState;
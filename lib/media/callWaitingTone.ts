@@ -0,0 +1,169 @@
+/* eslint-disable no-underscore-dangle */
+/* eslint-disable import/no-cycle */
+/* eslint-disable import/prefer-default-export */
+import { CallWaitingToneOptions } from '../client';
+import { Logger } from '../logger';
+
+const Plivo = { log: Logger.scope('callWaitingTone') };
+
+/**
+ * Plays the call waiting tone along with the audio of the active call. The tone is mixed
+ * into the stream of the element playing the call, so it is heard on the same device and
+ * at the same volume. The ringtone element is not used as it may be routed to another device.
+ */
+export class CallWaitingTone {
+  /**
+   * DOM AudioContext generating the tone
+   * @private
+   */
+  audioContext: null | AudioContext;
+
+  /**
+   * Switches the tone on and off as per the cadence
+   * @private
+   */
+  gain: null | GainNode;
+
+  /**
+   * Element playing the active call, it plays the mix while the tone is on
+   * @private
+   */
+  output: null | HTMLAudioElement;
+
+  /**
+   * Stream the output played before the tone, restored when the tone stops
+   * @private
+   */
+  callStream: null | MediaStream;
+
+  /**
+   * Mix of the call audio and the tone
+   * @private
+   */
+  mixedStream: null | MediaStream;
+
+  /**
+   * Muted element holding the call stream so that its audio reaches the mix
+   * @private
+   */
+  callElement: null | HTMLAudioElement;
+
+  /**
+   * Repeats the cadence
+   * @private
+   */
+  timer: null | ReturnType<typeof setInterval>;
+
+  /**
+   * Start playing the tone.
+   * @param {HTMLAudioElement} output - element playing the active call, remoteView
+   * @param {CallWaitingToneOptions} options - frequency, volume and cadence of the tone
+   */
+  public start = (
+    output: HTMLAudioElement,
+    options: CallWaitingToneOptions,
+  ): void => this._start(output, options);
+
+  /**
+   * Stop playing the tone.
+   */
+  public stop = (): void => this._stop();
+
+  /**
+   * Check if the tone is playing.
+   */
+  public isPlaying = (): boolean => !!this.audioContext;
+
+  /**
+   * @constructor
+   * @private
+   */
+  constructor() {
+    this.audioContext = null;
+    this.gain = null;
+    this.output = null;
+    this.callStream = null;
+    this.mixedStream = null;
+    this.callElement = null;
+    this.timer = null;
+  }
+
+  private _start = (output: HTMLAudioElement, options: CallWaitingToneOptions): void => {
+    if (this.isPlaying()) return;
+    try {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      const audioContext: AudioContext = new AudioContext();
+      this.audioContext = audioContext;
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      const destination = audioContext.createMediaStreamDestination();
+      oscillator.frequency.value = options.frequency;
+      gain.gain.value = 0;
+      oscillator.connect(gain);
+      gain.connect(destination);
+      oscillator.start();
+      this.gain = gain;
+      const callStream = output.srcObject as MediaStream | null;
+      if (callStream && callStream.getAudioTracks().length) {
+        // chrome does not pass remote audio to web audio unless it is attached to an element
+        const callElement = new Audio();
+        callElement.muted = true;
+        callElement.srcObject = callStream;
+        this.callElement = callElement;
+        audioContext.createMediaStreamSource(callStream).connect(destination);
+      }
+      this.output = output;
+      this.callStream = callStream;
+      this.mixedStream = destination.stream;
+      // eslint-disable-next-line no-param-reassign
+      output.srcObject = destination.stream;
+      output.play().catch(() => {});
+      this._playCadence(options);
+      this.timer = setInterval(() => this._playCadence(options), options.interval);
+      Plivo.log.debug('call waiting tone started');
+    } catch (err) {
+      Plivo.log.warn(`unable to play call waiting tone: ${err}`);
+      this._stop();
+    }
+  };
+
+  /**
+   * Schedule one round of the cadence, tones and silences alternate starting with a tone.
+   * @param {CallWaitingToneOptions} options - volume and cadence of the tone
+   */
+  private _playCadence = (options: CallWaitingToneOptions): void => {
+    if (!this.audioContext || !this.gain) return;
+    const { gain } = this.gain;
+    let time = this.audioContext.currentTime;
+    options.cadence.forEach((duration, index) => {
+      gain.setValueAtTime(index % 2 === 0 ? options.volume : 0, time);
+      time += duration / 1000;
+    });
+    gain.setValueAtTime(0, time);
+  };
+
+  private _stop = (): void => {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // the call audio is restored unless the output was given another call meanwhile
+    if (this.output && this.output.srcObject === this.mixedStream) {
+      this.output.srcObject = this.callStream;
+      this.output.play().catch(() => {});
+    }
+    if (this.callElement) {
+      this.callElement.srcObject = null;
+      this.callElement = null;
+    }
+    this.output = null;
+    this.callStream = null;
+    this.mixedStream = null;
+    this.gain = null;
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+      Plivo.log.debug('call waiting tone stopped');
+    }
+  };
+}
@@ -0,0 +1,207 @@
+/* eslint-disable no-underscore-dangle */
+/* eslint-disable import/prefer-default-export */
+import { Logger } from '../logger';
+
+const Plivo = { log: Logger.scope('conferenceMixer') };
+
+interface MixerLeg {
+  sender: RTCRtpSender;
+  originalTrack: MediaStreamTrack | null;
+  remoteSource: MediaStreamAudioSourceNode;
+  remoteElement: HTMLAudioElement;
+  micGain: GainNode;
+  destination: MediaStreamAudioDestinationNode;
+}
+
+/**
+ * Get the first audio sender of a peer connection.
+ * @param {RTCPeerConnection} connection - peer connection of the call
+ */
+const getAudioSender = (connection: RTCPeerConnection): RTCRtpSender | undefined => connection
+  .getSenders().find((s) => s.track && s.track.kind === 'audio');
+
+/**
+ * Get the first remote audio track of a peer connection.
+ * @param {RTCPeerConnection} connection - peer connection of the call
+ */
+const getRemoteAudioTrack = (connection: RTCPeerConnection): MediaStreamTrack | null => {
+  const receiver = connection.getReceivers().find((r) => r.track && r.track.kind === 'audio');
+  return receiver ? receiver.track : null;
+};
+
+/**
+ * Mix the call legs of a local conference. Every remote party receives the microphone
+ * along with the audio of the other remote parties.
+ */
+export class ConferenceMixer {
+  /**
+   * DOM AudioContext in which the legs are mixed
+   * @private
+   */
+  audioContext: null | AudioContext;
+
+  /**
+   * Holds the audio graph of each call leg
+   * @private
+   */
+  legs: MixerLeg[];
+
+  /**
+   * Mix of all the remote parties which is played locally
+   * @private
+   */
+  localDestination: null | MediaStreamAudioDestinationNode;
+
+  /**
+   * Microphone source shared by all the legs
+   * @private
+   */
+  micSource: null | MediaStreamAudioSourceNode;
+
+  /**
+   * Copy of the microphone track made when every leg was muted, stopped with the mixing
+   * @private
+   */
+  micClone: null | MediaStreamTrack;
+
+  /**
+   * Start mixing the legs and replace the outgoing audio track of each leg with its mix.
+   * @param {RTCPeerConnection[]} connections - peer connections of the call legs
+   */
+  public start = (connections: RTCPeerConnection[]): Promise<void> => this._start(connections);
+
+  /**
+   * Stop mixing and restore the outgoing audio track of each leg.
+   */
+  public stop = (): Promise<void> => this._stop();
+
+  /**
+   * Mute or unmute the microphone for a leg.
+   * @param {Number} index - position of the leg as passed in start()
+   * @param {Boolean} muted - true for muting the microphone
+   */
+  public setMicMuted = (index: number, muted: boolean): void => {
+    const leg = this.legs[index];
+    if (!leg) return;
+    leg.micGain.gain.value = muted ? 0 : 1;
+  };
+
+  /**
+   * Check if the microphone is muted for a leg.
+   * @param {Number} index - position of the leg as passed in start()
+   */
+  public isMicMuted = (index: number): boolean => {
+    const leg = this.legs[index];
+    return !!leg && leg.micGain.gain.value === 0;
+  };
+
+  /**
+   * Get the mix of all the remote parties for local playback.
+   */
+  public getLocalStream = (): MediaStream | null => (
+    this.localDestination ? this.localDestination.stream : null
+  );
+
+  /**
+   * Check if the legs are being mixed.
+   */
+  public isMixing = (): boolean => this.legs.length > 0;
+
+  /**
+   * @constructor
+   * @private
+   */
+  constructor() {
+    this.audioContext = null;
+    this.legs = [];
+    this.localDestination = null;
+    this.micSource = null;
+    this.micClone = null;
+  }
+
+  private _start = (connections: RTCPeerConnection[]): Promise<void> => {
+    if (this.isMixing()) return Promise.resolve();
+    const senders = connections.map(getAudioSender);
+    const remoteTracks = connections.map(getRemoteAudioTrack);
+    if (senders.some((s) => !s) || remoteTracks.some((t) => !t)) {
+      return Promise.reject(new Error('audio tracks are not available for all the legs'));
+    }
+    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+    const audioContext: AudioContext = new AudioContext();
+    this.audioContext = audioContext;
+    const micTracks = senders.map((s) => (s as RTCRtpSender).track as MediaStreamTrack);
+    // the track of a leg muted before merging is disabled, muting is done by the mix from now
+    let micTrack = micTracks.find((track) => track.enabled);
+    if (!micTrack) {
+      micTrack = micTracks[0].clone();
+      micTrack.enabled = true;
+      this.micClone = micTrack;
+    }
+    this.micSource = audioContext.createMediaStreamSource(new MediaStream([micTrack]));
+    this.localDestination = audioContext.createMediaStreamDestination();
+    this.legs = connections.map((connection, i) => {
+      const remoteStream = new MediaStream([remoteTracks[i] as MediaStreamTrack]);
+      // chrome does not pass remote audio to web audio unless the stream is attached to an element
+      const remoteElement = new Audio();
+      remoteElement.muted = true;
+      remoteElement.srcObject = remoteStream;
+      const micGain = audioContext.createGain();
+      micGain.gain.value = micTracks[i].enabled ? 1 : 0;
+      const destination = audioContext.createMediaStreamDestination();
+      (this.micSource as MediaStreamAudioSourceNode).connect(micGain);
+      micGain.connect(destination);
+      const sender = senders[i] as RTCRtpSender;
+      return {
+        sender,
+        originalTrack: sender.track,
+        remoteSource: audioContext.createMediaStreamSource(remoteStream),
+        remoteElement,
+        micGain,
+        destination,
+      };
+    });
+    this.legs.forEach((leg, i) => {
+      leg.remoteSource.connect(this.localDestination as MediaStreamAudioDestinationNode);
+      this.legs.forEach((otherLeg, j) => {
+        if (i !== j) leg.remoteSource.connect(otherLeg.destination);
+      });
+    });
+    return Promise.all(this.legs.map((leg) => leg.sender.replaceTrack(
+      leg.destination.stream.getAudioTracks()[0],
+    ))).then(() => {
+      Plivo.log.debug(`conference mixing started for ${this.legs.length} legs`);
+    });
+  };
+
+  private _stop = (): Promise<void> => {
+    if (!this.isMixing()) return Promise.resolve();
+    const { legs } = this;
+    this.legs = [];
+    legs.forEach((leg) => {
+      leg.remoteSource.disconnect();
+      leg.micGain.disconnect();
+      // eslint-disable-next-line no-param-reassign
+      leg.remoteElement.srcObject = null;
+    });
+    if (this.micSource) {
+      this.micSource.disconnect();
+      this.micSource = null;
+    }
+    if (this.micClone) {
+      this.micClone.stop();
+      this.micClone = null;
+    }
+    this.localDestination = null;
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+    return Promise.all(legs.map((leg) => leg.sender.replaceTrack(leg.originalTrack)
+      .catch((err) => {
+        Plivo.log.error(`unable to restore microphone track after conference: ${err}`);
+      })))
+      .then(() => {
+        Plivo.log.debug('conference mixing stopped');
+      });
+  };
+}
@@ -11,6 +11,7 @@ import {
   SILENT_TONE_ELEMENT_ID,
   SILENT_TONE_URL,
   DTMF_TONE_PLAY_RETRY_ATTEMPTS,
+  AUTO_ANSWER_BEEP,
 } from '../constants';
 import { DtmfOptions, Logger } from '../logger';
 import {
@@ -18,13 +19,13 @@ import {
 } from './audioDevice';
 import { Client, ConfiguationOptions, PlivoObject } from '../client';
 
-interface AudioEvent {
+export interface AudioEvent {
   status: string;
   stream?: boolean;
   error?: string;
 }
 
-const Plivo: PlivoObject = { log: Logger };
+const Plivo: PlivoObject = { log: Logger.scope('document') };
 
 /**
  * Check media permission and save all audio element references.
@@ -313,3 +314,21 @@ export const stopAudio = function (elementId: string): void {
     );
   }
 };
+
+/**
+ * Play a short beep, used for announcing auto answered calls.
+ */
+export const playBeep = function (): void {
+  try {
+    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+    const audioContext: AudioContext = new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    oscillator.frequency.value = AUTO_ANSWER_BEEP.frequency;
+    oscillator.connect(audioContext.destination);
+    oscillator.onended = () => audioContext.close();
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + AUTO_ANSWER_BEEP.duration / 1000);
+  } catch (e) {
+    Plivo.log.debug(`failed to play beep Cause: ${e}`);
+  }
+};
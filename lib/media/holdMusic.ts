@@ -0,0 +1,119 @@
+/* eslint-disable no-underscore-dangle */
+import { Logger } from '../logger';
+
+const Plivo = { log: Logger.scope('holdMusic') };
+
+/**
+ * Plays hold music into the outgoing audio track of a call.
+ */
+
+// eslint-disable-next-line import/prefer-default-export
+export class HoldMusic {
+  /**
+   * Media url of the hold music
+   * @private
+   */
+  url: string;
+
+  /**
+   * DOM AudioContext used for converting the hold music into a media stream
+   * @private
+   */
+  audioContext: null | AudioContext;
+
+  /**
+   * Audio element which plays the hold music
+   * @private
+   */
+  audioElement: null | HTMLAudioElement;
+
+  /**
+   * Sender whose track is replaced by the hold music
+   * @private
+   */
+  sender: null | RTCRtpSender;
+
+  /**
+   * Microphone track which is restored once hold music stops
+   * @private
+   */
+  originalTrack: null | MediaStreamTrack;
+
+  /**
+   * Replace the outgoing audio track with the hold music.
+   * @param {RTCPeerConnection} connection - peer connection of the call
+   */
+  public start = (connection: RTCPeerConnection): Promise<void> => this._start(connection);
+
+  /**
+   * Stop the hold music and restore the microphone track.
+   */
+  public stop = (): Promise<void> => this._stop();
+
+  /**
+   * Check if hold music is being played.
+   */
+  public isPlaying = (): boolean => this.sender !== null;
+
+  /**
+   * @constructor
+   * @param {String} url - media url of the hold music
+   * @private
+   */
+  constructor(url: string) {
+    this.url = url;
+    this.audioContext = null;
+    this.audioElement = null;
+    this.sender = null;
+    this.originalTrack = null;
+  }
+
+  private _start = (connection: RTCPeerConnection): Promise<void> => {
+    if (this.sender) return Promise.resolve();
+    const sender = connection.getSenders().find((s) => s.track && s.track.kind === 'audio');
+    if (!sender) {
+      Plivo.log.warn('No audio sender found for playing hold music');
+      return Promise.resolve();
+    }
+    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+    this.audioContext = new AudioContext();
+    this.audioElement = new Audio(this.url);
+    this.audioElement.loop = true;
+    this.audioElement.crossOrigin = 'anonymous';
+    const source = this.audioContext.createMediaElementSource(this.audioElement);
+    const destination = this.audioContext.createMediaStreamDestination();
+    source.connect(destination);
+    this.sender = sender;
+    this.originalTrack = sender.track;
+    return sender.replaceTrack(destination.stream.getAudioTracks()[0])
+      .then(() => (this.audioElement ? this.audioElement.play() : undefined))
+      .then(() => {
+        Plivo.log.debug('hold music started');
+      })
+      .catch((err) => {
+        Plivo.log.error(`unable to play hold music: ${err}`);
+      });
+  };
+
+  private _stop = (): Promise<void> => {
+    if (!this.sender) return Promise.resolve();
+    const { sender, originalTrack } = this;
+    this.sender = null;
+    this.originalTrack = null;
+    if (this.audioElement) {
+      this.audioElement.pause();
+      this.audioElement = null;
+    }
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+    return sender.replaceTrack(originalTrack)
+      .then(() => {
+        Plivo.log.debug('hold music stopped');
+      })
+      .catch((err) => {
+        Plivo.log.error(`unable to restore microphone track after hold music: ${err}`);
+      });
+  };
+}
@@ -0,0 +1,147 @@
+/* eslint-disable import/no-cycle */
+/* eslint func-names: ["error", "as-needed"] */
+import { Client, PlivoObject } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+import { CallSession } from '../managers/callSession';
+import { CallQualityReport } from './qualityReport';
+
+export interface CallHistoryEntry {
+  callUUID: string;
+  sipCallID: string | null;
+  direction: string;
+  src: string;
+  dest: string;
+  userName: string | null;
+  startTime: number;
+  endTime: number;
+  qualityReport: CallQualityReport | null;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('callHistory') };
+
+export const getLocalStorage = (): Storage | null => {
+  try {
+    return typeof window.localStorage !== 'undefined' ? window.localStorage : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+/**
+ * Get the localStorage key of a user, users sharing a browser do not see each other's data.
+ * @param {String} key - storage key
+ * @param {String} userName - logged in user name
+ */
+export const getUserStorageKey = (key: string, userName: string): string => `${key}:${userName}`;
+
+/**
+ * Keeps the latest ended calls so that feedback can be submitted for them,
+ * also after the page is reloaded. The calls of the last logged in user are kept.
+ */
+export class CallHistory {
+  /**
+   * Ended calls, latest first
+   * @private
+   */
+  entries: CallHistoryEntry[];
+
+  /**
+   * User whose calls are kept, null until the first login
+   * @private
+   */
+  userName: string | null;
+
+  /**
+   * @constructor
+   * @private
+   */
+  constructor() {
+    this.entries = [];
+    this.userName = null;
+  }
+
+  /**
+   * Switch to the calls of the logged in user.
+   * @param {String} userName - logged in user name
+   */
+  public setUser = (userName: string): void => {
+    if (userName === this.userName) return;
+    this.userName = userName;
+    this.entries = this.load();
+  };
+
+  /**
+   * Add an ended call, replacing an earlier entry of the same call.
+   * @param {CallHistoryEntry} entry - call information
+   */
+  public add = (entry: CallHistoryEntry): void => {
+    this.entries = [entry]
+      .concat(this.entries.filter((item) => item.callUUID !== entry.callUUID))
+      .slice(0, C.CALL_HISTORY_SIZE);
+    this.save();
+  };
+
+  /**
+   * Get an ended call.
+   * @param {String} callUUID - CallUUID of the call
+   * @returns Call information or null if the call is not in the history
+   */
+  public get = (callUUID: string): CallHistoryEntry | null => this.entries
+    .find((entry) => entry.callUUID === callUUID) || null;
+
+  /**
+   * Get the ended calls, latest first.
+   */
+  public getAll = (): CallHistoryEntry[] => this.entries.slice();
+
+  private load = (): CallHistoryEntry[] => {
+    const storage = getLocalStorage();
+    if (!storage || !this.userName) return [];
+    try {
+      const entries = JSON.parse(
+        storage.getItem(getUserStorageKey(C.CALL_HISTORY_STORAGE_KEY, this.userName)) || '[]',
+      );
+      return Array.isArray(entries)
+        ? entries.filter((entry) => entry && entry.callUUID && entry.userName === this.userName)
+        : [];
+    } catch (err) {
+      Plivo.log.debug('unable to read call history from localStorage', err);
+      return [];
+    }
+  };
+
+  private save = (): void => {
+    const storage = getLocalStorage();
+    if (!storage || !this.userName) return;
+    try {
+      storage.setItem(
+        getUserStorageKey(C.CALL_HISTORY_STORAGE_KEY, this.userName),
+        JSON.stringify(this.entries),
+      );
+    } catch (err) {
+      Plivo.log.debug('unable to update call history in localStorage', err);
+    }
+  };
+}
+
+/**
+ * Add an ended call to the call history.
+ * @param {CallSession} session - call session information
+ */
+export const recordCallHistory = function (session: CallSession): void {
+  const client: Client = this;
+  if (!session.callUUID) return;
+  const { call_initiation_time: startTime } = session.getSignallingInfo();
+  client.callHistory.add({
+    callUUID: session.callUUID,
+    sipCallID: session.sipCallID,
+    direction: session.direction,
+    src: session.src,
+    dest: session.dest,
+    userName: client.userName,
+    startTime: startTime || Date.now(),
+    endTime: Date.now(),
+    qualityReport: client.callQualityReports.get(session.callUUID) || null,
+  });
+};
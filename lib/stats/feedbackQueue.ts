@@ -0,0 +1,364 @@
+/* eslint-disable import/no-cycle */
+/* eslint func-names: ["error", "as-needed"] */
+import { Client, PlivoObject } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+import { FeedbackObject, FeedbackResult } from '../utils/feedback';
+import { getLocalStorage, getUserStorageKey } from './callHistory';
+import {
+  getPreSignedS3URL,
+  uploadConsoleLogsToBucket,
+  PreSignedUrlRequest,
+  PreSignedUrlResponse,
+} from './httpRequest';
+import { sendFeedbackEvent } from './nonRTPStats';
+import { StatsSocket } from './ws';
+
+export interface FeedbackSubmission {
+  id: string;
+  callUUID: string;
+  sipCallID: string | null;
+  // user who made the call, feedback is only sent while that user is logged in
+  userName: string;
+  feedback: FeedbackObject;
+  sendConsoleLogs: boolean;
+  consoleLogs: string[] | null;
+  sipTrace: string | null;
+  queuedAt: number;
+  attempts: number;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('feedbackQueue') };
+
+/**
+ * Keep the newest lines which fit in the given number of characters.
+ * @param {Array<String>} lines - log lines, oldest first
+ * @param {Number} maxSize - allowed number of characters
+ */
+const keepNewestLines = (lines: string[], maxSize: number): string[] => {
+  let size = 0;
+  let start = lines.length;
+  while (start > 0 && size + lines[start - 1].length + 1 <= maxSize) {
+    start -= 1;
+    size += lines[start].length + 1;
+  }
+  return lines.slice(start);
+};
+
+const getLogSize = (entry: FeedbackSubmission): number => (entry.consoleLogs || [])
+  .reduce((size, line) => size + line.length + 1, 0) + (entry.sipTrace || '').length;
+
+/**
+ * Limit the console logs and sip trace of feedback to the given size. The console logs
+ * are dropped first, oldest lines first, then the oldest lines of the sip trace.
+ * @param {FeedbackSubmission} entry - queued feedback
+ * @param {Number} maxSize - allowed number of characters
+ */
+const limitLogs = (entry: FeedbackSubmission, maxSize: number): FeedbackSubmission => {
+  if (getLogSize(entry) <= maxSize) return entry;
+  const sipTrace = entry.sipTrace && entry.sipTrace.length > maxSize
+    ? keepNewestLines(entry.sipTrace.split('\n'), maxSize).join('\n')
+    : entry.sipTrace;
+  const logSize = maxSize - (sipTrace || '').length;
+  return {
+    ...entry,
+    consoleLogs: entry.consoleLogs && keepNewestLines(entry.consoleLogs, logSize),
+    sipTrace: sipTrace || null,
+  };
+};
+
+/**
+ * Limit the logs of the queue to its total size, the logs of the oldest feedback are
+ * dropped first.
+ * @param {Array<FeedbackSubmission>} entries - queued feedback, oldest first
+ */
+const limitTotalLogs = (entries: FeedbackSubmission[]): FeedbackSubmission[] => {
+  let excess = entries.reduce((size, entry) => size + getLogSize(entry), 0)
+    - C.FEEDBACK_QUEUE_MAX_TOTAL_LOG_SIZE;
+  return entries.map((entry) => {
+    if (excess <= 0) return entry;
+    const size = getLogSize(entry);
+    const limited = limitLogs(entry, Math.max(size - excess, 0));
+    excess -= size - getLogSize(limited);
+    return limited;
+  });
+};
+
+/**
+ * Holds the feedback submitted while offline or logged out. Feedback is persisted
+ * in localStorage so that it is sent after a page reload as well. The feedback of
+ * the last logged in user is kept.
+ */
+export class FeedbackQueue {
+  /**
+   * Feedback waiting to be sent, oldest first
+   * @private
+   */
+  entries: FeedbackSubmission[];
+
+  /**
+   * User whose feedback is kept, null until the first login
+   * @private
+   */
+  userName: string | null;
+
+  /**
+   * Fulfills once the queued feedback being sent is done
+   * @private
+   */
+  pending: Promise<FeedbackResult[]> | null;
+
+  /**
+   * @constructor
+   * @private
+   */
+  constructor() {
+    this.entries = [];
+    this.userName = null;
+    this.pending = null;
+  }
+
+  /**
+   * Switch to the feedback of the logged in user.
+   * @param {String} userName - logged in user name
+   */
+  public setUser = (userName: string): void => {
+    if (userName === this.userName) return;
+    this.userName = userName;
+    this.entries = this.load();
+  };
+
+  /**
+   * Add feedback which could not be sent, the oldest one is dropped when the queue is full.
+   * Logs beyond the allowed size are dropped, oldest first.
+   * @param {FeedbackSubmission} submission - validated feedback
+   * @returns False if the feedback could not be stored, it is not queued then
+   */
+  public add = (submission: FeedbackSubmission): boolean => {
+    const previous = this.entries;
+    this.entries = limitTotalLogs(this.entries
+      .filter((entry) => entry.callUUID !== submission.callUUID)
+      .concat(limitLogs(submission, C.FEEDBACK_QUEUE_MAX_LOG_SIZE))
+      .slice(-C.FEEDBACK_QUEUE_SIZE));
+    if (this.save()) return true;
+    this.entries = previous;
+    this.save();
+    return false;
+  };
+
+  /**
+   * Remove feedback once it is sent.
+   * @param {String} id - submission identifier
+   */
+  public remove = (id: string): void => {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    this.save();
+  };
+
+  /**
+   * Count a failed attempt, feedback is dropped after the allowed attempts.
+   * @param {String} id - submission identifier
+   */
+  public fail = (id: string): void => {
+    this.entries = this.entries
+      .map((entry) => (entry.id === id ? { ...entry, attempts: entry.attempts + 1 } : entry))
+      .filter((entry) => entry.attempts < C.FEEDBACK_QUEUE_MAX_ATTEMPTS);
+    this.save();
+  };
+
+  /**
+   * Get the feedback waiting to be sent, oldest first.
+   */
+  public getAll = (): FeedbackSubmission[] => this.entries.slice();
+
+  /**
+   * Get the number of feedback waiting to be sent.
+   */
+  public getPendingCount = (): number => this.entries.length;
+
+  private load = (): FeedbackSubmission[] => {
+    const storage = getLocalStorage();
+    if (!storage || !this.userName) return [];
+    try {
+      const entries = JSON.parse(
+        storage.getItem(getUserStorageKey(C.FEEDBACK_QUEUE_STORAGE_KEY, this.userName)) || '[]',
+      );
+      const minQueuedAt = Date.now() - C.FEEDBACK_QUEUE_MAX_AGE;
+      return Array.isArray(entries)
+        ? entries.filter((entry) => entry && entry.id && entry.userName === this.userName
+          && entry.queuedAt >= minQueuedAt)
+        : [];
+    } catch (err) {
+      Plivo.log.debug('unable to read feedback from localStorage', err);
+      return [];
+    }
+  };
+
+  /**
+   * Persist the queue, feedback which is not persisted is lost on a page reload.
+   * @returns False if localStorage is not available or its quota is exceeded
+   */
+  private save = (): boolean => {
+    const storage = getLocalStorage();
+    if (!storage || !this.userName) return false;
+    const key = getUserStorageKey(C.FEEDBACK_QUEUE_STORAGE_KEY, this.userName);
+    try {
+      if (this.entries.length) {
+        storage.setItem(key, JSON.stringify(this.entries));
+      } else {
+        storage.removeItem(key);
+      }
+      return true;
+    } catch (err) {
+      Plivo.log.warn('unable to update feedback in localStorage', err);
+      return false;
+    }
+  };
+}
+
+/**
+ * Check if feedback can be sent right away.
+ * @param {Client} client - client reference
+ */
+export const canSendFeedback = (client: Client): boolean => client.isLoggedIn
+  && !!client.userName
+  && !(typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/**
+ * Create a submission for validated feedback.
+ * @param {FeedbackSubmission} submission - call and feedback information
+ */
+export const createFeedbackSubmission = (
+  submission: Omit<FeedbackSubmission, 'id' | 'consoleLogs' | 'queuedAt' | 'attempts'>,
+): FeedbackSubmission => ({
+  ...submission,
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  consoleLogs: null,
+  queuedAt: Date.now(),
+  attempts: 0,
+});
+
+/**
+ * Send feedback to plivo stats and upload the logs and sip trace.
+ * @param {FeedbackSubmission} submission - validated feedback
+ * @returns Fulfills with the submission result or rejects if the logs could not be uploaded
+ */
+export const sendFeedback = function (submission: FeedbackSubmission): Promise<FeedbackResult> {
+  const client: Client = this;
+  const {
+    callUUID, sipCallID, feedback, sendConsoleLogs, consoleLogs, sipTrace,
+  } = submission;
+  const result = (message: string): FeedbackResult => ({
+    status: 'sent',
+    callUUID,
+    feedback,
+    consoleLogsSent: sendConsoleLogs,
+    sipTraceSent: !!sipTrace,
+    message,
+  });
+  // send Feedback to CallStats.io
+  if (client.callStats) {
+    client.callStats.sendUserFeedback(
+      callUUID,
+      { overall: feedback.overall, comment: feedback.comment },
+      (message: string) => {
+        Plivo.log.debug(`Feedback stats sent status: ${message}`);
+      },
+    );
+  }
+  // send Feedback to Plivo stats
+  if (sipCallID) {
+    if (!client.statsSocket) {
+      client.statsSocket = new StatsSocket(client.telemetryBuffer);
+      client.statsSocket.connect();
+    }
+    sendFeedbackEvent.call(client, { callUUID, sipCallID }, feedback);
+  }
+  if (!sendConsoleLogs && !sipTrace) return Promise.resolve(result('Feedback is sent'));
+  // send console logs
+  const preSignedUrlBody: PreSignedUrlRequest = {
+    username: client.userName as string,
+    ...(client.accessToken
+      ? { token: client.accessToken }
+      : { password: client.password as string }),
+    domain: C.DOMAIN,
+    calluuid: callUUID,
+  };
+  return getPreSignedS3URL(preSignedUrlBody)
+    .then((responseBody) => uploadConsoleLogsToBucket(
+      responseBody as PreSignedUrlResponse,
+      feedback,
+      sendConsoleLogs && (consoleLogs || true),
+      sipTrace,
+    ))
+    .then(() => result(sipTrace
+      ? 'Feedback is sent with sip trace'
+      : 'Feedback is sent with console logs'))
+    .catch((err) => {
+      Plivo.log.error('Feedback was not able to send console logs');
+      throw err;
+    });
+};
+
+/**
+ * Keep feedback until it can be sent, the console logs are captured right away.
+ * @param {FeedbackSubmission} submission - validated feedback
+ * @returns Queued result, or failed result if the feedback could not be stored
+ */
+export const queueFeedback = function (submission: FeedbackSubmission): FeedbackResult {
+  const client: Client = this;
+  const result = (status: 'queued' | 'failed', message: string): FeedbackResult => ({
+    status,
+    callUUID: submission.callUUID,
+    feedback: submission.feedback,
+    consoleLogsSent: false,
+    sipTraceSent: false,
+    message,
+  });
+  const queued = client.feedbackQueue.add({
+    ...submission,
+    consoleLogs: submission.sendConsoleLogs ? Plivo.log.consolelogs() : null,
+  });
+  if (!queued) {
+    Plivo.log.warn(`feedback for ${submission.callUUID} could not be stored`);
+    return result('failed', 'Feedback could not be stored, submit it again once the client '
+      + 'is online and logged in');
+  }
+  Plivo.log.info(`feedback for ${submission.callUUID} is queued`);
+  return result('queued', 'Feedback is queued until the client is online and logged in');
+};
+
+/**
+ * Send the queued feedback in order. Sending stops at the first failure and is
+ * retried the next time the client logs in or comes online.
+ * @returns Fulfills with the results of the feedback sent
+ */
+export const submitQueuedFeedback = function (): Promise<FeedbackResult[]> {
+  const client: Client = this;
+  const queue = client.feedbackQueue;
+  if (queue.pending) return queue.pending;
+  if (!queue.getPendingCount() || !canSendFeedback(client)) return Promise.resolve([]);
+  const results: FeedbackResult[] = [];
+  // feedback of another user waits for that user to log in
+  queue.pending = queue.getAll()
+    .filter((submission) => submission.userName === client.userName)
+    .reduce((previous: Promise<void>, submission) => previous
+      .then(() => sendFeedback.call(client, submission)
+        .catch((err: any) => {
+          queue.fail(submission.id);
+          throw err;
+        }))
+      .then((result: FeedbackResult) => {
+        queue.remove(submission.id);
+        results.push(result);
+        client.emit('onFeedbackSent', result);
+      }), Promise.resolve())
+    .catch((err) => {
+      Plivo.log.warn('unable to send queued feedback', err);
+    })
+    .then(() => {
+      queue.pending = null;
+      return results;
+    });
+  return queue.pending;
+};
@@ -13,7 +13,8 @@ export interface CallStatsValidationResponse {
 
 export interface PreSignedUrlRequest {
   username: string;
-  password: string;
+  password?: string;
+  token?: string;
   domain: string;
   calluuid: string;
 }
@@ -22,16 +23,51 @@ export interface PreSignedUrlResponse {
   data: string;
 }
 
-const Plivo: PlivoObject = { log: Logger };
+const Plivo: PlivoObject = { log: Logger.scope('httpRequest') };
+
+/**
+ * Send stats over HTTP in a way which survives the page being unloaded. Stats are posted
+ * to the statsBeaconUrl endpoint of the application, which forwards them to call insights.
+ * The SDK has no endpoint of its own, by default statsBeaconUrl is null and the stats are
+ * sent over the stats socket, which browsers may close before they are delivered.
+ * @param {String} message - serialized call stats (Summary/Hangup events)
+ * @returns True if the browser accepted the request for delivery, false when there is
+ * no endpoint and the stats socket has to be used
+ */
+export const sendStatsBeacon = function (message: string): boolean {
+  const client: Client = this;
+  const url = client.options.statsBeaconUrl;
+  if (!url) return false;
+  try {
+    if (typeof navigator.sendBeacon === 'function') {
+      return navigator.sendBeacon(url, new Blob([message], { type: 'application/json' }));
+    }
+    if (typeof fetch === 'function') {
+      fetch(url, {
+        method: 'POST',
+        headers: new Headers({ 'Content-Type': 'application/json' }),
+        body: message,
+        keepalive: true,
+      }).catch((err) => {
+        Plivo.log.debug('stats beacon failed', err);
+      });
+      return true;
+    }
+  } catch (err) {
+    Plivo.log.debug('unable to send stats beacon', err);
+  }
+  return false;
+};
 
 /**
  * Get callstats key and rtp enabled status.
  * @param {String} userName
  * @param {String} password
+ * @param {String} token - (Optional) access token used when logged in without password
  * @returns Fulfills with call insights key and rtp enabled status or reject with error
  */
 export const validateCallStats = function (
-  userName: string, password: string,
+  userName: string, password: string | null, token: string | null = null,
 ): Promise<CallStatsValidationResponse | string> {
   return new Promise((resolve, reject) => {
     const statsApiUrl = new URL(C.STATS_API_URL);
@@ -45,7 +81,7 @@ export const validateCallStats = function (
     }
     const statsBody = {
       username,
-      password,
+      ...(token ? { token } : { password }),
       domain: C.DOMAIN,
     };
 
@@ -136,18 +172,27 @@ export const getPreSignedS3URL = (
  * Upload logs to s3 bucket using pre-signed s3 url.
  * @param {PreSignedUrlResponse} preSignedUrlReponse - contains pre-signed s3 url
  * @param {FeedbackObject} feedback - contains call rating, issues faced during call and remarks
+ * @param {Boolean|Array<String>} consoleLogs - (Optional) add the console logs, or the logs
+ * captured when the feedback was queued
+ * @param {String} sipTrace - (Optional) sip ladder of the call
  * @returns Fulfills with done status or reject with error
  */
 export const uploadConsoleLogsToBucket = function (
   preSignedUrlReponse: PreSignedUrlResponse,
   feedback: FeedbackObject,
+  consoleLogs: boolean | string[] = true,
+  sipTrace: string | null = null,
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     const signedS3URL = new URL(preSignedUrlReponse.data);
-    const content = Plivo.log.consolelogs();
     const fileContent: any[] = [];
     if (feedback) fileContent.push(`${JSON.stringify(feedback)} \n`);
-    fileContent.push(content);
+    if (Array.isArray(consoleLogs)) {
+      fileContent.push(consoleLogs);
+    } else if (consoleLogs) {
+      fileContent.push(Plivo.log.consolelogs());
+    }
+    if (sipTrace) fileContent.push(`\n${sipTrace}`);
     const file = new Blob(fileContent, { type: 'text/plain;charset=utf-8' });
     const myHeaders = new Headers();
     myHeaders.append('Content-Type', 'text/plain');
@@ -0,0 +1,107 @@
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+/* eslint func-names: ["error", "as-needed"] */
+import { Client, PlivoObject } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+
+export interface LiveStatsLocal {
+  bitrate: number | null;
+  packetsSent: number | null;
+  packetsLost: number | null;
+  fractionLoss: number | null;
+  jitter: number | null;
+  rtt: number | null;
+  mos: number | null;
+  audioLevel: number | null;
+}
+
+export interface LiveStatsRemote {
+  bitrate: number | null;
+  packetsReceived: number | null;
+  packetsLost: number | null;
+  fractionLoss: number | null;
+  jitter: number | null;
+  jitterBufferDelay: number | null;
+  concealment: number | null;
+  mos: number | null;
+  audioLevel: number | null;
+}
+
+export interface LiveStats {
+  callUUID: string;
+  timeStamp: number;
+  codec: string;
+  networkType: string;
+  local: LiveStatsLocal;
+  remote: LiveStatsRemote;
+}
+
+export interface StatsSubscriptionOptions {
+  intervalMs?: number;
+}
+
+export type StatsUnsubscribe = () => void;
+
+export interface StatsSubscription {
+  callback: (stats: LiveStats) => void;
+  every: number;
+  ticks: number;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('liveStats') };
+
+/**
+ * Register a callback for the stats collected during calls.
+ * @param {Function} callback - receives the stats of the active call
+ * @param {StatsSubscriptionOptions} options - (Optional) interval at which stats are delivered,
+ * rounded to the stats collection interval
+ * @returns Function which removes the subscription
+ */
+export const subscribeStats = function (
+  callback: (stats: LiveStats) => void,
+  options: StatsSubscriptionOptions = {},
+): StatsUnsubscribe {
+  const client: Client = this;
+  if (typeof callback !== 'function') {
+    Plivo.log.error('onStats expects a callback function');
+    return () => {};
+  }
+  let { intervalMs } = options;
+  if (intervalMs !== undefined && (typeof intervalMs !== 'number' || !(intervalMs > 0))) {
+    Plivo.log.warn(`Invalid stats interval ${intervalMs}, using ${C.GETSTATS_INTERVAL}ms`);
+    intervalMs = undefined;
+  }
+  const subscription: StatsSubscription = {
+    callback,
+    every: Math.max(1, Math.round((intervalMs || C.GETSTATS_INTERVAL) / C.GETSTATS_INTERVAL)),
+    ticks: 0,
+  };
+  client.statsSubscriptions.push(subscription);
+  return () => {
+    client.statsSubscriptions = client.statsSubscriptions.filter(
+      (item) => item !== subscription,
+    );
+  };
+};
+
+/**
+ * Deliver the stats of a collection tick to the subscribers which are due. Stats of the
+ * held calls are left out so that subscribers get one sample per tick.
+ * @param {LiveStats} stats - normalized stats of a call
+ */
+export const publishStats = function (stats: LiveStats): void {
+  const client: Client = this;
+  if (!client._currentSession || client._currentSession.callUUID !== stats.callUUID) return;
+  client.statsSubscriptions.forEach((subscription) => {
+    const sub = subscription;
+    sub.ticks += 1;
+    if (sub.ticks < sub.every) return;
+    sub.ticks = 0;
+    try {
+      sub.callback(stats);
+    } catch (err) {
+      Plivo.log.error('Error in onStats callback', err);
+    }
+  });
+};
@@ -1,11 +1,14 @@
 /* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
 /* eslint func-names: ["error", "as-needed"] */
 import { Logger } from '../logger';
 import { StatsObject } from './rtpStats';
-import { Client, PlivoObject } from '../client';
+import {
+  Client, PlivoObject, MediaMetricsInfo, QualityThresholds,
+} from '../client';
 import * as C from '../constants';
 
-const Plivo: PlivoObject = { log: Logger };
+const Plivo: PlivoObject = { log: Logger.scope('mediaMetrics') };
 
 /**
  * Send media metrics during call
@@ -16,6 +19,7 @@ const Plivo: PlivoObject = { log: Logger };
  * @param {Boolean} active - if true warning is still present, else warning is not present
  * @param {String} desc - description for the warning
  * @param {String} stream - type of RTP stats
+ * @param {Number} threshold - (Optional) threshold which raised the warning
  */
 export const emitMetrics = function (
   group: string,
@@ -25,6 +29,7 @@ export const emitMetrics = function (
   active: boolean,
   desc: string,
   stream: string,
+  threshold?: number,
 ): void {
   const client: Client = this;
   if (
@@ -34,7 +39,7 @@ export const emitMetrics = function (
     )
     || this.options.enableQualityTracking === C.LOCALONLY
   ) {
-    const msgTemplate = {
+    const msgTemplate: MediaMetricsInfo = {
       group,
       level,
       type,
@@ -43,10 +48,43 @@ export const emitMetrics = function (
       desc: desc || '',
       stream,
     };
+    if (threshold !== undefined) msgTemplate.threshold = threshold;
     client.emit('mediaMetrics', msgTemplate);
+    if (client._currentSession) {
+      client._currentSession.qualityCollector.setWarning(type, stream, active);
+      client._currentSession.call.emit('metrics', msgTemplate);
+    }
   }
 };
 
+/**
+ * Get the thresholds used for raising media warnings.
+ * @param {Client} client - client reference
+ */
+const getThresholds = (client: Client): QualityThresholds => (
+  (client.options.qualityThresholds as QualityThresholds) || C.DEFAULT_QUALITY_THRESHOLDS
+);
+
+/**
+ * Add a sample to the analysis window of a stat. The last sample of a full window
+ * is kept as the first sample of the next window.
+ * @param {Array<Number>} samples - samples collected for the stat
+ * @param {Number} val - sample value
+ * @param {Number} windowSize - number of samples analysed together
+ * @returns Samples of the window when it is full, else null
+ */
+const addToWindow = (
+  samples: number[],
+  val: number,
+  windowSize: number,
+): number[] | null => {
+  samples.push(val);
+  if (samples.length < windowSize) return null;
+  const window = samples.splice(0, windowSize);
+  if (windowSize > 1) samples.push(window[windowSize - 1]);
+  return window;
+};
+
 /**
  * Analyse audio level during call.
  * @param {String} type - specify if it local or remote audio
@@ -61,66 +99,72 @@ const processAudioLevel = function (
   isLocalMuted: boolean,
 ): void {
   const client: Client = this;
-  const audioObj = client.storage ? client.storage[type] : [];
-  // check at every 3rd collection
-  if (audioObj.length === 2) {
-    audioObj.push(Number(val));
-    // unchanged volume level is processed here
-    const identicalCollector = {};
-    let audioVol: number | null = null;
-    audioObj.forEach((eachVal) => {
-      identicalCollector[eachVal] = identicalCollector[eachVal] + 1 || 1;
-    });
-    const keys = Object.keys(identicalCollector);
-    keys.forEach((vol) => {
-      // if 2 or more vol is same out of 3 samples
-      if (identicalCollector[vol] >= 2) {
-        audioVol = Number(vol);
-      }
-    });
-    if (typeof audioVol === 'number' && client.storage) {
-      client.storage.warning[type] = true;
-      if (audioVol > 1) {
-        Plivo.log.debug(
-          `Same audio level detected for ${type} : `,
-          JSON.stringify(audioObj),
-        );
-      } else {
-        Plivo.log.debug(
-          `Audio mute detected for ${type} : `,
-          JSON.stringify(audioObj),
-        );
-      }
-      if (!(isLocalMuted && type === 'local_audio')) {
-        emitMetrics.call(
-          client,
-          'audio',
-          'warning',
-          'no_audio_received',
-          audioVol,
-          true,
-          type,
-          stream,
-        );
-      }
-    } else if (client.storage && client.storage.warning[type]) {
-      client.storage.warning[type] = false;
+  const { audioLevel } = getThresholds(client);
+  const audioObj = addToWindow(
+    client.storage ? client.storage[type] : [],
+    Number(val),
+    audioLevel.windowSize,
+  );
+  if (!audioObj) return;
+  // samples needed with an unchanged volume level to cover the silence duration
+  const silentCount = Math.max(1, Math.ceil(audioLevel.silenceDuration / C.GETSTATS_INTERVAL));
+  const identicalCollector = {};
+  let audioVol: number | null = null;
+  let maxIdentical = 0;
+  audioObj.forEach((eachVal) => {
+    identicalCollector[eachVal] = identicalCollector[eachVal] + 1 || 1;
+  });
+  const keys = Object.keys(identicalCollector);
+  keys.forEach((vol) => {
+    maxIdentical = Math.max(maxIdentical, identicalCollector[vol]);
+    if (identicalCollector[vol] >= silentCount) {
+      audioVol = Number(vol);
+    }
+  });
+  if (typeof audioVol === 'number' && client.storage) {
+    client.storage.warning[type] = true;
+    if (audioVol > 1) {
+      Plivo.log.debug(
+        `Same audio level detected for ${type} : `,
+        JSON.stringify(audioObj),
+      );
+    } else {
+      Plivo.log.debug(
+        `Audio mute detected for ${type} : `,
+        JSON.stringify(audioObj),
+      );
+    }
+    if (!(isLocalMuted && type === 'local_audio')) {
       emitMetrics.call(
         client,
         'audio',
         'warning',
         'no_audio_received',
-        0,
-        false,
+        audioVol,
+        true,
         type,
         stream,
+        audioLevel.silenceDuration,
       );
     }
-  } else {
-    audioObj.push(Number(val));
+  } else if (
+    client.storage
+    && client.storage.warning[type]
+    && maxIdentical <= audioLevel.clearCount
+  ) {
+    client.storage.warning[type] = false;
+    emitMetrics.call(
+      client,
+      'audio',
+      'warning',
+      'no_audio_received',
+      0,
+      false,
+      type,
+      stream,
+      audioLevel.silenceDuration,
+    );
   }
-  // remove first 2, after every 3 samples
-  if (audioObj.length === 3) audioObj.splice(0, 2);
 };
 
 /**
@@ -129,50 +173,54 @@ const processAudioLevel = function (
  * @param {Number} val - local or remote rtt value
  */
 const processRtt = function (type: string, val: number): void {
-  const numberVal = Number(val);
   const client: Client = this;
-  const rttObj = client.storage ? client.storage[type] : [];
-  if (rttObj.length === 2) {
-    rttObj.push(numberVal);
-    const totRttObj = rttObj.filter((item) => item > 400);
-    if (totRttObj.length >= 2) {
-      const rttSum = totRttObj.reduce((sum, value) => sum + value);
-      const rttAvg = (rttSum / totRttObj.length).toFixed(2);
-      if (client.storage) {
-        client.storage.warning[type] = true;
-      }
-      Plivo.log.debug(
-        `${type} : getting high rtt  : `,
-        JSON.stringify(totRttObj),
-      );
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'high_rtt',
-        rttAvg,
-        true,
-        'high latency',
-        'None',
-      );
-    } else if (client.storage && client.storage.warning[type]) {
-      client.storage.warning[type] = false;
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'high_rtt',
-        0,
-        false,
-        'high latency',
-        'None',
-      );
+  const { rtt } = getThresholds(client);
+  const rttObj = addToWindow(
+    client.storage ? client.storage[type] : [],
+    Number(val),
+    rtt.windowSize,
+  );
+  if (!rttObj) return;
+  const totRttObj = rttObj.filter((item) => item > rtt.threshold);
+  if (totRttObj.length >= rtt.raiseCount) {
+    const rttSum = totRttObj.reduce((sum, value) => sum + value);
+    const rttAvg = (rttSum / totRttObj.length).toFixed(2);
+    if (client.storage) {
+      client.storage.warning[type] = true;
     }
-  } else {
-    rttObj.push(numberVal);
+    Plivo.log.debug(
+      `${type} : getting high rtt  : `,
+      JSON.stringify(totRttObj),
+    );
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'high_rtt',
+      rttAvg,
+      true,
+      'high latency',
+      'None',
+      rtt.threshold,
+    );
+  } else if (
+    client.storage
+    && client.storage.warning[type]
+    && totRttObj.length <= rtt.clearCount
+  ) {
+    client.storage.warning[type] = false;
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'high_rtt',
+      0,
+      false,
+      'high latency',
+      'None',
+      rtt.threshold,
+    );
   }
-  // remove first 2, after every 3 samples
-  if (rttObj.length === 3) rttObj.splice(0, 2);
 };
 
 /**
@@ -182,50 +230,54 @@ const processRtt = function (type: string, val: number): void {
  * @param {String} stream - type of RTP stats to consider
  */
 const processJitter = function (type: string, val: number, stream: string): void {
-  const numberVal = Number(val);
   const client: Client = this;
-  const jitterObj = client.storage ? client.storage[type] : [];
-  if (jitterObj.length === 2) {
-    jitterObj.push(numberVal);
-    const totJitterObj = jitterObj.filter((item) => item > 30);
-    if (totJitterObj.length >= 2) {
-      const jitterSum = totJitterObj.reduce((sum, value) => sum + value);
-      const jitterAvg = jitterSum / totJitterObj.length;
-      if (client.storage) {
-        client.storage.warning[type] = true;
-      }
-      Plivo.log.debug(
-        `${type} : getting high jitter rate : `,
-        JSON.stringify(totJitterObj),
-      );
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'high_jitter',
-        jitterAvg,
-        true,
-        type,
-        stream,
-      );
-    } else if (client.storage && client.storage.warning[type]) {
-      client.storage.warning[type] = false;
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'high_jitter',
-        0,
-        false,
-        type,
-        stream,
-      );
+  const { jitter } = getThresholds(client);
+  const jitterObj = addToWindow(
+    client.storage ? client.storage[type] : [],
+    Number(val),
+    jitter.windowSize,
+  );
+  if (!jitterObj) return;
+  const totJitterObj = jitterObj.filter((item) => item > jitter.threshold);
+  if (totJitterObj.length >= jitter.raiseCount) {
+    const jitterSum = totJitterObj.reduce((sum, value) => sum + value);
+    const jitterAvg = jitterSum / totJitterObj.length;
+    if (client.storage) {
+      client.storage.warning[type] = true;
     }
-  } else {
-    jitterObj.push(numberVal);
+    Plivo.log.debug(
+      `${type} : getting high jitter rate : `,
+      JSON.stringify(totJitterObj),
+    );
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'high_jitter',
+      jitterAvg,
+      true,
+      type,
+      stream,
+      jitter.threshold,
+    );
+  } else if (
+    client.storage
+    && client.storage.warning[type]
+    && totJitterObj.length <= jitter.clearCount
+  ) {
+    client.storage.warning[type] = false;
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'high_jitter',
+      0,
+      false,
+      type,
+      stream,
+      jitter.threshold,
+    );
   }
-  // remove first 2, after every 3 samples
-  if (jitterObj.length === 3) jitterObj.splice(0, 2);
 };
 
 /**
@@ -236,44 +288,45 @@ const processJitter = function (type: string, val: number, stream: string): void
 const processMos = function (type: string, val: number): void {
   // Ignore first 3 MOS score of a new call, since first 2-3 mos comes as fair
   const client: Client = this;
-  const mosObj = client.storage ? client.storage[type] : [];
-  if (mosObj.length === 2) {
-    mosObj.push(val);
-    // filter if the mos score is less than 3. https://www.voip-info.org/call-quality-metrics/
-    const totMosObj = mosObj.filter((item) => item < 3.5);
-    if (totMosObj.length >= 2) {
-      if (client.storage) {
-        client.storage.warning[type] = true;
-      }
-      Plivo.log.debug(`${type} : getting low mos : `, JSON.stringify(mosObj));
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'low_mos',
-        totMosObj[0],
-        true,
-        type,
-        'None',
-      );
-    } else if (client.storage && client.storage.warning[type]) {
-      client.storage.warning[type] = false;
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'low_mos',
-        0,
-        false,
-        type,
-        'None',
-      );
+  const { mos } = getThresholds(client);
+  const mosObj = addToWindow(client.storage ? client.storage[type] : [], val, mos.windowSize);
+  if (!mosObj) return;
+  // filter if the mos score is less than the threshold. https://www.voip-info.org/call-quality-metrics/
+  const totMosObj = mosObj.filter((item) => item < mos.threshold);
+  if (totMosObj.length >= mos.raiseCount) {
+    if (client.storage) {
+      client.storage.warning[type] = true;
     }
-  } else {
-    mosObj.push(val);
+    Plivo.log.debug(`${type} : getting low mos : `, JSON.stringify(mosObj));
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'low_mos',
+      totMosObj[0],
+      true,
+      type,
+      'None',
+      mos.threshold,
+    );
+  } else if (
+    client.storage
+    && client.storage.warning[type]
+    && totMosObj.length <= mos.clearCount
+  ) {
+    client.storage.warning[type] = false;
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'low_mos',
+      0,
+      false,
+      type,
+      'None',
+      mos.threshold,
+    );
   }
-  // remove first 2, after every 3 samples
-  if (mosObj.length === 3) mosObj.splice(0, 2);
 };
 
 /**
@@ -287,59 +340,59 @@ const processPacketLoss = function (
   val: number,
   stream: string,
 ): void {
-  const numberVal = Number(val);
   const client: Client = this;
-  const plossObj = client.storage ? client.storage![type] : [];
-  // Check at every 3 collection
-  if (plossObj.length === 2) {
-    plossObj.push(numberVal);
-    const totPlossObj = plossObj.filter((item) => {
-      if (client.storage && client.storage.audioCodec === 'opus') {
-        // greater than 10%
-        return item >= 0.1;
-      }
-      // greater than 2%
-      return item >= 0.02;
-    });
-    if (totPlossObj.length >= 2) {
-      const plossSum = totPlossObj.reduce((sum, value) => sum + value);
-      let plossAvg = plossSum / totPlossObj.length;
-      plossAvg = parseFloat(plossAvg.toFixed(3));
-      if (client.storage) {
-        client.storage.warning[type] = true;
-      }
-      Plivo.log.debug(
-        `${type} : packet loss value is high :`,
-        JSON.stringify(totPlossObj),
-      );
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'high_packetloss',
-        plossAvg,
-        true,
-        type,
-        stream,
-      );
-    } else if (client.storage && client.storage.warning[type]) {
-      client.storage.warning[type] = false;
-      emitMetrics.call(
-        client,
-        'network',
-        'warning',
-        'high_packetloss',
-        0,
-        false,
-        type,
-        stream,
-      );
+  const { packetLoss } = getThresholds(client);
+  const plossObj = addToWindow(
+    client.storage ? client.storage![type] : [],
+    Number(val),
+    packetLoss.windowSize,
+  );
+  if (!plossObj) return;
+  // opus recovers from a higher loss than the other codecs
+  const threshold = client.storage && client.storage.audioCodec === 'opus'
+    ? packetLoss.opusThreshold
+    : packetLoss.threshold;
+  const totPlossObj = plossObj.filter((item) => item >= threshold);
+  if (totPlossObj.length >= packetLoss.raiseCount) {
+    const plossSum = totPlossObj.reduce((sum, value) => sum + value);
+    let plossAvg = plossSum / totPlossObj.length;
+    plossAvg = parseFloat(plossAvg.toFixed(3));
+    if (client.storage) {
+      client.storage.warning[type] = true;
     }
-  } else {
-    plossObj.push(numberVal);
+    Plivo.log.debug(
+      `${type} : packet loss value is high :`,
+      JSON.stringify(totPlossObj),
+    );
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'high_packetloss',
+      plossAvg,
+      true,
+      type,
+      stream,
+      threshold,
+    );
+  } else if (
+    client.storage
+    && client.storage.warning[type]
+    && totPlossObj.length <= packetLoss.clearCount
+  ) {
+    client.storage.warning[type] = false;
+    emitMetrics.call(
+      client,
+      'network',
+      'warning',
+      'high_packetloss',
+      0,
+      false,
+      type,
+      stream,
+      threshold,
+    );
   }
-  // remove first 2, after every 3 samples
-  if (plossObj.length === 3) plossObj.splice(0, 2);
 };
 
 /**
@@ -10,6 +10,9 @@ import { Client, ConfiguationOptions } from '../client';
 import * as C from '../constants';
 import { FeedbackObject } from '../utils/feedback';
 import getBrowserDetails from '../utils/browserDetection';
+import { hasStatsSinks, sendEventToSinks } from './sinks';
+import { sendStatsBeacon } from './httpRequest';
+import { getFilterSummary, IncomingCallFilterSummary } from '../managers/callFilter';
 
 export interface AnsweredEvent{
   msg: string;
@@ -61,6 +64,8 @@ export interface SummaryEvent {
   audioDeviceInfo?: DeviceAudioInfo;
   isAudioDeviceToggled?: boolean;
   isNetworkChanged?: boolean;
+  incomingCallFilter?: IncomingCallFilterSummary | null;
+  filteredIncomingCalls?: number;
   jsFramework: string[];
 
 }
@@ -82,7 +87,7 @@ interface CallInfoEvent {
   sdkVersion?: string;
 }
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('nonRTPStats') };
 
 /**
  * Add call related information to call answered/summary stat.
@@ -93,7 +98,7 @@ const Plivo = { log: Logger };
  * @returns Stat message with call information
  */
 export const addCallInfo = function (
-  callSession: CallSession, statMsg: any, callstatskey: string, userName: string,
+  callSession: CallSession, statMsg: any, callstatskey: string | null, userName: string,
 ): object {
   const obj = statMsg;
   obj.callstats_key = callstatskey;
@@ -109,20 +114,69 @@ export const addCallInfo = function (
 };
 
 /**
- * Send events to plivo stats.
+ * Add user information to the events sent outside a call.
+ * @param {Any} statMsg - stats event
+ * @param {String} userName - logged in user name
+ */
+const addUserInfo = (statMsg: any, userName: string): object => ({
+  ...statMsg,
+  timeStamp: Date.now(),
+  userName,
+  domain: C.DOMAIN,
+  source: C.STATS_SOURCE,
+  version: C.STATS_VERSION,
+});
+
+/**
+ * Options reported along with the events. Objects passed by the application
+ * like the transport and stats sinks are left out.
+ * @param {ConfiguationOptions} options - client configuration parameters
+ */
+export const getSetupOptions = (options: ConfiguationOptions): ConfiguationOptions => {
+  const setupOptions = { ...options };
+  delete setupOptions.transport;
+  delete setupOptions.statsSinks;
+  return setupOptions;
+};
+
+/**
+ * Check if events need to be prepared, either for plivo stats or for the stats sinks.
+ * @param {Client} client - client reference
+ */
+const isEventTrackingEnabled = (client: Client): boolean => !!client.callstatskey
+  || hasStatsSinks(client);
+
+/**
+ * Send events to plivo stats and the stats sinks.
  * @param {Any} statMsg - call stats (Answered/RTP/Summary/Feedback/Failure Events)
  * @param {CallSession} session - call session information
  */
 export const sendEvents = function (statMsg: any, session: CallSession): void {
   const client: Client = this;
+  if (statMsg.msg === 'CALL_SUMMARY' && session) {
+    if (session.isSummarySent) {
+      Plivo.log.debug(`call summary already sent for ${session.callUUID}`);
+      return;
+    }
+    const callSession = session;
+    callSession.isSummarySent = true;
+  }
+  if (hasStatsSinks(client)) {
+    // events outside a call like network changes only reach the sinks, plivo stats need a call
+    sendEventToSinks.call(client, session && session.sipCallID
+      ? addCallInfo(session, statMsg, client.callstatskey, client.userName as string)
+      : addUserInfo(statMsg, client.userName as string));
+  }
   if (
-    client.statsSocket
+    (client.statsSocket || client.isUnloading)
     && client.callstatskey
     && session
     && session.sipCallID
   ) {
     const obj = addCallInfo(session, statMsg, client.callstatskey, client.userName as string);
-    client.statsSocket.send(obj, client);
+    // websocket messages sent while the page is unloading are usually dropped
+    if (client.isUnloading && sendStatsBeacon.call(client, JSON.stringify(obj))) return;
+    if (client.statsSocket) client.statsSocket.send(obj, client);
   } else {
     Plivo.log.debug(
       'Cannot send Event ',
@@ -171,7 +225,7 @@ export const sendCallAnsweredEvent = function (
   isIncoming: boolean,
 ): void {
   const client: Client = this;
-  if (!client.callstatskey) {
+  if (!isEventTrackingEnabled(client)) {
     return;
   }
   const clientVersionParse = device.getClientVersion() as SemverParserVersion;
@@ -194,7 +248,7 @@ export const sendCallAnsweredEvent = function (
     sdkVersionPatch: sdkVersionParse.patch,
     devicePlatform: navigator.platform,
     deviceOs,
-    setupOptions: client.options,
+    setupOptions: getSetupOptions(client.options),
   };
   if (deviceInfo) {
     answerEvent.audioDeviceInfo = deviceInfo;
@@ -219,7 +273,7 @@ export const sendCallSummaryEvent = function (
   session: CallSession,
 ): void {
   const client: Client = this;
-  if (!client.callstatskey) {
+  if (!isEventTrackingEnabled(client)) {
     return;
   }
   const clientVersionParse = device.getClientVersion() as SemverParserVersion;
@@ -243,9 +297,11 @@ export const sendCallSummaryEvent = function (
     sdkVersionPatch: sdkVersionParse.patch,
     devicePlatform: navigator.platform,
     deviceOs,
-    setupOptions: client.options,
+    setupOptions: getSetupOptions(client.options),
     isAudioDeviceToggled: client.deviceToggledInCurrentSession,
     isNetworkChanged: client.networkChangeInCurrentSession,
+    incomingCallFilter: getFilterSummary(session.incomingCallFilter),
+    filteredIncomingCalls: client.filteredCallsInCurrentSession,
     jsFramework: client.jsFramework,
   };
   if (deviceInfo) {
@@ -256,17 +312,17 @@ export const sendCallSummaryEvent = function (
 
 /**
    * Send user feedback to plivo stats.
-   * @param {CallSession} callSession - call information
+   * @param {CallSession} callSession - call information, an ended call only needs the ids
    * @param {FeedbackObject} feedback - user feedback(contains score, issues, remarks)
    */
 export const sendFeedbackEvent = function (
-  callSession: CallSession, feedback: FeedbackObject,
+  callSession: Pick<CallSession, 'callUUID' | 'sipCallID'>, feedback: FeedbackObject,
 ): void {
   const client: Client = this;
-  if (callSession.callUUID && client.callstatskey) {
+  if (callSession.callUUID && isEventTrackingEnabled(client)) {
     const obj: CallInfoEvent = { msg: 'FEEDBACK', info: feedback };
     obj.sdkVersion = pkg.version;
-    sendEvents.call(client, obj, callSession);
+    sendEvents.call(client, obj, callSession as CallSession);
   }
 };
 
@@ -286,7 +342,7 @@ export const signallingEvent = function (status_code: number): string {
    */
 export const onIceFailure = function (callSession: CallSession, error: Error): void {
   const client: Client = this;
-  if (callSession.callUUID && client.callstatskey) {
+  if (callSession.callUUID && isEventTrackingEnabled(client)) {
     const obj: CallInfoEvent = { msg: 'ICE_FAILURE', error: error.message };
     sendEvents.call(client, obj, callSession);
   }
@@ -299,7 +355,7 @@ export const onIceFailure = function (callSession: CallSession, error: Error): v
    */
 export const onMediaFailure = function (callSession: CallSession, error: Error): void {
   const client: Client = this;
-  if (callSession.callUUID && client.callstatskey) {
+  if (callSession.callUUID && isEventTrackingEnabled(client)) {
     const obj: CallInfoEvent = { msg: 'MEDIA_FAILURE', error: error.message };
     sendEvents.call(client, obj, callSession);
   }
@@ -312,7 +368,7 @@ export const onMediaFailure = function (callSession: CallSession, error: Error):
    */
 export const onSDPfailure = function (callSession: CallSession, error: Error): void {
   const client: Client = this;
-  if (callSession.callUUID && client.callstatskey) {
+  if (callSession.callUUID && isEventTrackingEnabled(client)) {
     const obj: CallInfoEvent = { msg: 'SDP_FAILURE', error: error.message };
     sendEvents.call(client, obj, callSession);
   }
@@ -325,8 +381,21 @@ export const onSDPfailure = function (callSession: CallSession, error: Error): v
    */
 export const onToggleMute = function (callSession: CallSession, action: string): void {
   const client: Client = this;
-  if (client.callstatskey) {
+  if (isEventTrackingEnabled(client)) {
     const obj: CallInfoEvent = { msg: 'TOGGLE_MUTE', action };
     sendEvents.call(client, obj, callSession);
   }
 };
+
+/**
+ * Triggered when the call is put on hold or resumed by the user.
+ * @param {CallSession} callSession - call session information
+ * @param {String} action
+ */
+export const onToggleHold = function (callSession: CallSession, action: string): void {
+  const client: Client = this;
+  if (isEventTrackingEnabled(client)) {
+    const obj: CallInfoEvent = { msg: 'TOGGLE_HOLD', action };
+    sendEvents.call(client, obj, callSession);
+  }
+};
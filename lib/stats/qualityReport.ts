@@ -0,0 +1,259 @@
+/* eslint-disable no-underscore-dangle */
+
+export interface QualityMetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export interface QualitySample {
+  codec: string | null;
+  pdd: number | null;
+  mediaSetupTime: number | null;
+  local: {
+    mos: number | null;
+    jitter: number | null;
+    packetLoss: number | null;
+    rtt: number | null;
+  };
+  remote: {
+    mos: number | null;
+    jitter: number | null;
+    packetLoss: number | null;
+  };
+}
+
+export interface QualityWarningDuration {
+  type: string;
+  stream: string;
+  occurrences: number;
+  duration: number;
+}
+
+export interface CallQualityReport {
+  callUUID: string | null;
+  startTime: number;
+  endTime: number;
+  samples: number;
+  codec: string | null;
+  pdd: number | null;
+  mediaSetupTime: number | null;
+  local: {
+    mos: QualityMetricSummary | null;
+    jitter: QualityMetricSummary | null;
+    packetLoss: QualityMetricSummary | null;
+    rtt: QualityMetricSummary | null;
+  };
+  remote: {
+    mos: QualityMetricSummary | null;
+    jitter: QualityMetricSummary | null;
+    packetLoss: QualityMetricSummary | null;
+  };
+  warnings: QualityWarningDuration[];
+}
+
+interface WarningState extends QualityWarningDuration {
+  activeSince: number | null;
+}
+
+type MetricSeries = { [metric: string]: number[] };
+
+const round = (value: number): number => parseFloat(value.toFixed(3));
+
+/**
+ * Summarize the values collected for a metric.
+ * @param {Array<Number>} values - value of the metric for each stats interval
+ * @returns min, avg, max and 95th percentile(nearest rank) or null when nothing was collected
+ */
+export const summarize = (values: number[]): QualityMetricSummary | null => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    min: sorted[0],
+    avg: round(total / sorted.length),
+    max: sorted[sorted.length - 1],
+    p95: sorted[Math.ceil(0.95 * sorted.length) - 1],
+  };
+};
+
+/**
+ * Aggregates the per interval RTP stats and media warnings of a call.
+ */
+export class CallQualityCollector {
+  /**
+   * Time at which media started flowing for the call
+   * @private
+   */
+  startTime: number | null;
+
+  /**
+   * Number of stats intervals collected
+   * @private
+   */
+  samples: number;
+
+  /**
+   * Latest codec, pdd and media setup time reported by the stats
+   * @private
+   */
+  latest: Pick<QualitySample, 'codec' | 'pdd' | 'mediaSetupTime'>;
+
+  /**
+   * Values collected for each metric of the local stream
+   * @private
+   */
+  local: MetricSeries;
+
+  /**
+   * Values collected for each metric of the remote stream
+   * @private
+   */
+  remote: MetricSeries;
+
+  /**
+   * Occurrences and duration of each media warning keyed by type and stream
+   * @private
+   */
+  warnings: { [key: string]: WarningState };
+
+  /**
+   * Final report once the call has ended
+   * @private
+   */
+  report: CallQualityReport | null;
+
+  /**
+   * @constructor
+   * @private
+   */
+  constructor() {
+    this.startTime = null;
+    this.samples = 0;
+    this.latest = { codec: null, pdd: null, mediaSetupTime: null };
+    this.local = {
+      mos: [], jitter: [], packetLoss: [], rtt: [],
+    };
+    this.remote = { mos: [], jitter: [], packetLoss: [] };
+    this.warnings = {};
+    this.report = null;
+  }
+
+  /**
+   * Start the report when the call is answered.
+   */
+  public start = (): void => {
+    if (this.startTime === null) this.startTime = Date.now();
+  };
+
+  /**
+   * Add the stats collected in one interval.
+   * @param {QualitySample} sample - metrics of the local and remote streams
+   */
+  public addSample = (sample: QualitySample): void => this._addSample(sample);
+
+  /**
+   * Track the time spent in a media warning.
+   * @param {String} type - warning type
+   * @param {String} stream - stream for which warning is raised
+   * @param {Boolean} active - true when the warning is raised, false when it is cleared
+   */
+  public setWarning = (
+    type: string,
+    stream: string,
+    active: boolean,
+  ): void => this._setWarning(type, stream, active);
+
+  /**
+   * Get the report of the call till now.
+   * @param {String} callUUID - call identifier
+   * @returns Report or null if the call was never answered
+   */
+  public getReport = (callUUID: string | null): CallQualityReport | null => (
+    this.report || this._buildReport(callUUID, Date.now())
+  );
+
+  /**
+   * Close open warnings and freeze the report.
+   * @param {String} callUUID - call identifier
+   * @returns Report or null if the call was never answered
+   */
+  public finish = (callUUID: string | null): CallQualityReport | null => {
+    if (!this.report) this.report = this._buildReport(callUUID, Date.now());
+    return this.report;
+  };
+
+  private _addSample = (sample: QualitySample): void => {
+    if (this.report) return;
+    this.samples += 1;
+    if (sample.codec) this.latest.codec = sample.codec;
+    if (sample.pdd) this.latest.pdd = sample.pdd;
+    if (sample.mediaSetupTime) this.latest.mediaSetupTime = sample.mediaSetupTime;
+    Object.keys(this.local).forEach((metric) => {
+      const value = sample.local[metric];
+      if (typeof value === 'number' && !Number.isNaN(value)) this.local[metric].push(value);
+    });
+    Object.keys(this.remote).forEach((metric) => {
+      const value = sample.remote[metric];
+      if (typeof value === 'number' && !Number.isNaN(value)) this.remote[metric].push(value);
+    });
+  };
+
+  private _setWarning = (type: string, stream: string, active: boolean): void => {
+    if (this.report) return;
+    const key = `${type}:${stream}`;
+    if (!this.warnings[key]) {
+      if (!active) return;
+      this.warnings[key] = {
+        type, stream, occurrences: 0, duration: 0, activeSince: null,
+      };
+    }
+    const warning = this.warnings[key];
+    if (active && warning.activeSince === null) {
+      warning.activeSince = Date.now();
+      warning.occurrences += 1;
+    } else if (!active && warning.activeSince !== null) {
+      warning.duration += Date.now() - warning.activeSince;
+      warning.activeSince = null;
+    }
+  };
+
+  private _buildReport = (
+    callUUID: string | null,
+    endTime: number,
+  ): CallQualityReport | null => {
+    if (this.startTime === null) return null;
+    return {
+      callUUID,
+      startTime: this.startTime,
+      endTime,
+      samples: this.samples,
+      codec: this.latest.codec,
+      pdd: this.latest.pdd,
+      mediaSetupTime: this.latest.mediaSetupTime,
+      local: {
+        mos: summarize(this.local.mos),
+        jitter: summarize(this.local.jitter),
+        packetLoss: summarize(this.local.packetLoss),
+        rtt: summarize(this.local.rtt),
+      },
+      remote: {
+        mos: summarize(this.remote.mos),
+        jitter: summarize(this.remote.jitter),
+        packetLoss: summarize(this.remote.packetLoss),
+      },
+      warnings: Object.keys(this.warnings).map((key) => {
+        const {
+          type, stream, occurrences, duration, activeSince,
+        } = this.warnings[key];
+        return {
+          type,
+          stream,
+          occurrences,
+          duration: activeSince === null ? duration : duration + endTime - activeSince,
+        };
+      }),
+    };
+  };
+}
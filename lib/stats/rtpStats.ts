@@ -9,6 +9,9 @@ import { AudioLevel } from '../media/audioLevel';
 import { processStreams } from './mediaMetrics';
 import { Logger } from '../logger';
 import { CallSession } from '../managers/callSession';
+import { CallQualityCollector } from './qualityReport';
+import { LiveStats, publishStats } from './liveStats';
+import { sendRtpStatsToSinks } from './sinks';
 
 export interface StatsLocalStream {
   ssrc?: number;
@@ -69,6 +72,16 @@ export interface StatsObject {
   mediaSetupTime?: number;
 }
 
+interface LiveStatsBase {
+  timeStamp: number | null;
+  bytesSent?: number;
+  bytesReceived?: number;
+  jitterBufferDelay?: number;
+  jitterBufferEmittedCount?: number;
+  concealedSamples?: number;
+  totalSamplesReceived?: number;
+}
+
 interface RtpStatsStream {
   codec: string;
   local: StatsLocalStream;
@@ -77,7 +90,7 @@ interface RtpStatsStream {
   gotNetworkType?: boolean;
 }
 
-const Plivo: PlivoObject = { log: Logger };
+const Plivo: PlivoObject = { log: Logger.scope('rtpStats') };
 
 /**
  * Add two numbers.
@@ -203,23 +216,21 @@ function basePackets(stream: RtpStatsStream): void {
 }
 
 /**
- * Calculate MOS for local or remote streams.
- * @param {String} type - specify local or remote
- * @param {Number} rtt - round trip time
- * @param {Number} jitter - variation in the delay of received packets
+ * Estimate MOS from the network conditions using the E-model R factor.
+ * @param {Number} rtt - round trip time in milliseconds
+ * @param {Number} jitter - variation in the delay of received packets in milliseconds
  * @param {Number} fractionLoss - number of packets lost divided by number of packets sent/received
+ * @param {String} codec - audio codec used for the media
  */
-const mosCal = function (
-  mosObj: number[],
-  type: string,
+export const estimateMos = function (
   rtt: number,
   jitter: number,
   fractionLoss: number,
-): void {
-  const getStatsRef: GetRTPStats = this;
+  codec: string | null,
+): number {
   let effectiveLatency = 0;
   let Rval = 0;
-  const Rfactor = getStatsRef.storage.audioCodec === 'opus' ? 95 : 93.2;
+  const Rfactor = codec === 'opus' ? 95 : 93.2;
   let mos: number;
   effectiveLatency = rtt + jitter * 2 + 10;
   if (effectiveLatency < 160) {
@@ -236,7 +247,27 @@ const mosCal = function (
   } else {
     mos = 4.5;
   }
+  return mos;
+};
+
+/**
+ * Calculate MOS for local or remote streams.
+ * @param {String} type - specify local or remote
+ * @param {Number} rtt - round trip time
+ * @param {Number} jitter - variation in the delay of received packets
+ * @param {Number} fractionLoss - number of packets lost divided by number of packets sent/received
+ */
+const mosCal = function (
+  mosObj: number[],
+  type: string,
+  rtt: number,
+  jitter: number,
+  fractionLoss: number,
+): void {
+  const getStatsRef: GetRTPStats = this;
+  const mos = estimateMos(rtt, jitter, fractionLoss, getStatsRef.storage.audioCodec);
   mosObj.push(mos);
+  getStatsRef.mos[type === 'mosLocalMeasures' ? 'local' : 'remote'] = mos;
   Plivo.log.debug(`mos ${type}`, mos);
 
   if (type === 'mosLocalMeasures') {
@@ -271,6 +302,7 @@ const processMos = function (
     || Number(rtt || 0) === 0
   ) {
     getStatsRef.collected.local.mos = null as unknown as undefined;
+    getStatsRef.mos[type === 'mosLocalMeasures' ? 'local' : 'remote'] = null;
     return;
   }
   if (getStatsRef.clientScope.browserDetails.browser === 'firefox') {
@@ -371,15 +403,17 @@ const calculateStats = function (stream: RtpStatsStream): void {
 };
 
 /**
- * Send call stats event to Plivo stats.
+ * Send call stats event to Plivo stats and the stats sinks.
  * @param {StatsObject} statMsg - Holds rtp stats and call info
+ * @param {CallSession} callSession - call session the stats belong to
  */
-const sendStats = function (statMsg: StatsObject): void {
+const sendStats = function (statMsg: StatsObject, callSession: CallSession): void {
   const client: Client = this;
+  if (callSession.session.isEnded()) return;
+  sendRtpStatsToSinks.call(client, statMsg);
   if (
     client.statsSocket
     && client.callstatskey
-    && client._currentSession
     && client.rtp_enabled
     && (
       (
@@ -394,9 +428,9 @@ const sendStats = function (statMsg: StatsObject): void {
       Plivo.log.info(statMsg);
     }
   }
+  // media metrics describe what the user hears, only the active call is analysed
   if (
-    client._currentSession
-    && client._currentSession.session
+    callSession === client._currentSession
     && client.browserDetails.browser === 'chrome'
     && (
       (
@@ -409,11 +443,122 @@ const sendStats = function (statMsg: StatsObject): void {
     processStreams.call(
       client,
       statMsg,
-      (client._currentSession.session.isMuted() as any).audio,
+      (callSession.session.isMuted() as any).audio,
     );
   }
 };
 
+/**
+ * Convert rtt or jitter to milliseconds, firefox reports them in seconds.
+ * @param {Number} value - rtt or jitter as collected
+ */
+const toMilliseconds = function (value?: number | null): number | null {
+  const getStatsRef: GetRTPStats = this;
+  if (value == null || isNaN(value)) return null;
+  const scale = getStatsRef.clientScope.browserDetails.browser === 'firefox' ? 1000 : 1;
+  return handleStat(Number(value) * scale, 'float');
+};
+
+/**
+ * Add the stats of this interval to the call quality report.
+ */
+const addQualitySample = function (): void {
+  const getStatsRef: GetRTPStats = this;
+  const { collected } = getStatsRef;
+  getStatsRef.qualityCollector.addSample({
+    codec: collected.codec || null,
+    pdd: collected.pdd || null,
+    mediaSetupTime: collected.mediaSetupTime || null,
+    local: {
+      mos: getStatsRef.mos.local,
+      jitter: toMilliseconds.call(getStatsRef, collected.local.jitter),
+      packetLoss: collected.local.fractionLoss == null ? null : collected.local.fractionLoss,
+      rtt: toMilliseconds.call(getStatsRef, collected.local.rtt),
+    },
+    remote: {
+      mos: getStatsRef.mos.remote,
+      jitter: toMilliseconds.call(getStatsRef, collected.remote.jitter),
+      packetLoss: collected.remote.fractionLoss == null ? null : collected.remote.fractionLoss,
+    },
+  });
+};
+
+/**
+ * Normalize the stats of this interval so that every browser reports the same fields.
+ * Chrome reports jitter buffer delay and concealment for the recent interval, the standard
+ * stats of firefox and safari are totals since the start of the call.
+ * @param {RtpStatsStream} stream - holds local and remote stat details
+ */
+const buildLiveStats = function (stream: RtpStatsStream): LiveStats {
+  const getStatsRef: GetRTPStats = this;
+  const { collected, liveStatsBase: base } = getStatsRef;
+  const remote = stream.remote as any;
+  const elapsed = base.timeStamp === null ? 0 : collected.timeStamp - base.timeStamp;
+  const delta = (current?: number | null, previous?: number | null): number | null => (
+    current == null || previous == null || isNaN(current) || isNaN(previous)
+      ? null
+      : current - previous
+  );
+  // bytes over milliseconds gives kilobits per second
+  const bitrate = (bytes: number | null): number | null => (
+    bytes === null || elapsed <= 0 ? null : handleStat((bytes * 8) / elapsed, 'float')
+  );
+  let jitterBufferDelay: number | null = null;
+  let concealment: number | null = null;
+  if (remote.jitterBufferEmittedCount != null) {
+    const emitted = delta(remote.jitterBufferEmittedCount, base.jitterBufferEmittedCount);
+    const bufferDelay = delta(remote.jitterBufferDelay, base.jitterBufferDelay);
+    if (emitted && bufferDelay !== null) {
+      jitterBufferDelay = handleStat((bufferDelay / emitted) * 1000, 'float');
+    }
+    const samples = delta(remote.totalSamplesReceived, base.totalSamplesReceived);
+    const concealed = delta(remote.concealedSamples, base.concealedSamples);
+    if (samples && concealed !== null) {
+      concealment = handleStat(concealed / samples, 'float');
+    }
+  } else {
+    jitterBufferDelay = handleStat(remote.googJitterBufferMs, 'float', null, true);
+    concealment = handleStat(remote.googExpandRate, 'float', null, true);
+  }
+  const liveStats: LiveStats = {
+    callUUID: getStatsRef.xcallUUID,
+    timeStamp: collected.timeStamp,
+    codec: collected.codec,
+    networkType: collected.networkType,
+    local: {
+      bitrate: bitrate(delta(collected.local.bytesSent, base.bytesSent)),
+      packetsSent: handleStat(collected.local.packetsSent as number, 'int', null, true),
+      packetsLost: handleStat(collected.local.packetsLost as number, 'int', null, true),
+      fractionLoss: handleStat(collected.local.fractionLoss as number, 'float', null, true),
+      jitter: toMilliseconds.call(getStatsRef, collected.local.jitter),
+      rtt: toMilliseconds.call(getStatsRef, collected.local.rtt),
+      mos: getStatsRef.mos.local,
+      audioLevel: handleStat(collected.local.audioLevel as number, 'int', null, true),
+    },
+    remote: {
+      bitrate: bitrate(delta(collected.remote.bytesReceived, base.bytesReceived)),
+      packetsReceived: handleStat(collected.remote.packetsReceived as number, 'int', null, true),
+      packetsLost: handleStat(collected.remote.packetsLost as number, 'int', null, true),
+      fractionLoss: handleStat(collected.remote.fractionLoss as number, 'float', null, true),
+      jitter: toMilliseconds.call(getStatsRef, collected.remote.jitter),
+      jitterBufferDelay,
+      concealment,
+      mos: getStatsRef.mos.remote,
+      audioLevel: handleStat(collected.remote.audioLevel as number, 'int', null, true),
+    },
+  };
+  getStatsRef.liveStatsBase = {
+    timeStamp: collected.timeStamp,
+    bytesSent: collected.local.bytesSent,
+    bytesReceived: collected.remote.bytesReceived,
+    jitterBufferDelay: remote.jitterBufferDelay,
+    jitterBufferEmittedCount: remote.jitterBufferEmittedCount,
+    concealedSamples: remote.concealedSamples,
+    totalSamplesReceived: remote.totalSamplesReceived,
+  };
+  return liveStats;
+};
+
 /**
  * calculate media setup time
  * @param {Client} client
@@ -518,7 +663,9 @@ const processStats = function (stream: RtpStatsStream): void {
   getStatsRef.collected.remote.ssrc = handleStat(stream.remote.ssrc as number);
   getStatsRef.collected.local.ssrc = handleStat(stream.local.ssrc as number);
   calculateStats.call(getStatsRef, stream);
-  sendStats.call(getStatsRef.clientScope, getStatsRef.collected);
+  addQualitySample.call(getStatsRef);
+  publishStats.call(getStatsRef.clientScope, buildLiveStats.call(getStatsRef, stream));
+  sendStats.call(getStatsRef.clientScope, getStatsRef.collected, getStatsRef.callSession);
 };
 
 /**
@@ -732,6 +879,12 @@ export class GetRTPStats {
    */
   clientScope: Client;
 
+  /**
+   * Call session whose stats are collected
+   * @private
+   */
+  callSession: CallSession;
+
   /**
    * Represents a WebRTC connection between caller and callee
    * @private
@@ -863,21 +1016,44 @@ export class GetRTPStats {
    */
   collected: StatsObject;
 
+  /**
+   * Latest MOS calculated for local and remote streams
+   * @private
+   */
+  mos: { local: number | null, remote: number | null };
+
+  /**
+   * Aggregates the stats of each interval for the call quality report
+   * @private
+   */
+  qualityCollector: CallQualityCollector;
+
+  /**
+   * Counters of the previous interval used for calculating live stats
+   * @private
+   */
+  liveStatsBase: LiveStatsBase;
+
   /**
    * @constructor
    * @param {Object} that - client reference
+   * @param {CallSession} callSession - call session whose stats are collected
    * @private
    */
-  constructor(client: Client) {
+  constructor(client: Client, callSession: CallSession) {
     this.clientScope = client;
-    this.pc = (client._currentSession as CallSession).session.connection as RTCPeerConnection;
-    this.xcallUUID = (client._currentSession as CallSession).callUUID as string;
-    this.callUUID = (client._currentSession as CallSession).sipCallID as string;
-    this.corelationId = (client._currentSession as CallSession).sipCallID as string;
+    this.callSession = callSession;
+    this.pc = callSession.session.connection as RTCPeerConnection;
+    this.xcallUUID = callSession.callUUID as string;
+    this.callUUID = callSession.sipCallID as string;
+    this.corelationId = callSession.sipCallID as string;
     this.userName = client.userName as string;
     this.storage = client.storage as Storage;
     this.callstatskey = client.callstatskey as string;
     this.statsioused = client.statsioused;
+    this.qualityCollector = callSession.qualityCollector;
+    this.mos = { local: null, remote: null };
+    this.liveStatsBase = { timeStamp: null };
     if (!this.pc || !this.callUUID) {
       if (!this.pc) {
         Plivo.log.error('pc obj is null, webrtc stats error');
@@ -5,7 +5,7 @@ import { Logger } from '../logger';
 import { Client } from '../client';
 import getBrowserDetails from '../utils/browserDetection';
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('setup') };
 
 /**
  * Creates a web socket for sending Plivo stats
@@ -13,7 +13,7 @@ const Plivo = { log: Logger };
 export const createStatsSocket = function (): void {
   const client: Client = this;
   if (!client.statsSocket && client.callstatskey) {
-    client.statsSocket = new StatsSocket();
+    client.statsSocket = new StatsSocket(client.telemetryBuffer);
     client.statsSocket.connect();
   }
 };
@@ -0,0 +1,199 @@
+/* eslint-disable max-classes-per-file */
+/* eslint-disable no-underscore-dangle */
+/* eslint-disable import/no-cycle */
+/* eslint func-names: ["error", "as-needed"] */
+import { Client, PlivoObject } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+import { StatsObject } from './rtpStats';
+
+/**
+ * Receives the call events(CALL_ANSWERED, CALL_SUMMARY, FEEDBACK, NETWORK_CHANGE etc.)
+ * and the RTP stats collected during calls.
+ */
+export interface StatsSink {
+  onEvent?: (event: { [key: string]: any }) => void;
+  onRtpStats?: (sample: StatsObject) => void;
+}
+
+export interface HttpBatchSinkOptions {
+  url: string;
+  headers?: { [key: string]: string };
+  batchSize?: number;
+  flushInterval?: number;
+}
+
+export interface StatsSinkRecord {
+  type: 'event' | 'rtp_stats';
+  data: { [key: string]: any };
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('sinks') };
+
+/**
+ * Posts events and RTP stats to an HTTP endpoint in batches.
+ */
+export class HttpBatchSink implements StatsSink {
+  /**
+   * Endpoint to which batches are posted
+   * @private
+   */
+  url: string;
+
+  /**
+   * Headers added to each request
+   * @private
+   */
+  headers: { [key: string]: string };
+
+  /**
+   * Number of records after which the batch is posted
+   * @private
+   */
+  batchSize: number;
+
+  /**
+   * Milliseconds after which a partial batch is posted
+   * @private
+   */
+  flushInterval: number;
+
+  /**
+   * Records waiting to be posted
+   * @private
+   */
+  buffer: StatsSinkRecord[];
+
+  /**
+   * Timer for posting a partial batch
+   * @private
+   */
+  flushTimer: ReturnType<typeof setTimeout> | null;
+
+  /**
+   * @constructor
+   * @param {HttpBatchSinkOptions} options - endpoint url, headers, batch size and flush interval
+   */
+  constructor(options: HttpBatchSinkOptions) {
+    this.url = options.url;
+    this.headers = options.headers || {};
+    this.batchSize = options.batchSize || C.STATS_SINK_BATCH_SIZE;
+    this.flushInterval = options.flushInterval || C.STATS_SINK_FLUSH_INTERVAL;
+    this.buffer = [];
+    this.flushTimer = null;
+  }
+
+  /**
+   * Add a call event to the batch. Batch is posted right away when the call ends.
+   * @param {Object} event - call event
+   */
+  public onEvent = (event: { [key: string]: any }): void => {
+    this.add({ type: 'event', data: event });
+    if (event.msg === 'CALL_SUMMARY') this.flush();
+  };
+
+  /**
+   * Add RTP stats to the batch.
+   * @param {StatsObject} sample - RTP stats collected in one interval
+   */
+  public onRtpStats = (sample: StatsObject): void => {
+    this.add({ type: 'rtp_stats', data: sample });
+  };
+
+  /**
+   * Post the records waiting in the buffer.
+   * @returns Fulfills when the batch is posted, failed batches are kept for the next flush
+   */
+  public flush = (): Promise<void> => this._flush();
+
+  private add = (record: StatsSinkRecord): void => {
+    this.buffer.push(record);
+    if (this.buffer.length > C.STATS_SINK_MAX_BUFFER) {
+      this.buffer.splice(0, this.buffer.length - C.STATS_SINK_MAX_BUFFER);
+    }
+    if (this.buffer.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushInterval);
+    }
+  };
+
+  private _flush = (): Promise<void> => {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.buffer.length) return Promise.resolve();
+    const batch = this.buffer.splice(0, this.batchSize);
+    return fetch(this.url, {
+      method: 'POST',
+      headers: new Headers({ 'Content-Type': 'application/json', ...this.headers }),
+      body: JSON.stringify(batch),
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error(`status ${response.status}`);
+        if (this.buffer.length) this.flush();
+      })
+      .catch((err) => {
+        Plivo.log.error(`Error in posting stats to ${this.url}`, err);
+        this.buffer.unshift(...batch.slice(0, C.STATS_SINK_MAX_BUFFER - this.buffer.length));
+      });
+  };
+}
+
+/**
+ * Prints events and RTP stats in the browser console.
+ */
+export class ConsoleSink implements StatsSink {
+  public onEvent = (event: { [key: string]: any }): void => {
+    // eslint-disable-next-line no-console
+    console.info(`[PlivoStats] ${event.msg}`, event);
+  };
+
+  public onRtpStats = (sample: StatsObject): void => {
+    // eslint-disable-next-line no-console
+    console.info(`[PlivoStats] ${sample.msg}`, sample);
+  };
+}
+
+/**
+ * Check if the application has configured any stats sink.
+ * @param {Client} client - client reference
+ */
+export const hasStatsSinks = (client: Client): boolean => !!(
+  client.options.statsSinks && client.options.statsSinks.length
+);
+
+/**
+ * Send a call event to the configured stats sinks.
+ * @param {Object} event - call event with call information
+ */
+export const sendEventToSinks = function (event: { [key: string]: any }): void {
+  const client: Client = this;
+  if (!hasStatsSinks(client)) return;
+  (client.options.statsSinks as StatsSink[]).forEach((sink) => {
+    if (typeof sink.onEvent !== 'function') return;
+    try {
+      sink.onEvent({ ...event });
+    } catch (err) {
+      Plivo.log.error(`Error in stats sink while sending ${event.msg}`, err);
+    }
+  });
+};
+
+/**
+ * Send RTP stats to the configured stats sinks.
+ * @param {StatsObject} sample - RTP stats collected in one interval
+ */
+export const sendRtpStatsToSinks = function (sample: StatsObject): void {
+  const client: Client = this;
+  if (!hasStatsSinks(client)) return;
+  (client.options.statsSinks as StatsSink[]).forEach((sink) => {
+    if (typeof sink.onRtpStats !== 'function') return;
+    try {
+      sink.onRtpStats({ ...sample, local: { ...sample.local }, remote: { ...sample.remote } });
+    } catch (err) {
+      Plivo.log.error('Error in stats sink while sending rtp stats', err);
+    }
+  });
+};
@@ -0,0 +1,262 @@
+/* eslint-disable max-classes-per-file */
+/* eslint-disable no-underscore-dangle */
+import * as C from '../constants';
+import { redactText } from '../logger';
+
+export type SipTraceDirection = 'sent' | 'received';
+
+export type SipTraceFormat = 'ladder' | 'pcap';
+
+export interface SipTraceMessage {
+  timestamp: number;
+  direction: SipTraceDirection;
+  summary: string;
+  message: string;
+}
+
+export interface SipTrace {
+  callUUID: string | null;
+  callId: string;
+  messages: SipTraceMessage[];
+}
+
+export interface SipTracePacket {
+  number: number;
+  ts_sec: number;
+  ts_usec: number;
+  direction: SipTraceDirection;
+  src: string;
+  dst: string;
+  protocol: string;
+  length: number;
+  info: string;
+  data: string;
+}
+
+export interface SipTracePcap {
+  format: 'sip-trace';
+  version: 1;
+  callUUID: string | null;
+  callId: string;
+  packets: SipTracePacket[];
+}
+
+/**
+ * Socket interface expected by the sip library.
+ */
+interface SipSocket {
+  url: string;
+  via_transport: string;
+  sip_uri: string;
+  connect: () => void;
+  disconnect: () => void;
+  send: (message: string) => boolean;
+  onconnect: (...args: any[]) => void;
+  ondisconnect: (...args: any[]) => void;
+  ondata: (data: any) => void;
+}
+
+const getHeader = (message: string, pattern: RegExp): string | null => {
+  const match = message.split('\r\n\r\n')[0].match(pattern);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Passes every sip message sent and received on a socket to the recorder.
+ */
+class SipTraceSocket {
+  /**
+   * Socket created for the sip library, not named socket as the sip library
+   * reads that property as a weighted socket
+   * @private
+   */
+  target: SipSocket;
+
+  /**
+   * Records the messages
+   * @private
+   */
+  onMessage: (direction: SipTraceDirection, message: any) => void;
+
+  constructor(
+    socket: SipSocket,
+    onMessage: (direction: SipTraceDirection, message: any) => void,
+  ) {
+    this.target = socket;
+    this.onMessage = onMessage;
+  }
+
+  get url(): string {
+    return this.target.url;
+  }
+
+  get via_transport(): string {
+    return this.target.via_transport;
+  }
+
+  set via_transport(value: string) {
+    this.target.via_transport = value;
+  }
+
+  get sip_uri(): string {
+    return this.target.sip_uri;
+  }
+
+  set onconnect(handler: (...args: any[]) => void) {
+    this.target.onconnect = handler;
+  }
+
+  set ondisconnect(handler: (...args: any[]) => void) {
+    this.target.ondisconnect = handler;
+  }
+
+  set ondata(handler: (data: any) => void) {
+    this.target.ondata = (data: any) => {
+      this.onMessage('received', data);
+      handler(data);
+    };
+  }
+
+  connect = (): void => this.target.connect();
+
+  disconnect = (): void => this.target.disconnect();
+
+  send = (message: string): boolean => {
+    this.onMessage('sent', message);
+    return this.target.send(message);
+  };
+}
+
+/**
+ * Captures the sip messages of each call.
+ */
+export class SipTraceRecorder {
+  /**
+   * Traces of the latest calls by sip Call-ID, oldest first
+   * @private
+   */
+  traces: Map<string, SipTrace>;
+
+  /**
+   * Sip Call-ID of each call by CallUUID
+   * @private
+   */
+  callIds: Map<string, string>;
+
+  /**
+   * @constructor
+   * @private
+   */
+  constructor() {
+    this.traces = new Map();
+    this.callIds = new Map();
+  }
+
+  /**
+   * Wrap the socket passed to the sip library so that its messages are captured.
+   * @param {Object} socket - socket implementing the sip library socket interface
+   */
+  public wrap = (socket: any): any => new SipTraceSocket(socket, this._record);
+
+  /**
+   * Get the sip messages exchanged for a call.
+   * @param {String} callUUID - CallUUID of the call
+   * @returns Trace or null if no message is captured for the call
+   */
+  public getTrace = (callUUID: string): SipTrace | null => {
+    const callId = this.callIds.get(callUUID);
+    const trace = callId ? this.traces.get(callId) : null;
+    if (!trace) return null;
+    return { ...trace, messages: trace.messages.slice() };
+  };
+
+  /**
+   * Record a sip message.
+   * @param {SipTraceDirection} direction - sent or received
+   * @param {String} data - raw sip message
+   */
+  private _record = (direction: SipTraceDirection, data: any): void => {
+    if (typeof data !== 'string' || !data.trim()) return;
+    const callId = getHeader(data, /^(?:call-id|i)\s*:(.*)$/im);
+    if (!callId) return;
+    let trace = this.traces.get(callId);
+    if (!trace) {
+      // only dialogs created by an INVITE are traced
+      const cseq = getHeader(data, /^cseq\s*:\s*\d+\s+(\w+)/im);
+      if (cseq !== 'INVITE') return;
+      trace = { callUUID: null, callId, messages: [] };
+      this.traces.set(callId, trace);
+      this.evict();
+    }
+    const callUUID = getHeader(data, /^x-calluuid\s*:(.*)$/im);
+    if (callUUID && !trace.callUUID) {
+      trace.callUUID = callUUID;
+      this.callIds.set(callUUID, callId);
+    }
+    if (trace.messages.length >= C.SIP_TRACE_MAX_MESSAGES) trace.messages.shift();
+    trace.messages.push({
+      timestamp: Date.now(),
+      direction,
+      summary: data.split('\r\n')[0].trim(),
+      // credentials and the ip addresses in the sdp are hidden like in the logs
+      message: redactText(data),
+    });
+  };
+
+  /**
+   * Drop the traces of the oldest calls.
+   */
+  private evict = (): void => {
+    while (this.traces.size > C.SIP_TRACE_HISTORY) {
+      const [callId, trace] = this.traces.entries().next().value;
+      this.traces.delete(callId);
+      if (trace.callUUID) this.callIds.delete(trace.callUUID);
+    }
+  };
+}
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toISOString();
+
+/**
+ * Format a sip trace as a ladder diagram followed by the full messages.
+ * @param {SipTrace} trace - sip messages of a call
+ */
+export const toSipLadder = (trace: SipTrace): string => {
+  const lines = [`SIP trace of call ${trace.callUUID} (Call-ID: ${trace.callId})`, ''];
+  trace.messages.forEach(({ timestamp, direction, summary }) => {
+    const label = summary.replace(/^SIP\/2\.0\s+/, '').replace(/\s+sip:\S+.*$/i, '');
+    lines.push(direction === 'sent'
+      ? `${formatTime(timestamp)}  client  ---- ${label} ---->  server`
+      : `${formatTime(timestamp)}  client  <---- ${label} ----  server`);
+  });
+  trace.messages.forEach(({ timestamp, direction, message }) => {
+    lines.push('', `${formatTime(timestamp)} ${direction}:`, message.trim());
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Format a sip trace as packets similar to a capture file.
+ * @param {SipTrace} trace - sip messages of a call
+ * @param {String} server - address of the sip server
+ */
+export const toSipPcap = (trace: SipTrace, server: string): SipTracePcap => ({
+  format: 'sip-trace',
+  version: 1,
+  callUUID: trace.callUUID,
+  callId: trace.callId,
+  packets: trace.messages.map(({
+    timestamp, direction, summary, message,
+  }, index) => ({
+    number: index + 1,
+    ts_sec: Math.floor(timestamp / 1000),
+    ts_usec: (timestamp % 1000) * 1000,
+    direction,
+    src: direction === 'sent' ? 'client' : server,
+    dst: direction === 'sent' ? server : 'client',
+    protocol: 'SIP',
+    length: message.length,
+    info: summary,
+    data: message,
+  })),
+});
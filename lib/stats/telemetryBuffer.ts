@@ -0,0 +1,334 @@
+/* eslint-disable import/no-cycle */
+/* eslint func-names: ["error", "as-needed"] */
+import { PlivoObject } from '../client';
+import * as C from '../constants';
+import { Logger } from '../logger';
+
+export interface TelemetryEntry {
+  id: string;
+  // buffer which sends the entry, one per client instance, and when it took the entry
+  owner: string;
+  ownedSince: number;
+  message: string;
+  size: number;
+  timeStamp: number;
+}
+
+/**
+ * Storage in which unsent stats survive a page reload. It is shared by all the tabs.
+ */
+interface TelemetryStorage {
+  load: () => Promise<TelemetryEntry[]>;
+  save: (entry: TelemetryEntry) => void;
+  remove: (ids: string[]) => void;
+}
+
+const Plivo: PlivoObject = { log: Logger.scope('telemetryBuffer') };
+
+let idCount = 0;
+
+const createId = (): string => {
+  idCount += 1;
+  return `${Date.now().toString(36)}-${idCount}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Get the size of a message in bytes once it is UTF-8 encoded.
+ * @param {String} message - serialized stats message
+ */
+const getByteLength = (message: string): number => encodeURIComponent(message)
+  .replace(/%[A-F\d]{2}/g, 'x').length;
+
+/**
+ * Keep the entries in IndexedDB, one record per entry.
+ * @param {IDBFactory} indexedDB - IndexedDB factory of the window
+ */
+const createIndexedDBStorage = (indexedDB: IDBFactory): TelemetryStorage => {
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(C.TELEMETRY_BUFFER_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(C.TELEMETRY_BUFFER_STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const withStore = (
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => void,
+  ): Promise<void> => db.then((database) => {
+    const transaction = database.transaction(C.TELEMETRY_BUFFER_STORE_NAME, mode);
+    action(transaction.objectStore(C.TELEMETRY_BUFFER_STORE_NAME));
+  }).catch((err) => {
+    Plivo.log.debug('unable to update stats in IndexedDB', err);
+  });
+  return {
+    load: () => db.then((database) => new Promise<TelemetryEntry[]>((resolve, reject) => {
+      const request = database
+        .transaction(C.TELEMETRY_BUFFER_STORE_NAME, 'readonly')
+        .objectStore(C.TELEMETRY_BUFFER_STORE_NAME)
+        .getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    })),
+    save: (entry) => {
+      withStore('readwrite', (store) => store.put(entry));
+    },
+    remove: (ids) => {
+      withStore('readwrite', (store) => ids.forEach((id) => store.delete(id)));
+    },
+  };
+};
+
+/**
+ * Keep the entries in localStorage as a single item. The item is read before every update
+ * so that the entries of the other tabs are kept.
+ * @param {Storage} localStorage - localStorage of the window
+ */
+const createLocalStorage = (localStorage: Storage): TelemetryStorage => {
+  const read = (): TelemetryEntry[] => {
+    const entries = JSON.parse(localStorage.getItem(C.TELEMETRY_BUFFER_STORAGE_KEY) || '[]');
+    return Array.isArray(entries) ? entries : [];
+  };
+  const update = (change: (entries: TelemetryEntry[]) => TelemetryEntry[]): void => {
+    try {
+      const entries = change(read());
+      if (entries.length) {
+        localStorage.setItem(C.TELEMETRY_BUFFER_STORAGE_KEY, JSON.stringify(entries));
+      } else {
+        localStorage.removeItem(C.TELEMETRY_BUFFER_STORAGE_KEY);
+      }
+    } catch (err) {
+      Plivo.log.debug('unable to update stats in localStorage', err);
+    }
+  };
+  return {
+    load: () => {
+      try {
+        return Promise.resolve(read());
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    },
+    save: (entry) => update((entries) => entries
+      .filter((stored) => stored && stored.id !== entry.id)
+      .concat(entry)),
+    remove: (ids) => update((entries) => entries
+      .filter((stored) => stored && !ids.includes(stored.id))),
+  };
+};
+
+/**
+ * Pick IndexedDB when available, otherwise localStorage.
+ * @returns Storage or null when the browser offers neither
+ */
+const getDefaultStorage = (): TelemetryStorage | null => {
+  try {
+    if (typeof window.indexedDB !== 'undefined' && window.indexedDB) {
+      return createIndexedDBStorage(window.indexedDB);
+    }
+    if (typeof window.localStorage !== 'undefined' && window.localStorage) {
+      return createLocalStorage(window.localStorage);
+    }
+  } catch (err) {
+    Plivo.log.debug('stats storage is not accessible', err);
+  }
+  return null;
+};
+
+/**
+ * Holds the stats and events which could not be sent to the stats socket. Entries are
+ * persisted so that they can be replayed after a reconnection or on the next page load.
+ */
+export class TelemetryBuffer {
+  /**
+   * Entries waiting to be sent, oldest first
+   * @private
+   */
+  entries: TelemetryEntry[];
+
+  /**
+   * Persistent storage of the entries, null when stats are only kept in memory
+   * @private
+   */
+  storage: TelemetryStorage | null;
+
+  /**
+   * Identifier of this buffer in the entries, tells apart the entries of other tabs
+   * @private
+   */
+  owner: string;
+
+  /**
+   * Fulfills once entries persisted by an earlier page load are added
+   * @private
+   */
+  loaded: Promise<number>;
+
+  /**
+   * Refreshes the ownership of the entries while there are any, so that other tabs leave them
+   * @private
+   */
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+
+  /**
+   * @constructor
+   * @param {Boolean} persist - keep the entries in IndexedDB or localStorage
+   * @private
+   */
+  constructor(persist = true) {
+    this.entries = [];
+    this.owner = createId();
+    this.heartbeatTimer = null;
+    this.storage = persist ? getDefaultStorage() : null;
+    this.loaded = this.load();
+  }
+
+  /**
+   * Add a message which could not be sent.
+   * @param {String} message - serialized stats message
+   */
+  public add = (message: string): void => {
+    const entry: TelemetryEntry = {
+      id: createId(),
+      owner: this.owner,
+      ownedSince: Date.now(),
+      message,
+      size: getByteLength(message),
+      timeStamp: Date.now(),
+    };
+    this.entries.push(entry);
+    if (this.storage) this.storage.save(entry);
+    this.prune();
+    this.updateHeartbeat();
+  };
+
+  /**
+   * Get the oldest message without removing it.
+   */
+  public peek = (): TelemetryEntry | null => (this.entries.length ? this.entries[0] : null);
+
+  /**
+   * Remove a message once it is sent.
+   * @param {String} id - entry identifier
+   */
+  public remove = (id: string): void => {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    if (this.storage) this.storage.remove([id]);
+    this.updateHeartbeat();
+  };
+
+  /**
+   * Send the messages in order, each one is removed once sent.
+   * @param {Function} send - sends a message and returns false if it could not be sent
+   * @returns Number of messages sent
+   */
+  public drain = (send: (message: string) => boolean): number => {
+    let count = 0;
+    let entry = this.peek();
+    while (entry && send(entry.message)) {
+      this.remove(entry.id);
+      count += 1;
+      entry = this.peek();
+    }
+    return count;
+  };
+
+  /**
+   * Get the number of messages waiting to be sent.
+   */
+  public getPendingCount = (): number => this.entries.length;
+
+  /**
+   * Add the entries persisted by an earlier page load. Entries of other tabs are left to
+   * them unless they are old enough for their tab to be gone, adopted entries are saved
+   * with this buffer as owner so that they are replayed only once.
+   * @returns Number of pending entries
+   */
+  private load = (): Promise<number> => {
+    if (!this.storage) return Promise.resolve(0);
+    const { storage } = this;
+    return storage.load()
+      .then((stored) => {
+        const known = new Set(this.entries.map((entry) => entry.id));
+        const orphanedBefore = Date.now() - C.TELEMETRY_BUFFER_ORPHAN_AGE;
+        const restored = stored
+          .filter((entry) => entry && entry.id && !known.has(entry.id)
+            && entry.ownedSince <= orphanedBefore)
+          .map((entry) => ({ ...entry, owner: this.owner, ownedSince: Date.now() }));
+        restored.forEach((entry) => storage.save(entry));
+        this.entries = restored.concat(this.entries).sort((a, b) => a.timeStamp - b.timeStamp);
+        this.prune();
+        this.updateHeartbeat();
+        return this.entries.length;
+      })
+      .catch((err) => {
+        Plivo.log.debug('unable to read stats from storage', err);
+        return this.entries.length;
+      });
+  };
+
+  /**
+   * Drop entries older than the allowed age and the oldest ones beyond the size limit.
+   */
+  private prune = (): void => {
+    const minTimeStamp = Date.now() - C.TELEMETRY_BUFFER_MAX_AGE;
+    let totalSize = this.entries.reduce((sum, entry) => sum + entry.size, 0);
+    const dropped = this.entries.filter((entry) => {
+      if (entry.timeStamp >= minTimeStamp && totalSize <= C.TELEMETRY_BUFFER_MAX_BYTES) {
+        return false;
+      }
+      totalSize -= entry.size;
+      return true;
+    });
+    if (!dropped.length) return;
+    Plivo.log.debug(`dropping ${dropped.length} stats messages from buffer`);
+    const ids = dropped.map((entry) => entry.id);
+    this.entries = this.entries.filter((entry) => !ids.includes(entry.id));
+    if (this.storage) this.storage.remove(ids);
+  };
+
+  /**
+   * Run the heartbeat while persisted entries are pending and stop it once they are sent.
+   */
+  private updateHeartbeat = (): void => {
+    const pending = Boolean(this.storage) && this.entries.length > 0;
+    if (pending && !this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(
+        () => this.refreshOwnership(),
+        C.TELEMETRY_BUFFER_HEARTBEAT,
+      );
+    } else if (!pending && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  };
+
+  /**
+   * Save the pending entries with a fresh ownedSince so that they are not adopted by another
+   * tab while this one is alive. Entries which another tab took over, or sent, in the
+   * meantime are dropped so that they are not sent twice.
+   * @returns Number of entries still owned
+   */
+  private refreshOwnership = (): Promise<number> => {
+    if (!this.storage) return Promise.resolve(this.entries.length);
+    const { storage } = this;
+    const checked = new Set(this.entries.map((entry) => entry.id));
+    return storage.load()
+      .then((stored) => {
+        const owned = new Set(stored
+          .filter((entry) => entry && entry.owner === this.owner)
+          .map((entry) => entry.id));
+        const ownedSince = Date.now();
+        this.entries = this.entries
+          .filter((entry) => owned.has(entry.id) || !checked.has(entry.id))
+          .map((entry) => ({ ...entry, ownedSince }));
+        this.entries.forEach((entry) => storage.save(entry));
+        this.updateHeartbeat();
+        return this.entries.length;
+      })
+      .catch((err) => {
+        Plivo.log.debug('unable to refresh stats in storage', err);
+        return this.entries.length;
+      });
+  };
+}
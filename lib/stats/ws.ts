@@ -4,11 +4,12 @@
 import { Client } from '../client';
 import { Logger } from '../logger';
 import * as C from '../constants';
+import { TelemetryBuffer } from './telemetryBuffer';
 
 let retrySecondsCount = C.SOCKET_SEND_STATS_RETRY_SECONDS_COUNT;
 let retryAttempts = C.SOCKET_SEND_STATS_RETRY_ATTEMPTS;
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('ws') };
 
 /**
  * Triggered when websocket is opened.
@@ -17,6 +18,7 @@ function onOpen(): void {
   const that: StatsSocket = this;
   that.isConnecting = false;
   Plivo.log.debug(`stats socket ${(this as StatsSocket).url} connected`);
+  that.replay();
 }
 
 /**
@@ -61,7 +63,6 @@ function onError(e: Event): void {
 /**
  * Initialize stats socket.
  */
-// eslint-disable-next-line import/prefer-default-export
 export class StatsSocket {
   /**
    * URL to establish websocket connection
@@ -85,17 +86,39 @@ export class StatsSocket {
    * Stores the messages in buffer if websocket is unable to send message
    * @private
    */
-  messageBuffer: string[];
+  messageBuffer: TelemetryBuffer;
+
+  /**
+   * Close the socket once the buffered messages are replayed
+   * @private
+   */
+  closeWhenDrained: boolean;
+
+  /**
+   * Number of consecutive replay attempts made while the socket was not open
+   * @private
+   */
+  replayAttempts: number;
+
+  /**
+   * Timer for the next replay attempt
+   * @private
+   */
+  replayTimer: ReturnType<typeof setTimeout> | null;
 
   /**
    * @constructor
+   * @param {TelemetryBuffer} messageBuffer - (Optional) persistent buffer shared by the client
    * @private
    */
-  constructor() {
+  constructor(messageBuffer?: TelemetryBuffer | null) {
     this.url = C.STATSSOCKET_URL;
     this.ws = null;
-    this.messageBuffer = [];
+    this.messageBuffer = messageBuffer || new TelemetryBuffer(false);
     this.isConnecting = false;
+    this.closeWhenDrained = false;
+    this.replayAttempts = 0;
+    this.replayTimer = null;
     this.connect();
   }
 
@@ -145,6 +168,10 @@ export class StatsSocket {
    */
   disconnect = (): void => {
     Plivo.log.debug('stats socket disconnect()');
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
     if (this.ws) {
       // unbind websocket event callbacks
       this.ws.onopen = () => {};
@@ -170,26 +197,23 @@ export class StatsSocket {
   /**
    * Send messages to the socket.
    * @param {Object} message - call stats(Answered/RTP/Summary/Feedback/Failure Events)
+   * @param {Client} client - client reference
+   * @param {Boolean} isRetry - the message is already buffered by an earlier attempt
    */
-  send = (message: {[key:string]: any}, client: Client): boolean => {
-    if (retryAttempts === C.SOCKET_SEND_STATS_RETRY_ATTEMPTS) {
-      this.messageBuffer.push(JSON.stringify(message));
-    }
+  send = (message: {[key:string]: any}, client: Client, isRetry = false): boolean => {
     if (this.isConnected() && navigator.onLine) {
       Plivo.log.debug('stats : ', message);
-      while (this.messageBuffer.length) {
-        if (this.ws) {
-          const item = this.messageBuffer.shift();
-          this.ws.send(item as string);
-          Plivo.log.debug('stats send success');
-          if (message.msg === 'CALL_SUMMARY' || message.msg === 'FEEDBACK') {
-            // destroying stats socket since call has ended
-            this.disconnect();
-            client.statsSocket = null;
-            client.networkChangeInCurrentSession = false;
-            client.deviceToggledInCurrentSession = false;
-          }
-        }
+      // buffered messages go first to keep the order, a retried message is one of them
+      this.flush();
+      if (!isRetry && this.ws) this.ws.send(JSON.stringify(message));
+      Plivo.log.debug('stats send success');
+      if (message.msg === 'CALL_SUMMARY' || message.msg === 'FEEDBACK') {
+        // destroying stats socket since call has ended
+        this.disconnect();
+        client.statsSocket = null;
+        client.networkChangeInCurrentSession = false;
+        client.deviceToggledInCurrentSession = false;
+        client.filteredCallsInCurrentSession = 0;
       }
       if (retryAttempts !== C.SOCKET_SEND_STATS_RETRY_ATTEMPTS) {
         retryAttempts = C.SOCKET_SEND_STATS_RETRY_ATTEMPTS;
@@ -197,6 +221,8 @@ export class StatsSocket {
       }
       return true;
     }
+    // only the messages which could not be sent are persisted for replay
+    if (!isRetry) this.messageBuffer.add(JSON.stringify(message));
     if (message.msg === 'CALL_SUMMARY') {
       Plivo.log.debug('retrying to send call summary event');
       if (retryAttempts === C.SOCKET_SEND_STATS_RETRY_ATTEMPTS) {
@@ -209,7 +235,7 @@ export class StatsSocket {
     setTimeout(() => {
       retrySecondsCount += 1;
       retryAttempts -= 1;
-      this.send(message, client);
+      this.send(message, client, true);
     }, retrySecondsCount * 900);
 
     Plivo.log.warn('statsSocket is not open, retrying to connect');
@@ -217,6 +243,50 @@ export class StatsSocket {
     return false;
   };
 
+  /**
+   * Send the buffered messages, retrying with backoff while the socket is not open.
+   */
+  replay = (): void => {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+    if (this.isConnected() && navigator.onLine) {
+      this.replayAttempts = 0;
+      const count = this.flush();
+      if (count) Plivo.log.debug(`replayed ${count} buffered stats messages`);
+      if (this.closeWhenDrained) this.disconnect();
+      return;
+    }
+    if (!this.messageBuffer.getPendingCount()) return;
+    if (this.replayAttempts >= C.TELEMETRY_REPLAY_MAX_ATTEMPTS) {
+      // messages stay persisted for the next reconnection or page load
+      this.replayAttempts = 0;
+      if (this.closeWhenDrained) this.disconnect();
+      return;
+    }
+    const delay = Math.min(
+      C.TELEMETRY_REPLAY_MIN_DELAY * (2 ** this.replayAttempts),
+      C.TELEMETRY_REPLAY_MAX_DELAY,
+    );
+    this.replayAttempts += 1;
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = null;
+      this.reconnect();
+      this.replay();
+    }, delay);
+  };
+
+  /**
+   * Send the buffered messages in order, each one is removed from the buffer once sent.
+   * @returns Number of messages sent
+   */
+  flush = (): number => this.messageBuffer.drain((message) => {
+    if (!this.ws) return false;
+    this.ws.send(message);
+    return true;
+  });
+
   /**
    * Reconnect to the socket
    */
@@ -227,3 +297,21 @@ export class StatsSocket {
     }
   };
 }
+
+/**
+ * Replay the messages persisted by an earlier page load over a socket which is closed
+ * once they are sent.
+ * @param {TelemetryBuffer} messageBuffer - persistent buffer of the client
+ * @returns Socket used for the replay or null when nothing is pending
+ */
+export const replayPendingTelemetry = (
+  messageBuffer: TelemetryBuffer,
+): Promise<StatsSocket | null> => messageBuffer.loaded.then(() => {
+  const pending = messageBuffer.getPendingCount();
+  if (!pending) return null;
+  Plivo.log.debug(`replaying ${pending} stats messages from last session`);
+  const socket = new StatsSocket(messageBuffer);
+  socket.closeWhenDrained = true;
+  socket.replay();
+  return socket;
+});
@@ -4,21 +4,98 @@
 /* eslint func-names: ["error", "as-needed"] */
 import * as C from '../constants';
 import { Logger } from '../logger';
+import { CallQualityReport } from '../stats/qualityReport';
 
 export interface FeedbackObject {
   overall: number;
   comment: string;
+  metadata?: FeedbackMetadata;
+  qualityReport?: CallQualityReport;
 }
 
-const Plivo = { log: Logger };
+export type FeedbackMetadata = { [key: string]: any };
+
+export type FeedbackIssueTypes = { [issue: string]: string };
+
+export interface FeedbackOptions {
+  metadata?: FeedbackMetadata;
+  sendQualityReport?: boolean;
+}
+
+export interface FeedbackValidationOptions {
+  issueTypes?: FeedbackIssueTypes;
+  metadata?: FeedbackMetadata;
+}
+
+export interface FeedbackResult {
+  status: 'sent' | 'queued' | 'failed';
+  callUUID: string;
+  feedback: FeedbackObject;
+  consoleLogsSent: boolean;
+  sipTraceSent: boolean;
+  message: string;
+}
+
+const Plivo = { log: Logger.scope('feedback') };
+
+/**
+ * Convert the issue categories registered by the application to issue types.
+ * @param {Array<String>|Object} issues - issue names, or issue names with the value reported
+ * @returns Valid issue types, keyed by the upper case issue name
+ */
+export const parseFeedbackIssues = (
+  issues: string[] | FeedbackIssueTypes,
+): FeedbackIssueTypes => {
+  const issueTypes: FeedbackIssueTypes = {};
+  if (!issues || typeof issues !== 'object') return issueTypes;
+  const entries = Array.isArray(issues)
+    ? issues.map((issue) => [issue, typeof issue === 'string' ? issue.trim().toLowerCase() : ''])
+    : Object.keys(issues).map((issue) => [issue, issues[issue]]);
+  entries.forEach(([issue, value]) => {
+    const key = typeof issue === 'string' ? issue.trim().toUpperCase().replace(/\s+/g, '_') : '';
+    if (
+      !/^[A-Z0-9_]+$/.test(key)
+      || key.length > C.FEEDBACK_ISSUE_MAX_LENGTH
+      || typeof value !== 'string'
+      || !value.trim()
+    ) {
+      Plivo.log.warn(`ignoring invalid feedback issue ${issue}`);
+      return;
+    }
+    issueTypes[key] = value.trim().replace(/\s+/g, '_');
+  });
+  return issueTypes;
+};
 
 /**
- * Check if feedback issues are from predefined list of issues.
+ * Check if feedback metadata is an object which can be serialized within the size limit.
+ * @param {Object} metadata - data attached by the application
+ * @returns Error message or null if the metadata is valid
+ */
+const getMetadataError = (metadata: FeedbackMetadata): string | null => {
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return 'Attribute metadata should be an object';
+  }
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(metadata);
+  } catch (err) {
+    return 'Attribute metadata should be serializable to JSON';
+  }
+  if (serialized.length > C.FEEDBACK_METADATA_MAX_LENGTH) {
+    return `Maximum length for metadata is ${C.FEEDBACK_METADATA_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Check if feedback issues are from the list of issues.
  * @param {Function} resolve - return validated feedback information when fulfilled
  * @param {Function} reject - not fulfilled if feedback parameters are wrong
  * @param {String} note - Send any remarks
  * @param {Array<String>} issues - Provide suspected issues
  * @param {Number} score - Rate the call from 1 to 5
+ * @param {FeedbackIssueTypes} issueTypes - predefined and registered issues
  */
 const validateIssues = function (
   resolve: (value: FeedbackObject) => void,
@@ -26,6 +103,7 @@ const validateIssues = function (
   note: string,
   issues: string[] = [],
   score: number,
+  issueTypes: FeedbackIssueTypes,
 ): void {
   const issuesEnum: string[] = [];
   if (!Array.isArray(issues)) {
@@ -44,12 +122,12 @@ const validateIssues = function (
     issues.forEach((issue) => {
       if (typeof issue === 'string') {
         const _issue = issue.trim().toUpperCase();
-        const extractedIssue = C.DEFAULT_COMMENTS[_issue];
+        const extractedIssue = issueTypes[_issue];
         if (extractedIssue) issuesEnum.push(extractedIssue);
       }
     });
     if (issuesEnum.length < 1) {
-      const validIssues = Object.keys(C.DEFAULT_COMMENTS);
+      const validIssues = Object.keys(issueTypes);
       if (score === 5) {
         // star rating can choose to send or not send issues
         Plivo.log.debug(
@@ -83,6 +161,7 @@ const validateIssues = function (
  * @param {Array<String>} issues - Provide suspected issues
  * @param {String} userName
  * @param {Boolean} isLoggedIn - Loggedin status
+ * @param {FeedbackValidationOptions} options - (Optional) issues to accept and metadata to attach
  */
 export const validateFeedback = function (
   callUUID: string,
@@ -91,6 +170,7 @@ export const validateFeedback = function (
   issues: string[],
   userName: string,
   isLoggedIn: boolean,
+  options: FeedbackValidationOptions = {},
 ): Promise<FeedbackObject> {
   return new Promise((resolve, reject) => {
     if (!userName) {
@@ -128,6 +208,22 @@ export const validateFeedback = function (
       reject('Maximum length for note is 280 charecters');
       return;
     }
-    validateIssues(resolve, reject, note, issues, starRatingNumber);
+    const { metadata } = options;
+    if (metadata !== undefined) {
+      const metadataError = getMetadataError(metadata);
+      if (metadataError) {
+        Plivo.log.error(`submitCallQualityFeedback() ${metadataError}`);
+        reject(metadataError);
+        return;
+      }
+    }
+    validateIssues(
+      (feedback) => resolve(metadata ? { ...feedback, metadata } : feedback),
+      reject,
+      note,
+      issues,
+      starRatingNumber,
+      options.issueTypes || C.DEFAULT_COMMENTS,
+    );
   });
 };
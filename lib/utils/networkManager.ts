@@ -2,7 +2,7 @@
 /* eslint-disable import/no-cycle */
 /* eslint-disable no-underscore-dangle */
 import * as SipLib from 'plivo-jssip';
-import { Client } from '../client';
+import { Client, ReconnectionPolicy } from '../client';
 import { Logger } from '../logger';
 import { sendEvents } from '../stats/nonRTPStats';
 import { createStatsSocket } from '../stats/setup';
@@ -13,7 +13,7 @@ interface PingPong {
   messageCheckTimeout: number
 }
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('networkManager') };
 
 export const restartStatSocket = (client: Client) => {
   if (client.callstatskey && navigator.onLine && client._currentSession) {
@@ -53,6 +53,19 @@ export const sendNetworkChangeEvent = async (client: Client, ipAddress: string)
   client.networkReconnectionTimestamp = null;
 };
 
+/**
+ * Get the wait time before the next websocket reconnection attempt. The interval doubles with
+ * every attempt and is spread by the jitter so that clients do not reconnect at the same time.
+ * @param {ReconnectionPolicy} policy - reconnection backoff policy
+ * @param {Number} attempt - reconnection attempt count starting from 1
+ * @returns wait time in milliseconds
+ */
+export const getReconnectionDelay = (policy: ReconnectionPolicy, attempt: number): number => {
+  const interval = Math.min(policy.minInterval * 2 ** (attempt - 1), policy.maxInterval);
+  const jitter = interval * policy.jitter * (Math.random() * 2 - 1);
+  return Math.round(Math.max(interval + jitter, 0) * 1000);
+};
+
 export const reconnectSocket = (client: Client) => {
   if (navigator.onLine) {
     Plivo.log.debug('Network changed re-registering');
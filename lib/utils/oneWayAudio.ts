@@ -5,7 +5,7 @@ import { Logger } from '../logger';
 import { Client } from '../client';
 import getBrowserDetails from './browserDetection';
 
-const Plivo = { log: Logger };
+const Plivo = { log: Logger.scope('oneWayAudio') };
 let localStream: MediaStream | null;
 let pc1: any;
 let pc2: RTCPeerConnection;
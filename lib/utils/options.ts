@@ -6,9 +6,31 @@ import * as C from '../constants';
 import {
   Logger, AvailableLogMethods, AvailableFlagValues, DtmfOptions,
 } from '../logger';
-import { ConfiguationOptions } from '../client';
+import {
+  ConfiguationOptions,
+  ReconnectionPolicy,
+  QualityThresholds,
+  QualityThresholdsOptions,
+  AutoAnswerPolicy,
+  CallWaitingToneOptions,
+} from '../client';
+import { StatsSink } from '../stats/sinks';
+
+const Plivo = { log: Logger.scope('options') };
 
-const Plivo = { log: Logger };
+/**
+ * Copy the thresholds of each metric so the defaults are never modified.
+ * @param {QualityThresholds} thresholds - thresholds to copy
+ */
+const copyQualityThresholds = function (thresholds: QualityThresholds): QualityThresholds {
+  return {
+    rtt: { ...thresholds.rtt },
+    jitter: { ...thresholds.jitter },
+    packetLoss: { ...thresholds.packetLoss },
+    mos: { ...thresholds.mos },
+    audioLevel: { ...thresholds.audioLevel },
+  };
+};
 
 // Default options flag
 // eslint-disable-next-line
@@ -29,8 +51,19 @@ const _options: ConfiguationOptions = {
   disableRtpTimeOut: false,
   allowMultipleIncomingCalls: false,
   closeProtection: false,
+  earlyMedia: false,
   maxAverageBitrate: C.MAX_AVERAGE_BITRATE,
   dtmfOptions: C.DEFAULT_DTMFOPTIONS,
+  tokenProvider: null,
+  registerExpires: C.REGISTER_EXPIRES_SECONDS,
+  reconnectionPolicy: { ...C.DEFAULT_RECONNECTION_POLICY },
+  loginTimeout: C.DEFAULT_LOGIN_TIMEOUT,
+  transport: null,
+  qualityThresholds: copyQualityThresholds(C.DEFAULT_QUALITY_THRESHOLDS),
+  statsSinks: [],
+  statsBeaconUrl: null,
+  autoAnswer: { ...C.DEFAULT_AUTO_ANSWER_POLICY, callers: [] } as AutoAnswerPolicy,
+  callWaitingTone: { ...C.DEFAULT_CALL_WAITING_TONE },
 };
 
 /**
@@ -145,6 +178,222 @@ const checkDTMFOptions = function (dtmfOptions: DtmfOptions): DtmfOptions {
   return C.DEFAULT_DTMFOPTIONS;
 };
 
+/**
+ * Check if provided reconnection policy values are in the allowed range.
+ * Invalid values are replaced with the default values.
+ * @param {ReconnectionPolicy} policy - reconnection policy passed by user while initializing client
+ */
+const checkReconnectionPolicy = function (
+  policy: Partial<ReconnectionPolicy>,
+): ReconnectionPolicy {
+  const validPolicy: ReconnectionPolicy = { ...C.DEFAULT_RECONNECTION_POLICY };
+  const isInRange: { [key: string]: (val: number) => boolean } = {
+    minInterval: (val) => val > 0,
+    maxInterval: (val) => val > 0,
+    jitter: (val) => val >= 0 && val <= 1,
+    maxAttempts: (val) => val >= 0 && isWholeNumber(val),
+  };
+  Object.keys(policy).forEach((key) => {
+    if (!isInRange[key]) {
+      Plivo.log.warn(`Ignoring invalid reconnectionPolicy key ${key}`);
+      return;
+    }
+    const val = (policy as any)[key];
+    if (!isNumber(`reconnectionPolicy.${key}`, val)) return;
+    if (isInRange[key](val)) {
+      (validPolicy as any)[key] = val;
+    } else {
+      Plivo.log.error(`reconnectionPolicy.${key} value ${val} is out of range`);
+    }
+  });
+  if (validPolicy.minInterval > validPolicy.maxInterval) {
+    Plivo.log.error('reconnectionPolicy.minInterval cannot be greater than maxInterval');
+    validPolicy.maxInterval = validPolicy.minInterval;
+  }
+  return validPolicy;
+};
+
+/**
+ * Check if provided auto answer policy values are valid.
+ * Invalid values are replaced with the default values.
+ * @param {AutoAnswerPolicy} policy - auto answer policy passed by user while initializing client
+ */
+const checkAutoAnswerPolicy = function (policy: Partial<AutoAnswerPolicy>): AutoAnswerPolicy {
+  const validPolicy = { ...C.DEFAULT_AUTO_ANSWER_POLICY, callers: [] } as AutoAnswerPolicy;
+  const isValid: { [key: string]: (val: any) => boolean } = {
+    mode: (val) => C.AUTO_ANSWER_MODES.includes(val),
+    callers: (val) => Array.isArray(val)
+      && val.every((caller) => typeof caller === 'string' || caller instanceof RegExp),
+    delay: (val) => typeof val === 'number' && val >= 0,
+    beep: (val) => typeof val === 'boolean',
+  };
+  Object.keys(policy).forEach((key) => {
+    if (!isValid[key]) {
+      Plivo.log.warn(`Ignoring invalid autoAnswer key ${key}`);
+      return;
+    }
+    const val = (policy as any)[key];
+    if (isValid[key](val)) {
+      (validPolicy as any)[key] = key === 'callers' ? val.slice() : val;
+    } else {
+      Plivo.log.error(`autoAnswer.${key} value ${val} is not valid`);
+    }
+  });
+  if (validPolicy.mode === 'caller' && !validPolicy.callers.length) {
+    Plivo.log.warn('autoAnswer.callers is empty, no call will be answered automatically');
+  }
+  return validPolicy;
+};
+
+/**
+ * Check if provided call waiting tone values are in the allowed range.
+ * Invalid values are replaced with the default values.
+ * @param {CallWaitingToneOptions} tone - call waiting tone passed by user while initializing client
+ */
+const checkCallWaitingTone = function (
+  tone: Partial<CallWaitingToneOptions>,
+): CallWaitingToneOptions {
+  const validTone: CallWaitingToneOptions = { ...C.DEFAULT_CALL_WAITING_TONE };
+  const isPositive = (val: any) => typeof val === 'number' && val > 0;
+  const isValid: { [key: string]: (val: any) => boolean } = {
+    enabled: (val) => typeof val === 'boolean',
+    frequency: isPositive,
+    volume: (val) => isPositive(val) && val <= 1,
+    cadence: (val) => Array.isArray(val) && val.length > 0 && val.every(isPositive),
+    interval: isPositive,
+  };
+  Object.keys(tone).forEach((key) => {
+    if (!isValid[key]) {
+      Plivo.log.warn(`Ignoring invalid callWaitingTone key ${key}`);
+      return;
+    }
+    const val = (tone as any)[key];
+    if (isValid[key](val)) {
+      (validTone as any)[key] = key === 'cadence' ? val.slice() : val;
+    } else {
+      Plivo.log.error(`callWaitingTone.${key} value ${val} is not valid`);
+    }
+  });
+  const cadenceDuration = validTone.cadence.reduce((total, duration) => total + duration, 0);
+  if (cadenceDuration > validTone.interval) {
+    Plivo.log.error('callWaitingTone.interval cannot be shorter than the cadence');
+    validTone.interval = cadenceDuration;
+  }
+  return validTone;
+};
+
+/**
+ * Check if provided quality thresholds are in the allowed range.
+ * Invalid values are replaced with the default values.
+ * @param {QualityThresholdsOptions} thresholds - thresholds passed by user while initializing
+ * client
+ */
+const checkQualityThresholds = function (
+  thresholds: QualityThresholdsOptions,
+): QualityThresholds {
+  const validThresholds = copyQualityThresholds(C.DEFAULT_QUALITY_THRESHOLDS);
+  const isCount = (val: number) => val >= 0 && isWholeNumber(val);
+  const isFraction = (val: number) => val > 0 && val <= 1;
+  const isPositive = (val: number) => val > 0;
+  const isInRange: { [metric: string]: { [key: string]: (val: number) => boolean } } = {
+    rtt: { threshold: isPositive },
+    jitter: { threshold: isPositive },
+    packetLoss: { threshold: isFraction, opusThreshold: isFraction },
+    mos: { threshold: (val) => val >= 1 && val <= 5 },
+    audioLevel: { silenceDuration: isPositive },
+  };
+  Object.keys(thresholds).forEach((metric) => {
+    if (!isInRange[metric]) {
+      Plivo.log.warn(`Ignoring invalid qualityThresholds key ${metric}`);
+      return;
+    }
+    const values = thresholds[metric];
+    if (!values || typeof values !== 'object') {
+      Plivo.log.error(`qualityThresholds.${metric} has to be an object`);
+      return;
+    }
+    const validMetric = validThresholds[metric];
+    Object.keys(values).forEach((key) => {
+      const check = key in validMetric ? isInRange[metric][key] || isCount : null;
+      if (!check) {
+        Plivo.log.warn(`Ignoring invalid qualityThresholds.${metric} key ${key}`);
+        return;
+      }
+      const val = values[key];
+      if (!isNumber(`qualityThresholds.${metric}.${key}`, val)) return;
+      if (check(val)) {
+        validMetric[key] = val;
+      } else {
+        Plivo.log.error(`qualityThresholds.${metric}.${key} value ${val} is out of range`);
+      }
+    });
+    // audio level counts the samples needed to cover the silence duration
+    const raiseCount = metric === 'audioLevel'
+      ? Math.ceil(validMetric.silenceDuration / C.GETSTATS_INTERVAL)
+      : validMetric.raiseCount;
+    if (
+      validMetric.windowSize < 1
+      || raiseCount < 1
+      || raiseCount > validMetric.windowSize
+      || validMetric.clearCount >= raiseCount
+    ) {
+      Plivo.log.error(
+        `qualityThresholds.${metric} needs clearCount < raiseCount <= windowSize, using defaults`,
+      );
+      validThresholds[metric] = { ...C.DEFAULT_QUALITY_THRESHOLDS[metric] };
+    }
+  });
+  return validThresholds;
+};
+
+/**
+ * Check if provided stats sinks implement onEvent or onRtpStats. Invalid sinks are ignored.
+ * @param {Array<StatsSink>} sinks - stats sinks passed by user while initializing client
+ */
+const checkStatsSinks = function (sinks: StatsSink[]): StatsSink[] {
+  if (!Array.isArray(sinks)) {
+    Plivo.log.error(`statsSinks has to be an array. ${sinks} is not accepted`);
+    return [];
+  }
+  return sinks.filter((sink) => {
+    const isSink = !!sink
+      && typeof sink === 'object'
+      && (typeof sink.onEvent === 'function' || typeof sink.onRtpStats === 'function');
+    if (!isSink) {
+      Plivo.log.error('Ignoring stats sink which does not implement onEvent or onRtpStats');
+    }
+    return isSink;
+  });
+};
+
+/**
+ * Check if the stats beacon endpoint is an https url. The endpoint is hosted by the
+ * application and forwards the posted stats to Plivo.
+ * @param {String} url - endpoint passed by user while initializing client
+ */
+const checkBeaconUrl = function (url: any): boolean {
+  if (typeof url === 'string' && /^https:\/\/\S+$/.test(url)) return true;
+  Plivo.log.error(`statsBeaconUrl has to be an https url. ${url} is not accepted`);
+  return false;
+};
+
+/**
+ * Check if the transport implements the JsSIP socket interface.
+ * @param {Socket} transport - signalling transport passed by user while initializing client
+ */
+const checkTransport = function (transport: any): boolean {
+  const isSocket = !!transport
+    && typeof transport === 'object'
+    && ['connect', 'disconnect', 'send'].every((method) => typeof transport[method] === 'function')
+    && ['via_transport', 'url', 'sip_uri'].every((key) => typeof transport[key] === 'string');
+  if (!isSocket) {
+    Plivo.log.error(
+      'transport has to implement connect, disconnect, send, via_transport, url and sip_uri',
+    );
+  }
+  return isSocket;
+};
+
 /**
  * Validate all options we get during initialization.
  * @param {ConfiguationOptions} options - client configuration parameters
@@ -260,6 +509,11 @@ const validateOptions = function (
             _options.closeProtection = options[key];
           }
           break;
+        case 'earlyMedia':
+          if (isBoolean(key, options[key])) {
+            _options.earlyMedia = options[key];
+          }
+          break;
         case 'maxAverageBitrate':
           if (isNumber(key, options[key])) {
             if (
@@ -285,6 +539,81 @@ const validateOptions = function (
             _options.dtmfOptions = C.DEFAULT_DTMFOPTIONS;
           }
           break;
+        case 'tokenProvider':
+          if (typeof options[key] === 'function' || options[key] === null) {
+            _options.tokenProvider = options[key];
+          } else {
+            Plivo.log.error(`${key} has to be a function. ${options[key]} is not accepted`);
+          }
+          break;
+        case 'registerExpires':
+          if (isNumber(key, options[key])) {
+            if (
+              options[key]! >= C.MIN_REGISTER_EXPIRES_SECONDS
+              && options[key]! <= C.MAX_REGISTER_EXPIRES_SECONDS
+              && isWholeNumber(options[key])
+            ) {
+              _options.registerExpires = options[key];
+            } else {
+              Plivo.log.error(
+                `registerExpires should be an integer in between ${
+                  C.MIN_REGISTER_EXPIRES_SECONDS
+                } and ${
+                  C.MAX_REGISTER_EXPIRES_SECONDS}`,
+              );
+            }
+          }
+          break;
+        case 'reconnectionPolicy':
+          if (options[key] && typeof options[key] === 'object') {
+            _options.reconnectionPolicy = checkReconnectionPolicy(options[key]!);
+          } else {
+            Plivo.log.error(`${key} has to be an object. ${options[key]} is not accepted`);
+          }
+          break;
+        case 'loginTimeout':
+          if (isNumber(key, options[key])) {
+            if (options[key]! >= 0) {
+              _options.loginTimeout = options[key];
+            } else {
+              Plivo.log.error('loginTimeout cannot be negative');
+            }
+          }
+          break;
+        case 'transport':
+          if (options[key] === null || checkTransport(options[key])) {
+            _options.transport = options[key];
+          }
+          break;
+        case 'statsSinks':
+          _options.statsSinks = checkStatsSinks(options[key]!);
+          break;
+        case 'statsBeaconUrl':
+          if (options[key] === null || checkBeaconUrl(options[key])) {
+            _options.statsBeaconUrl = options[key];
+          }
+          break;
+        case 'autoAnswer':
+          if (options[key] && typeof options[key] === 'object') {
+            _options.autoAnswer = checkAutoAnswerPolicy(options[key]!);
+          } else {
+            Plivo.log.error(`${key} has to be an object. ${options[key]} is not accepted`);
+          }
+          break;
+        case 'callWaitingTone':
+          if (options[key] && typeof options[key] === 'object') {
+            _options.callWaitingTone = checkCallWaitingTone(options[key]!);
+          } else {
+            Plivo.log.error(`${key} has to be an object. ${options[key]} is not accepted`);
+          }
+          break;
+        case 'qualityThresholds':
+          if (options[key] && typeof options[key] === 'object') {
+            _options.qualityThresholds = checkQualityThresholds(options[key]!);
+          } else {
+            Plivo.log.error(`${key} has to be an object. ${options[key]} is not accepted`);
+          }
+          break;
         default:
           Plivo.log.warn(`Ignoring invalid option key ${key}`);
       }
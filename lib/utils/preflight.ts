@@ -0,0 +1,434 @@
+/* eslint-disable import/no-cycle */
+/* eslint-disable no-underscore-dangle */
+/* eslint func-names: ["error", "as-needed"] */
+import * as C from '../constants';
+import { Logger } from '../logger';
+import { Client } from '../client';
+import { AudioLevel } from '../media/audioLevel';
+import { estimateMos } from '../stats/rtpStats';
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail' | 'skipped';
+
+export interface PreflightMicrophoneResult {
+  status: PreflightStatus;
+  deviceLabel: string | null;
+  audioLevel: number | null;
+  error?: string;
+}
+
+export interface PreflightSpeakerResult {
+  status: PreflightStatus;
+  deviceId: string | null;
+  error?: string;
+}
+
+export interface PreflightNetworkResult {
+  status: PreflightStatus;
+  candidateTypes: string[];
+  error?: string;
+}
+
+export interface PreflightQualityResult {
+  status: PreflightStatus;
+  rtt: number | null;
+  jitter: number | null;
+  packetLoss: number | null;
+  mos: number | null;
+  error?: string;
+}
+
+export interface PreflightReport {
+  startTime: number;
+  endTime: number;
+  microphone: PreflightMicrophoneResult;
+  speaker: PreflightSpeakerResult;
+  network: PreflightNetworkResult;
+  quality: PreflightQualityResult;
+  passed: boolean;
+}
+
+export interface PreflightProgress {
+  step: string;
+  status: string;
+  result?: PreflightMicrophoneResult | PreflightSpeakerResult | PreflightNetworkResult
+  | PreflightQualityResult;
+}
+
+export interface PreflightOptions {
+  duration?: number;
+}
+
+const Plivo = { log: Logger.scope('preflight') };
+
+let runningTest: Promise<PreflightReport> | null = null;
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => {
+  setTimeout(resolve, ms);
+});
+
+/**
+ * Emit the progress of a preflight step.
+ * @param {Client} client - client reference
+ * @param {PreflightProgress} progress - step name, its status and result once completed
+ */
+const emitProgress = (client: Client, progress: PreflightProgress): void => {
+  Plivo.log.debug(`preflight ${progress.step} ${progress.status}`);
+  client.emit('onPreflightProgress', progress);
+};
+
+/**
+ * Measure the loudest microphone level while the test runs.
+ * @param {MediaStream} stream - microphone stream
+ * @param {Number} duration - sampling duration in milliseconds
+ */
+const measureMicrophone = (
+  stream: MediaStream,
+  duration: number,
+): Promise<PreflightMicrophoneResult> => {
+  const [track] = stream.getAudioTracks();
+  const deviceLabel = track ? track.label || null : null;
+  let audioLevel: AudioLevel;
+  try {
+    audioLevel = new AudioLevel(stream);
+  } catch (err) {
+    return Promise.resolve({
+      status: 'warn',
+      deviceLabel,
+      audioLevel: null,
+      error: `Unable to analyse microphone level : ${err}`,
+    });
+  }
+  let maxLevel = -100;
+  const sampler = setInterval(() => {
+    maxLevel = Math.max(maxLevel, audioLevel.getAudioLevel());
+  }, C.PREFLIGHT_MIC_SAMPLE_INTERVAL);
+  return wait(duration).then(() => {
+    clearInterval(sampler);
+    audioLevel.stop();
+    // -100 dB is reported when there is no signal at all from the microphone
+    return maxLevel > -100
+      ? { status: 'pass', deviceLabel, audioLevel: maxLevel }
+      : {
+        status: 'fail',
+        deviceLabel,
+        audioLevel: maxLevel,
+        error: 'No audio detected from the microphone',
+      };
+  });
+};
+
+/**
+ * Play the connect tone on the speaker selected for calls.
+ * @param {Client} client - client reference
+ */
+const testSpeaker = (client: Client): Promise<PreflightSpeakerResult> => {
+  const deviceId = client.remoteView && client.remoteView.sinkId
+    ? client.remoteView.sinkId as string
+    : null;
+  const audio: any = new Audio(C.CONNECT_TONE_URL);
+  const setSink = deviceId && typeof audio.setSinkId === 'function'
+    ? audio.setSinkId(deviceId)
+    : Promise.resolve();
+  return setSink
+    .then(() => audio.play())
+    .then((): PreflightSpeakerResult => ({ status: 'pass', deviceId }))
+    .catch((err: Error): PreflightSpeakerResult => ({
+      status: 'fail',
+      deviceId,
+      error: err && err.name ? err.name : String(err),
+    }))
+    .then((result: PreflightSpeakerResult) => {
+      audio.pause();
+      return result;
+    });
+};
+
+/**
+ * Get the type(host, srflx, prflx or relay) of an ice candidate.
+ * @param {RTCIceCandidate} candidate - gathered ice candidate
+ */
+const getCandidateType = (candidate: RTCIceCandidate): string | null => {
+  if (candidate.type) return candidate.type;
+  const match = /typ (\w+)/.exec(candidate.candidate);
+  return match ? match[1] : null;
+};
+
+/**
+ * Resolve once ice gathering completes or times out.
+ * @param {RTCPeerConnection} pc - peer connection gathering candidates
+ * @param {Set<String>} candidateTypes - collects the type of each gathered candidate
+ * @param {RTCPeerConnection} peer - loopback peer which receives the candidates
+ */
+const gatherCandidates = (
+  pc: RTCPeerConnection,
+  candidateTypes: Set<string>,
+  peer: RTCPeerConnection,
+): Promise<void> => new Promise((resolve) => {
+  const timer = setTimeout(resolve, C.ICE_GATHERING_TIMEOUT);
+  const done = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  pc.addEventListener('icecandidate', (event: RTCPeerConnectionIceEvent) => {
+    if (!event.candidate) {
+      done();
+      return;
+    }
+    const type = getCandidateType(event.candidate);
+    if (type) candidateTypes.add(type);
+    peer.addIceCandidate(event.candidate).catch((err) => {
+      Plivo.log.debug(`preflight unable to add ice candidate : ${err}`);
+    });
+  });
+  pc.addEventListener('icegatheringstatechange', () => {
+    if (pc.iceGatheringState === 'complete') done();
+  });
+});
+
+/**
+ * Resolve with true once the loopback connection is established.
+ * @param {RTCPeerConnection} pc - peer connection to watch
+ */
+const waitForConnection = (pc: RTCPeerConnection): Promise<boolean> => new Promise(
+  (resolve) => {
+    const isConnected = () => ['connected', 'completed'].includes(pc.iceConnectionState);
+    if (isConnected()) {
+      resolve(true);
+      return;
+    }
+    const timer = setTimeout(() => resolve(false), C.PREFLIGHT_CONNECTION_TIMEOUT);
+    pc.addEventListener('iceconnectionstatechange', () => {
+      if (isConnected()) {
+        clearTimeout(timer);
+        resolve(true);
+      }
+    });
+  },
+);
+
+/**
+ * Get rtt, jitter and packet loss of the loopback connection.
+ * @param {RTCPeerConnection} sender - peer connection sending the microphone audio
+ * @param {RTCPeerConnection} receiver - peer connection receiving the microphone audio
+ */
+const getLoopbackQuality = (
+  sender: RTCPeerConnection,
+  receiver: RTCPeerConnection,
+): Promise<PreflightQualityResult> => Promise.all([sender.getStats(), receiver.getStats()])
+  .then(([senderStats, receiverStats]) => {
+    let rtt: number | null = null;
+    let jitter: number | null = null;
+    let packetLoss: number | null = null;
+    senderStats.forEach((report: any) => {
+      if (report.type === 'candidate-pair' && report.nominated
+        && typeof report.currentRoundTripTime === 'number') {
+        rtt = report.currentRoundTripTime * 1000;
+      }
+    });
+    receiverStats.forEach((report: any) => {
+      if (report.type === 'inbound-rtp' && (report.kind || report.mediaType) === 'audio') {
+        jitter = (report.jitter || 0) * 1000;
+        const packetsLost = report.packetsLost || 0;
+        const packetsTotal = packetsLost + (report.packetsReceived || 0);
+        packetLoss = packetsTotal ? packetsLost / packetsTotal : 0;
+      }
+    });
+    if (jitter === null || packetLoss === null) {
+      return {
+        status: 'fail',
+        rtt,
+        jitter,
+        packetLoss,
+        mos: null,
+        error: 'No audio received on the loopback connection',
+      } as PreflightQualityResult;
+    }
+    const mos = estimateMos(rtt || 0, jitter, packetLoss, 'opus');
+    return {
+      status: mos >= C.PREFLIGHT_MIN_MOS ? 'pass' : 'warn',
+      rtt,
+      jitter,
+      packetLoss,
+      mos,
+    } as PreflightQualityResult;
+  });
+
+/**
+ * Connect two peer connections through the configured STUN servers and measure the media.
+ * @param {Client} client - client reference
+ * @param {MediaStream} stream - microphone stream, null when the microphone is not accessible
+ * @param {Number} duration - time in milliseconds for which media is sent before reading stats
+ */
+const testConnection = (
+  client: Client,
+  stream: MediaStream | null,
+  duration: number,
+): Promise<{ network: PreflightNetworkResult, quality: PreflightQualityResult }> => {
+  const config = { iceServers: [{ urls: C.STUN_SERVERS }] };
+  const sender = new RTCPeerConnection(config);
+  const receiver = new RTCPeerConnection(config);
+  const candidateTypes = new Set<string>();
+  const close = () => {
+    sender.close();
+    receiver.close();
+  };
+  receiver.onicecandidate = (event: RTCPeerConnectionIceEvent) => {
+    if (event.candidate) sender.addIceCandidate(event.candidate).catch(() => {});
+  };
+  if (stream) {
+    stream.getAudioTracks().forEach((track) => sender.addTrack(track, stream));
+  }
+  emitProgress(client, { step: 'network', status: 'started' });
+  const gathered = gatherCandidates(sender, candidateTypes, receiver);
+  return sender.createOffer({ offerToReceiveAudio: true })
+    .then((offer) => sender.setLocalDescription(offer)
+      .then(() => receiver.setRemoteDescription(offer)))
+    .then(() => receiver.createAnswer())
+    .then((answer) => receiver.setLocalDescription(answer)
+      .then(() => sender.setRemoteDescription(answer)))
+    .then(() => gathered)
+    .then(() => {
+      const types = Array.from(candidateTypes);
+      let status: PreflightStatus = 'pass';
+      let error: string | undefined;
+      if (!types.length) {
+        status = 'fail';
+        error = 'No ice candidates gathered';
+      } else if (!types.includes('srflx') && !types.includes('relay')) {
+        status = 'warn';
+        error = 'STUN servers are not reachable, possible NAT/Firewall issue';
+      }
+      const network: PreflightNetworkResult = error
+        ? { status, candidateTypes: types, error }
+        : { status, candidateTypes: types };
+      emitProgress(client, { step: 'network', status: 'completed', result: network });
+      if (!stream) {
+        const quality: PreflightQualityResult = {
+          status: 'skipped',
+          rtt: null,
+          jitter: null,
+          packetLoss: null,
+          mos: null,
+          error: 'Microphone is not accessible',
+        };
+        return { network, quality };
+      }
+      emitProgress(client, { step: 'quality', status: 'started' });
+      return waitForConnection(sender)
+        .then((connected) => {
+          if (!connected) {
+            return {
+              status: 'fail',
+              rtt: null,
+              jitter: null,
+              packetLoss: null,
+              mos: null,
+              error: 'Loopback connection could not be established',
+            } as PreflightQualityResult;
+          }
+          return wait(duration).then(() => getLoopbackQuality(sender, receiver));
+        })
+        .then((quality) => {
+          emitProgress(client, { step: 'quality', status: 'completed', result: quality });
+          return { network, quality };
+        });
+    })
+    .then((result) => {
+      close();
+      return result;
+    })
+    .catch((err) => {
+      close();
+      throw err;
+    });
+};
+
+/**
+ * Run the microphone, speaker, network and loopback media checks.
+ * @param {Client} client - client reference
+ * @param {Number} duration - test duration in milliseconds
+ */
+const runTest = (client: Client, duration: number): Promise<PreflightReport> => {
+  const startTime = new Date().getTime();
+  let stream: MediaStream | null = null;
+  emitProgress(client, { step: 'microphone', status: 'started' });
+  return navigator.mediaDevices
+    .getUserMedia({ audio: client.options.audioConstraints || true, video: false })
+    .then((micStream) => {
+      stream = micStream;
+      return null;
+    })
+    .catch((err) => {
+      Plivo.log.error('preflight unable to access microphone ', err);
+      return err && err.name ? err.name : String(err);
+    })
+    .then((micError: string | null) => {
+      const microphoneCheck: Promise<PreflightMicrophoneResult> = stream
+        ? measureMicrophone(stream, duration)
+        : Promise.resolve({
+          status: 'fail', deviceLabel: null, audioLevel: null, error: micError as string,
+        });
+      const micDone = microphoneCheck.then((microphone) => {
+        emitProgress(client, { step: 'microphone', status: 'completed', result: microphone });
+        return microphone;
+      });
+      emitProgress(client, { step: 'speaker', status: 'started' });
+      const speakerDone = testSpeaker(client).then((speaker) => {
+        emitProgress(client, { step: 'speaker', status: 'completed', result: speaker });
+        return speaker;
+      });
+      return Promise.all([micDone, speakerDone, testConnection(client, stream, duration)]);
+    })
+    .then(([microphone, speaker, { network, quality }]) => {
+      const results = [microphone, speaker, network, quality];
+      return {
+        startTime,
+        endTime: new Date().getTime(),
+        microphone,
+        speaker,
+        network,
+        quality,
+        passed: results.every((result) => result.status !== 'fail'),
+      };
+    })
+    .then((report: PreflightReport) => {
+      if (stream) stream.getTracks().forEach((track) => track.stop());
+      return report;
+    }, (err) => {
+      if (stream) stream.getTracks().forEach((track) => track.stop());
+      throw err;
+    });
+};
+
+/**
+ * Check microphone, speaker and network readiness before placing calls.
+ * @param {PreflightOptions} options - (Optional) test duration in seconds
+ * @returns Report for each check, rejects when the test cannot be run
+ */
+export const runPreflightTest = function (
+  options: PreflightOptions = {},
+): Promise<PreflightReport> {
+  const client: Client = this;
+  if (client._currentSession) {
+    return Promise.reject(new Error('Cannot run preflight test during a call'));
+  }
+  if (!window.RTCPeerConnection || !navigator.mediaDevices) {
+    return Promise.reject(new Error('WebRTC is not supported in this browser'));
+  }
+  if (runningTest) return runningTest;
+  const duration = typeof options.duration === 'number' && options.duration > 0
+    ? options.duration
+    : C.PREFLIGHT_TEST_DURATION;
+  Plivo.log.info(`running preflight test for ${duration} seconds`);
+  const clearRunning = (report: PreflightReport) => {
+    runningTest = null;
+    Plivo.log.info(`preflight test ${report.passed ? 'passed' : 'failed'}`);
+    return report;
+  };
+  runningTest = runTest(client, duration * 1000).then(clearRunning, (err) => {
+    runningTest = null;
+    Plivo.log.error('preflight test failed ', err);
+    throw err;
+  });
+  return runningTest;
+};
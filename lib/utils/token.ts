@@ -0,0 +1,58 @@
+/* eslint func-names: ["error", "as-needed"] */
+import { Logger } from '../logger';
+
+export interface AccessTokenInfo {
+  userName: string;
+  expiresAt: number;
+}
+
+const Plivo = { log: Logger.scope('token') };
+
+/**
+ * Decode a base64url encoded JWT segment.
+ * @param {String} segment - header or payload of the JWT
+ */
+const decodeSegment = function (segment: string): any {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return JSON.parse(decodeURIComponent(
+    atob(padded)
+      .split('')
+      .map((c) => `%${`00${c.charCodeAt(0).toString(16)}`.slice(-2)}`)
+      .join(''),
+  ));
+};
+
+/**
+ * Get the endpoint username and expiry time from the access token.
+ * @param {String} token - JWT access token
+ * @returns Access token details or null if the token is invalid
+ */
+export const decodeAccessToken = function (token: string): AccessTokenInfo | null {
+  if (typeof token !== 'string' || token.split('.').length !== 3) {
+    Plivo.log.error('Access token has to be a JWT');
+    return null;
+  }
+  try {
+    const payload = decodeSegment(token.split('.')[1]);
+    if (!payload.sub || typeof payload.exp !== 'number') {
+      Plivo.log.error('Access token must contain sub and exp claims');
+      return null;
+    }
+    return {
+      userName: String(payload.sub),
+      expiresAt: payload.exp * 1000,
+    };
+  } catch (err) {
+    Plivo.log.error(`Unable to decode access token : ${err}`);
+    return null;
+  }
+};
+
+/**
+ * Check if the access token is expired.
+ * @param {AccessTokenInfo} tokenInfo - access token details
+ */
+export const isAccessTokenExpired = function (tokenInfo: AccessTokenInfo): boolean {
+  return tokenInfo.expiresAt <= new Date().getTime();
+};
@@ -1,6 +1,8 @@
 let analyserData: number[] = [];
 
 class AudioContext {
+  public currentTime = 0;
+
   constructor() {
     console.log('creating audio context');
   }
@@ -35,17 +37,45 @@ class AudioContext {
     };
   };
 
+  public createMediaElementSource = () => {
+    console.log('media element source created');
+    return {
+      connect() {},
+      disconnect() {},
+    };
+  };
+
+  public createMediaStreamDestination = () => ({
+    stream: {
+      getAudioTracks: () => [{ kind: 'audio', id: 'holdMusicTrack' }],
+    },
+  });
+
   public close = () => {
     console.log('audio context closed');
   };
 
   public createGain = () => ({
+    gain: { value: 1, setValueAtTime: jest.fn() },
+    connect() {},
+    disconnect() {},
+  });
+
+  public createOscillator = () => ({
+    frequency: { value: 440 },
     connect() {},
+    disconnect() {},
+    start() {},
+    stop() {},
   });
 
   public suspend = () => {
     console.log('audio context suspended');
   };
+
+  public resume = () => {
+    console.log('audio context resumed');
+  };
 }
 
 const setAnalyserData = (data: number[]) => {
@@ -0,0 +1,282 @@
+/**
+ * Minimal WebRTC implementation for running JsSIP sessions in jsdom.
+ */
+
+let trackCounter = 0;
+
+class MediaStreamTrack {
+  public id: string;
+
+  public kind: string;
+
+  public enabled: boolean;
+
+  public readyState: string;
+
+  constructor(kind = 'audio') {
+    trackCounter += 1;
+    this.id = `${kind}Track${trackCounter}`;
+    this.kind = kind;
+    this.enabled = true;
+    this.readyState = 'live';
+  }
+
+  public stop() {
+    this.readyState = 'ended';
+  }
+
+  public getSettings() {
+    return { deviceId: 'default' };
+  }
+
+  public addEventListener() {}
+
+  public removeEventListener() {}
+}
+
+class MediaStream {
+  public id: string;
+
+  private tracks: MediaStreamTrack[];
+
+  constructor(tracks: MediaStreamTrack[] = []) {
+    trackCounter += 1;
+    this.id = `stream${trackCounter}`;
+    this.tracks = [...tracks];
+  }
+
+  public getTracks() {
+    return [...this.tracks];
+  }
+
+  public getAudioTracks() {
+    return this.tracks.filter((track) => track.kind === 'audio');
+  }
+
+  public getVideoTracks() {
+    return this.tracks.filter((track) => track.kind === 'video');
+  }
+
+  public addTrack(track: MediaStreamTrack) {
+    this.tracks.push(track);
+  }
+
+  public removeTrack(track: MediaStreamTrack) {
+    this.tracks = this.tracks.filter((t) => t !== track);
+  }
+
+  public clone() {
+    return new MediaStream(this.tracks);
+  }
+}
+
+class RTCSessionDescription {
+  public type: string;
+
+  public sdp: string;
+
+  constructor(init: { type: string; sdp: string }) {
+    this.type = init.type;
+    this.sdp = init.sdp;
+  }
+}
+
+const getSdp = () => [
+  'v=0',
+  `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0',
+  'a=msid-semantic: WMS local',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 0',
+  'c=IN IP4 127.0.0.1',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  'a=candidate:1 1 udp 2122260223 127.0.0.1 50000 typ host generation 0',
+  'a=ice-ufrag:local',
+  'a=ice-pwd:localpasswordlocalpassword',
+  'a=fingerprint:sha-256 00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'a=rtpmap:0 PCMU/8000',
+  'a=ssrc:2001 cname:local',
+  '',
+].join('\r\n');
+
+class RTCPeerConnection {
+  // candidates announced after the local description is set, none by default
+  public static candidates: string[] = [];
+
+  public localDescription: RTCSessionDescription | null;
+
+  public remoteDescription: RTCSessionDescription | null;
+
+  public signalingState: string;
+
+  public iceGatheringState: string;
+
+  public iceConnectionState: string;
+
+  public connectionState: string;
+
+  private listeners: { [type: string]: Function[] };
+
+  private senders: { track: MediaStreamTrack | null; replaceTrack: Function }[];
+
+  private localStreams: MediaStream[];
+
+  private remoteStream: MediaStream;
+
+  constructor() {
+    this.localDescription = null;
+    this.remoteDescription = null;
+    this.signalingState = 'stable';
+    this.iceGatheringState = 'complete';
+    this.iceConnectionState = 'new';
+    this.connectionState = 'new';
+    this.listeners = {};
+    this.senders = [];
+    this.localStreams = [];
+    this.remoteStream = new MediaStream([new MediaStreamTrack()]);
+  }
+
+  public addEventListener(type: string, listener: Function) {
+    this.listeners[type] = (this.listeners[type] || []).concat(listener);
+  }
+
+  public removeEventListener(type: string, listener: Function) {
+    this.listeners[type] = (this.listeners[type] || []).filter((l) => l !== listener);
+  }
+
+  public addStream(stream: MediaStream) {
+    this.localStreams.push(stream);
+    stream.getTracks().forEach((track) => this.addTrack(track));
+  }
+
+  public addTrack(track: MediaStreamTrack) {
+    const sender = {
+      track,
+      replaceTrack(newTrack: MediaStreamTrack) {
+        this.track = newTrack;
+        return Promise.resolve();
+      },
+    };
+    this.senders.push(sender);
+    return sender;
+  }
+
+  public getSenders() {
+    return this.senders;
+  }
+
+  public getReceivers() {
+    return this.remoteStream.getTracks().map((track) => ({ track }));
+  }
+
+  public getLocalStreams() {
+    return this.localStreams;
+  }
+
+  public getRemoteStreams() {
+    return [this.remoteStream];
+  }
+
+  public createOffer() {
+    return Promise.resolve(new RTCSessionDescription({ type: 'offer', sdp: getSdp() }));
+  }
+
+  public createAnswer() {
+    return Promise.resolve(new RTCSessionDescription({ type: 'answer', sdp: getSdp() }));
+  }
+
+  public setLocalDescription(description: RTCSessionDescription) {
+    this.localDescription = description;
+    this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable';
+    this.connectIfNegotiated();
+    // gathering always ends with a null candidate, re-INVITEs wait for it
+    setTimeout(() => {
+      RTCPeerConnection.candidates.forEach((candidate) => {
+        this.dispatch('icecandidate', { candidate: { candidate } });
+      });
+      this.dispatch('icecandidate', { candidate: null });
+    }, 0);
+    return Promise.resolve();
+  }
+
+  public addIceCandidate() {
+    return Promise.resolve();
+  }
+
+  public setRemoteDescription(description: RTCSessionDescription) {
+    this.remoteDescription = description;
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+    this.dispatch('track', { track: this.remoteStream.getTracks()[0], streams: [this.remoteStream] });
+    this.connectIfNegotiated();
+    return Promise.resolve();
+  }
+
+  public getStats() {
+    return Promise.resolve(new Map());
+  }
+
+  public close() {
+    this.signalingState = 'closed';
+    this.iceConnectionState = 'closed';
+  }
+
+  private connectIfNegotiated() {
+    if (this.signalingState !== 'stable' || this.iceConnectionState === 'connected') return;
+    setTimeout(() => {
+      if (this.signalingState === 'closed') return;
+      this.iceConnectionState = 'connected';
+      this.connectionState = 'connected';
+      this.dispatch('iceconnectionstatechange', {});
+      this.dispatch('connectionstatechange', {});
+    }, 0);
+  }
+
+  public dispatchEvent(event: { type: string }) {
+    (this.listeners[event.type] || []).forEach((listener) => listener(event));
+    const handler = (this as any)[`on${event.type}`];
+    if (typeof handler === 'function') handler(event);
+    return true;
+  }
+
+  private dispatch(type: string, event: object) {
+    this.dispatchEvent({ type, ...event });
+  }
+}
+
+/**
+ * Install the WebRTC mocks on window along with a microphone.
+ */
+const mockWebRTC = () => {
+  (window as any).RTCPeerConnection = RTCPeerConnection;
+  (window as any).RTCSessionDescription = RTCSessionDescription;
+  (window as any).MediaStream = MediaStream;
+  (window as any).navigator.mediaDevices = {
+    enumerateDevices: () => Promise.resolve([
+      {
+        deviceId: 'default', kind: 'audioinput', label: 'Default', groupId: 'default',
+      },
+      {
+        deviceId: 'default', kind: 'audiooutput', label: 'Default', groupId: 'default',
+      },
+    ]),
+    getUserMedia: () => Promise.resolve(new MediaStream([new MediaStreamTrack()])),
+    addEventListener() {},
+  };
+  window.HTMLMediaElement.prototype.play = () => Promise.resolve();
+  window.HTMLMediaElement.prototype.pause = () => {};
+};
+
+export {
+  MediaStreamTrack,
+  MediaStream,
+  RTCPeerConnection,
+  RTCSessionDescription,
+  mockWebRTC,
+};
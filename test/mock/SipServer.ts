@@ -0,0 +1,514 @@
+/**
+ * In-memory SIP registrar and B2BUA implementing the JsSIP socket interface.
+ * Pass an instance as the `transport` option of the client to run call flows without network.
+ *
+ * It is internal to the SDK test suite and is not part of the npm package, which ships dist
+ * only. Its SIP handling covers what our call flows exercise and changes with them, so it is
+ * not a stable API. Applications running offline end-to-end tests pass their own JsSIP socket
+ * (connect, disconnect, send, via_transport, url and sip_uri) as the `transport` option.
+ */
+
+interface SipMessage {
+  method: string | null;
+  ruri: string | null;
+  status: number | null;
+  reason: string | null;
+  headers: { [name: string]: string[] };
+  body: string;
+}
+
+interface SipDialog {
+  callId: string;
+  callUUID: string;
+  direction: 'incoming' | 'outgoing';
+  localTag: string;
+  localUri: string;
+  remoteUri: string;
+  remoteTag: string;
+  remoteTarget: string;
+  cseq: number;
+  invite: SipMessage;
+  inviteBranch: string;
+  state: 'early' | 'confirmed' | 'terminated';
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+export interface OutgoingCallBehaviour {
+  // SIP code used for rejecting the call, the call is answered when it is not set
+  failureCode?: number;
+  failureReason?: string;
+  // milliseconds after which 180 Ringing is sent
+  ringDelay?: number;
+  // sends 183 Session Progress with sdp in place of 180 Ringing
+  earlyMedia?: boolean;
+  // milliseconds after which the call is answered or failed
+  answerDelay?: number;
+  // milliseconds after the answer at which the server hangs up, the call stays up when not set
+  hangupDelay?: number;
+}
+
+export interface IncomingCallOptions {
+  from?: string;
+  callUUID?: string;
+  extraHeaders?: string[];
+}
+
+const DOMAIN = 'mock.sip.server';
+
+let counter = 0;
+const randomToken = (prefix: string) => {
+  counter += 1;
+  return `${prefix}${Date.now().toString(36)}${counter}`;
+};
+
+const getSdp = (sessionId: string) => [
+  'v=0',
+  `o=- ${sessionId} 2 IN IP4 127.0.0.1`,
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0',
+  'a=msid-semantic: WMS stream',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 0',
+  'c=IN IP4 127.0.0.1',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  'a=candidate:1 1 udp 2122260223 127.0.0.1 40000 typ host generation 0',
+  'a=ice-ufrag:mock',
+  'a=ice-pwd:mockmockmockmockmockmock',
+  'a=fingerprint:sha-256 00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'a=rtpmap:0 PCMU/8000',
+  'a=ssrc:1001 cname:mock',
+  '',
+].join('\r\n');
+
+const parseMessage = (data: string): SipMessage => {
+  const separator = data.indexOf('\r\n\r\n');
+  const head = separator === -1 ? data : data.slice(0, separator);
+  const body = separator === -1 ? '' : data.slice(separator + 4);
+  const [startLine, ...headerLines] = head.split('\r\n');
+  const message: SipMessage = {
+    method: null,
+    ruri: null,
+    status: null,
+    reason: null,
+    headers: {},
+    body,
+  };
+  if (startLine.startsWith('SIP/2.0')) {
+    const [, status, ...reason] = startLine.split(' ');
+    message.status = Number(status);
+    message.reason = reason.join(' ');
+  } else {
+    const [method, ruri] = startLine.split(' ');
+    message.method = method;
+    message.ruri = ruri;
+  }
+  headerLines.forEach((line) => {
+    const index = line.indexOf(':');
+    const name = line.slice(0, index).trim().toLowerCase();
+    const value = line.slice(index + 1).trim();
+    message.headers[name] = (message.headers[name] || []).concat(value);
+  });
+  return message;
+};
+
+const getHeader = (message: SipMessage, name: string): string => (
+  (message.headers[name.toLowerCase()] || [''])[0]
+);
+
+const getTag = (header: string): string => {
+  const match = header.match(/;tag=([^;>\s]+)/);
+  return match ? match[1] : '';
+};
+
+const getUri = (header: string): string => {
+  const match = header.match(/<([^>]+)>/);
+  return match ? match[1] : header.split(';')[0];
+};
+
+class SipServer {
+  public via_transport: string;
+
+  public url: string;
+
+  public sip_uri: string;
+
+  public onconnect: () => void;
+
+  public ondisconnect: (error: boolean, code?: number, reason?: string) => void;
+
+  public ondata: (data: string) => void;
+
+  public isConnected: boolean;
+
+  // SIP code used for replying REGISTER
+  public registerResponse: number;
+
+  public outgoingCallBehaviour: OutgoingCallBehaviour;
+
+  // SIP code used for replying other requests like MESSAGE and INFO, by method
+  public requestResponses: { [method: string]: number };
+
+  // sipfrag status lines sent in NOTIFYs after a REFER is accepted, the last one ends it
+  public referNotifications: string[];
+
+  // contact of the registered client, requests to the client are sent to it
+  public registeredContact: string | null;
+
+  // all the messages received from the client
+  public received: SipMessage[];
+
+  public dialogs: Map<string, SipDialog>;
+
+  constructor() {
+    this.via_transport = 'WSS';
+    this.url = `wss://${DOMAIN}`;
+    this.sip_uri = `sip:${DOMAIN};transport=ws`;
+    this.onconnect = () => {};
+    this.ondisconnect = () => {};
+    this.ondata = () => {};
+    this.isConnected = false;
+    this.registerResponse = 200;
+    this.outgoingCallBehaviour = {};
+    this.requestResponses = {};
+    this.referNotifications = ['SIP/2.0 100 Trying', 'SIP/2.0 200 OK'];
+    this.registeredContact = null;
+    this.received = [];
+    this.dialogs = new Map();
+  }
+
+  public connect() {
+    setTimeout(() => {
+      this.isConnected = true;
+      this.onconnect();
+    }, 0);
+  }
+
+  public disconnect() {
+    this.isConnected = false;
+    this.dialogs.forEach((dialog) => dialog.timers.forEach(clearTimeout));
+  }
+
+  /**
+   * Simulate the network dropping the socket.
+   */
+  public drop(code = 1006, reason = 'Abnormal Closure') {
+    this.isConnected = false;
+    this.ondisconnect(true, code, reason);
+  }
+
+  public send(data: string): boolean {
+    if (!this.isConnected) return false;
+    const message = parseMessage(data);
+    this.received.push(message);
+    if (message.method) {
+      this.onRequest(message);
+    } else {
+      this.onResponse(message);
+    }
+    return true;
+  }
+
+  /**
+   * Get the requests received from the client for a method.
+   */
+  public getRequests(method: string): SipMessage[] {
+    return this.received.filter((message) => message.method === method);
+  }
+
+  /**
+   * Send an INVITE to the registered client.
+   * @returns Call-ID of the call
+   */
+  public ring(options: IncomingCallOptions = {}): string {
+    if (!this.registeredContact) {
+      throw new Error('client is not registered');
+    }
+    const callId = randomToken('call');
+    const from = options.from || 'caller';
+    const localTag = randomToken('tag');
+    const dialog: SipDialog = {
+      callId,
+      callUUID: options.callUUID || randomToken('uuid'),
+      direction: 'incoming',
+      localTag,
+      localUri: `sip:${from}@${DOMAIN}`,
+      remoteUri: getUri(this.registeredContact),
+      remoteTag: '',
+      remoteTarget: getUri(this.registeredContact),
+      cseq: 1,
+      invite: null as any,
+      inviteBranch: `z9hG4bK${randomToken('b')}`,
+      state: 'early',
+      timers: [],
+    };
+    this.dialogs.set(callId, dialog);
+    const body = getSdp(String(Date.now()));
+    this.sendRequest(dialog, 'INVITE', [
+      `X-Calluuid: ${dialog.callUUID}`,
+      ...(options.extraHeaders || []),
+      'Content-Type: application/sdp',
+    ], body, dialog.cseq, dialog.inviteBranch);
+    return callId;
+  }
+
+  /**
+   * Cancel an incoming call which is not answered yet.
+   */
+  public cancel(callId: string) {
+    const dialog = this.dialogs.get(callId);
+    if (!dialog || dialog.state !== 'early') return;
+    dialog.state = 'terminated';
+    this.sendRequest(dialog, 'CANCEL', [], '', dialog.cseq, dialog.inviteBranch);
+  }
+
+  /**
+   * Hang up an established call from the server side.
+   */
+  public hangup(callId: string) {
+    const dialog = this.dialogs.get(callId);
+    if (!dialog || dialog.state !== 'confirmed') return;
+    dialog.state = 'terminated';
+    dialog.timers.forEach(clearTimeout);
+    dialog.cseq += 1;
+    this.sendRequest(dialog, 'BYE');
+  }
+
+  /**
+   * Send a MESSAGE to the registered client.
+   */
+  public message(from: string, body: string, contentType = 'text/plain', extraHeaders: string[] = []) {
+    if (!this.registeredContact) {
+      throw new Error('client is not registered');
+    }
+    const uri = getUri(this.registeredContact);
+    this.deliver([
+      `MESSAGE ${uri} SIP/2.0`,
+      `Via: SIP/2.0/WSS ${DOMAIN};branch=z9hG4bK${randomToken('b')}`,
+      'Max-Forwards: 70',
+      `To: <${uri}>`,
+      `From: <sip:${from}@${DOMAIN}>;tag=${randomToken('tag')}`,
+      `Call-ID: ${randomToken('message')}`,
+      'CSeq: 1 MESSAGE',
+      ...extraHeaders,
+      `Content-Type: ${contentType}`,
+    ], body);
+  }
+
+  /**
+   * Send an INFO within an established call.
+   */
+  public info(callId: string, contentType: string, body: string) {
+    const dialog = this.dialogs.get(callId);
+    if (!dialog || dialog.state !== 'confirmed') return;
+    dialog.cseq += 1;
+    this.sendRequest(dialog, 'INFO', [`Content-Type: ${contentType}`], body);
+  }
+
+  private deliver(lines: string[], body = '') {
+    const data = [...lines, `Content-Length: ${body.length}`, '', body].join('\r\n');
+    setTimeout(() => {
+      if (this.isConnected) this.ondata(data);
+    }, 0);
+  }
+
+  private reply(
+    request: SipMessage,
+    status: number,
+    reason: string,
+    extraHeaders: string[] = [],
+    body = '',
+  ) {
+    const dialog = this.dialogs.get(getHeader(request, 'call-id'));
+    let to = getHeader(request, 'to');
+    if (status > 100 && !getTag(to)) {
+      to += `;tag=${dialog ? dialog.localTag : randomToken('tag')}`;
+    }
+    this.deliver([
+      `SIP/2.0 ${status} ${reason}`,
+      ...request.headers.via.map((via) => `Via: ${via}`),
+      `From: ${getHeader(request, 'from')}`,
+      `To: ${to}`,
+      `Call-ID: ${getHeader(request, 'call-id')}`,
+      `CSeq: ${getHeader(request, 'cseq')}`,
+      ...extraHeaders,
+    ], body);
+  }
+
+  private sendRequest(
+    dialog: SipDialog,
+    method: string,
+    extraHeaders: string[] = [],
+    body = '',
+    cseq = dialog.cseq,
+    branch = `z9hG4bK${randomToken('b')}`,
+  ) {
+    const remoteTag = dialog.remoteTag ? `;tag=${dialog.remoteTag}` : '';
+    this.deliver([
+      `${method} ${dialog.remoteTarget} SIP/2.0`,
+      `Via: SIP/2.0/WSS ${DOMAIN};branch=${branch}`,
+      'Max-Forwards: 70',
+      `To: <${dialog.remoteUri}>${remoteTag}`,
+      `From: <${dialog.localUri}>;tag=${dialog.localTag}`,
+      `Call-ID: ${dialog.callId}`,
+      `CSeq: ${cseq} ${method}`,
+      `Contact: <${dialog.localUri};transport=ws>`,
+      ...extraHeaders,
+    ], body);
+  }
+
+  private onRequest(request: SipMessage) {
+    const callId = getHeader(request, 'call-id');
+    const dialog = this.dialogs.get(callId);
+    switch (request.method) {
+      case 'REGISTER': {
+        if (this.registerResponse !== 200) {
+          this.reply(request, this.registerResponse, 'Forbidden');
+          break;
+        }
+        const contact = getHeader(request, 'contact');
+        const isUnregister = /expires=0/.test(contact) || getHeader(request, 'expires') === '0';
+        this.registeredContact = isUnregister ? null : contact;
+        this.reply(request, 200, 'OK', [`Contact: ${contact}`]);
+        break;
+      }
+      case 'INVITE':
+        if (dialog) {
+          // re-INVITE for hold, unhold or ice restart
+          this.reply(request, 200, 'OK', [
+            `Contact: <${dialog.localUri};transport=ws>`,
+            'Content-Type: application/sdp',
+          ], getSdp(String(Date.now())));
+        } else {
+          this.onOutgoingCall(request);
+        }
+        break;
+      case 'ACK':
+        if (dialog && dialog.state === 'early') dialog.state = 'confirmed';
+        break;
+      case 'BYE':
+        if (dialog) {
+          dialog.state = 'terminated';
+          dialog.timers.forEach(clearTimeout);
+        }
+        this.reply(request, 200, 'OK');
+        break;
+      case 'REFER':
+        if (dialog && !this.requestResponses.REFER) {
+          this.reply(request, 202, 'Accepted');
+          this.notifyRefer(dialog, request);
+        } else {
+          this.reply(request, this.requestResponses.REFER || 481, 'Request Failed');
+        }
+        break;
+      case 'CANCEL':
+        this.reply(request, 200, 'OK');
+        if (dialog && dialog.state === 'early') {
+          dialog.state = 'terminated';
+          dialog.timers.forEach(clearTimeout);
+          this.reply(dialog.invite, 487, 'Request Terminated');
+        }
+        break;
+      default: {
+        const status = this.requestResponses[request.method as string] || 200;
+        this.reply(request, status, status === 200 ? 'OK' : 'Request Failed');
+      }
+    }
+  }
+
+  /**
+   * Report the progress of a transfer with NOTIFYs carrying sipfrag bodies.
+   */
+  private notifyRefer(dialog: SipDialog, refer: SipMessage) {
+    const [id] = getHeader(refer, 'cseq').split(' ');
+    this.referNotifications.forEach((statusLine, index) => {
+      const isLast = index === this.referNotifications.length - 1;
+      dialog.cseq += 1;
+      this.sendRequest(dialog, 'NOTIFY', [
+        `Event: refer;id=${id}`,
+        `Subscription-State: ${isLast ? 'terminated;reason=noresource' : 'active;expires=60'}`,
+        'Content-Type: message/sipfrag;version=2.0',
+      ], statusLine);
+    });
+  }
+
+  private onResponse(response: SipMessage) {
+    const dialog = this.dialogs.get(getHeader(response, 'call-id'));
+    if (!dialog || dialog.direction !== 'incoming') return;
+    const cseq = getHeader(response, 'cseq');
+    if (!/INVITE/.test(cseq) || (response.status as number) < 200) return;
+    dialog.remoteTag = getTag(getHeader(response, 'to'));
+    if ((response.status as number) < 300) {
+      dialog.remoteTarget = getUri(getHeader(response, 'contact')) || dialog.remoteTarget;
+      dialog.state = 'confirmed';
+    } else {
+      dialog.state = 'terminated';
+    }
+    // ACK for a failure response belongs to the INVITE transaction
+    const branch = dialog.state === 'terminated' ? dialog.inviteBranch : undefined;
+    this.sendRequest(dialog, 'ACK', [], '', Number(cseq.split(' ')[0]), branch);
+  }
+
+  private onOutgoingCall(request: SipMessage) {
+    const callId = getHeader(request, 'call-id');
+    const from = getHeader(request, 'from');
+    const dialog: SipDialog = {
+      callId,
+      callUUID: randomToken('uuid'),
+      direction: 'outgoing',
+      localTag: randomToken('tag'),
+      localUri: getUri(getHeader(request, 'to')),
+      remoteUri: getUri(from),
+      remoteTag: getTag(from),
+      remoteTarget: getUri(getHeader(request, 'contact')),
+      cseq: 1,
+      invite: request,
+      inviteBranch: '',
+      state: 'early',
+      timers: [],
+    };
+    this.dialogs.set(callId, dialog);
+    const {
+      failureCode, failureReason, ringDelay = 0, answerDelay = 0, hangupDelay, earlyMedia,
+    } = this.outgoingCallBehaviour;
+    const sdp = getSdp(String(Date.now()));
+    const headers = [
+      `X-Calluuid: ${dialog.callUUID}`,
+      `Contact: <${dialog.localUri};transport=ws>`,
+    ];
+    this.reply(request, 100, 'Trying');
+    dialog.timers.push(setTimeout(() => {
+      if (dialog.state !== 'early') return;
+      if (earlyMedia) {
+        this.reply(request, 183, 'Session Progress', [
+          ...headers,
+          'Content-Type: application/sdp',
+        ], sdp);
+        return;
+      }
+      this.reply(request, 180, 'Ringing', headers);
+    }, ringDelay));
+    dialog.timers.push(setTimeout(() => {
+      if (dialog.state !== 'early') return;
+      if (failureCode) {
+        dialog.state = 'terminated';
+        this.reply(request, failureCode, failureReason || 'Call Failed', headers);
+        return;
+      }
+      this.reply(request, 200, 'OK', [
+        ...headers,
+        'Content-Type: application/sdp',
+      ], sdp);
+      if (typeof hangupDelay === 'number') {
+        dialog.timers.push(setTimeout(() => this.hangup(callId), hangupDelay));
+      }
+    }, Math.max(answerDelay, ringDelay)));
+  }
+}
+
+export default SipServer;
@@ -1,4 +1,4 @@
-import { Logger } from '../../lib/logger';
+import { Logger, LogRecord } from '../../lib/logger';
 
 describe('Logger', () => {
   it('should check info logs', () => {
@@ -75,4 +75,77 @@ describe('Logger', () => {
     Logger.enableSipLogs('ALL-PLAIN');
     expect((window as any)._PlivoUseColorLog).toBeFalsy();
   });
+
+  it('should send structured records to transports', () => {
+    const records: LogRecord[] = [];
+    const removeTransport = Logger.addTransport((record) => records.push(record));
+    Logger.setLevel('INFO');
+    Logger.setCallUUIDProvider(() => 'call-uuid');
+    Logger.scope('ws').info('stats socket', 'connected', { attempt: 2 }, new Error('closed'));
+    Logger.debug('filtered by log level');
+    removeTransport();
+    Logger.info('after removing transport');
+    Logger.setCallUUIDProvider(null);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      level: 'INFO',
+      module: 'ws',
+      callUUID: 'call-uuid',
+      message: 'stats socket connected closed',
+      fields: { attempt: 2, error: { name: 'Error', message: 'closed' } },
+    });
+    expect(typeof records[0].timestamp).toBe('number');
+  });
+
+  it('should redact passwords, tokens and ice candidate addresses', () => {
+    const consoleSpy = jest.spyOn(console, 'info').mockImplementation(() => {});
+    consoleSpy.mockClear();
+    Logger.setLevel('INFO');
+    const user: any = { username: 'testing', password: 'secret', credentials: { accessToken: 'jwt' } };
+    user.self = user;
+    Logger.info(
+      'a=candidate:842163049 1 udp 1677729535 203.0.113.7 50123 typ srflx raddr 10.0.0.2 rport 0',
+      user,
+    );
+    Logger.info('login with {"username":"testing","password":"secret"}');
+    const [, message, fields] = consoleSpy.mock.calls[0];
+    expect(message).toBe(
+      'a=candidate:842163049 1 udp 1677729535 [REDACTED] 50123 typ srflx raddr [REDACTED] rport 0',
+    );
+    expect(fields).toStrictEqual({
+      username: 'testing', password: '[REDACTED]', credentials: '[REDACTED]', self: '[Circular]',
+    });
+    expect(consoleSpy.mock.calls[1][1]).toBe('login with {"username":"testing","password":"[REDACTED]"}');
+    consoleSpy.mockRestore();
+  });
+
+  it('should apply module log levels', () => {
+    const consoleSpy = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    consoleSpy.mockClear();
+    Logger.setLevel('INFO');
+    Logger.setModuleLevel('rtpStats', 'DEBUG');
+    Logger.setModuleLevel('ws', 'OFF');
+    Logger.scope('rtpStats').debug('rtp stats collected');
+    Logger.scope('ws').debug('stats socket closed');
+    Logger.debug('sdk debug log');
+    Logger.setModuleLevel('rtpStats', null);
+    Logger.scope('rtpStats').debug('rtp stats collected again');
+    Logger.setModuleLevel('ws', null);
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+    expect(consoleSpy.mock.calls[0][1]).toBe('rtp stats collected');
+    expect(Logger.setModuleLevel('ws', 'VERBOSE' as any)).toMatch(/are allowed/);
+    consoleSpy.mockRestore();
+  });
+
+  it('should export the logs kept in memory as json', () => {
+    Logger.setLevel('INFO');
+    Logger.scope('client').warn('export check', { callUUID: 'uuid' });
+    const records = JSON.parse(Logger.exportLogs());
+    expect(records[records.length - 1]).toMatchObject({
+      level: 'WARN', module: 'client', message: 'export check', fields: { callUUID: 'uuid' },
+    });
+    const consoleLogs = Logger.consolelogs();
+    expect(consoleLogs[consoleLogs.length - 1])
+      .toMatch(/\[WARN\] PlivoSDK :: export check {"callUUID":"uuid"} \n$/);
+  });
 });
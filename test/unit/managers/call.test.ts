@@ -0,0 +1,90 @@
+import { Call } from '../../../lib/managers/call';
+
+describe('Call', () => {
+  let client;
+  let call: Call;
+
+  const attach = (callUUID: string | null, direction = 'outgoing') => {
+    const callSession = { callUUID, direction } as any;
+    call.attach(callSession);
+    return callSession;
+  };
+
+  beforeEach(() => {
+    client = {
+      _currentSession: null,
+      answer: jest.fn(() => true),
+      reject: jest.fn(() => true),
+      hangup: jest.fn(() => true),
+      mute: jest.fn(() => true),
+      unmute: jest.fn(() => true),
+      sendDtmf: jest.fn(),
+    };
+    call = new Call(client);
+  });
+
+  it('should act on the call by its callUUID', () => {
+    attach('call-uuid');
+    expect(call.hangup()).toBeTruthy();
+    expect(call.mute()).toBeTruthy();
+    expect(call.unmute()).toBeTruthy();
+    call.sendDtmf('5');
+    expect(client.hangup).toHaveBeenCalledWith('call-uuid');
+    expect(client.mute).toHaveBeenCalledWith('call-uuid');
+    expect(client.unmute).toHaveBeenCalledWith('call-uuid');
+    expect(client.sendDtmf).toHaveBeenCalledWith('5', 'call-uuid');
+  });
+
+  it('should act on a call without callUUID only when it is the active call', () => {
+    const callSession = attach(null);
+    client._currentSession = { callUUID: 'other-uuid' };
+    expect(call.hangup()).toBeFalsy();
+    expect(call.mute()).toBeFalsy();
+    call.sendDtmf('5');
+    expect(client.hangup).not.toHaveBeenCalled();
+    expect(client.mute).not.toHaveBeenCalled();
+    expect(client.sendDtmf).not.toHaveBeenCalled();
+    client._currentSession = callSession;
+    expect(call.hangup()).toBeTruthy();
+    expect(client.hangup).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should not act before the call session is attached', () => {
+    expect(call.hangup()).toBeFalsy();
+    expect(call.answer()).toBeFalsy();
+    expect(call.getCallUUID()).toBeNull();
+    expect(client.hangup).not.toHaveBeenCalled();
+  });
+
+  it('should answer and reject only incoming calls', () => {
+    attach('outgoing-uuid');
+    expect(call.answer()).toBeFalsy();
+    expect(call.reject()).toBeFalsy();
+    attach('incoming-uuid', 'incoming');
+    expect(call.answer('letring')).toBeTruthy();
+    expect(call.reject()).toBeTruthy();
+    expect(client.answer).toHaveBeenCalledWith('incoming-uuid', 'letring');
+    expect(client.reject).toHaveBeenCalledWith('incoming-uuid');
+  });
+
+  it('should resolve whenAnswered once and keep it after the call ends', async () => {
+    const answered = jest.fn();
+    const ended = jest.fn();
+    call.on('answered', answered);
+    call.on('ended', ended);
+    const callInfo = { callUUID: 'call-uuid' } as any;
+    call.onAnswered(callInfo);
+    call.onEnded({ originator: 'remote', cause: 'Terminated' } as any, callInfo);
+    await expect(call.whenAnswered).resolves.toBe(callInfo);
+    expect(answered).toHaveBeenCalledWith(callInfo);
+    expect(ended).toHaveBeenCalledWith({ originator: 'remote', reason: 'Terminated' }, callInfo);
+  });
+
+  it('should reject whenAnswered when the call fails', async () => {
+    const failed = jest.fn();
+    call.on('failed', failed);
+    call.onFailed('Busy', null);
+    await expect(call.whenAnswered).rejects.toThrow('Busy');
+    expect(failed).toHaveBeenCalledWith('Busy', null);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  getDoNotDisturbError,
+  getIncomingCallRulesError,
+  isDoNotDisturbActive,
+} from '../../../lib/managers/callFilter';
+
+describe('CallFilter', () => {
+  // 2024-01-01 is a Monday
+  const at = (time: string, date = '2024-01-01') => new Date(`${date}T${time}:00`);
+
+  it('should validate the incoming call rules', () => {
+    expect(getIncomingCallRulesError([
+      { id: 'blocked', callerId: /^\+?1800/, action: 'reject', statusCode: 603 },
+      { headers: { 'X-PH-Priority': 'high' }, action: 'flag' },
+      { action: 'ring' },
+    ])).toBeNull();
+    expect(getIncomingCallRulesError({} as any)).toBe('Rules should be an array');
+    expect(getIncomingCallRulesError([{ action: 'drop' } as any]))
+      .toBe('Rule 0 should have one of the actions reject, ignore, ring, flag');
+    expect(getIncomingCallRulesError([
+      { action: 'ring' },
+      { callerId: 1234, action: 'ring' } as any,
+    ])).toBe('Rule 1 should match the caller with a string or RegExp');
+    expect(getIncomingCallRulesError([{ action: 'reject', statusCode: 200 }]))
+      .toBe('Rule 0 status code should be between 400 and 699');
+  });
+
+  it('should validate the do not disturb schedule', () => {
+    expect(getDoNotDisturbError({ enabled: true })).toBeNull();
+    expect(getDoNotDisturbError({
+      enabled: true, schedule: [{ days: [1, 2], start: '22:00', end: '07:30' }],
+    })).toBeNull();
+    expect(getDoNotDisturbError({ enabled: 'yes' } as any)).toBe('enabled should be a boolean');
+    expect(getDoNotDisturbError({ enabled: true, schedule: [{ start: '9:00', end: '17:00' }] }))
+      .toBe('Invalid schedule {"start":"9:00","end":"17:00"}');
+    expect(getDoNotDisturbError({
+      enabled: true, schedule: [{ days: [7], start: '09:00', end: '17:00' }],
+    })).toBe('Invalid schedule {"days":[7],"start":"09:00","end":"17:00"}');
+  });
+
+  it('should apply do not disturb within the scheduled windows', () => {
+    expect(isDoNotDisturbActive({ enabled: false }, at('10:00'))).toBeFalsy();
+    expect(isDoNotDisturbActive({ enabled: true }, at('10:00'))).toBeTruthy();
+    const workHours = {
+      enabled: true, schedule: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }],
+    };
+    expect(isDoNotDisturbActive(workHours, at('09:00'))).toBeTruthy();
+    expect(isDoNotDisturbActive(workHours, at('17:00'))).toBeFalsy();
+    expect(isDoNotDisturbActive(workHours, at('10:00', '2023-12-31'))).toBeFalsy();
+  });
+
+  it('should apply an overnight window after midnight of the next day', () => {
+    const night = { enabled: true, schedule: [{ days: [1], start: '22:00', end: '07:00' }] };
+    expect(isDoNotDisturbActive(night, at('23:30'))).toBeTruthy();
+    expect(isDoNotDisturbActive(night, at('06:59', '2024-01-02'))).toBeTruthy();
+    expect(isDoNotDisturbActive(night, at('06:59'))).toBeFalsy();
+    expect(isDoNotDisturbActive(night, at('07:00', '2024-01-02'))).toBeFalsy();
+  });
+});
@@ -0,0 +1,606 @@
+import { mockWebRTC } from '../../mock/RTCPeerConnection';
+import SipServer from '../../mock/SipServer';
+import { AudioContext } from '../../mock/AudioContext';
+import { Client as ClientType, ClientEvents } from '../../../lib/client';
+
+const waitForEvent = (
+  client: ClientType,
+  event: keyof ClientEvents,
+): Promise<any[]> => new Promise(
+  (resolve) => client.once(event, (...args: any[]) => resolve(args)),
+);
+
+describe('CallFlow', () => {
+  let server: SipServer;
+  let client: ClientType;
+  let Client: typeof ClientType;
+
+  beforeAll(() => {
+    mockWebRTC();
+    (window as any).AudioContext = AudioContext;
+    // audio visualizer picks AudioContext from window when the module is loaded
+    // eslint-disable-next-line global-require
+    ({ Client } = require('../../../lib/client'));
+  });
+
+  beforeEach(() => {
+    server = new SipServer();
+    (window as any)._PlivoInstance = undefined;
+    client = new Client({ transport: server as any } as any);
+  });
+
+  it('should login against the mock server', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    expect(client.isLoggedIn).toBeTruthy();
+    expect(server.getRequests('REGISTER').length).toBe(1);
+  });
+
+  it('should not refresh a long lived access token right after login', async () => {
+    const encode = (obj: any) => btoa(JSON.stringify(obj)).replace(/=+$/, '');
+    const expiresIn = 30 * 24 * 60 * 60;
+    const token = [
+      encode({ alg: 'HS256', typ: 'JWT' }),
+      encode({ sub: 'testuser', exp: Math.floor(Date.now() / 1000) + expiresIn }),
+      'signature',
+    ].join('.');
+    const expiring = jest.fn();
+    client.on('onTokenExpiring', expiring);
+    const login = waitForEvent(client, 'onLogin');
+    client.loginWithToken(token);
+    await login;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(expiring).not.toHaveBeenCalled();
+    client.logout();
+  });
+
+  it('should answer an outgoing call', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    const ringing = waitForEvent(client, 'onCallRemoteRinging');
+    client.call('destination', {});
+    await ringing;
+    const [callInfo] = await answered;
+    expect(callInfo.direction).toBe('outgoing');
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+    expect(server.getRequests('BYE').length).toBe(1);
+  });
+
+  it('should control an outgoing call through its Call handle', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const call = client.call('destination', {}) as any;
+    const callInfo = await call.whenAnswered;
+    expect(call.getCallUUID()).toBe(callInfo.callUUID);
+    call.sendDtmf('1');
+    expect(server.getRequests('INFO').length).toBe(1);
+    const ended = new Promise((resolve) => call.once('ended', resolve));
+    expect(call.hangup()).toBeTruthy();
+    expect(await ended).toEqual({ originator: 'local', reason: 'Terminated' });
+    expect(server.getRequests('BYE').length).toBe(1);
+  });
+
+  it('should hold and resume a call with re-INVITEs', async () => {
+    const waitForAcks = async (count: number) => {
+      while (server.getRequests('ACK').length < count) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    };
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    await answered;
+    const held = waitForEvent(client, 'onCallHeld');
+    expect(client.hold()).toBeTruthy();
+    const [holdInfo] = await held;
+    expect(holdInfo).toEqual({ originator: 'local' });
+    expect(client.hold()).toBeFalsy();
+    // unhold is refused until the hold re-INVITE is acknowledged
+    expect(client.unhold()).toBeFalsy();
+    await waitForAcks(2);
+    const resumed = waitForEvent(client, 'onCallResumed');
+    expect(client.unhold()).toBeTruthy();
+    await resumed;
+    expect(client.unhold()).toBeFalsy();
+    await waitForAcks(3);
+    // the initial INVITE and the two re-INVITEs
+    expect(server.getRequests('INVITE').length).toBe(3);
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+  }, 10000);
+
+  it('should keep several calls and act on a call by its callUUID', async () => {
+    const waitForAcks = async (count: number) => {
+      while (server.getRequests('ACK').length < count) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    };
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    let answered = waitForEvent(client, 'onCallAnswered');
+    client.call('first', {});
+    const [first] = await answered;
+    answered = waitForEvent(client, 'onCallAnswered');
+    client.call('second', {});
+    const [second] = await answered;
+    expect(client.getCalls().map((call) => call.callUUID)).toEqual([
+      first.callUUID, second.callUUID,
+    ]);
+    expect(client.getCallUUID()).toBe(second.callUUID);
+    // the first call is put on hold with a re-INVITE
+    await waitForAcks(3);
+    const firstCallId = server.getRequests('INVITE')[0].headers['call-id'][0];
+    client.sendDtmf('5', first.callUUID);
+    const [info] = server.getRequests('INFO');
+    expect(info.headers['call-id'][0]).toBe(firstCallId);
+    expect(client.mute(first.callUUID)).toBeTruthy();
+    expect((client.activeCalls.get(first.callUUID)!.session.isMuted() as any).audio).toBeTruthy();
+    expect(client.isCallMuted).toBeFalsy();
+    expect(client.mute('unknown-uuid')).toBeFalsy();
+    expect(client.isCallMuted).toBeFalsy();
+    expect(client.switchTo(first.callUUID)).toBeTruthy();
+    expect(client.getCallUUID()).toBe(first.callUUID);
+    expect(client.switchTo('unknown-uuid')).toBeFalsy();
+    await waitForAcks(5);
+    let terminated = waitForEvent(client, 'onCallTerminated');
+    expect(client.hangup(second.callUUID)).toBeTruthy();
+    const [, terminatedCallInfo] = await terminated;
+    expect(terminatedCallInfo.callUUID).toBe(second.callUUID);
+    expect(client.getCallUUID()).toBe(first.callUUID);
+    expect(client.getCalls().length).toBe(1);
+    terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+    expect(client.getCalls()).toEqual([]);
+  }, 10000);
+
+  it('should blind transfer a call and release it once the target answers', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    await answered;
+    const progress: string[] = [];
+    client.on('onTransferProgress', ({ status }) => progress.push(status));
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    expect(client.transfer('target', { 'X-PH-Queue': 'sales' })).toBeTruthy();
+    await terminated;
+    expect(progress).toEqual(['requested', 'trying', 'completed']);
+    const [refer] = server.getRequests('REFER');
+    expect(refer.headers['refer-to'][0]).toContain('sip:target@');
+    expect(refer.headers['x-ph-queue']).toEqual(['sales']);
+    expect(server.getRequests('BYE').length).toBe(1);
+  });
+
+  it('should report a transfer failed by the target or refused by the server', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    const [callInfo] = await answered;
+    server.referNotifications = ['SIP/2.0 100 Trying', 'SIP/2.0 486 Busy Here'];
+    let failed = waitForEvent(client, 'onTransferFailed');
+    expect(client.transfer('busy-target')).toBeTruthy();
+    let [failure, failedCallInfo] = await failed;
+    expect(failure).toEqual({ statusCode: 486, reason: 'Busy Here' });
+    expect(failedCallInfo.callUUID).toBe(callInfo.callUUID);
+    server.requestResponses.REFER = 403;
+    failed = waitForEvent(client, 'onTransferFailed');
+    expect(client.transfer('forbidden-target')).toBeTruthy();
+    [failure] = await failed;
+    expect(failure).toEqual({ statusCode: 403, reason: 'Request Failed' });
+    // the call stays up when the transfer fails
+    expect(client.getCallUUID()).toBe(callInfo.callUUID);
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+  });
+
+  it('should attended transfer the held call to the consultation call with Replaces', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    let answered = waitForEvent(client, 'onCallAnswered');
+    client.call('customer', {});
+    const [customerCallInfo] = await answered;
+    answered = waitForEvent(client, 'onCallAnswered');
+    client.call('agent', {});
+    const [consultCallInfo] = await answered;
+    expect(client.getCallUUID()).toBe(consultCallInfo.callUUID);
+    expect(client.attendedTransfer('unknown-uuid')).toBeFalsy();
+    const progress = waitForEvent(client, 'onTransferProgress');
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    expect(client.attendedTransfer(consultCallInfo.callUUID)).toBeTruthy();
+    const invites = server.getRequests('INVITE');
+    const [refer] = server.getRequests('REFER');
+    // REFER is sent in the customer call and replaces the consultation call
+    expect(refer.headers['call-id']).toEqual(invites[0].headers['call-id']);
+    const referTo = decodeURIComponent(refer.headers['refer-to'][0]);
+    expect(referTo).toContain('sip:agent@');
+    const consultInvite = invites.find((invite) => invite.headers['call-id'][0]
+      !== invites[0].headers['call-id'][0]) as any;
+    expect(referTo).toContain(`Replaces=${consultInvite.headers['call-id'][0]}`);
+    const [requested, callInfo] = await progress;
+    expect(requested.status).toBe('requested');
+    expect(callInfo.callUUID).toBe(customerCallInfo.callUUID);
+    const [, terminatedCallInfo] = await terminated;
+    expect(terminatedCallInfo.callUUID).toBe(customerCallInfo.callUUID);
+    expect(client.getCallUUID()).toBe(consultCallInfo.callUUID);
+    const consultTerminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await consultTerminated;
+  });
+
+  it('should fail an outgoing call rejected by the server', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    server.outgoingCallBehaviour.failureCode = 486;
+    server.outgoingCallBehaviour.failureReason = 'Busy Here';
+    const failed = waitForEvent(client, 'onCallFailed');
+    client.call('destination', {});
+    const [cause] = await failed;
+    expect(cause).toBe('Busy');
+    expect(server.getRequests('ACK').length).toBe(1);
+  });
+
+  it('should play early media of an outgoing call in place of the ringback', async () => {
+    client = new Client({ transport: server as any, earlyMedia: true } as any);
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    server.outgoingCallBehaviour.earlyMedia = true;
+    const progress: any[] = [];
+    client.on('onCallProgress', (info) => progress.push(info));
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    await answered;
+    expect(progress).toEqual([{ statusCode: 183, earlyMedia: true }]);
+    expect((client as any)._currentSession.earlyMedia).toBeTruthy();
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+  });
+
+  it('should answer an incoming call', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const incoming = waitForEvent(client, 'onIncomingCall');
+    const callId = server.ring({ from: 'caller', callUUID: 'incoming-uuid' });
+    const [callerName, , callInfo] = await incoming;
+    expect(callerName).toBe('caller@phone.plivo.com');
+    expect(callInfo.callUUID).toBe('incoming-uuid');
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.answer('incoming-uuid', 'reject');
+    await answered;
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    server.hangup(callId);
+    await terminated;
+    expect(client.getCallUUID()).toBeNull();
+  });
+
+  it('should report an incoming call cancelled by the caller', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const incoming = waitForEvent(client, 'onIncomingCall');
+    const callId = server.ring({ from: 'caller', callUUID: 'cancelled-uuid' });
+    await incoming;
+    const canceled = waitForEvent(client, 'onIncomingCallCanceled');
+    server.cancel(callId);
+    await canceled;
+    expect(client.getCallUUID()).toBeNull();
+  });
+
+  it('should filter incoming calls with rules and do not disturb', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    client.setIncomingCallRules([
+      { id: 'blocked', callerId: 'spammer', action: 'reject' },
+      { id: 'vip', headers: { 'X-PH-Priority': 'high' }, action: 'ring' },
+    ]);
+    client.setDoNotDisturb(true);
+    const incomingCalls: string[] = [];
+    client.on('onIncomingCall', (callerName, headers, callInfo) => {
+      incomingCalls.push(callInfo.callUUID);
+    });
+    let filtered = waitForEvent(client, 'onIncomingCallFiltered');
+    server.ring({ from: 'spammer', callUUID: 'blocked-uuid' });
+    expect((await filtered)[0]).toMatchObject({
+      callUUID: 'blocked-uuid',
+      callerId: 'spammer',
+      action: 'reject',
+      reason: 'rule',
+      statusCode: 603,
+    });
+    filtered = waitForEvent(client, 'onIncomingCallFiltered');
+    server.ring({ from: 'caller', callUUID: 'dnd-uuid' });
+    expect((await filtered)[0]).toMatchObject({ action: 'reject', reason: 'dnd', statusCode: 480 });
+    const incoming = waitForEvent(client, 'onIncomingCall');
+    filtered = waitForEvent(client, 'onIncomingCallFiltered');
+    const callId = server.ring({
+      from: 'caller', callUUID: 'vip-uuid', extraHeaders: ['X-PH-Priority: high'],
+    });
+    expect((await filtered)[0]).toMatchObject({ action: 'ring', reason: 'rule', ruleId: 'vip' });
+    await incoming;
+    expect(incomingCalls).toEqual(['vip-uuid']);
+    expect(server.received.filter((message) => message.status === 603 || message.status === 480)
+      .map((message) => message.status)).toEqual([603, 480]);
+    expect(client.filteredCallsInCurrentSession).toBe(2);
+    const canceled = waitForEvent(client, 'onIncomingCallCanceled');
+    server.cancel(callId);
+    await canceled;
+  });
+
+  it('should auto answer an incoming call asking for it', async () => {
+    client = new Client({
+      transport: server as any, autoAnswer: { mode: 'header', beep: true },
+    } as any);
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answer = jest.spyOn(client, 'answer');
+    const autoAnswered = waitForEvent(client, 'onAutoAnswered');
+    const answered = waitForEvent(client, 'onCallAnswered');
+    const callId = server.ring({
+      from: 'pager',
+      callUUID: 'intercom-uuid',
+      extraHeaders: ['Call-Info: <sip:mock.sip.server>;answer-after=0'],
+    });
+    const [callInfo, autoAnswer] = await autoAnswered;
+    expect(callInfo.callUUID).toBe('intercom-uuid');
+    expect(autoAnswer).toEqual({ reason: 'header', delay: 0 });
+    expect(answer).toHaveBeenCalledWith('intercom-uuid', 'letring');
+    await answered;
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    server.hangup(callId);
+    await terminated;
+  });
+
+  it('should emit call state changes and keep the state history', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const changes: string[][] = [];
+    client.on('onCallStateChange', (prev, next) => changes.push([prev, next]));
+    const answered = waitForEvent(client, 'onCallAnswered');
+    const call = client.call('destination', {}) as any;
+    await answered;
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+    expect(changes).toStrictEqual([
+      ['initialized', 'ringing'],
+      ['ringing', 'answered'],
+      ['answered', 'ended'],
+    ]);
+    const history = call.getStateHistory();
+    expect(history.map((entry) => entry.state))
+      .toStrictEqual(['initialized', 'ringing', 'answered', 'ended']);
+    expect(history.every((entry) => typeof entry.timestamp === 'number')).toBeTruthy();
+  });
+
+  it('should emit the call quality report when the call ends', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    const [callInfo] = await answered;
+    expect(client.getCallQualityReport(callInfo.callUUID)).not.toBeNull();
+    const qualityReport = waitForEvent(client, 'onCallQualityReport');
+    client.hangup();
+    const [report, reportCallInfo] = await qualityReport;
+    expect(report.callUUID).toBe(callInfo.callUUID);
+    expect(reportCallInfo.callUUID).toBe(callInfo.callUUID);
+    expect(report.endTime).toBeGreaterThanOrEqual(report.startTime);
+    expect(client.getCallQualityReport(callInfo.callUUID)).toBe(report);
+    expect(client.getCallQualityReport('unknown-uuid')).toBeNull();
+  });
+
+  it('should end the call and send the buffered stats on pagehide', async () => {
+    const appHandler = () => {};
+    window.onbeforeunload = appHandler;
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    await answered;
+    while (!(client as any).unloadListeners) {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    expect(window.onbeforeunload).toBe(appHandler);
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    client.options.statsBeaconUrl = 'https://example.com/stats';
+    client.telemetryBuffer.add('{"msg":"CALL_STATS"}');
+    const visibility = jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+    visibility.mockRestore();
+    expect(client.telemetryBuffer.getPendingCount()).toBe(1);
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    window.dispatchEvent(new Event('pagehide'));
+    await terminated;
+    delete (navigator as any).sendBeacon;
+    client.options.statsBeaconUrl = null;
+    expect(sendBeacon).toHaveBeenCalledWith('https://example.com/stats', expect.anything());
+    expect(client.telemetryBuffer.getPendingCount()).toBe(0);
+    expect(server.getRequests('BYE').length).toBe(1);
+    expect((client as any).unloadListeners).toBeNull();
+    expect(window.onbeforeunload).toBe(appHandler);
+    window.onbeforeunload = null;
+  });
+
+  it('should capture the sip trace of a call', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    const [callInfo] = await answered;
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+    const trace = client.getSipTrace(callInfo.callUUID) as any;
+    const summaries = trace.messages.map((item) => `${item.direction} ${item.summary}`);
+    expect(summaries[0]).toMatch(/^sent INVITE /);
+    expect(summaries).toContain('received SIP/2.0 200 OK');
+    expect(summaries.some((summary) => /^sent BYE /.test(summary))).toBeTruthy();
+    expect(client.exportSipTrace(callInfo.callUUID)).toMatch('client  ---- INVITE ---->  server');
+    const pcap = JSON.parse(client.exportSipTrace(callInfo.callUUID, 'pcap') as string);
+    expect(pcap.packets).toHaveLength(trace.messages.length);
+    expect(client.getSipTrace('unknown-uuid')).toBeNull();
+  });
+
+  it('should queue feedback for an ended call until the next login', async () => {
+    window.localStorage.clear();
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    client.call('destination', {});
+    const [callInfo] = await answered;
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+    expect(client.getCallHistory()[0]).toMatchObject({
+      callUUID: callInfo.callUUID, direction: 'outgoing', userName: 'testuser',
+    });
+    const logout = waitForEvent(client, 'onLogout');
+    client.logout();
+    await logout;
+    client.registerFeedbackIssues(['Agent Unreachable']);
+    const result = await client.submitCallQualityFeedback(
+      callInfo.callUUID, '2', ['agent_unreachable'], '', false, false, {
+        metadata: { agentId: 'agent-1' }, sendQualityReport: true,
+      },
+    );
+    expect(result.status).toBe('queued');
+    expect(result.feedback.comment).toBe('agent_unreachable ');
+    expect(result.feedback.qualityReport).toBeDefined();
+    expect(client.getQueuedFeedbackCount()).toBe(1);
+    const sent = waitForEvent(client, 'onFeedbackSent');
+    client.login('testuser', 'secret');
+    const [sentResult] = await sent;
+    expect(sentResult).toMatchObject({ status: 'sent', callUUID: callInfo.callUUID });
+    expect(client.getQueuedFeedbackCount()).toBe(0);
+    const loggedOut = waitForEvent(client, 'onLogout');
+    client.logout();
+    await loggedOut;
+    const otherLogin = waitForEvent(client, 'onLogin');
+    client.login('otheruser', 'secret');
+    await otherLogin;
+    expect(client.getCallHistory()).toEqual([]);
+  });
+
+  it('should send and receive messages outside of calls', async () => {
+    await expect(client.sendMessage('agent', 'hello')).rejects.toThrow('not logged in');
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    await client.sendMessage('agent', '{"ticket":1}', 'application/json');
+    const [request] = server.getRequests('MESSAGE')
+      .filter((message) => /^sip:agent@/.test(message.ruri as string));
+    expect(request.headers['content-type']).toEqual(['application/json']);
+    expect(request.body).toBe('{"ticket":1}');
+    server.requestResponses.MESSAGE = 404;
+    await expect(client.sendMessage('unknown', 'hello')).rejects.toThrow('404');
+    await expect(client.sendMessage('agent', 'hello', 'invalid')).rejects.toThrow('content type');
+    const received = waitForEvent(client, 'onMessageReceived');
+    server.message('agent', 'hi there', 'text/plain', ['X-PH-Ticket: 1']);
+    const [message] = await received;
+    expect(message).toMatchObject({
+      from: 'agent@phone.plivo.com',
+      body: 'hi there',
+      contentType: 'text/plain',
+      extraHeaders: { 'X-Ph-Ticket': '1' },
+    });
+  });
+
+  it('should exchange INFO within a call', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    const call = client.call('destination', {}) as any;
+    await expect(call.sendInfo('application/json', '{}')).rejects.toThrow();
+    const [callInfo] = await answered;
+    await call.sendInfo('application/json', '{"crm":"lead-1"}');
+    const [request] = server.getRequests('INFO');
+    expect(request.body).toBe('{"crm":"lead-1"}');
+    server.requestResponses.INFO = 488;
+    await expect(call.sendInfo('application/json', '{}')).rejects.toThrow('488');
+    const received = waitForEvent(client, 'onInfoReceived');
+    const callInfoEvent = new Promise((resolve) => call.once('info', resolve));
+    server.info(Array.from(server.dialogs.keys())[0], 'application/json', '{"hold":true}');
+    const [info, infoCallInfo] = await received;
+    expect(info).toMatchObject({ contentType: 'application/json', body: '{"hold":true}' });
+    expect(infoCallInfo.callUUID).toBe(callInfo.callUUID);
+    expect(await callInfoEvent).toBe(info);
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    client.hangup();
+    await terminated;
+  });
+
+  it('should not leave a terminal call state', async () => {
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const incoming = waitForEvent(client, 'onIncomingCall');
+    const callId = server.ring({ from: 'caller', callUUID: 'terminal-uuid' });
+    const [, , , , call] = await incoming;
+    const canceled = waitForEvent(client, 'onIncomingCallCanceled');
+    server.cancel(callId);
+    await canceled;
+    const { callSession } = call;
+    expect(callSession.setState(callSession.STATE.ANSWERED)).toBeFalsy();
+    expect(callSession.state).toBe('canceled');
+  });
+
+  it('should announce a call waiting during an answered call', async () => {
+    client = new Client({ transport: server as any, allowMultipleIncomingCalls: true } as any);
+    const login = waitForEvent(client, 'onLogin');
+    client.login('testuser', 'secret');
+    await login;
+    const answered = waitForEvent(client, 'onCallAnswered');
+    server.ring({ from: 'caller', callUUID: 'active-uuid' });
+    await waitForEvent(client, 'onIncomingCall');
+    client.answer('active-uuid', 'letring');
+    await answered;
+    const waiting = waitForEvent(client, 'onCallWaiting');
+    const callId = server.ring({ from: 'second', callUUID: 'waiting-uuid' });
+    const [info] = await waiting;
+    expect(info.waitingCall.callUUID).toBe('waiting-uuid');
+    expect(info.activeCall.callUUID).toBe('active-uuid');
+    expect(info.waitingCalls).toBe(1);
+    expect(client.callWaitingTone.isPlaying()).toBeTruthy();
+    expect(client.getWaitingCalls().map((call) => call.callUUID)).toEqual(['waiting-uuid']);
+    const waitingAnswered = waitForEvent(client, 'onCallAnswered');
+    expect(client.answerWaitingCall('waiting-uuid', 'hangup')).toBeTruthy();
+    const [callInfo] = await waitingAnswered;
+    expect(callInfo.callUUID).toBe('waiting-uuid');
+    expect(client.callWaitingTone.isPlaying()).toBeFalsy();
+    expect(client.getWaitingCalls()).toEqual([]);
+    const terminated = waitForEvent(client, 'onCallTerminated');
+    server.hangup(callId);
+    await terminated;
+  });
+});
@@ -0,0 +1,37 @@
+import { statsCollector } from '../../../lib/managers/util';
+import { GetRTPStats } from '../../../lib/stats/rtpStats';
+
+jest.mock('../../../lib/stats/rtpStats');
+
+describe('StatsCollector', () => {
+  const collect = (browser: string, version: number) => {
+    const client = {
+      browserDetails: { browser, version },
+      statsSocket: null,
+      callstatskey: null,
+      statsSubscriptions: [],
+      options: { statsSinks: [] },
+    };
+    const callSession = { setCallStats: jest.fn() };
+    statsCollector.call(client, callSession);
+    return callSession.setCallStats;
+  };
+
+  beforeEach(() => {
+    (GetRTPStats as unknown as jest.Mock).mockClear();
+  });
+
+  it('should collect stats without call insights or sinks on every supported browser', () => {
+    expect(collect('firefox', 91)).toHaveBeenCalledTimes(1);
+    expect(collect('safari', 14)).toHaveBeenCalledTimes(1);
+    expect(collect('edge', 90)).toHaveBeenCalledTimes(1);
+    expect(collect('chrome', 90)).toHaveBeenCalledTimes(1);
+    expect(GetRTPStats).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not collect stats on unsupported browsers', () => {
+    expect(collect('firefox', 55)).not.toHaveBeenCalled();
+    expect(collect('opera', 70)).not.toHaveBeenCalled();
+    expect(GetRTPStats).not.toHaveBeenCalled();
+  });
+});
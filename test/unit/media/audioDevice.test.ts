@@ -35,6 +35,7 @@ describe('AudioDevice', () => {
       getPeerConnection: () => ({
         pc: {},
       }),
+      options: {},
       _currentSession: {
         session: {
           mute() {},
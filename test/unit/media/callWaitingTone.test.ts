@@ -0,0 +1,82 @@
+import { CallWaitingTone } from '../../../lib/media/callWaitingTone';
+import { AudioContext } from '../../mock/AudioContext';
+
+describe('CallWaitingTone', () => {
+  const options = {
+    enabled: true,
+    frequency: 440,
+    volume: 0.3,
+    cadence: [300, 200, 300],
+    interval: 10000,
+  };
+  let output;
+  let tone;
+
+  beforeAll(() => {
+    (window as any).AudioContext = AudioContext;
+    window.HTMLMediaElement.prototype.play = () => Promise.resolve();
+    window.HTMLMediaElement.prototype.pause = () => {};
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    output = document.createElement('audio');
+    tone = new CallWaitingTone();
+  });
+
+  afterEach(() => {
+    tone.stop();
+    jest.useRealTimers();
+  });
+
+  it('should mix the tone into the stream played by the call output', () => {
+    const callStream = { getAudioTracks: () => [{ kind: 'audio', id: 'remoteTrack' }] };
+    output.srcObject = callStream;
+    const consoleSpy = jest.spyOn(console, 'log');
+    tone.start(output, options);
+    expect(tone.isPlaying()).toBeTruthy();
+    expect(consoleSpy).toHaveBeenCalledWith('media stream source created');
+    expect(output.srcObject).toBe(tone.mixedStream);
+    expect(output.srcObject).not.toBe(callStream);
+    tone.stop();
+    expect(output.srcObject).toBe(callStream);
+  });
+
+  it('should play the cadence', () => {
+    tone.start(output, options);
+    const { setValueAtTime } = tone.gain.gain;
+    expect(setValueAtTime.mock.calls).toEqual([[0.3, 0], [0, 0.3], [0.3, 0.5], [0, 0.8]]);
+  });
+
+  it('should repeat the cadence after the interval', () => {
+    tone.start(output, options);
+    const { setValueAtTime } = tone.gain.gain;
+    jest.advanceTimersByTime(options.interval);
+    expect(setValueAtTime).toHaveBeenCalledTimes(8);
+  });
+
+  it('should not start again if the tone is already playing', () => {
+    tone.start(output, options);
+    const { audioContext } = tone;
+    tone.start(output, options);
+    expect(tone.audioContext).toBe(audioContext);
+  });
+
+  it('should leave the output alone if another call is played meanwhile', () => {
+    tone.start(output, options);
+    const nextCallStream = { getAudioTracks: () => [] };
+    output.srcObject = nextCallStream;
+    tone.stop();
+    expect(output.srcObject).toBe(nextCallStream);
+  });
+
+  it('should release the audio context when the tone stops', () => {
+    const consoleSpy = jest.spyOn(console, 'log');
+    tone.start(output, options);
+    tone.stop();
+    expect(tone.isPlaying()).toBeFalsy();
+    expect(tone.output).toBeNull();
+    expect(tone.timer).toBeNull();
+    expect(consoleSpy).toHaveBeenCalledWith('audio context closed');
+  });
+});
@@ -0,0 +1,117 @@
+import { ConferenceMixer } from '../../../lib/media/conferenceMixer';
+import { AudioContext } from '../../mock/AudioContext';
+
+describe('ConferenceMixer', () => {
+  let senders;
+  let connections;
+  let mixer;
+  let streams;
+
+  const createTrack = (id: string) => ({
+    kind: 'audio',
+    id,
+    enabled: true,
+    clone() {
+      return { ...this, id: `${id}Clone` };
+    },
+    stop: jest.fn(),
+  });
+
+  const getConnection = (index: number) => {
+    const sender = {
+      track: createTrack(`microphoneTrack${index}`),
+      replaceTrack: jest.fn(function (track) {
+        this.track = track;
+        return Promise.resolve();
+      }),
+    };
+    senders.push(sender);
+    return {
+      getSenders: () => [sender],
+      getReceivers: () => [{ track: { kind: 'audio', id: `remoteTrack${index}` } }],
+    };
+  };
+
+  beforeAll(() => {
+    (window as any).AudioContext = AudioContext;
+    (window as any).MediaStream = class {
+      tracks: any[];
+
+      constructor(tracks: any[]) {
+        this.tracks = tracks;
+        streams.push(this);
+      }
+    };
+  });
+
+  beforeEach(() => {
+    senders = [];
+    streams = [];
+    connections = [getConnection(0), getConnection(1)];
+    mixer = new ConferenceMixer();
+  });
+
+  it('should replace the outgoing audio track of every leg with its mix', async () => {
+    await mixer.start(connections);
+    expect(mixer.isMixing()).toBeTruthy();
+    expect(mixer.legs.length).toBe(2);
+    senders.forEach((sender) => {
+      expect(sender.replaceTrack).toHaveBeenCalledTimes(1);
+      expect(sender.track.id).toBe('holdMusicTrack');
+    });
+    expect(mixer.getLocalStream()).not.toBeNull();
+  });
+
+  it('should not start mixing again if the legs are already mixed', async () => {
+    await mixer.start(connections);
+    await mixer.start(connections);
+    expect(senders[0].replaceTrack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mute the microphone only for the given leg', async () => {
+    await mixer.start(connections);
+    mixer.setMicMuted(1, true);
+    expect(mixer.isMicMuted(0)).toBeFalsy();
+    expect(mixer.isMicMuted(1)).toBeTruthy();
+    mixer.setMicMuted(1, false);
+    expect(mixer.isMicMuted(1)).toBeFalsy();
+  });
+
+  it('should take the microphone from a leg which is not muted', async () => {
+    senders[0].track.enabled = false;
+    await mixer.start(connections);
+    expect(streams[0].tracks[0].id).toBe('microphoneTrack1');
+    expect(mixer.isMicMuted(0)).toBeTruthy();
+    expect(mixer.isMicMuted(1)).toBeFalsy();
+  });
+
+  it('should keep every leg muted when all of them were muted before merging', async () => {
+    senders.forEach((sender) => { sender.track.enabled = false; });
+    await mixer.start(connections);
+    const micTrack = streams[0].tracks[0];
+    expect(micTrack.id).toBe('microphoneTrack0Clone');
+    expect(micTrack.enabled).toBeTruthy();
+    expect(mixer.isMicMuted(0) && mixer.isMicMuted(1)).toBeTruthy();
+    await mixer.stop();
+    expect(micTrack.stop).toHaveBeenCalled();
+  });
+
+  it('should restore the microphone tracks when mixing stops', async () => {
+    const consoleSpy = jest.spyOn(console, 'log');
+    await mixer.start(connections);
+    await mixer.stop();
+    expect(senders[0].track.id).toBe('microphoneTrack0');
+    expect(senders[1].track.id).toBe('microphoneTrack1');
+    expect(mixer.isMixing()).toBeFalsy();
+    expect(mixer.getLocalStream()).toBeNull();
+    expect(mixer.audioContext).toBeNull();
+    expect(consoleSpy).toHaveBeenCalledWith('audio context closed');
+  });
+
+  it('should fail when a leg has no remote audio track', async () => {
+    connections[1].getReceivers = () => [];
+    await expect(mixer.start(connections)).rejects.toThrow();
+    expect(mixer.isMixing()).toBeFalsy();
+    expect(senders[0].replaceTrack).not.toHaveBeenCalled();
+  });
+});
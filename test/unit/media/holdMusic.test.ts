@@ -0,0 +1,64 @@
+import { HoldMusic } from '../../../lib/media/holdMusic';
+import { AudioContext } from '../../mock/AudioContext';
+
+describe('HoldMusic', () => {
+  const microphoneTrack = { kind: 'audio', id: 'microphoneTrack' };
+  let sender;
+  let connection;
+  let holdMusic;
+
+  beforeAll(() => {
+    (window as any).AudioContext = AudioContext;
+    window.HTMLMediaElement.prototype.play = () => Promise.resolve();
+    window.HTMLMediaElement.prototype.pause = () => {};
+  });
+
+  beforeEach(() => {
+    sender = {
+      track: microphoneTrack,
+      replaceTrack: jest.fn(function (track) {
+        this.track = track;
+        return Promise.resolve();
+      }),
+    };
+    connection = { getSenders: () => [sender] };
+    holdMusic = new HoldMusic('https://example.com/hold.mp3');
+  });
+
+  it('should replace the outgoing audio track with hold music', async () => {
+    await holdMusic.start(connection);
+    expect(sender.replaceTrack).toHaveBeenCalledTimes(1);
+    expect(sender.track.id).toBe('holdMusicTrack');
+    expect(holdMusic.isPlaying()).toBeTruthy();
+    expect(holdMusic.audioElement.loop).toBeTruthy();
+  });
+
+  it('should not replace the track again if hold music is already playing', async () => {
+    await holdMusic.start(connection);
+    await holdMusic.start(connection);
+    expect(sender.replaceTrack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restore the microphone track when hold music stops', async () => {
+    const consoleSpy = jest.spyOn(console, 'log');
+    await holdMusic.start(connection);
+    await holdMusic.stop();
+    expect(sender.replaceTrack).toHaveBeenLastCalledWith(microphoneTrack);
+    expect(sender.track).toBe(microphoneTrack);
+    expect(holdMusic.isPlaying()).toBeFalsy();
+    expect(holdMusic.audioContext).toBeNull();
+    expect(consoleSpy).toHaveBeenCalledWith('audio context closed');
+  });
+
+  it('should not play hold music when there is no audio sender', async () => {
+    connection = { getSenders: () => [] };
+    await holdMusic.start(connection);
+    expect(holdMusic.isPlaying()).toBeFalsy();
+    expect(holdMusic.audioContext).toBeNull();
+  });
+
+  it('should ignore stop when hold music is not playing', async () => {
+    await holdMusic.stop();
+    expect(sender.replaceTrack).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  FeedbackQueue, createFeedbackSubmission, queueFeedback, submitQueuedFeedback,
+} from '../../../lib/stats/feedbackQueue';
+import {
+  FEEDBACK_QUEUE_MAX_AGE, FEEDBACK_QUEUE_STORAGE_KEY, FEEDBACK_QUEUE_MAX_LOG_SIZE,
+  FEEDBACK_QUEUE_MAX_TOTAL_LOG_SIZE,
+} from '../../../lib/constants';
+
+const submission = (
+  callUUID: string, sendConsoleLogs = false, userName = 'testuser',
+) => createFeedbackSubmission({
+  callUUID,
+  sipCallID: null,
+  userName,
+  feedback: { overall: 4, comment: 'audio_lag ', metadata: { agentId: 'agent-1' } },
+  sendConsoleLogs,
+  sipTrace: null,
+});
+
+describe('FeedbackQueue', () => {
+  let client: any;
+
+  const createQueue = (userName = 'testuser') => {
+    const queue = new FeedbackQueue();
+    queue.setUser(userName);
+    return queue;
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    client = {
+      isLoggedIn: false,
+      userName: 'testuser',
+      password: 'secret',
+      accessToken: null,
+      callStats: null,
+      statsSocket: null,
+      feedbackQueue: createQueue(),
+      emit: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (global as any).fetch;
+  });
+
+  it('should queue feedback and restore it on the next page load', () => {
+    const result = queueFeedback.call(client, submission('uuid-1', true));
+    expect(result.status).toBe('queued');
+    expect(result.feedback.metadata).toEqual({ agentId: 'agent-1' });
+    queueFeedback.call(client, submission('uuid-2'));
+    const queue = createQueue();
+    expect(queue.getPendingCount()).toBe(2);
+    expect(Array.isArray(queue.getAll()[0].consoleLogs)).toBeTruthy();
+    expect(queue.getAll()[1].consoleLogs).toBeNull();
+  });
+
+  it('should keep the feedback of each user apart', async () => {
+    queueFeedback.call(client, submission('uuid-1'));
+    expect(createQueue('otheruser').getPendingCount()).toBe(0);
+    client.feedbackQueue.add(submission('uuid-2', false, 'otheruser'));
+    client.isLoggedIn = true;
+    const results = await submitQueuedFeedback.call(client);
+    expect(results.map((result) => result.callUUID)).toEqual(['uuid-1']);
+    expect(client.feedbackQueue.getAll().map((entry) => entry.callUUID)).toEqual(['uuid-2']);
+  });
+
+  it('should limit the stored logs per feedback and in total, oldest first', () => {
+    const consoleLogs = Array.from({ length: 300 }, (_, i) => `${i}`.padEnd(1023, 'x'));
+    ['uuid-1', 'uuid-2', 'uuid-3', 'uuid-4', 'uuid-5'].forEach((callUUID) => {
+      expect(client.feedbackQueue.add({ ...submission(callUUID, true), consoleLogs }))
+        .toBeTruthy();
+    });
+    const sizes = createQueue().getAll()
+      .map((entry) => (entry.consoleLogs as string[]).length * 1024);
+    expect(sizes[4]).toBe(FEEDBACK_QUEUE_MAX_LOG_SIZE);
+    expect(sizes[0]).toBeLessThan(FEEDBACK_QUEUE_MAX_LOG_SIZE);
+    expect(sizes.reduce((total, size) => total + size, 0))
+      .toBeLessThanOrEqual(FEEDBACK_QUEUE_MAX_TOTAL_LOG_SIZE);
+    const [newest] = (createQueue().getAll()[4].consoleLogs as string[]).slice(-1);
+    expect(newest.startsWith('299')).toBeTruthy();
+  });
+
+  it('should fail feedback which could not be stored', () => {
+    queueFeedback.call(client, submission('uuid-1'));
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    const result = queueFeedback.call(client, submission('uuid-2', true));
+    expect(result.status).toBe('failed');
+    expect(client.feedbackQueue.getAll().map((entry) => entry.callUUID)).toEqual(['uuid-1']);
+  });
+
+  it('should drop feedback older than the allowed age', () => {
+    queueFeedback.call(client, submission('uuid-1'));
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now + FEEDBACK_QUEUE_MAX_AGE + 1);
+    expect(createQueue().getPendingCount()).toBe(0);
+  });
+
+  it('should send queued feedback once the client is logged in', async () => {
+    queueFeedback.call(client, submission('uuid-1'));
+    queueFeedback.call(client, submission('uuid-2'));
+    expect(await submitQueuedFeedback.call(client)).toEqual([]);
+    client.isLoggedIn = true;
+    const results = await submitQueuedFeedback.call(client);
+    expect(results.map((result) => `${result.status} ${result.callUUID}`))
+      .toEqual(['sent uuid-1', 'sent uuid-2']);
+    expect(client.emit).toHaveBeenCalledWith('onFeedbackSent', results[0]);
+    expect(client.feedbackQueue.getPendingCount()).toBe(0);
+    expect(window.localStorage.getItem(`${FEEDBACK_QUEUE_STORAGE_KEY}:testuser`)).toBeNull();
+  });
+
+  it('should keep the feedback which could not be sent', async () => {
+    (global as any).fetch = jest.fn(() => Promise.reject(new Error('offline')));
+    (global as any).Headers = (global as any).Headers || function Headers() {};
+    queueFeedback.call(client, submission('uuid-1', true));
+    queueFeedback.call(client, submission('uuid-2'));
+    client.isLoggedIn = true;
+    expect(await submitQueuedFeedback.call(client)).toEqual([]);
+    const queued = client.feedbackQueue.getAll();
+    expect(queued.map((entry) => entry.callUUID)).toEqual(['uuid-1', 'uuid-2']);
+    expect(queued[0].attempts).toBe(1);
+  });
+});
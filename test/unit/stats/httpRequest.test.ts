@@ -33,6 +33,14 @@ describe('StatsRequest', () => {
     expect(fetch).toHaveBeenCalledTimes(1);
   });
 
+  it('should send access token instead of password to validate plivo callstats', async () => {
+    resolveGlobalFetch(true, JSON.stringify({ data: 'key', is_rtp_enabled: false }));
+    validateCallStats('testing', null, 'header.payload.signature');
+    const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.token).toBe('header.payload.signature');
+    expect(body.password).toBeUndefined();
+  });
+
   it('should reject with call insights is not enabled', async () => {
     resolveGlobalFetch(true, null);
     const error = 'Call insights is not enabled';
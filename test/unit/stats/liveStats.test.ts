@@ -0,0 +1,66 @@
+import { subscribeStats, publishStats } from '../../../lib/stats/liveStats';
+
+const stats: any = { callUUID: 'uuid', local: {}, remote: {} };
+
+describe('LiveStats', () => {
+  let client: any;
+
+  beforeEach(() => {
+    client = { statsSubscriptions: [], _currentSession: { callUUID: 'uuid' } };
+  });
+
+  it('should deliver stats on every collection tick by default', () => {
+    const callback = jest.fn();
+    subscribeStats.call(client, callback);
+    publishStats.call(client, stats);
+    publishStats.call(client, stats);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenCalledWith(stats);
+  });
+
+  it('should deliver stats at the requested interval', () => {
+    const callback = jest.fn();
+    subscribeStats.call(client, callback, { intervalMs: 15000 });
+    for (let i = 0; i < 6; i += 1) publishStats.call(client, stats);
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop delivering stats once unsubscribed', () => {
+    const callback = jest.fn();
+    const unsubscribe = subscribeStats.call(client, callback);
+    publishStats.call(client, stats);
+    unsubscribe();
+    publishStats.call(client, stats);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(client.statsSubscriptions).toStrictEqual([]);
+  });
+
+  it('should keep delivering stats when a callback throws', () => {
+    const callback = jest.fn();
+    subscribeStats.call(client, () => { throw new Error('dashboard error'); });
+    subscribeStats.call(client, callback);
+    publishStats.call(client, stats);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver only the stats of the active call', () => {
+    const callback = jest.fn();
+    subscribeStats.call(client, callback, { intervalMs: 10000 });
+    publishStats.call(client, stats);
+    publishStats.call(client, { ...stats, callUUID: 'held-uuid' });
+    expect(callback).not.toHaveBeenCalled();
+    publishStats.call(client, stats);
+    expect(callback).toHaveBeenCalledTimes(1);
+    client._currentSession = null;
+    publishStats.call(client, stats);
+    publishStats.call(client, stats);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore invalid subscriptions', () => {
+    subscribeStats.call(client, 'callback');
+    expect(client.statsSubscriptions.length).toBe(0);
+    subscribeStats.call(client, jest.fn(), { intervalMs: -1 });
+    expect(client.statsSubscriptions[0].every).toBe(1);
+  });
+});
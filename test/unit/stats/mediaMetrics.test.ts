@@ -1,4 +1,5 @@
 import { processStreams } from '../../../lib/stats/mediaMetrics';
+import { DEFAULT_QUALITY_THRESHOLDS } from '../../../lib/constants';
 
 describe('MediaMetrics', () => {
   let context;
@@ -246,6 +247,69 @@ describe('MediaMetrics', () => {
     expect(emitMock).toHaveBeenCalledTimes(2);
     expect(metricType).toMatch(/packetloss/);
   });
+
+  it('should include the threshold in the emitted metric', () => {
+    const emitMock = jest.spyOn(context, 'emit' as any);
+    streams.local.rtt = 450;
+    processStreams.call(context, streams, false);
+    updateAudioLevels(streams, -36.433);
+    processStreams.call(context, streams, false);
+    updateAudioLevels(streams, -34.433);
+    processStreams.call(context, streams, false);
+    expect(emitMock.mock.calls[0][1]).toMatchObject({
+      type: 'high_rtt', active: true, threshold: 400,
+    });
+  });
+
+  it('should use the configured quality thresholds', () => {
+    const emitMock = jest.spyOn(context, 'emit' as any);
+    context.options.qualityThresholds = {
+      ...DEFAULT_QUALITY_THRESHOLDS,
+      mos: {
+        threshold: 3, windowSize: 3, raiseCount: 2, clearCount: 1,
+      },
+      jitter: {
+        threshold: 50, windowSize: 1, raiseCount: 1, clearCount: 0,
+      },
+    };
+    streams.local.mos = 3.193;
+    streams.local.jitter = 60;
+    streams.remote.jitter = 20;
+    processStreams.call(context, streams, false);
+    expect(emitMock).toHaveBeenCalledTimes(1);
+    expect(emitMock.mock.calls[0][1]).toMatchObject({
+      type: 'high_jitter', stream: 'local', threshold: 50,
+    });
+    updateAudioLevels(streams, -36.433);
+    processStreams.call(context, streams, false);
+    updateAudioLevels(streams, -34.433);
+    processStreams.call(context, streams, false);
+    expect(emitMock).toHaveBeenCalledTimes(3);
+    expect(metricType).toMatch(/jitter/);
+  });
+
+  it('should keep a warning until enough samples are below the threshold', () => {
+    const emitMock = jest.spyOn(context, 'emit' as any);
+    context.options.qualityThresholds = {
+      ...DEFAULT_QUALITY_THRESHOLDS,
+      rtt: {
+        threshold: 400, windowSize: 3, raiseCount: 2, clearCount: 0,
+      },
+    };
+    [450, 450, 450, 300, 300].forEach((rtt, index) => {
+      streams.local.rtt = rtt;
+      updateAudioLevels(streams, -30 - index);
+      processStreams.call(context, streams, false);
+    });
+    // second window has one sample above the threshold, it neither raises nor clears
+    expect(emitMock).toHaveBeenCalledTimes(1);
+    [1, 2].forEach((index) => {
+      updateAudioLevels(streams, -40 - index);
+      processStreams.call(context, streams, false);
+    });
+    expect(emitMock).toHaveBeenCalledTimes(2);
+    expect(emitMock.mock.calls[1][1]).toMatchObject({ type: 'high_rtt', active: false });
+  });
 });
 
 const updateAudioLevels = (streams, val) => {
@@ -74,6 +74,8 @@ describe('NonRTPStats', () => {
 
   beforeEach(() => {
     context.callstatskey = callInfoObj.callstats_key;
+    context._currentSession.isSummarySent = false;
+    context.isUnloading = false;
     context.statsSocket = new StatsSocket();
     context.statsSocket.connect();
     context.callStats = {
@@ -130,6 +132,76 @@ describe('NonRTPStats', () => {
     expect(context.statsSocket.ws.message).toMatch('');
   });
 
+  it('should send events to stats sinks when callstatskey is missing', () => {
+    const sendFn = jest.spyOn(context.statsSocket.ws, 'send');
+    const onEvent = jest.fn();
+    context.callstatskey = null;
+    context.options.statsSinks = [{ onEvent }];
+    nonRTPStats.sendCallAnsweredEvent.call(context, deviceInfo, false);
+    nonRTPStats.sendCallSummaryEvent.call(context, deviceInfo, signallingInfo, mediaConnectionInfo, context._currentSession);
+    delete context.options.statsSinks;
+    expect(sendFn).toHaveBeenCalledTimes(0);
+    expect(onEvent.mock.calls.map(([event]) => event.msg))
+      .toEqual(['CALL_ANSWERED', 'CALL_SUMMARY']);
+    expect(onEvent.mock.calls[1][0].setupOptions.statsSinks).toBeUndefined();
+  });
+
+  it('should send events outside a call only to stats sinks', () => {
+    const sendFn = jest.spyOn(context.statsSocket.ws, 'send');
+    const onEvent = jest.fn();
+    context.callstatskey = 'fb85a852-e7be-11ea-b940-5b5a84a8b39b';
+    context.options.statsSinks = [{ onEvent }];
+    nonRTPStats.sendEvents.call(context, { msg: 'NETWORK_CHANGE' }, null);
+    delete context.options.statsSinks;
+    context.callstatskey = null;
+    expect(sendFn).toHaveBeenCalledTimes(0);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onEvent.mock.calls[0][0]).toMatchObject({ msg: 'NETWORK_CHANGE', userName: 'testing' });
+    expect(onEvent.mock.calls[0][0].callUUID).toBeUndefined();
+  });
+
+  it('should send call summary only once for a call', () => {
+    const sendFn = jest.spyOn(context.statsSocket.ws, 'send');
+    nonRTPStats.sendCallSummaryEvent.call(context, deviceInfo, signallingInfo, mediaConnectionInfo, context._currentSession);
+    context.statsSocket = new StatsSocket();
+    const resendFn = jest.spyOn(context.statsSocket.ws, 'send');
+    nonRTPStats.sendEvents.call(context, { msg: 'CALL_SUMMARY' }, context._currentSession);
+    expect(sendFn).toHaveBeenCalledTimes(1);
+    expect(resendFn).toHaveBeenCalledTimes(0);
+  });
+
+  it('should send events as beacon while the page is unloading', () => {
+    const sendFn = jest.spyOn(context.statsSocket.ws, 'send');
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    context.isUnloading = true;
+    context.options.statsBeaconUrl = 'https://example.com/stats';
+    context.statsSocket = null;
+    nonRTPStats.sendEvents.call(context, { msg: 'CALL_SUMMARY' }, context._currentSession);
+    delete (navigator as any).sendBeacon;
+    delete context.options.statsBeaconUrl;
+    expect(sendFn).toHaveBeenCalledTimes(0);
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    const [url, body] = sendBeacon.mock.calls[0] as any[];
+    expect(url).toBe('https://example.com/stats');
+    expect(body.type).toBe('application/json');
+  });
+
+  it('should send events over the stats socket while unloading without a beacon url', () => {
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    context.isUnloading = true;
+    context.callstatskey = 'fb85a852-e7be-11ea-b940-5b5a84a8b39b';
+    context.statsSocket = new StatsSocket();
+    const sendFn = jest.spyOn(context.statsSocket.ws, 'send');
+    nonRTPStats.sendEvents.call(context, { msg: 'CALL_ANSWERED' }, context._currentSession);
+    delete (navigator as any).sendBeacon;
+    context.isUnloading = false;
+    context.callstatskey = null;
+    expect(sendBeacon).toHaveBeenCalledTimes(0);
+    expect(sendFn).toHaveBeenCalledTimes(1);
+  });
+
   it('should add callinfo to stats', () => {
     expect(nonRTPStats.addCallInfo(callSession, {} as any, callInfoObj.callstats_key, callInfoObj.userName)).toStrictEqual(callInfoObj);
   });
@@ -184,6 +256,13 @@ describe('NonRTPStats', () => {
     expect(context.statsSocket.ws.message).toStrictEqual(expectedMsg);
   });
 
+  it('should send toggle hold message to stats socket', () => {
+    const action = 'hold';
+    const expectedMsg = { msg: 'TOGGLE_HOLD', action, ...callInfoObj };
+    nonRTPStats.onToggleHold.call(context, callSession, action);
+    expect(context.statsSocket.ws.message).toStrictEqual(expectedMsg);
+  });
+
   it('should send app error', () => {
     const reportErrorFn = jest.spyOn(context.callStats, 'reportError');
     const err = { name: 'hangup', message: 'hangup initialized', method: 'hangup()' };
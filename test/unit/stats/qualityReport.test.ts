@@ -0,0 +1,112 @@
+import { CallQualityCollector, summarize } from '../../../lib/stats/qualityReport';
+
+const sample = (mos: number, jitter: number, packetLoss: number, rtt: number) => ({
+  codec: 'opus',
+  pdd: 1200,
+  mediaSetupTime: 300,
+  local: {
+    mos, jitter, packetLoss, rtt,
+  },
+  remote: { mos, jitter, packetLoss },
+});
+
+describe('CallQualityReport', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should summarize metric values', () => {
+    expect(summarize([])).toBeNull();
+    expect(summarize([3, 1, 2])).toStrictEqual({
+      min: 1, avg: 2, max: 3, p95: 3,
+    });
+    const values = Array.from({ length: 20 }, (v, i) => i + 1);
+    expect(summarize(values)).toStrictEqual({
+      min: 1, avg: 10.5, max: 20, p95: 19,
+    });
+  });
+
+  it('should not report a call which was never answered', () => {
+    const collector = new CallQualityCollector();
+    collector.addSample(sample(4.2, 10, 0, 40));
+    expect(collector.finish('uuid')).toBeNull();
+  });
+
+  it('should aggregate samples for each direction', () => {
+    const collector = new CallQualityCollector();
+    collector.start();
+    collector.addSample(sample(4.4, 10, 0, 40));
+    collector.addSample(sample(3.8, 30, 0.02, 80));
+    collector.addSample({
+      ...sample(4.1, 20, 0.01, 60),
+      local: {
+        mos: null, jitter: NaN, packetLoss: 0.01, rtt: 60,
+      },
+    });
+    now = 16000;
+    const report: any = collector.finish('uuid');
+    expect(report).toMatchObject({
+      callUUID: 'uuid',
+      startTime: 1000,
+      endTime: 16000,
+      samples: 3,
+      codec: 'opus',
+      pdd: 1200,
+      mediaSetupTime: 300,
+    });
+    expect(report.local.mos).toStrictEqual({
+      min: 3.8, avg: 4.1, max: 4.4, p95: 4.4,
+    });
+    expect(report.local.jitter).toStrictEqual({
+      min: 10, avg: 20, max: 30, p95: 30,
+    });
+    expect(report.local.rtt.avg).toBe(60);
+    expect(report.remote.mos.avg).toBe(4.1);
+    expect(report.remote.packetLoss.max).toBe(0.02);
+  });
+
+  it('should track the time spent in each warning', () => {
+    const collector = new CallQualityCollector();
+    collector.start();
+    collector.setWarning('high_jitter', 'local', true);
+    now = 3000;
+    // warning is raised again while active
+    collector.setWarning('high_jitter', 'local', true);
+    now = 6000;
+    collector.setWarning('high_jitter', 'local', false);
+    collector.setWarning('high_rtt', 'None', false);
+    now = 7000;
+    collector.setWarning('high_jitter', 'local', true);
+    collector.setWarning('low_mos', 'remote', true);
+    now = 9000;
+    expect((collector.finish('uuid') as any).warnings).toStrictEqual([
+      {
+        type: 'high_jitter', stream: 'local', occurrences: 2, duration: 7000,
+      },
+      {
+        type: 'low_mos', stream: 'remote', occurrences: 1, duration: 2000,
+      },
+    ]);
+  });
+
+  it('should freeze the report once the call has ended', () => {
+    const collector = new CallQualityCollector();
+    collector.start();
+    now = 2000;
+    expect((collector.getReport('uuid') as any).endTime).toBe(2000);
+    now = 5000;
+    const report = collector.finish('uuid');
+    now = 9000;
+    collector.addSample(sample(4.4, 10, 0, 40));
+    expect(collector.finish('uuid')).toBe(report);
+    expect(collector.getReport('uuid')).toBe(report);
+    expect(report).toMatchObject({ endTime: 5000, samples: 0 });
+  });
+});
@@ -1,4 +1,5 @@
 import { handleChromeStats, handleFirefoxSafariStats } from '../../../lib/stats/rtpStats';
+import { CallQualityCollector } from '../../../lib/stats/qualityReport';
 import { getChromeStatsResponse, getFirefoxSafariStatsResponse } from '../../mock/RTCStatsResponse';
 import rtpStatsResponse from '../../payloads/rtpStatsEvent.json';
 
@@ -23,7 +24,16 @@ describe('RTPStats', () => {
                     init: 0,
                     end: 0
                   },
-                }
+                },
+                statsSubscriptions: [],
+                options: { statsSinks: [] },
+                _currentSession: { callUUID: 'bd4a82d9-e3d6-4a63-92b4-26c63a0b993d' },
+            },
+            callSession: {
+                session: {
+                    isEnded: () => false,
+                    isMuted: () => ({ audio: false }),
+                },
             },
             packets: {
                 prePacketsReceived: null
@@ -46,7 +56,10 @@ describe('RTPStats', () => {
                     mosRemoteMeasures: null
                 }
             },
-            pc: {}
+            pc: {},
+            mos: { local: null, remote: null },
+            qualityCollector: new CallQualityCollector(),
+            liveStatsBase: { timeStamp: null },
         };
     });
 
@@ -120,6 +133,68 @@ describe('RTPStats', () => {
     }, 100));
   });
 
+  it('should add rtt in milliseconds to the quality report on firefox', async () => {
+    updateFirefoxContext(context);
+    handleFirefoxSafariStats.call(context, stream);
+    handleFirefoxSafariStats.call(context, stream);
+    await new Promise<void>((res) => setTimeout(() => {
+      expect(context.qualityCollector.samples).toBe(2);
+      expect(context.qualityCollector.local.rtt).toStrictEqual([26, 26]);
+      expect(context.qualityCollector.latest.codec).toBe('opus');
+      res();
+    }, 100));
+  });
+
+  it('should deliver normalized live stats on chrome', () => {
+    const callback = jest.fn();
+    context.clientScope.statsSubscriptions = [{ callback, every: 1, ticks: 0 }];
+    updateChromeContext(context);
+    handleChromeStats.call(context, stream);
+    Date.now = jest.fn(() => 1599026897574);
+    handleChromeStats.call(context, stream);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback.mock.calls[0][0].local.bitrate).toBeNull();
+    const [stats] = callback.mock.calls[1];
+    expect(stats.callUUID).toBe('bd4a82d9-e3d6-4a63-92b4-26c63a0b993d');
+    expect(stats.local).toMatchObject({ bitrate: 0, rtt: 26, packetsSent: 635 });
+    expect(stats.remote).toMatchObject({
+      bitrate: 0, packetsReceived: 630, jitterBufferDelay: 45, concealment: 0,
+    });
+  });
+
+  it('should send the stats of a held call to the sinks', () => {
+    const onRtpStats = jest.fn();
+    context.clientScope.options.statsSinks = [{ onRtpStats }];
+    context.clientScope._currentSession = { session: {} };
+    updateChromeContext(context);
+    handleChromeStats.call(context, stream);
+    expect(onRtpStats).toHaveBeenCalledTimes(1);
+    expect(onRtpStats.mock.calls[0][0].xcallUUID).toBe('bd4a82d9-e3d6-4a63-92b4-26c63a0b993d');
+    context.callSession.session.isEnded = () => true;
+    handleChromeStats.call(context, stream);
+    expect(onRtpStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver live stats with the same fields on firefox', async () => {
+    const callback = jest.fn();
+    context.clientScope.statsSubscriptions = [{ callback, every: 1, ticks: 0 }];
+    updateFirefoxContext(context);
+    handleFirefoxSafariStats.call(context, stream);
+    await new Promise<void>((res) => setTimeout(() => {
+      const [stats] = callback.mock.calls[0];
+      expect(Object.keys(stats.local)).toStrictEqual([
+        'bitrate', 'packetsSent', 'packetsLost', 'fractionLoss', 'jitter', 'rtt', 'mos', 'audioLevel',
+      ]);
+      expect(Object.keys(stats.remote)).toStrictEqual([
+        'bitrate', 'packetsReceived', 'packetsLost', 'fractionLoss', 'jitter',
+        'jitterBufferDelay', 'concealment', 'mos', 'audioLevel',
+      ]);
+      expect(stats.local.rtt).toBe(26);
+      expect(stats.remote.jitterBufferDelay).toBeNull();
+      res();
+    }, 100));
+  });
+
   it('should fail with error in getStats local streams API', async () => {
     const consoleSpy = jest.spyOn(console, 'debug');
     context.pc = {
@@ -0,0 +1,92 @@
+import {
+  HttpBatchSink, ConsoleSink, sendEventToSinks, sendRtpStatsToSinks,
+} from '../../../lib/stats/sinks';
+
+const flushPromises = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('StatsSinks', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(() => Promise.resolve({ ok: true, status: 200 }));
+    (global as any).fetch = fetchMock;
+    (global as any).Headers = function Headers(headers: { [key: string]: string }) {
+      return headers;
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should post a batch once it is full', async () => {
+    const sink = new HttpBatchSink({
+      url: 'https://stats.example.com', headers: { Authorization: 'token' }, batchSize: 2,
+    });
+    sink.onEvent({ msg: 'CALL_ANSWERED' });
+    expect(fetchMock).not.toHaveBeenCalled();
+    sink.onRtpStats({ msg: 'CALL_STATS' } as any);
+    await flushPromises();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, request] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://stats.example.com');
+    expect(request.headers).toStrictEqual({
+      'Content-Type': 'application/json', Authorization: 'token',
+    });
+    expect(JSON.parse(request.body)).toStrictEqual([
+      { type: 'event', data: { msg: 'CALL_ANSWERED' } },
+      { type: 'rtp_stats', data: { msg: 'CALL_STATS' } },
+    ]);
+  });
+
+  it('should post a partial batch after the flush interval and at call end', async () => {
+    jest.useFakeTimers();
+    const sink = new HttpBatchSink({ url: 'https://stats.example.com', flushInterval: 5000 });
+    sink.onRtpStats({ msg: 'CALL_STATS' } as any);
+    jest.advanceTimersByTime(5000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    sink.onEvent({ msg: 'CALL_SUMMARY' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toStrictEqual([
+      { type: 'event', data: { msg: 'CALL_SUMMARY' } },
+    ]);
+  });
+
+  it('should keep a failed batch for the next flush', async () => {
+    fetchMock.mockImplementationOnce(() => Promise.resolve({ ok: false, status: 503 }));
+    const sink = new HttpBatchSink({ url: 'https://stats.example.com' });
+    sink.onEvent({ msg: 'CALL_ANSWERED' });
+    await sink.flush();
+    expect(sink.buffer).toHaveLength(1);
+    await sink.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sink.buffer).toHaveLength(0);
+  });
+
+  it('should print events and stats with the console sink', () => {
+    const info = jest.spyOn(console, 'info').mockImplementation(() => {});
+    const sink = new ConsoleSink();
+    sink.onEvent({ msg: 'FEEDBACK' });
+    sink.onRtpStats({ msg: 'CALL_STATS' } as any);
+    expect(info).toHaveBeenNthCalledWith(1, '[PlivoStats] FEEDBACK', { msg: 'FEEDBACK' });
+    expect(info).toHaveBeenNthCalledWith(2, '[PlivoStats] CALL_STATS', { msg: 'CALL_STATS' });
+  });
+
+  it('should deliver to every sink even if one of them throws', () => {
+    const received: any[] = [];
+    const client = {
+      options: {
+        statsSinks: [
+          { onEvent: () => { throw new Error('sink failure'); } },
+          { onEvent: (event) => received.push(event), onRtpStats: (sample) => received.push(sample) },
+          { onRtpStats: (sample) => received.push(sample) },
+        ],
+      },
+    };
+    sendEventToSinks.call(client, { msg: 'NETWORK_CHANGE' });
+    sendRtpStatsToSinks.call(client, { msg: 'CALL_STATS', local: {}, remote: {} });
+    expect(received.map((item) => item.msg))
+      .toStrictEqual(['NETWORK_CHANGE', 'CALL_STATS', 'CALL_STATS']);
+  });
+});
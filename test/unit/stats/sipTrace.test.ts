@@ -0,0 +1,118 @@
+import { SipTraceRecorder, toSipLadder, toSipPcap } from '../../../lib/stats/sipTrace';
+import { SIP_TRACE_HISTORY } from '../../../lib/constants';
+
+const request = (method: string, callId: string, extraHeaders: string[] = []) => [
+  `${method} sip:destination@phone.plivo.com SIP/2.0`,
+  `Call-ID: ${callId}`,
+  `CSeq: 1 ${method}`,
+  ...extraHeaders,
+  'Content-Length: 0',
+  '',
+  '',
+].join('\r\n');
+
+const response = (status: string, callId: string, extraHeaders: string[] = []) => [
+  `SIP/2.0 ${status}`,
+  `Call-ID: ${callId}`,
+  'CSeq: 1 INVITE',
+  ...extraHeaders,
+  'Content-Length: 0',
+  '',
+  '',
+].join('\r\n');
+
+const createSocket = () => ({
+  url: 'wss://mock.sip.server',
+  via_transport: 'WSS',
+  sip_uri: 'sip:mock.sip.server;transport=ws',
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  send: jest.fn(() => true),
+  ondata: null as any,
+});
+
+describe('SipTrace', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => 1600000000123);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should capture the messages of a call through the socket', () => {
+    const recorder = new SipTraceRecorder();
+    const socket = createSocket();
+    const traced = recorder.wrap(socket);
+    const onData = jest.fn();
+    traced.ondata = onData;
+    expect(traced.url).toBe(socket.url);
+    expect(traced.sip_uri).toBe(socket.sip_uri);
+    traced.send(request('INVITE', 'call-1', ['Proxy-Authorization: Digest response="abc"']));
+    socket.ondata(response('180 Ringing', 'call-1', ['X-Calluuid: uuid-1']));
+    socket.ondata('\r\n');
+    traced.send(request('REGISTER', 'register-1'));
+    expect(socket.send).toHaveBeenCalledTimes(2);
+    expect(onData).toHaveBeenCalledTimes(2);
+    const trace = recorder.getTrace('uuid-1') as any;
+    expect(trace.callId).toBe('call-1');
+    expect(trace.messages.map((item) => [item.direction, item.summary])).toStrictEqual([
+      ['sent', 'INVITE sip:destination@phone.plivo.com SIP/2.0'],
+      ['received', 'SIP/2.0 180 Ringing'],
+    ]);
+    expect(trace.messages[0].message).toMatch(/Proxy-Authorization: \[REDACTED\]\r\n/);
+    expect(recorder.getTrace('unknown')).toBeNull();
+  });
+
+  it('should hide the ip addresses of the sdp', () => {
+    const recorder = new SipTraceRecorder();
+    const traced = recorder.wrap(createSocket());
+    traced.send(request('INVITE', 'call-1', ['X-Calluuid: uuid-1']).replace('\r\n\r\n', [
+      '',
+      '',
+      'v=0',
+      'c=IN IP4 192.168.1.20',
+      'm=audio 50000 UDP/TLS/RTP/SAVPF 111',
+      'a=candidate:842163049 1 udp 1677729535 203.0.113.7 50000 typ srflx '
+        + 'raddr 192.168.1.20 rport 50000',
+      '',
+    ].join('\r\n')));
+    const { message } = (recorder.getTrace('uuid-1') as any).messages[0];
+    expect(message).not.toMatch(/192\.168\.1\.20|203\.0\.113\.7/);
+    expect(message).toMatch(/c=IN IP4 \[REDACTED\]\r\n/);
+    expect(message).toMatch(/m=audio 50000 UDP\/TLS\/RTP\/SAVPF 111/);
+  });
+
+  it('should keep the traces of the latest calls', () => {
+    const recorder = new SipTraceRecorder();
+    const traced = recorder.wrap(createSocket());
+    for (let i = 0; i <= SIP_TRACE_HISTORY; i += 1) {
+      traced.send(request('INVITE', `call-${i}`, [`X-Calluuid: uuid-${i}`]));
+    }
+    expect(recorder.getTrace('uuid-0')).toBeNull();
+    expect(recorder.getTrace(`uuid-${SIP_TRACE_HISTORY}`)).not.toBeNull();
+  });
+
+  it('should export the trace as ladder and pcap', () => {
+    const recorder = new SipTraceRecorder();
+    const socket = createSocket();
+    const traced = recorder.wrap(socket);
+    traced.ondata = () => {};
+    traced.send(request('INVITE', 'call-1'));
+    socket.ondata(response('200 OK', 'call-1', ['X-Calluuid: uuid-1']));
+    const trace = recorder.getTrace('uuid-1') as any;
+    const ladder = toSipLadder(trace);
+    expect(ladder).toMatch('2020-09-13T12:26:40.123Z  client  ---- INVITE ---->  server');
+    expect(ladder).toMatch('2020-09-13T12:26:40.123Z  client  <---- 200 OK ----  server');
+    const pcap = toSipPcap(trace, 'wss://mock.sip.server');
+    expect(pcap.packets[1]).toMatchObject({
+      number: 2,
+      ts_sec: 1600000000,
+      ts_usec: 123000,
+      direction: 'received',
+      src: 'wss://mock.sip.server',
+      dst: 'client',
+      info: 'SIP/2.0 200 OK',
+    });
+  });
+});
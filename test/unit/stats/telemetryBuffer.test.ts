@@ -0,0 +1,121 @@
+import { TelemetryBuffer } from '../../../lib/stats/telemetryBuffer';
+import {
+  TELEMETRY_BUFFER_STORAGE_KEY, TELEMETRY_BUFFER_MAX_AGE, TELEMETRY_BUFFER_MAX_BYTES,
+  TELEMETRY_BUFFER_ORPHAN_AGE, TELEMETRY_BUFFER_HEARTBEAT,
+} from '../../../lib/constants';
+
+describe('TelemetryBuffer', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep messages in order until they are removed', async () => {
+    const buffer = new TelemetryBuffer();
+    await buffer.loaded;
+    buffer.add('{"msg":"CALL_ANSWERED"}');
+    buffer.add('{"msg":"CALL_SUMMARY"}');
+    expect(buffer.getPendingCount()).toBe(2);
+    const entry = buffer.peek() as any;
+    expect(entry.message).toBe('{"msg":"CALL_ANSWERED"}');
+    buffer.remove(entry.id);
+    expect((buffer.peek() as any).message).toBe('{"msg":"CALL_SUMMARY"}');
+    expect(JSON.parse(window.localStorage.getItem(TELEMETRY_BUFFER_STORAGE_KEY) as string))
+      .toHaveLength(1);
+  });
+
+  it('should restore the messages persisted by an earlier page load', async () => {
+    const previous = new TelemetryBuffer();
+    await previous.loaded;
+    previous.add('{"msg":"CALL_SUMMARY"}');
+    now += TELEMETRY_BUFFER_ORPHAN_AGE;
+    const buffer = new TelemetryBuffer();
+    buffer.add('{"msg":"FEEDBACK"}');
+    expect(await buffer.loaded).toBe(2);
+    expect((buffer.peek() as any).message).toBe('{"msg":"CALL_SUMMARY"}');
+    const next = new TelemetryBuffer();
+    expect(await next.loaded).toBe(0);
+  });
+
+  it('should leave the recent messages of another tab to it', async () => {
+    const other = new TelemetryBuffer();
+    await other.loaded;
+    other.add('{"msg":"CALL_SUMMARY"}');
+    now += TELEMETRY_BUFFER_ORPHAN_AGE - 1;
+    const buffer = new TelemetryBuffer();
+    expect(await buffer.loaded).toBe(0);
+    buffer.add('{"msg":"FEEDBACK"}');
+    buffer.remove((buffer.peek() as any).id);
+    expect(other.getPendingCount()).toBe(1);
+    expect(JSON.parse(window.localStorage.getItem(TELEMETRY_BUFFER_STORAGE_KEY) as string)
+      .map((entry) => entry.message)).toEqual(['{"msg":"CALL_SUMMARY"}']);
+  });
+
+  it('should refresh the ownership of its messages so that other tabs leave them', async () => {
+    jest.useFakeTimers();
+    const other = new TelemetryBuffer();
+    await other.loaded;
+    other.add('{"msg":"CALL_SUMMARY"}');
+    const refresh = jest.spyOn(other as any, 'refreshOwnership');
+    now += TELEMETRY_BUFFER_ORPHAN_AGE - 1;
+    jest.advanceTimersByTime(TELEMETRY_BUFFER_HEARTBEAT);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await (other as any).refreshOwnership()).toBe(1);
+    now += TELEMETRY_BUFFER_ORPHAN_AGE - 1;
+    const buffer = new TelemetryBuffer();
+    expect(await buffer.loaded).toBe(0);
+    other.remove((other.peek() as any).id);
+    expect((other as any).heartbeatTimer).toBeNull();
+    jest.useRealTimers();
+  });
+
+  it('should drop the messages which another tab took over', async () => {
+    const other = new TelemetryBuffer();
+    await other.loaded;
+    other.add('{"msg":"CALL_SUMMARY"}');
+    now += TELEMETRY_BUFFER_ORPHAN_AGE;
+    const buffer = new TelemetryBuffer();
+    expect(await buffer.loaded).toBe(1);
+    expect(await (other as any).refreshOwnership()).toBe(0);
+    expect(other.getPendingCount()).toBe(0);
+  });
+
+  it('should not persist messages of an in-memory buffer', async () => {
+    const buffer = new TelemetryBuffer(false);
+    buffer.add('{"msg":"CALL_STATS"}');
+    expect(await buffer.loaded).toBe(0);
+    expect(buffer.getPendingCount()).toBe(1);
+    expect(window.localStorage.getItem(TELEMETRY_BUFFER_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should drop messages beyond the allowed age and size', async () => {
+    const buffer = new TelemetryBuffer();
+    await buffer.loaded;
+    buffer.add('{"msg":"CALL_ANSWERED"}');
+    now += TELEMETRY_BUFFER_MAX_AGE + 1;
+    buffer.add('{"msg":"CALL_STATS"}');
+    expect(buffer.getPendingCount()).toBe(1);
+    buffer.add('x'.repeat(TELEMETRY_BUFFER_MAX_BYTES));
+    expect(buffer.getPendingCount()).toBe(1);
+    expect((buffer.peek() as any).size).toBe(TELEMETRY_BUFFER_MAX_BYTES);
+  });
+
+  it('should count the size of messages in bytes', async () => {
+    const buffer = new TelemetryBuffer(false);
+    buffer.add('{"name":"Zoë 日本"}');
+    expect((buffer.peek() as any).size).toBe(22);
+  });
+
+  it('should ignore unreadable stored messages', async () => {
+    window.localStorage.setItem(TELEMETRY_BUFFER_STORAGE_KEY, 'not json');
+    const buffer = new TelemetryBuffer();
+    expect(await buffer.loaded).toBe(0);
+  });
+});
@@ -1,4 +1,6 @@
-import { StatsSocket } from '../../../lib/stats/ws';
+import { StatsSocket, replayPendingTelemetry } from '../../../lib/stats/ws';
+import { TelemetryBuffer } from '../../../lib/stats/telemetryBuffer';
+import { TELEMETRY_BUFFER_ORPHAN_AGE } from '../../../lib/constants';
 import WebSocket from '../../mock/WebSocket';
 
 describe('WS', () => {
@@ -32,6 +34,14 @@ describe('WS', () => {
     expect(context.statsSocket.ws.message).toStrictEqual(stat);
   });
 
+  it('should send stats without buffering them while the socket is open', () => {
+    const stat = { msg: 'TOGGLE_MUTE', action: 'mute' };
+    const add = jest.spyOn(context.statsSocket.messageBuffer, 'add');
+    expect(context.statsSocket.send(stat)).toBeTruthy();
+    expect(add).not.toHaveBeenCalled();
+    expect(context.statsSocket.messageBuffer.getPendingCount()).toBe(0);
+  });
+
   it('should not send the heartbeat if socket is closed', () => {
     context.statsSocket.ws.close();
     expect(context.statsSocket.heartbeat(context)).toBeFalsy();
@@ -48,4 +58,49 @@ describe('WS', () => {
     context.statsSocket.disconnect();
     expect(context.statsSocket.ws).toBe(null);
   });
+
+  it('should replay buffered stats once the socket is open', () => {
+    const stat = { msg: 'TOGGLE_MUTE', action: 'mute' };
+    context.statsSocket.ws.close();
+    context.statsSocket.send(stat);
+    expect(context.statsSocket.messageBuffer.getPendingCount()).toBe(1);
+    context.statsSocket.ws.readyState = 1;
+    context.statsSocket.ws.onopen();
+    expect(context.statsSocket.ws.message).toStrictEqual(stat);
+    expect(context.statsSocket.messageBuffer.getPendingCount()).toBe(0);
+  });
+
+  it('should retry the replay with backoff while the socket is closed', () => {
+    jest.useFakeTimers();
+    const socket = new StatsSocket();
+    socket.messageBuffer.add(JSON.stringify({ msg: 'CALL_SUMMARY' }));
+    (socket.ws as any).readyState = 0;
+    socket.isConnecting = true;
+    socket.replay();
+    expect(socket.replayAttempts).toBe(1);
+    jest.advanceTimersByTime(999);
+    expect(socket.replayAttempts).toBe(1);
+    jest.advanceTimersByTime(1);
+    expect(socket.replayAttempts).toBe(2);
+    (socket.ws as any).readyState = 1;
+    jest.advanceTimersByTime(4000);
+    expect(socket.replayAttempts).toBe(0);
+    expect(socket.messageBuffer.getPendingCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('should replay stats persisted by an earlier page load and close the socket', async () => {
+    window.localStorage.clear();
+    const previous = new TelemetryBuffer();
+    await previous.loaded;
+    previous.add(JSON.stringify({ msg: 'CALL_SUMMARY' }));
+    const now = Date.now() + TELEMETRY_BUFFER_ORPHAN_AGE;
+    const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const buffer = new TelemetryBuffer();
+    const socket = await replayPendingTelemetry(buffer) as StatsSocket;
+    dateNow.mockRestore();
+    expect(buffer.getPendingCount()).toBe(0);
+    expect(socket.ws).toBeNull();
+    expect(await replayPendingTelemetry(buffer)).toBeNull();
+  });
 });
@@ -1,4 +1,5 @@
-import { validateFeedback } from '../../../lib/utils/feedback';
+import { validateFeedback, parseFeedbackIssues } from '../../../lib/utils/feedback';
+import { DEFAULT_COMMENTS } from '../../../lib/constants';
 
 describe('Feedback', () => {
   let callUUD: string; let starRating: string; let note: string; let issues: string[]; let userName: string; let
@@ -68,6 +69,36 @@ describe('Feedback', () => {
     const error = 'score should be from 1-5 range';
     return expect(validateFeedback(callUUD, '6', note, issues, userName, isLoggedIn)).rejects.toMatch(error);
   });
+
+  it('should accept registered issues', () => {
+    const issueTypes = { ...DEFAULT_COMMENTS, ...parseFeedbackIssues(['Agent Unreachable']) };
+    const expected = {
+      overall: 3,
+      comment: 'agent_unreachable Good',
+    };
+    return expect(validateFeedback(callUUD, '3', note, ['agent_unreachable'], userName, isLoggedIn, { issueTypes })).resolves.toStrictEqual(expected);
+  });
+
+  it('should ignore invalid registered issues', () => {
+    expect(parseFeedbackIssues({ 'no-dash': 'x', QUEUE_TIMEOUT: 'queue_timeout', EMPTY: '' }))
+      .toStrictEqual({ QUEUE_TIMEOUT: 'queue_timeout' });
+    expect(parseFeedbackIssues(null as any)).toStrictEqual({});
+  });
+
+  it('should attach metadata', () => {
+    const metadata = { agentId: 'agent-1', queue: 'support' };
+    const expected = {
+      overall: 4,
+      comment: 'audio_lag Good',
+      metadata,
+    };
+    return expect(validateFeedback(callUUD, starRating, note, issues, userName, isLoggedIn, { metadata })).resolves.toStrictEqual(expected);
+  });
+
+  it('should fail with error when metadata is invalid', async () => {
+    await expect(validateFeedback(callUUD, starRating, note, issues, userName, isLoggedIn, { metadata: [] as any })).rejects.toMatch('Attribute metadata should be an object');
+    await expect(validateFeedback(callUUD, starRating, note, issues, userName, isLoggedIn, { metadata: { text: repeat('test', 600) } })).rejects.toMatch('Maximum length for metadata');
+  });
 });
 
 const repeat = (str: string, count: number) => {
@@ -0,0 +1,33 @@
+import { getReconnectionDelay } from '../../../lib/utils/networkManager';
+
+describe('NetworkManager', () => {
+  const policy = {
+    minInterval: 2,
+    maxInterval: 20,
+    jitter: 0,
+    maxAttempts: 0,
+  };
+
+  afterEach(() => {
+    jest.spyOn(Math, 'random').mockRestore();
+  });
+
+  it('should double the reconnection interval with every attempt', () => {
+    expect(getReconnectionDelay(policy, 1)).toBe(2000);
+    expect(getReconnectionDelay(policy, 2)).toBe(4000);
+    expect(getReconnectionDelay(policy, 3)).toBe(8000);
+  });
+
+  it('should not exceed the max reconnection interval', () => {
+    expect(getReconnectionDelay(policy, 5)).toBe(20000);
+    expect(getReconnectionDelay(policy, 50)).toBe(20000);
+  });
+
+  it('should spread the reconnection interval by the jitter', () => {
+    const jitterPolicy = { ...policy, jitter: 0.5 };
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getReconnectionDelay(jitterPolicy, 1)).toBe(1000);
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getReconnectionDelay(jitterPolicy, 1)).toBe(3000);
+  });
+});
@@ -23,10 +23,44 @@ describe('ValidateOptions', () => {
       disableRtpTimeOut: false,
       allowMultipleIncomingCalls: false,
       closeProtection: false,
+      earlyMedia: false,
       maxAverageBitrate: 48000,
       dtmfOptions: {
         sendDtmfType: ['INBAND','OUTBAND']
-      }
+      },
+      tokenProvider: null,
+      registerExpires: 120,
+      reconnectionPolicy: {
+        minInterval: 2,
+        maxInterval: 20,
+        jitter: 0.2,
+        maxAttempts: 0,
+      },
+      loginTimeout: 30,
+      transport: null,
+      qualityThresholds: {
+        rtt: {
+          threshold: 400, windowSize: 3, raiseCount: 2, clearCount: 1,
+        },
+        jitter: {
+          threshold: 30, windowSize: 3, raiseCount: 2, clearCount: 1,
+        },
+        packetLoss: {
+          threshold: 0.02, opusThreshold: 0.1, windowSize: 3, raiseCount: 2, clearCount: 1,
+        },
+        mos: {
+          threshold: 3.5, windowSize: 3, raiseCount: 2, clearCount: 1,
+        },
+        audioLevel: { silenceDuration: 10000, windowSize: 3, clearCount: 1 },
+      },
+      statsSinks: [],
+      statsBeaconUrl: null,
+      autoAnswer: {
+        mode: 'off', callers: [], delay: 0, beep: false,
+      },
+      callWaitingTone: {
+        enabled: true, frequency: 440, volume: 0.3, cadence: [300], interval: 10000,
+      },
     };
   });
 
@@ -165,6 +199,207 @@ describe('ValidateOptions', () => {
     expect(validateOptions(inputOptions)).toStrictEqual(options);
   });
 
+  it('should validate invalid token provider', () => {
+    const inputOptions = { ...options };
+    inputOptions.tokenProvider = 'token';
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should pass valid token provider', () => {
+    const inputOptions = { ...options };
+    inputOptions.tokenProvider = () => Promise.resolve('token');
+    expect(validateOptions(inputOptions)).toStrictEqual(inputOptions);
+  });
+
+  it('should validate invalid transport', () => {
+    const inputOptions = { ...options };
+    inputOptions.transport = { url: 'wss://mock.sip.server', send: () => true };
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should pass valid transport', () => {
+    const inputOptions = { ...options };
+    inputOptions.transport = {
+      via_transport: 'WSS',
+      url: 'wss://mock.sip.server',
+      sip_uri: 'sip:mock.sip.server;transport=ws',
+      connect: () => {},
+      disconnect: () => {},
+      send: () => true,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(inputOptions);
+  });
+
+  it('should validate register expiry out of range', () => {
+    const inputOptions = { ...options };
+    inputOptions.registerExpires = 10;
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should validate invalid login timeout', () => {
+    const inputOptions = { ...options };
+    inputOptions.loginTimeout = -1;
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should validate invalid reconnection policy', () => {
+    const inputOptions = { ...options };
+    inputOptions.reconnectionPolicy = 'backoff';
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should replace invalid reconnection policy values with defaults', () => {
+    const inputOptions = { ...options };
+    inputOptions.reconnectionPolicy = {
+      minInterval: 5,
+      maxInterval: 60,
+      jitter: 2,
+      maxAttempts: '10',
+      interval: 3,
+    };
+    const expected = { ...options };
+    expected.reconnectionPolicy = {
+      minInterval: 5,
+      maxInterval: 60,
+      jitter: 0.2,
+      maxAttempts: 0,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(expected);
+  });
+
+  it('should not allow reconnection min interval greater than max interval', () => {
+    const inputOptions = { ...options };
+    inputOptions.reconnectionPolicy = { minInterval: 30, maxInterval: 10 };
+    const expected = { ...options };
+    expected.reconnectionPolicy = {
+      minInterval: 30,
+      maxInterval: 30,
+      jitter: 0.2,
+      maxAttempts: 0,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(expected);
+  });
+
+  it('should pass valid registration and reconnection options', () => {
+    const inputOptions = { ...options };
+    inputOptions.registerExpires = 600;
+    inputOptions.loginTimeout = 0;
+    inputOptions.reconnectionPolicy = {
+      minInterval: 1,
+      maxInterval: 30,
+      jitter: 0,
+      maxAttempts: 5,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(inputOptions);
+  });
+
+  it('should validate invalid quality thresholds', () => {
+    const inputOptions = { ...options };
+    inputOptions.qualityThresholds = 'strict';
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should replace invalid quality threshold values with defaults', () => {
+    const inputOptions = { ...options };
+    inputOptions.qualityThresholds = {
+      rtt: { threshold: -5, windowSize: 5, raiseCount: 3 },
+      jitter: 'high',
+      mos: { threshold: 3 },
+      packetLoss: { opusThreshold: 0.2, window: 2 },
+      video: { threshold: 1 },
+    };
+    const expected = { ...options };
+    expected.qualityThresholds = {
+      ...options.qualityThresholds,
+      rtt: {
+        threshold: 400, windowSize: 5, raiseCount: 3, clearCount: 1,
+      },
+      mos: {
+        threshold: 3, windowSize: 3, raiseCount: 2, clearCount: 1,
+      },
+      packetLoss: {
+        threshold: 0.02, opusThreshold: 0.2, windowSize: 3, raiseCount: 2, clearCount: 1,
+      },
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(expected);
+  });
+
+  it('should use default windows when quality threshold windows are inconsistent', () => {
+    const inputOptions = { ...options };
+    inputOptions.qualityThresholds = {
+      jitter: { threshold: 50, windowSize: 2, raiseCount: 3 },
+      // needs 4 samples which do not fit in the window
+      audioLevel: { silenceDuration: 20000 },
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should pass valid quality thresholds', () => {
+    const inputOptions = { ...options };
+    inputOptions.qualityThresholds = {
+      ...options.qualityThresholds,
+      jitter: {
+        threshold: 50, windowSize: 5, raiseCount: 4, clearCount: 0,
+      },
+      audioLevel: { silenceDuration: 20000, windowSize: 6, clearCount: 2 },
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(inputOptions);
+  });
+
+  it('should validate invalid stats sinks', () => {
+    const inputOptions = { ...options };
+    inputOptions.statsSinks = 'console';
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+  });
+
+  it('should ignore stats sinks without onEvent or onRtpStats', () => {
+    const inputOptions = { ...options };
+    const sink = { onEvent: () => {} };
+    const statsOnlySink = { onRtpStats: () => {} };
+    inputOptions.statsSinks = [sink, { send: () => {} }, null, statsOnlySink];
+    expect(validateOptions(inputOptions).statsSinks).toStrictEqual([sink, statsOnlySink]);
+  });
+
+  it('should validate the stats beacon url', () => {
+    const inputOptions = { ...options };
+    inputOptions.statsBeaconUrl = 'http://example.com/stats';
+    expect(validateOptions(inputOptions)).toStrictEqual(options);
+    inputOptions.statsBeaconUrl = 'https://example.com/stats';
+    expect(validateOptions(inputOptions)).toStrictEqual(inputOptions);
+  });
+
+  it('should pass valid auto answer policy', () => {
+    const inputOptions = { ...options };
+    inputOptions.autoAnswer = {
+      mode: 'caller', callers: ['pager', /^intercom-/], delay: 500, beep: true,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(inputOptions);
+  });
+
+  it('should replace invalid auto answer policy values with defaults', () => {
+    const inputOptions = { ...options };
+    inputOptions.autoAnswer = {
+      mode: 'sometimes', callers: [1234], delay: -1, beep: true, ring: false,
+    };
+    const expected = { ...options };
+    expected.autoAnswer = {
+      mode: 'off', callers: [], delay: 0, beep: true,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(expected);
+  });
+
+  it('should replace invalid call waiting tone values with defaults', () => {
+    const inputOptions = { ...options };
+    inputOptions.callWaitingTone = {
+      enabled: 'yes', volume: 2, cadence: [300, 200, 300], interval: 500,
+    };
+    const expected = { ...options };
+    expected.callWaitingTone = {
+      enabled: true, frequency: 440, volume: 0.3, cadence: [300, 200, 300], interval: 800,
+    };
+    expect(validateOptions(inputOptions)).toStrictEqual(expected);
+  });
+
   it('should pass valid client region', () => {
     const inputOptions = { ...options };
     inputOptions.clientRegion = 'asia';
@@ -0,0 +1,106 @@
+import { runPreflightTest } from '../../../lib/utils/preflight';
+import { mockWebRTC, RTCPeerConnection } from '../../mock/RTCPeerConnection';
+import { AudioContext, setAnalyserData } from '../../mock/AudioContext';
+
+const loopbackStats = new Map<string, any>([
+  ['pair', {
+    type: 'candidate-pair', nominated: true, currentRoundTripTime: 0.02,
+  }],
+  ['inbound', {
+    type: 'inbound-rtp', kind: 'audio', jitter: 0.004, packetsLost: 1, packetsReceived: 99,
+  }],
+]);
+
+describe('PreflightTest', () => {
+  let client: any;
+
+  beforeAll(() => {
+    mockWebRTC();
+    (window as any).AudioContext = AudioContext;
+  });
+
+  beforeEach(() => {
+    client = {
+      options: {},
+      remoteView: null,
+      _currentSession: null,
+      emit: jest.fn(),
+    };
+    RTCPeerConnection.candidates = [
+      'candidate:1 1 udp 2122260223 192.168.1.2 50000 typ host generation 0',
+      'candidate:2 1 udp 1686052607 203.0.113.5 50000 typ srflx raddr 192.168.1.2 rport 50000',
+    ];
+    setAnalyserData([-100, -100, -100, -100, -42]);
+    jest.spyOn(RTCPeerConnection.prototype, 'getStats')
+      .mockImplementation(() => Promise.resolve(loopbackStats));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report every check as passed on a healthy setup', async () => {
+    const report = await runPreflightTest.call(client, { duration: 0.3 });
+    expect(report.passed).toBe(true);
+    expect(report.microphone).toStrictEqual({
+      status: 'pass', deviceLabel: null, audioLevel: -42,
+    });
+    expect(report.speaker).toStrictEqual({ status: 'pass', deviceId: null });
+    expect(report.network).toStrictEqual({ status: 'pass', candidateTypes: ['host', 'srflx'] });
+    expect(report.quality.status).toBe('pass');
+    expect(report.quality.rtt).toBe(20);
+    expect(report.quality.jitter).toBe(4);
+    expect(report.quality.packetLoss).toBe(0.01);
+    expect(report.quality.mos).toBeGreaterThan(4);
+  });
+
+  it('should emit progress for each step', async () => {
+    await runPreflightTest.call(client, { duration: 0.3 });
+    const steps = client.emit.mock.calls
+      .filter(([event]) => event === 'onPreflightProgress')
+      .map(([, progress]) => `${progress.step}:${progress.status}`);
+    expect(steps).toEqual(expect.arrayContaining([
+      'microphone:started', 'microphone:completed',
+      'speaker:started', 'speaker:completed',
+      'network:started', 'network:completed',
+      'quality:started', 'quality:completed',
+    ]));
+    expect(steps.length).toBe(8);
+  });
+
+  it('should warn when the STUN servers are not reachable', async () => {
+    RTCPeerConnection.candidates = [
+      'candidate:1 1 udp 2122260223 192.168.1.2 50000 typ host generation 0',
+    ];
+    const report = await runPreflightTest.call(client, { duration: 0.3 });
+    expect(report.network.status).toBe('warn');
+    expect(report.passed).toBe(true);
+  });
+
+  it('should fail the microphone check when there is no audio', async () => {
+    setAnalyserData([-100, -100, -100, -100, -100]);
+    const report = await runPreflightTest.call(client, { duration: 0.3 });
+    expect(report.microphone.status).toBe('fail');
+    expect(report.passed).toBe(false);
+  });
+
+  it('should skip the quality check when the microphone is not accessible', async () => {
+    const denied = new Error('Permission denied');
+    denied.name = 'NotAllowedError';
+    jest.spyOn(navigator.mediaDevices, 'getUserMedia').mockImplementation(
+      () => Promise.reject(denied),
+    );
+    const report = await runPreflightTest.call(client, { duration: 0.3 });
+    expect(report.microphone).toStrictEqual({
+      status: 'fail', deviceLabel: null, audioLevel: null, error: 'NotAllowedError',
+    });
+    expect(report.quality.status).toBe('skipped');
+    expect(report.passed).toBe(false);
+  });
+
+  it('should not run during a call', async () => {
+    client._currentSession = {};
+    await expect(runPreflightTest.call(client)).rejects
+      .toThrow('Cannot run preflight test during a call');
+  });
+});
@@ -0,0 +1,37 @@
+import { decodeAccessToken, isAccessTokenExpired } from '../../../lib/utils/token';
+
+describe('AccessToken', () => {
+  const encode = (obj: any) => btoa(JSON.stringify(obj))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const getToken = (payload: any) => `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+
+  it('should decode endpoint username and expiry from the token', () => {
+    const token = getToken({ sub: 'testuser', exp: 1700000000 });
+    expect(decodeAccessToken(token)).toStrictEqual({
+      userName: 'testuser',
+      expiresAt: 1700000000000,
+    });
+  });
+
+  it('should return null when the token is not a JWT', () => {
+    expect(decodeAccessToken('token')).toBeNull();
+    expect(decodeAccessToken(null as any)).toBeNull();
+  });
+
+  it('should return null when the payload cannot be decoded', () => {
+    expect(decodeAccessToken('header.%%%.signature')).toBeNull();
+  });
+
+  it('should return null when sub or exp claims are missing', () => {
+    expect(decodeAccessToken(getToken({ exp: 1700000000 }))).toBeNull();
+    expect(decodeAccessToken(getToken({ sub: 'testuser' }))).toBeNull();
+  });
+
+  it('should check if the token is expired', () => {
+    const now = new Date().getTime();
+    expect(isAccessTokenExpired({ userName: 'testuser', expiresAt: now - 1000 })).toBeTruthy();
+    expect(isAccessTokenExpired({ userName: 'testuser', expiresAt: now + 60000 })).toBeFalsy();
+  });
+});